@@ -0,0 +1,61 @@
+// Regenerates src/data/airports.ts and src/data/airlines.ts from the OpenFlights
+// data published on npm as @nwpr/airport-codes and airline-codes:
+//
+//   npm pack @nwpr/airport-codes airline-codes
+//   tar xzf nwpr-airport-codes-*.tgz && mv package airport-codes
+//   tar xzf airline-codes-*.tgz && mv package airline-codes
+//   node scripts/build_reference_data.mjs airport-codes/dist/airports.json airline-codes/airlines.json
+//
+// Only airports with an IATA code and active airlines with an IATA or ICAO code are kept.
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const [airportsPath, airlinesPath] = process.argv.slice(2);
+if (!airportsPath || !airlinesPath) {
+  console.error('Usage: node scripts/build_reference_data.mjs <airports.json> <airlines.json>');
+  process.exit(1);
+}
+
+const NONE = '\\N';
+const text = value => (value && value !== NONE ? String(value).trim() : '');
+const round = value => Math.round(value * 10000) / 10000;
+const row = values => `  ${JSON.stringify(values)},`;
+
+const HEADER = `// Generated by scripts/build_reference_data.mjs from OpenFlights (https://openflights.org/data),
+// available under the Open Database License. Do not edit by hand.`;
+
+// Several airports can share an IATA code in OpenFlights; the first (lowest id) is the one in use
+const seenAirports = new Set();
+const airports = JSON.parse(readFileSync(airportsPath, 'utf8'))
+  .filter(a => /^[A-Z]{3}$/.test(text(a.iata)))
+  .sort((a, b) => a.iata.localeCompare(b.iata) || a.id - b.id)
+  .filter(a => !seenAirports.has(a.iata) && seenAirports.add(a.iata))
+  .map(a => row([a.iata, /^[A-Z0-9]{4}$/.test(text(a.icao)) ? a.icao : '', text(a.name), text(a.city), text(a.country), round(a.latitude), round(a.longitude), text(a.tz)]));
+
+writeFileSync('src/data/airports.ts', `${HEADER}
+
+// [IATA, ICAO, name, city, country, latitude, longitude, IANA timezone]; blank when unknown
+export type AirportRow = [string, string, string, string, string, number, number, string];
+
+export const AIRPORT_ROWS: AirportRow[] = [
+${airports.join('\n')}
+];
+`);
+
+const airlines = JSON.parse(readFileSync(airlinesPath, 'utf8'))
+  .filter(a => a.active === 'Y')
+  .map(a => ({ ...a, iata: /^[A-Z0-9]{2}$/.test(text(a.iata)) ? a.iata : '', icao: /^[A-Z]{3}$/.test(text(a.icao)) ? a.icao : '' }))
+  .filter(a => (a.iata || a.icao) && !/\bcargo\b/i.test(a.name))
+  .sort((a, b) => (a.iata || a.icao).localeCompare(b.iata || b.icao) || Number(a.id) - Number(b.id))
+  .map(a => row([a.iata, a.icao, text(a.name), text(a.country), text(a.callsign)]));
+
+writeFileSync('src/data/airlines.ts', `${HEADER}
+
+// [IATA, ICAO, name, country, callsign]; blank when unknown
+export type AirlineRow = [string, string, string, string, string];
+
+export const AIRLINE_ROWS: AirlineRow[] = [
+${airlines.join('\n')}
+];
+`);
+
+console.log(`${airports.length} airports, ${airlines.length} airlines`);
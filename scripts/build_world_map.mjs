@@ -0,0 +1,53 @@
+// Regenerates src/data/world_land.ts from Natural Earth's 1:110m land polygons,
+// published on npm as world-atlas:
+//
+//   npm pack world-atlas && tar xzf world-atlas-*.tgz && mv package world-atlas
+//   node scripts/build_world_map.mjs world-atlas/land-110m.json
+//
+// The output is one SVG path in equirectangular coordinates: x = longitude + 180, y = 90 - latitude.
+import { readFileSync, writeFileSync } from 'node:fs';
+
+const [landPath] = process.argv.slice(2);
+if (!landPath) {
+  console.error('Usage: node scripts/build_world_map.mjs <land-110m.json>');
+  process.exit(1);
+}
+
+const topology = JSON.parse(readFileSync(landPath, 'utf8'));
+const { scale: [kx, ky], translate: [dx, dy] } = topology.transform;
+
+// TopoJSON arcs are delta-encoded integers; decode them to [lon, lat]
+const arcs = topology.arcs.map(arc => {
+  let x = 0, y = 0;
+  return arc.map(([ax, ay]) => [(x += ax) * kx + dx, (y += ay) * ky + dy]);
+});
+
+// A negative index walks arc ~i backwards; consecutive arcs share their end point
+function ring(indexes) {
+  const points = [];
+  for (const i of indexes) {
+    const arc = i < 0 ? [...arcs[~i]].reverse() : arcs[i];
+    points.push(...(points.length ? arc.slice(1) : arc));
+  }
+  return points;
+}
+
+const fmt = n => String(Math.round(n * 10) / 10);
+const polygons = topology.objects.land.geometries.flatMap(g => (g.type === 'Polygon' ? [g.arcs] : g.arcs));
+const path = polygons
+  .flatMap(rings => rings.map(ring))
+  .map(points => points
+    .map(([lon, lat]) => `${fmt(lon + 180)} ${fmt(90 - lat)}`)
+    .filter((point, i, all) => i === 0 || point !== all[i - 1])
+    .join('L'))
+  .map(d => `M${d}Z`)
+  .join('');
+
+writeFileSync('src/data/world_land.ts', `// Generated by scripts/build_world_map.mjs from Natural Earth 1:110m land (public domain). Do not edit by hand.
+
+// Land outlines as an SVG path in a 360 x 180 equirectangular frame: x = longitude + 180, y = 90 - latitude
+export const WORLD_LAND_PATH =
+  '${path}';
+`);
+
+console.log(`${polygons.length} polygons, ${path.length} characters`);
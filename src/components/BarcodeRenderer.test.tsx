@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import BarcodeRenderer from './BarcodeRenderer';
+import { renderSvg, verifyRender } from '../lib/barcode_render';
+
+vi.mock('../lib/barcode_render', async importOriginal => ({
+  ...(await importOriginal<typeof import('../lib/barcode_render')>()),
+  renderSvg: vi.fn(),
+  renderCanvas: vi.fn(async () => document.createElement('canvas')),
+  verifyRender: vi.fn(),
+}));
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+describe('BarcodeRenderer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(renderSvg).mockResolvedValue('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+  });
+
+  it('renders the scan and shows that it reads back', async () => {
+    vi.mocked(verifyRender).mockResolvedValue({ ok: true, decoded: PASS, message: 'Reads back exactly with the scanner.' });
+    render(<BarcodeRenderer text={PASS} />);
+
+    expect(await screen.findByTestId('render-preview')).toBeDefined();
+    await waitFor(() => expect(screen.getByTestId('render-check').getAttribute('data-state')).toBe('ok'));
+    expect(renderSvg).toHaveBeenCalledWith(PASS, { format: 'pdf417', ecLevel: '5', moduleSize: 3 });
+  });
+
+  it('re-renders with the chosen format, error correction and module size', async () => {
+    vi.mocked(verifyRender).mockResolvedValue({ ok: true, message: 'ok' });
+    render(<BarcodeRenderer text={PASS} />);
+    await screen.findByTestId('render-preview');
+
+    fireEvent.change(screen.getByTestId('render-format'), { target: { value: 'qr_code' } });
+    fireEvent.change(screen.getByTestId('render-eclevel'), { target: { value: 'H' } });
+    fireEvent.change(screen.getByTestId('render-module-size'), { target: { value: '6' } });
+
+    await waitFor(() => expect(renderSvg).toHaveBeenLastCalledWith(PASS, { format: 'qr_code', ecLevel: 'H', moduleSize: 6 }));
+    // Settings that were replaced before the check ran are never decoded
+    await waitFor(() => expect(screen.getByTestId('render-check').getAttribute('data-state')).toBe('ok'));
+    expect(verifyRender).toHaveBeenCalledOnce();
+  });
+
+  it('renders pasted text and flags a mismatch', async () => {
+    vi.mocked(verifyRender).mockResolvedValue({ ok: false, decoded: 'M1DOE', message: 'The scanner read different text back.' });
+    render(<BarcodeRenderer />);
+    expect(screen.queryByTestId('render-preview')).toBeNull();
+
+    fireEvent.change(screen.getByTestId('render-text'), { target: { value: PASS } });
+    await waitFor(() => expect(screen.getByTestId('render-check').getAttribute('data-state')).toBe('failed'));
+    expect(screen.getByText('M1DOE')).toBeDefined();
+  });
+});
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import {
+  RenderFormat,
+  RenderSettings,
+  RenderCheck,
+  RENDER_FORMATS,
+  MIN_MODULE_SIZE,
+  MAX_MODULE_SIZE,
+  defaultRenderSettings,
+  renderSvg,
+  renderCanvas,
+  canvasToPng,
+  verifyRender,
+} from '../lib/barcode_render';
+import { downloadBlob } from '../lib/download';
+
+interface BarcodeRendererProps {
+  text?: string; // The current scan; can be replaced by pasting or typing
+}
+
+// Typing and dragging the size slider change the barcode many times a second; only check where it settles
+const CHECK_DELAY_MS = 300;
+
+type Check = { kind: 'checking' } | ({ kind: 'done' } & RenderCheck) | { kind: 'unavailable' };
+
+// Prints just the barcode from a throwaway frame, so the rest of the page stays off the paper
+function printSvg(svg: string) {
+  const frame = document.createElement('iframe');
+  frame.style.display = 'none';
+  frame.srcdoc = `<!doctype html><html><body style="margin:0;display:flex;justify-content:center;padding:2cm">${svg}</body></html>`;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
+
+export default function BarcodeRenderer({ text: initialText = '' }: BarcodeRendererProps) {
+  const [text, setText] = useState(initialText);
+  const [settings, setSettings] = useState<RenderSettings>(defaultRenderSettings);
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [check, setCheck] = useState<Check | null>(null);
+
+  // A new scan replaces whatever was being rendered
+  useEffect(() => {
+    setText(initialText);
+  }, [initialText]);
+
+  useEffect(() => {
+    if (!text) {
+      setSvg(null);
+      setCheck(null);
+      return;
+    }
+    let cancelled = false;
+    setCheck({ kind: 'checking' });
+
+    (async () => {
+      try {
+        const rendered = await renderSvg(text, settings);
+        if (cancelled) return;
+        setSvg(rendered);
+        setError(null);
+      } catch (e: any) {
+        if (cancelled) return;
+        setSvg(null);
+        setCheck(null);
+        setError(e.message || 'This text cannot be encoded with these settings.');
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, CHECK_DELAY_MS));
+      if (cancelled) return;
+      try {
+        const result = await verifyRender(await renderCanvas(text, settings), text);
+        if (!cancelled) setCheck({ kind: 'done', ...result });
+      } catch {
+        if (!cancelled) setCheck({ kind: 'unavailable' });
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [text, settings]);
+
+  const setFormat = (format: RenderFormat) => setSettings(s => ({ ...defaultRenderSettings(format), moduleSize: s.moduleSize }));
+  const baseName = `boarding-pass-${RENDER_FORMATS[settings.format].bcid}`;
+
+  const downloadPng = async () => {
+    try {
+      downloadBlob(`${baseName}.png`, await canvasToPng(await renderCanvas(text, settings)));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div data-testid="barcode-renderer" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-brand-accent">Barcode Generator</h3>
+        <p className="text-sm text-gray-400">Turn a BCBP string back into a barcode, e.g. to test gate readers.</p>
+      </div>
+
+      <textarea
+        data-testid="render-text"
+        aria-label="Text to encode"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        rows={3}
+        spellCheck={false}
+        placeholder="Paste a BCBP string"
+        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Format</span>
+          <select
+            data-testid="render-format"
+            value={settings.format}
+            onChange={e => setFormat(e.target.value as RenderFormat)}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            {(Object.keys(RENDER_FORMATS) as RenderFormat[]).map(f => <option key={f} value={f}>{RENDER_FORMATS[f].label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Error Correction</span>
+          <select
+            data-testid="render-eclevel"
+            value={settings.ecLevel}
+            onChange={e => setSettings(s => ({ ...s, ecLevel: e.target.value }))}
+            className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            {RENDER_FORMATS[settings.format].ecLevels.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Module Size · {settings.moduleSize}px</span>
+          <input
+            data-testid="render-module-size"
+            type="range"
+            min={MIN_MODULE_SIZE}
+            max={MAX_MODULE_SIZE}
+            value={settings.moduleSize}
+            onChange={e => setSettings(s => ({ ...s, moduleSize: Number(e.target.value) }))}
+            className="accent-brand-accent"
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      {svg && (
+        <>
+          {/* bwip-js output: an SVG of rectangles, with no text from the input */}
+          <div data-testid="render-preview" className="bg-white rounded-lg p-4 flex justify-center overflow-auto" dangerouslySetInnerHTML={{ __html: svg }} />
+
+          {check && (
+            <p
+              data-testid="render-check"
+              data-state={check.kind === 'done' ? (check.ok ? 'ok' : 'failed') : check.kind}
+              className={`text-sm ${check.kind === 'done' ? (check.ok ? 'text-brand-green' : 'text-red-300') : 'text-gray-400'}`}
+            >
+              {check.kind === 'checking' && 'Checking it reads back…'}
+              {check.kind === 'unavailable' && "Couldn't run the decoder in this browser to check the output."}
+              {check.kind === 'done' && `${check.ok ? '✓' : '✗'} ${check.message}`}
+              {check.kind === 'done' && !check.ok && check.decoded && <span className="block font-mono text-xs break-all">{check.decoded}</span>}
+            </p>
+          )}
+
+          <div className="flex gap-2 text-xs">
+            <button onClick={() => downloadBlob(`${baseName}.svg`, new Blob([svg], { type: 'image/svg+xml' }))} className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+              Download SVG
+            </button>
+            <button onClick={downloadPng} className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+              Download PNG
+            </button>
+            <button onClick={() => printSvg(svg)} className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800">
+              Print
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
-import { describe, it, expect } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import BcbpViewer from './BcbpViewer';
-import { ParsedBcbp, Segment } from '../lib/bcbp';
-import React from 'react';
+import { ParsedBcbp, Segment, Diagnostic, parseBCBP } from '../lib/bcbp';
+import { airlineDecoders, EXAMPLE_BA_DECODER } from '../lib/airline_decoders';
+import { generateTestKeyPair, signBCBP } from '../lib/bcbp_security';
+import { BCBP_KEYRING } from '../data/bcbp_keyring';
+import React, { useState } from 'react';
 
 // Mock data
 const mockLeg = {
@@ -25,9 +28,9 @@ const mockParsedData: ParsedBcbp = {
   passengerName: 'DOE/JOHN',
   electronicTicket: 'E',
   legs: [mockLeg],
-  baggageTags: ['0123456789'],
+  baggageTags: [{ raw: '0123456789' }],
   version: 1,
-  passengerDescription: 'Adult'
+  passengerDescription: '0'
 };
 
 const mockSegments: Segment[] = [
@@ -48,7 +51,7 @@ describe('BcbpViewer', () => {
   it('renders conditional data (baggage)', () => {
     render(<BcbpViewer parsed={mockParsedData} segments={mockSegments} />);
     expect(screen.getByText('Baggage Allowance')).toBeDefined();
-    expect(screen.getByText('20K')).toBeDefined();
+    expect(screen.getByText('20 kg')).toBeDefined();
     expect(screen.getByText('Bag Tags')).toBeDefined();
     expect(screen.getByText('0123456789')).toBeDefined();
   });
@@ -65,4 +68,188 @@ describe('BcbpViewer', () => {
     // Our Viewer renders {seg.raw}.
     expect(screen.getByText('DOE/JOHN')).toBeDefined();
   });
+
+  it('underlines segments that have diagnostics in the Raw Data tab', () => {
+    const diagnostics: Diagnostic[] = [
+      { severity: 'error', code: 'INVALID_FORMAT_CODE', message: 'Format code is "X", expected "M"', start: 0, end: 1 },
+    ];
+    render(<BcbpViewer parsed={mockParsedData} segments={mockSegments} diagnostics={diagnostics} />);
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+
+    const formatSeg = screen.getByText('M');
+    expect(formatSeg).toHaveAttribute('data-diagnostic', 'error');
+    expect(screen.getByText('DOE/JOHN')).not.toHaveAttribute('data-diagnostic');
+
+    fireEvent.mouseEnter(formatSeg);
+    expect(screen.getByText(/expected "M"/)).toBeDefined();
+  });
+
+  it('shows the flight date as a calendar date relative to today', () => {
+    render(<BcbpViewer parsed={mockParsedData} segments={mockSegments} referenceDate={new Date(2024, 3, 5, 12)} />);
+    // Day 100 of 2024 (leap year) is 9 April
+    expect(screen.getByText('Tue, 9 Apr 2024')).toBeDefined();
+    expect(screen.getByText('in 4 days')).toBeDefined();
+    expect(screen.queryByTestId('date-warning')).toBeNull();
+  });
+
+  it('warns when the flight date is before the issuance date', () => {
+    render(<BcbpViewer parsed={{ ...mockParsedData, issuanceDate: 4105 }} segments={mockSegments} referenceDate={new Date(2024, 3, 20, 12)} />);
+    expect(screen.getByTestId('date-warning')).toBeDefined();
+  });
+
+  it('shows the signature status when the raw string is provided', async () => {
+    render(<BcbpViewer raw="M1DOE/JOHN            E1234567LHRJFKBA 0123 100Y012A0001 100" parsed={mockParsedData} segments={mockSegments} />);
+    const status = await screen.findByTestId('security-status');
+    expect(status).toHaveAttribute('data-status', 'unsigned');
+  });
+
+  it('marks unparsed characters, shows a ruler and pins a clicked segment', () => {
+    const raw = 'M1DOE/JOHN            ??';
+    render(<BcbpViewer raw={raw} parsed={mockParsedData} segments={mockSegments} />);
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+
+    // '1' (offset 1) and the trailing '??' aren't covered by any segment
+    const unparsed = screen.getByText('??');
+    expect(unparsed).toHaveAttribute('data-section', 'unparsed');
+    expect(screen.getByTestId('unparsed-summary')).toHaveTextContent('3 characters');
+    expect(screen.getByText(/^0 +· +10/)).toBeDefined();
+
+    fireEvent.click(screen.getByText('M'));
+    expect(screen.getByText('Format Code')).toBeDefined();
+    fireEvent.mouseEnter(unparsed);
+    fireEvent.mouseLeave(unparsed);
+    // Still pinned after hovering elsewhere
+    expect(screen.getByText('Format Code')).toBeDefined();
+    expect(screen.getByText(/Unpin/)).toBeDefined();
+  });
+
+  it('shows decoded airline data with decoder labels', () => {
+    // The example decoder isn't registered by default; the card looks labels up by decoder id
+    const get = vi.spyOn(airlineDecoders, 'get').mockImplementation(id => (id === EXAMPLE_BA_DECODER.id ? EXAMPLE_BA_DECODER : undefined));
+    const leg = { ...mockLeg, airlineData: { decoder: 'example-ba', fields: { boardingGroup: 3, loungeAccess: true, loyaltyTier: 'G' } } };
+    render(<BcbpViewer parsed={{ ...mockParsedData, legs: [leg] }} segments={mockSegments} />);
+    expect(screen.getByTestId('airline-data')).toHaveTextContent('British Airways (example)');
+    expect(screen.getByText('Lounge Access')).toBeDefined();
+    expect(screen.getByText('Gold')).toBeDefined();
+    get.mockRestore();
+  });
+
+  it('shows the ticket number and flags a different ticketing airline', () => {
+    const leg = { ...mockLeg, airlineNumericCode: '220', serialNumber: '2123456789' };
+    render(<BcbpViewer parsed={{ ...mockParsedData, legs: [leg] }} segments={mockSegments} />);
+    expect(screen.getByText('220 2123456789 6')).toBeDefined();
+    expect(screen.getByText('Lufthansa (220)')).toBeDefined();
+    expect(screen.getByTestId('ticket-warning')).toHaveTextContent('not the operating carrier');
+  });
+
+  it('describes coded fields in details and the raw inspector', () => {
+    const parsed = { ...mockParsedData, checkInSource: 'W', legs: [{ ...mockLeg, selecteeIndicator: '3' }] };
+    const segments: Segment[] = [
+      ...mockSegments,
+      { label: 'Source of Check-in', value: 'W', raw: 'W', start: 22, end: 23, section: 'conditional_unique', description: 'Web' },
+    ];
+    render(<BcbpViewer parsed={parsed} segments={segments} />);
+    expect(screen.getByText('Adult')).toBeDefined();
+    expect(screen.getByText('Web')).toBeDefined();
+    expect(screen.getByText('Known passenger (TSA PreCheck)')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+    fireEvent.mouseEnter(screen.getByText('W'));
+    expect(screen.getByTestId('segment-description')).toHaveTextContent('Web');
+  });
+
+  it('lists exposed fields and shows the redacted pass on request', () => {
+    const raw = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+    const result = parseBCBP(raw);
+    render(<BcbpViewer raw={raw} parsed={result.data!} segments={result.segments} diagnostics={result.diagnostics} />);
+
+    const exposures = screen.getAllByTestId('exposure');
+    expect(exposures.map(e => e.textContent)).toEqual([
+      expect.stringContaining('Passenger Name · DOE/JOHN'),
+      expect.stringContaining('Booking Reference (PNR) · 1234567'),
+    ]);
+    expect(screen.getByTestId('redacted-raw')).toHaveTextContent('M1XXXXXXXXXXXXXXXXXXXXEXXXXXXXLHRJFK');
+
+    fireEvent.click(screen.getByTestId('redact-toggle'));
+    expect(screen.getByTestId('redact-toggle')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.queryByText('DOE/JOHN')).toBeNull();
+    expect(screen.getAllByTestId('exposure')[0]).toHaveTextContent('X'.repeat(20));
+
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+    fireEvent.mouseEnter(screen.getByText('X'.repeat(7)));
+    expect(screen.getByText('PNR Code')).toBeDefined();
+  });
+
+  it('keeps verifying the scanned signature while the pass is redacted', async () => {
+    const keys = await generateTestKeyPair('BA');
+    const raw = await signBCBP('M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100', keys.privateKey);
+    const result = parseBCBP(raw);
+    BCBP_KEYRING.push(keys.entry);
+    try {
+      render(<BcbpViewer raw={raw} parsed={result.data!} segments={result.segments} diagnostics={result.diagnostics} />);
+      expect(await screen.findByTestId('security-status')).toHaveAttribute('data-status', 'verified');
+
+      fireEvent.click(screen.getByTestId('redact-toggle'));
+      expect(screen.queryByText('DOE/JOHN')).toBeNull();
+      await waitFor(() => expect(screen.getByTestId('security-status')).toHaveAttribute('data-status', 'verified'));
+    } finally {
+      BCBP_KEYRING.splice(BCBP_KEYRING.indexOf(keys.entry), 1);
+    }
+  });
+
+  it('re-parses edits from the raw inspector without shifting later fields', () => {
+    const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+    function Editable() {
+        const [raw, setRaw] = useState(PASS);
+        const result = parseBCBP(raw);
+        return <BcbpViewer raw={raw} parsed={result.data!} segments={result.segments} diagnostics={result.diagnostics} onEdit={setRaw} />;
+    }
+    render(<Editable />);
+
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+    fireEvent.click(screen.getByTestId('raw-edit-toggle'));
+    const editor = screen.getByTestId('raw-editor') as HTMLTextAreaElement;
+
+    // Typing "C" at the start of the departure airport
+    const typed = PASS.slice(0, 30) + 'C' + PASS.slice(30);
+    fireEvent.change(editor, { target: { value: typed, selectionStart: 31, selectionEnd: 31 } });
+    expect(editor.value).toBe(PASS.replace('LHRJFK', 'CHRJFK'));
+    expect(editor.selectionStart).toBe(31);
+    expect(screen.getByText('Departure Airport')).toBeDefined();
+
+    fireEvent.click(screen.getByText('Parsed Data'));
+    expect(screen.getAllByText('CHR').length).toBeGreaterThan(0);
+    expect(screen.getAllByText('JFK').length).toBeGreaterThan(0);
+  });
+
+  it('lays out every leg of a multi-leg pass and switches the details between them', () => {
+    const second = { ...mockLeg, pnrCode: 'XYZ789', departureAirport: 'JFK', arrivalAirport: 'SFO', flightNumber: '1521', seatNumber: '03C', dateOfFlight: 99 };
+    const parsed = { ...mockParsedData, numberOfLegs: 2, legs: [mockLeg, second] };
+    render(<BcbpViewer parsed={parsed} referenceDate={new Date('2026-04-01T12:00:00Z')} />);
+
+    const legs = screen.getAllByTestId('itinerary-leg');
+    expect(legs.map(l => l.textContent)).toEqual([
+      expect.stringContaining('LHR → JFK'),
+      expect.stringContaining('JFK → SFO'),
+    ]);
+    expect(screen.getByTestId('itinerary-connection')).toHaveTextContent('Connection at JFK');
+    expect(screen.getAllByTestId('itinerary-issue').map(i => i.getAttribute('data-code'))).toEqual(['DATE_BACKWARDS', 'PNR_MISMATCH']);
+
+    fireEvent.click(legs[1]);
+    expect(legs[1]).toHaveAttribute('aria-current', 'step');
+    expect(screen.getByText('2 of 2')).toBeDefined();
+    expect(screen.getAllByText('03C').length).toBeGreaterThan(1);
+  });
+
+  it('scores the pass in the plausibility panel', () => {
+    const { rerender } = render(<BcbpViewer parsed={mockParsedData} segments={mockSegments} referenceDate={new Date(2024, 3, 5, 12)} />);
+    expect(screen.getByTestId('plausibility-panel')).toHaveAttribute('data-level', 'low');
+    expect(screen.getByText('Nothing out of the ordinary.')).toBeDefined();
+
+    const suspicious = { ...mockParsedData, passengerName: 'JOHN DOE', legs: [{ ...mockLeg, arrivalAirport: 'LHR' }] };
+    rerender(<BcbpViewer parsed={suspicious} segments={mockSegments} referenceDate={new Date(2024, 3, 5, 12)} />);
+    expect(screen.getByTestId('plausibility-panel')).toHaveAttribute('data-level', 'high');
+    expect(screen.getByTestId('plausibility-score')).toHaveTextContent('High risk · 60/100');
+    expect(screen.getAllByTestId('plausibility-finding').map(f => f.getAttribute('data-code'))).toEqual(['SAME_AIRPORTS', 'NAME_FORMAT']);
+  });
 });
@@ -1,28 +1,79 @@
-import { ParsedBcbp, Segment } from '../lib/bcbp';
-import { AIRLINE_NAMES, AIRPORT_NAMES } from '../data/bcbp_reference';
-import { useState } from 'react';
+import { ParsedBcbp, Segment, Diagnostic, completeSegments } from '../lib/bcbp';
+import { resolveBcbpDates, formatResolvedDate, describeRelativeDays, ResolvedDate } from '../lib/bcbp_dates';
+import SecurityStatus from './SecurityStatus';
+import ExportPanel from './ExportPanel';
+import RouteMap from './RouteMap';
+import ItineraryTimeline from './ItineraryTimeline';
+import { AirlineDataParsed } from '../lib/bcbp_airline';
+import { airlineDecoders } from '../lib/airline_decoders';
+import { getLegTicket, formatTicketNumber } from '../lib/bcbp_ticket';
+import { describeCode } from '../lib/bcbp_codes';
+import { findAirline, findAirport, useReferenceData } from '../lib/reference_data';
+import { buildItinerary } from '../lib/bcbp_itinerary';
+import { checkPlausibility, PlausibilityReport, PlausibilitySeverity } from '../lib/bcbp_plausibility';
+import { exposureReport, redactPass, Exposure, RedactedPass } from '../lib/bcbp_redact';
+import { applyRawEdit, segmentAt } from '../lib/bcbp_edit';
+import { ChangeEvent, useLayoutEffect, useMemo, useRef, useState } from 'react';
 
 interface BcbpViewerProps {
+  raw?: string; // The scanner input the segments refer to; enables signature verification
   parsed: ParsedBcbp;
   segments?: Segment[];
+  diagnostics?: Diagnostic[];
+  referenceDate?: Date; // "Today" for date resolution; defaults to now
+  onEdit?: (raw: string) => void; // Makes the raw inspector editable; the caller re-parses
 }
 
 // Helpers
-const getAirlineName = (code: string) => AIRLINE_NAMES[code] || code;
+const getAirlineName = (code: string) => {
+  const airline = findAirline(code);
+  if (!airline) return code;
+  return airline.icao && airline.icao !== code.trim() ? `${airline.name} (${airline.icao})` : airline.name;
+};
 const getAirportName = (code: string) => {
-  const airport = AIRPORT_NAMES[code];
+  const airport = findAirport(code);
   return airport ? `${airport.name} (${airport.city})` : code;
 };
-const getCity = (code: string) => {
-    const airport = AIRPORT_NAMES[code];
-    return airport ? airport.city : code;
+const getCity = (code: string) => findAirport(code)?.city || code;
+
+const CONFIDENCE_NOTE: Record<ResolvedDate['confidence'], string> = {
+  high: '',
+  medium: 'Year inferred',
+  low: 'Year uncertain',
 };
 
-export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
+export default function BcbpViewer({ referenceDate, onEdit, ...scanned }: BcbpViewerProps) {
   const [activeLegIndex, setActiveLegIndex] = useState(0);
   const [activeTab, setActiveTab] = useState<'parsed' | 'raw'>('parsed');
+  const [redacted, setRedacted] = useState(false);
+  // Names start from the curated list and fill in once the full one has loaded
+  const referenceData = useReferenceData();
+
+  const redaction = useMemo(() => {
+    try {
+      return redactPass(scanned.parsed, scanned.raw);
+    } catch {
+      return null;
+    }
+  }, [scanned.parsed, scanned.raw]);
+
+  // With redaction on, every tab shows the masked pass instead of the scan
+  const { raw, parsed, segments, diagnostics } = redacted && redaction ? redaction : scanned;
+  const exposures = useMemo(() => exposureReport(parsed), [parsed]);
 
-  const leg = parsed.legs[activeLegIndex];
+  const today = useMemo(() => referenceDate || new Date(), [referenceDate]);
+  const dates = useMemo(() => resolveBcbpDates(parsed, today), [parsed, today]);
+  const itinerary = useMemo(() => buildItinerary(parsed, today), [parsed, today]);
+  // Checked on the scan itself; a redacted name or PNR would read as tampering.
+  // Re-run when the full reference lists arrive, since codes are only checked against them
+  const plausibility = useMemo(
+    () => checkPlausibility(scanned.parsed, { reference: today, referenceData }),
+    [scanned.parsed, today, referenceData],
+  );
+
+  // An edit can remove legs, so fall back to the last one left
+  const legIndex = Math.min(activeLegIndex, parsed.legs.length - 1);
+  const leg = parsed.legs[legIndex];
   if (!leg) return <div className="text-red-400">No flight leg data found.</div>;
 
   const fromCity = getCity(leg.departureAirport);
@@ -30,6 +81,9 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
   const fromAirport = getAirportName(leg.departureAirport);
   const toAirport = getAirportName(leg.arrivalAirport);
   const airline = getAirlineName(leg.operatingCarrier);
+  const legDate = dates.legs[legIndex];
+  const flightDate = legDate?.flight;
+  const ticket = getLegTicket(leg);
 
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -48,10 +102,23 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
           >
               Raw Data Inspector
           </button>
+          {redaction && (
+              <button
+                 data-testid="redact-toggle"
+                 aria-pressed={redacted}
+                 onClick={() => setRedacted(r => !r)}
+                 className={`ml-auto text-xs px-3 py-1 rounded border transition-colors ${redacted ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+              >
+                  🕶 {redacted ? 'Showing redacted' : 'Redact'}
+              </button>
+          )}
       </div>
 
       {activeTab === 'parsed' ? (
         <>
+          {/* 0. Every leg in order; picks the one the rest of the page shows */}
+          {parsed.legs.length > 1 && <ItineraryTimeline itinerary={itinerary} activeIndex={legIndex} onSelect={setActiveLegIndex} />}
+
           {/* 1. Summary Card */}
           <div className="bg-gradient-to-br from-brand-green/20 to-brand-dark border border-brand-green/30 rounded-2xl p-6 shadow-2xl relative overflow-hidden">
 
@@ -60,22 +127,12 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
                <div>
                  <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Passenger</p>
                  <p className="text-xl text-white font-medium truncate max-w-[250px]">{parsed.passengerName}</p>
-                 {parsed.passengerDescription && <p className="text-xs text-gray-500">{parsed.passengerDescription === 'A' ? 'Adult' : parsed.passengerDescription}</p>}
+                 {parsed.passengerDescription?.trim() && <p className="text-xs text-gray-500">{describeCode('passengerDescription', parsed.passengerDescription)}</p>}
                </div>
-               {parsed.numberOfLegs > 1 && (
+               {parsed.legs.length > 1 && (
                    <div className="text-right">
                        <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Leg</p>
-                       <div className="flex gap-2">
-                           {parsed.legs.map((_, idx) => (
-                               <button
-                                   key={idx}
-                                   onClick={() => setActiveLegIndex(idx)}
-                                   className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold transition-colors ${idx === activeLegIndex ? 'bg-brand-accent text-brand-dark' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
-                               >
-                                   {idx + 1}
-                               </button>
-                           ))}
-                       </div>
+                       <p className="text-lg text-white font-bold">{legIndex + 1} of {parsed.legs.length}</p>
                    </div>
                )}
             </div>
@@ -95,6 +152,8 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
                </div>
             </div>
 
+            <RouteMap legs={parsed.legs.map(l => ({ from: l.departureAirport, to: l.arrivalAirport }))} activeIndex={legIndex} />
+
             {/* Details Grid */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div>
@@ -103,7 +162,17 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
               </div>
                <div>
                 <p className="text-xs text-brand-accent uppercase tracking-wider mb-1">Date</p>
-                <p className="text-lg font-bold text-white">{leg.dateOfFlight ? `Day ${leg.dateOfFlight}` : 'N/A'}</p>
+                {flightDate ? (
+                  <>
+                    <p className="text-lg font-bold text-white">{formatResolvedDate(flightDate.date)}</p>
+                    <p className="text-xs text-gray-400" title={`Day ${flightDate.dayOfYear} of the year`}>
+                      {describeRelativeDays(flightDate.date, today)}
+                      {CONFIDENCE_NOTE[flightDate.confidence] && <span className="text-yellow-400"> · {CONFIDENCE_NOTE[flightDate.confidence]}</span>}
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-lg font-bold text-white">{leg.dateOfFlight ? `Day ${leg.dateOfFlight}` : 'N/A'}</p>
+                )}
               </div>
               <div>
                 <p className="text-xs text-brand-accent uppercase tracking-wider mb-1">Seat</p>
@@ -115,6 +184,12 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
               </div>
             </div>
 
+            {legDate?.beforeIssuance && (
+                <div data-testid="date-warning" className="mt-4 bg-yellow-900/40 border border-yellow-600 text-yellow-200 text-sm p-3 rounded-lg">
+                    ⚠ The flight date is before the boarding pass issuance date ({dates.issuance && formatResolvedDate(dates.issuance.date)}).
+                </div>
+            )}
+
             {leg.passengerStatus && (
                 <div className="mt-4 pt-4 border-t border-white/10">
                     <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Status</p>
@@ -123,19 +198,19 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
             )}
 
             {/* Baggage Info */}
-            {(leg.freeBaggageAllowance || (parsed.baggageTags && parsed.baggageTags.length > 0)) && (
+            {(leg.freeBaggageAllowance?.trim() || (parsed.baggageTags && parsed.baggageTags.length > 0)) && (
                 <div className="mt-4 pt-4 border-t border-white/10 grid grid-cols-2 gap-4">
-                     {leg.freeBaggageAllowance && (
+                     {leg.freeBaggageAllowance?.trim() && (
                          <div>
                              <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Baggage Allowance</p>
-                             <p className="text-sm text-white font-bold">{leg.freeBaggageAllowance}</p>
+                             <p className="text-sm text-white font-bold">{describeCode('freeBaggageAllowance', leg.freeBaggageAllowance)}</p>
                          </div>
                      )}
                      {parsed.baggageTags && parsed.baggageTags.length > 0 && (
                          <div>
                              <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Bag Tags</p>
                              <div className="flex flex-col text-sm text-white">
-                                 {parsed.baggageTags.map(tag => <span key={tag}>{tag}</span>)}
+                                 {parsed.baggageTags.map((tag, idx) => <span key={`${tag.raw}-${idx}`} title={tag.kind === 'baggageTag' ? 'License plate' : 'Non-consecutive tag'}>{tag.raw}</span>)}
                              </div>
                          </div>
                      )}
@@ -143,35 +218,166 @@ export default function BcbpViewer({ parsed, segments }: BcbpViewerProps) {
             )}
           </div>
 
-          {/* 2. Detailed Info */}
+          {/* 2. Security */}
+          {/* Verified against the scan itself; masking changes the signed bytes */}
+          {scanned.raw && (
+            <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+              <h3 className="text-xl font-semibold mb-4 text-brand-accent">Security Data</h3>
+              <SecurityStatus raw={scanned.raw} parsed={scanned.parsed} segments={scanned.segments} />
+            </div>
+          )}
+
+          {/* 3. Plausibility */}
+          <PlausibilityPanel report={plausibility} />
+
+          {/* 4. Detailed Info */}
           <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
             <h3 className="text-xl font-semibold mb-6 text-brand-accent">Flight Details</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <DetailRow label="Operating Carrier" value={airline} />
+                <DetailRow label="Alliance" value={findAirline(leg.operatingCarrier)?.alliance || null} />
                 <DetailRow label="Flight Number" value={leg.flightNumber} />
                 <DetailRow label="Departure" value={fromAirport} />
                 <DetailRow label="Arrival" value={toAirport} />
                 <DetailRow label="PNR (Booking Ref)" value={leg.pnrCode} />
                 <DetailRow label="Sequence #" value={leg.sequenceNumber} />
                 <DetailRow label="Marketing Carrier" value={leg.marketingCarrier || 'N/A'} />
-                <DetailRow label="Doc Type" value={parsed.documentType || null} />
+                <DetailRow label="Doc Type" value={describeCode('documentType', parsed.documentType) || null} />
                 <DetailRow label="Issuer" value={parsed.issuer || null} />
-                <DetailRow label="Date of Issue" value={parsed.issuanceDate ? String(parsed.issuanceDate) : null} />
+                <DetailRow label="Date of Issue" value={dates.issuance ? formatResolvedDate(dates.issuance.date) : parsed.issuanceDate ? String(parsed.issuanceDate) : null} />
+                <DetailRow label="Checked In Via" value={describeCode('checkInSource', parsed.checkInSource) || null} />
+                <DetailRow label="Issued Via" value={describeCode('boardingPassIssuanceSource', parsed.boardingPassIssuanceSource) || null} />
+                <DetailRow label="Selectee" value={describeCode('selecteeIndicator', leg.selecteeIndicator) || null} />
+                <DetailRow label="Document Check" value={describeCode('internationalDocVerification', leg.internationalDocVerification) || null} />
+                <DetailRow label="ID/AD" value={describeCode('idIndicator', leg.idIndicator) || null} />
                 <DetailRow label="Fast Track" value={leg.fastTrack ? 'Yes' : 'No'} />
                 <DetailRow label="FF Number" value={leg.frequentFlyerNumber || null} />
                 <DetailRow label="FF Airline" value={leg.frequentFlyerAirline || null} />
-                 {parsed.gender && <DetailRow label="Gender (V8)" value={parsed.gender === 'X' ? 'Unspecified' : parsed.gender === 'U' ? 'Undisclosed' : parsed.gender} />}
+                <DetailRow label="Ticket Number" value={ticket ? formatTicketNumber(ticket) : null} />
+                <DetailRow label="Ticketing Airline" value={ticket ? (ticket.ticketingAirlineName ? `${ticket.ticketingAirlineName} (${ticket.airlineCode})` : ticket.airlineCode) : null} />
+                 {parsed.gender && <DetailRow label="Gender (V8)" value={describeCode('gender', parsed.gender) || null} />}
             </div>
+
+            {ticket && (ticket.issues.length > 0 || ticket.differsFrom.length > 0) && (
+                <div data-testid="ticket-warning" className="mt-6 bg-yellow-900/40 border border-yellow-600 text-yellow-200 text-sm p-3 rounded-lg space-y-1">
+                    {ticket.issues.map(issue => <p key={issue}>⚠ {issue}</p>)}
+                    {ticket.differsFrom.length > 0 && (
+                        <p>ⓘ Ticketed by {ticket.ticketingAirlineName}, not the {ticket.differsFrom.join(' or ')} carrier.</p>
+                    )}
+                </div>
+            )}
           </div>
+
+          {/* 5. Airline-specific data */}
+          {leg.airlineData && <AirlineDataCard data={leg.airlineData} />}
+
+          {/* 6. Privacy */}
+          <PrivacyPanel exposures={exposures} redaction={redaction} />
+
+          {/* 7. Export */}
+          <ExportPanel raw={raw} parsed={parsed} segments={segments} legIndex={legIndex} referenceDate={today} />
         </>
       ) : (
-        <RawDataViewer segments={segments} />
+        // The redacted pass is a preview, not something to edit
+        <RawDataViewer raw={raw} segments={segments} diagnostics={diagnostics} onEdit={redacted ? undefined : onEdit} />
       )}
 
     </div>
   );
 }
 
+function AirlineDataCard({ data }: { data: AirlineDataParsed }) {
+    const decoder = airlineDecoders.get(data.decoder);
+    return (
+        <div data-testid="airline-data" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+            <h3 className="text-xl font-semibold mb-1 text-brand-accent">Airline Data</h3>
+            <p className="text-xs text-gray-500 mb-6">Decoded by {decoder?.name || data.decoder}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {Object.entries(data.fields).map(([key, value]) => {
+                    const def = decoder?.fields.find(f => f.key === key);
+                    const display = def?.describe ? def.describe(value) : String(value);
+                    return <DetailRow key={key} label={def?.label || key} value={display || null} />;
+                })}
+            </div>
+        </div>
+    );
+}
+
+function PrivacyPanel({ exposures, redaction }: { exposures: Exposure[]; redaction: RedactedPass | null }) {
+    return (
+        <div data-testid="privacy-panel" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+            <h3 className="text-xl font-semibold mb-2 text-brand-accent">Privacy</h3>
+            <p className="text-sm text-gray-400 mb-4">
+                A photo of this pass shares everything in its barcode, not just what's printed on it.
+            </p>
+            {exposures.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No personal fields found in this barcode.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {exposures.map(e => (
+                        <li key={e.field} data-testid="exposure">
+                            <p className="text-sm text-white"><span className="font-medium">{e.label}</span> · {e.values.join(', ')}</p>
+                            <p className="text-xs text-gray-400">{e.exposes}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {redaction && exposures.length > 0 && (
+                <div className="mt-6">
+                    <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Redacted barcode data</p>
+                    <pre data-testid="redacted-raw" className="font-mono text-sm text-white bg-black/30 p-3 rounded-lg whitespace-pre-wrap break-all">{redaction.raw}</pre>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Same layout and length, so it still decodes; the fields above are masked. Any signature on it will no longer verify.
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
+
+const SEVERITY_STYLES: Record<PlausibilitySeverity, string> = {
+    high: 'border-red-500/60 text-red-200',
+    medium: 'border-yellow-500/60 text-yellow-200',
+    low: 'border-blue-500/60 text-blue-200',
+};
+
+const RISK_LABELS: Record<PlausibilityReport['level'], { label: string; className: string }> = {
+    low: { label: 'Low risk', className: 'text-brand-green' },
+    medium: { label: 'Medium risk', className: 'text-yellow-300' },
+    high: { label: 'High risk', className: 'text-red-400' },
+};
+
+function PlausibilityPanel({ report }: { report: PlausibilityReport }) {
+    const risk = RISK_LABELS[report.level];
+    return (
+        <div data-testid="plausibility-panel" data-level={report.level} className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+            <div className="flex items-baseline justify-between mb-2">
+                <h3 className="text-xl font-semibold text-brand-accent">Plausibility</h3>
+                <p data-testid="plausibility-score" className={`text-sm font-semibold ${risk.className}`}>{risk.label} · {report.score}/100</p>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+                Fields that are each valid on their own but don't add up, as on a pass that was edited or made up.
+            </p>
+            {report.unchecked.length > 0 && (
+                <p data-testid="plausibility-unchecked" className="text-sm text-yellow-300/80 mb-4">
+                    Airport and airline codes aren't checked yet; the full reference lists are still loading.
+                </p>
+            )}
+            {report.findings.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">Nothing out of the ordinary.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {report.findings.map((f, idx) => (
+                        <li key={`${f.code}-${idx}`} data-testid="plausibility-finding" data-code={f.code} className={`bg-gray-800/50 border-l-4 ${SEVERITY_STYLES[f.severity]} px-4 py-2 rounded text-sm`}>
+                            {f.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
 function DetailRow({ label, value }: { label: string, value: string | null }) {
     if (!value || value === 'N/A' || value === 'No') return null; // Only show 'Yes' for boolean? Or show both?
     // User probably wants to see populated fields.
@@ -184,75 +390,207 @@ function DetailRow({ label, value }: { label: string, value: string | null }) {
     );
 }
 
-function RawDataViewer({ segments }: { segments?: Segment[] }) {
+// Diagnostics whose character range touches the segment
+const diagnosticsFor = (seg: Segment, diagnostics: Diagnostic[]) =>
+    diagnostics.filter(d => d.start < seg.end && d.end > seg.start);
+
+const UNDERLINE_CLASSES: Record<Diagnostic['severity'], string> = {
+    error: 'underline decoration-wavy decoration-red-500',
+    warning: 'underline decoration-wavy decoration-yellow-500',
+    info: 'underline decoration-dotted decoration-blue-400',
+};
+
+const SECTION_STYLES: Record<Segment['section'], { text: string; swatch: string; label: string }> = {
+    header: { text: 'text-blue-400', swatch: 'bg-blue-400/20 border-blue-400', label: 'Header' },
+    leg_mandatory: { text: 'text-green-400', swatch: 'bg-green-400/20 border-green-400', label: 'Mandatory Leg' },
+    conditional_unique: { text: 'text-purple-400', swatch: 'bg-purple-400/20 border-purple-400', label: 'Unique Data' },
+    conditional_leg: { text: 'text-yellow-400', swatch: 'bg-yellow-400/20 border-yellow-400', label: 'Conditional Leg' },
+    security: { text: 'text-red-400', swatch: 'bg-red-400/20 border-red-400', label: 'Security' },
+    wrapper: { text: 'text-gray-500 line-through', swatch: 'bg-gray-500/20 border-gray-500', label: 'Scanner Wrapper' },
+    unparsed: { text: 'text-pink-200 bg-pink-900/50 outline outline-1 outline-dashed outline-pink-500', swatch: 'bg-pink-900/50 border-pink-500 border-dashed', label: 'Unparsed' },
+    overlap: { text: 'text-orange-200 bg-orange-700/60', swatch: 'bg-orange-700/60 border-orange-400', label: 'Overlap' },
+};
+
+// Characters per line in the inspector; the ruler and row offsets are based on it
+const ROW_LENGTH = 40;
+
+const sameSegment = (a: Segment | null, b: Segment | null) =>
+    !!a && !!b && a.start === b.start && a.end === b.end && a.label === b.label;
+
+// "0         10        20   ..." with tick marks every 5 characters
+function buildRuler(length: number): string {
+    const chars = Array.from({ length }, (_, i): string => (i % 5 === 0 ? '·' : ' '));
+    for (let i = 0; i < length; i += 10) {
+        String(i).split('').forEach((digit, j) => { if (i + j < length) chars[i + j] = digit; });
+    }
+    return chars.join('');
+}
+
+interface RowPiece {
+    seg: Segment;
+    text: string;
+}
+
+// Splits segments at row boundaries so each row can be rendered on its own line
+function buildRows(segments: Segment[]): { start: number; pieces: RowPiece[] }[] {
+    const rows: { start: number; pieces: RowPiece[] }[] = [];
+    for (const seg of segments) {
+        for (let pos = seg.start; pos < seg.end;) {
+            const rowIdx = Math.floor(pos / ROW_LENGTH);
+            const rowEnd = Math.min(seg.end, (rowIdx + 1) * ROW_LENGTH);
+            if (!rows[rowIdx]) rows[rowIdx] = { start: rowIdx * ROW_LENGTH, pieces: [] };
+            rows[rowIdx].pieces.push({ seg, text: seg.raw.substring(pos - seg.start, rowEnd - seg.start) });
+            pos = rowEnd;
+        }
+    }
+    return rows.filter(Boolean);
+}
+
+interface RawDataViewerProps {
+    raw?: string;
+    segments?: Segment[];
+    diagnostics?: Diagnostic[];
+    onEdit?: (raw: string) => void;
+}
+
+function RawDataViewer({ raw, segments, diagnostics = [], onEdit }: RawDataViewerProps) {
     const [hoveredSegment, setHoveredSegment] = useState<Segment | null>(null);
+    const [pinnedSegment, setPinnedSegment] = useState<Segment | null>(null);
+    const [editing, setEditing] = useState(false);
+    const [caret, setCaret] = useState<number | null>(null);
+    const editorRef = useRef<HTMLTextAreaElement>(null);
+    const pendingCaret = useRef<number | null>(null);
+
+    // The re-parsed string comes back through props; put the caret where the edit left it
+    useLayoutEffect(() => {
+        if (pendingCaret.current === null || !editorRef.current) return;
+        editorRef.current.setSelectionRange(pendingCaret.current, pendingCaret.current);
+        pendingCaret.current = null;
+    }, [raw]);
 
-    if (!segments || segments.length === 0) {
+    // An editable pass stays open even when emptied, so the text can be typed back in
+    if (!segments || (segments.length === 0 && !onEdit)) {
         return <div className="text-gray-400 p-4">No segment data available.</div>;
     }
 
-    // Sort segments by start index
-    const sortedSegments = [...segments].sort((a, b) => a.start - b.start);
+    // With the raw input we can account for every character, even if the segments don't
+    const covered = raw ? completeSegments(segments, raw) : [...segments].sort((a, b) => a.start - b.start);
+    const rows = buildRows(covered);
+    const ruler = buildRuler(ROW_LENGTH);
+    const canEdit = !!onEdit && raw !== undefined;
+    const caretSegment = canEdit && editing && caret !== null ? segmentAt(covered, caret) || null : null;
+    const activeSegment = hoveredSegment || caretSegment || pinnedSegment;
+    const unparsedCount = covered.filter(s => s.section === 'unparsed').reduce((sum, s) => sum + (s.end - s.start), 0);
 
-    // Determine full length
-    const fullLength = sortedSegments.reduce((max, s) => Math.max(max, s.end), 0);
+    const togglePin = (seg: Segment) => setPinnedSegment(current => (sameSegment(current, seg) ? null : seg));
 
-    // Build visualization
-    // We iterate through all characters 0..fullLength
-    // But better: Just render the segments.
-    // If there are gaps (unlikely for BCBP except maybe between mandatory and conditional?), handle them.
-    // Our SegmentExtractor captures everything except skipped padding?
-    // Let's iterate segments and render spans.
+    const edit = (e: ChangeEvent<HTMLTextAreaElement>) => {
+        const next = applyRawEdit(raw!, e.target.value, e.target.selectionEnd, segments);
+        pendingCaret.current = next.cursor;
+        setCaret(next.cursor);
+        onEdit!(next.text);
+    };
 
     return (
         <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 shadow-xl overflow-x-auto">
-             <div className="mb-4 h-12">
-                 {hoveredSegment ? (
+             <div className="mb-4 min-h-12">
+                 {activeSegment ? (
                      <div className="animate-in fade-in duration-200">
-                         <p className="text-xs text-brand-accent uppercase tracking-wider">{hoveredSegment.label}</p>
-                         <p className="text-white font-mono text-lg">{hoveredSegment.value || <span className="text-gray-600 italic">Empty</span>}</p>
-                         <p className="text-xs text-gray-500 font-mono mt-1">Raw: "{hoveredSegment.raw}" [{hoveredSegment.start}-{hoveredSegment.end}] ({hoveredSegment.section})</p>
+                         <div className="flex items-center gap-2">
+                             <p className="text-xs text-brand-accent uppercase tracking-wider">{activeSegment.label}</p>
+                             {!hoveredSegment && !caretSegment && (
+                                 <button onClick={() => setPinnedSegment(null)} className="text-[10px] uppercase tracking-wider text-gray-400 border border-gray-600 rounded px-1.5 hover:text-white">
+                                     📌 Pinned · Unpin
+                                 </button>
+                             )}
+                         </div>
+                         <p className="text-white font-mono text-lg">{activeSegment.value || <span className="text-gray-600 italic">Empty</span>}</p>
+                         {activeSegment.description && <p data-testid="segment-description" className="text-sm text-gray-300">{activeSegment.description}</p>}
+                         <p className="text-xs text-gray-500 font-mono mt-1">Raw: "{activeSegment.raw}" [{activeSegment.start}-{activeSegment.end}] ({activeSegment.section})</p>
+                         {diagnosticsFor(activeSegment, diagnostics).map((d, i) => (
+                             <p key={i} className={`text-xs mt-1 ${d.severity === 'error' ? 'text-red-400' : d.severity === 'warning' ? 'text-yellow-400' : 'text-blue-300'}`}>⚠ {d.message}</p>
+                         ))}
                      </div>
                  ) : (
-                     <p className="text-gray-500 text-sm italic pt-2">Hover over the barcode data to inspect fields.</p>
+                     <p className="text-gray-500 text-sm italic pt-2">Hover over the barcode data to inspect fields, click to pin one.</p>
                  )}
              </div>
 
-             <div className="font-mono text-lg break-all leading-8 tracking-wide bg-black/30 p-4 rounded-lg">
-                 {sortedSegments.map((seg, idx) => {
-                     let colorClass = 'text-gray-300';
-                     let bgClass = '';
-
-                     switch(seg.section) {
-                         case 'header': colorClass = 'text-blue-400'; break;
-                         case 'leg_mandatory': colorClass = 'text-green-400'; break;
-                         case 'conditional_unique': colorClass = 'text-purple-400'; break;
-                         case 'conditional_leg': colorClass = 'text-yellow-400'; break;
-                         case 'security': colorClass = 'text-red-400'; break;
-                     }
-
-                     // Helper to check if gap exists before this segment
-                     // (Omitted for simplicity, assuming contiguous or spaces)
-
-                     return (
-                         <span
-                             key={`${seg.start}-${idx}`}
-                             className={`${colorClass} hover:bg-white/10 hover:text-white cursor-help transition-colors duration-150 px-0.5 rounded ${bgClass}`}
-                             onMouseEnter={() => setHoveredSegment(seg)}
-                             onMouseLeave={() => setHoveredSegment(null)}
-                         >
-                             {seg.raw}
+             {canEdit && (
+                 <div className="mb-4">
+                     <button
+                         data-testid="raw-edit-toggle"
+                         aria-pressed={editing}
+                         onClick={() => setEditing(e => !e)}
+                         className={`text-xs px-3 py-1 rounded border transition-colors ${editing ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+                     >
+                         ✎ {editing ? 'Done editing' : 'Edit'}
+                     </button>
+                     {editing && (
+                         <>
+                             <textarea
+                                 ref={editorRef}
+                                 data-testid="raw-editor"
+                                 aria-label="Raw barcode data"
+                                 value={raw}
+                                 onChange={edit}
+                                 onSelect={e => setCaret(e.currentTarget.selectionStart)}
+                                 onBlur={() => setCaret(null)}
+                                 rows={Math.max(2, Math.ceil(raw!.length / ROW_LENGTH))}
+                                 spellCheck={false}
+                                 className="mt-2 w-full bg-black/30 border border-gray-600 rounded-lg p-3 font-mono text-lg text-white break-all"
+                             />
+                             <p className="text-xs text-gray-500 mt-1">Typing inside a field overwrites it, so the fields after it stay in place.</p>
+                         </>
+                     )}
+                 </div>
+             )}
+
+             {unparsedCount > 0 && (
+                 <p data-testid="unparsed-summary" className="mb-2 text-xs text-pink-300">
+                     {unparsedCount} character{unparsedCount === 1 ? '' : 's'} not understood by the parser.
+                 </p>
+             )}
+
+             <div className="font-mono text-lg leading-8 tracking-wide bg-black/30 p-4 rounded-lg w-fit">
+                 <div className="flex text-xs text-gray-600 select-none" aria-hidden="true">
+                     <span className="w-12 shrink-0"></span>
+                     <span className="whitespace-pre text-lg leading-4">{ruler}</span>
+                 </div>
+                 {rows.map(row => (
+                     <div key={row.start} className="flex">
+                         <span className="w-12 shrink-0 text-right pr-3 text-xs leading-8 text-gray-600 select-none">{row.start}</span>
+                         <span className="whitespace-pre">
+                             {row.pieces.map(({ seg, text }, idx) => {
+                                 // Underline with the most severe diagnostic that touches this segment
+                                 const issues = diagnosticsFor(seg, diagnostics);
+                                 const worst = issues.find(d => d.severity === 'error') || issues.find(d => d.severity === 'warning') || issues[0];
+                                 const underline = worst ? UNDERLINE_CLASSES[worst.severity] : '';
+                                 const isActive = sameSegment(seg, hoveredSegment) || sameSegment(seg, caretSegment) || sameSegment(seg, pinnedSegment);
+
+                                 return (
+                                     <span
+                                         key={`${seg.start}-${idx}`}
+                                         className={`${SECTION_STYLES[seg.section].text} ${underline} ${isActive ? 'bg-white/15 text-white' : ''} ${sameSegment(seg, pinnedSegment) ? 'ring-1 ring-brand-accent' : ''} cursor-pointer transition-colors duration-150 rounded`}
+                                         onMouseEnter={() => setHoveredSegment(seg)}
+                                         onMouseLeave={() => setHoveredSegment(null)}
+                                         onClick={() => togglePin(seg)}
+                                         data-section={seg.section}
+                                         data-diagnostic={worst?.severity}
+                                     >
+                                         {text}
+                                     </span>
+                                 );
+                             })}
                          </span>
-                     );
-                 })}
+                     </div>
+                 ))}
              </div>
 
              <div className="mt-4 flex gap-4 text-xs text-gray-400 flex-wrap">
-                 <div className="flex items-center gap-1"><div className="w-3 h-3 bg-blue-400/20 border border-blue-400 rounded"></div> Header</div>
-                 <div className="flex items-center gap-1"><div className="w-3 h-3 bg-green-400/20 border border-green-400 rounded"></div> Mandatory Leg</div>
-                 <div className="flex items-center gap-1"><div className="w-3 h-3 bg-purple-400/20 border border-purple-400 rounded"></div> Unique Data</div>
-                 <div className="flex items-center gap-1"><div className="w-3 h-3 bg-yellow-400/20 border border-yellow-400 rounded"></div> Conditional Leg</div>
-                 <div className="flex items-center gap-1"><div className="w-3 h-3 bg-red-400/20 border border-red-400 rounded"></div> Security</div>
+                 {Object.values(SECTION_STYLES).map(style => (
+                     <div key={style.label} className="flex items-center gap-1"><div className={`w-3 h-3 border rounded ${style.swatch}`}></div> {style.label}</div>
+                 ))}
              </div>
         </div>
     );
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import ExportPanel from './ExportPanel';
+import { parseBCBP } from '../lib/bcbp';
+
+const RAW = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const result = parseBCBP(RAW);
+const { createObjectURL, revokeObjectURL } = URL;
+
+describe('ExportPanel', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  it('copies an export to the clipboard', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    render(<ExportPanel parsed={result.data!} segments={result.segments} referenceDate={new Date(2026, 0, 1)} />);
+    fireEvent.click(screen.getByTestId('export-copy-csv'));
+
+    await waitFor(() => expect(screen.getByTestId('export-copy-csv')).toHaveTextContent('Copied'));
+    expect(writeText.mock.calls[0][0]).toContain('DOE/JOHN,1234567,2026-04-17,British Airways,BA123,LHR,JFK');
+  });
+
+  it('downloads an export as a file', async () => {
+    const createUrl = vi.fn(() => 'blob:export');
+    const revokeUrl = vi.fn();
+    Object.assign(URL, { createObjectURL: createUrl, revokeObjectURL: revokeUrl });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('boarding-pass-BA123-2026-04-17.ics');
+      expect(this.href).toBe('blob:export');
+    });
+
+    render(<ExportPanel parsed={result.data!} referenceDate={new Date(2026, 0, 1)} />);
+    fireEvent.click(screen.getByTestId('export-download-ics'));
+
+    expect(click).toHaveBeenCalledOnce();
+    expect((createUrl.mock.calls[0] as unknown as [Blob])[0].type).toBe('text/calendar');
+    // The URL outlives the click so the browser can still fetch it
+    expect(revokeUrl).not.toHaveBeenCalled();
+    await waitFor(() => expect(revokeUrl).toHaveBeenCalledWith('blob:export'));
+  });
+});
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { ParsedBcbp, Segment } from '../lib/bcbp';
+import { ExportFormat, buildExport, exportBaseName } from '../lib/bcbp_export';
+import { buildPassJson, buildPassBundle } from '../lib/pkpass';
+import { downloadBlob } from '../lib/download';
+
+interface ExportPanelProps {
+  raw?: string;
+  parsed: ParsedBcbp;
+  segments?: Segment[];
+  legIndex?: number; // The leg a Wallet pass is built for
+  referenceDate?: Date;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string; note: string }> = [
+  { format: 'json', label: 'JSON', note: 'Everything decoded, including the raw segments' },
+  { format: 'csv', label: 'CSV', note: 'One row per flight, for expense and travel reports' },
+  { format: 'ics', label: 'Calendar (.ics)', note: 'One all-day event per flight' },
+];
+
+const download = (filename: string, mimeType: string, content: string | Uint8Array<ArrayBuffer>) =>
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+
+export default function ExportPanel({ raw, parsed, segments, legIndex = 0, referenceDate }: ExportPanelProps) {
+  const [copied, setCopied] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Generated on demand, so the exported timestamps are the moment of the click
+  const build = (format: ExportFormat) => buildExport(format, parsed, segments, referenceDate);
+
+  const copy = async (format: ExportFormat) => {
+    try {
+      await navigator.clipboard.writeText(build(format).content);
+      setCopied(format);
+      setError(null);
+    } catch {
+      setError('Copying is blocked in this browser; use Download instead.');
+    }
+  };
+
+  const downloadWalletBundle = async () => {
+    try {
+      const bundle = await buildPassBundle(buildPassJson(parsed, raw, legIndex, undefined, referenceDate));
+      download(`${exportBaseName(parsed, referenceDate)}.pass.zip`, 'application/zip', bundle);
+      setError(null);
+    } catch (e: any) {
+      setError(e.message || 'Could not build the Wallet bundle.');
+    }
+  };
+
+  return (
+    <div data-testid="export-panel" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+      <h3 className="text-xl font-semibold mb-4 text-brand-accent">Export</h3>
+      <ul className="space-y-3">
+        {FORMATS.map(({ format, label, note }) => (
+          <li key={format} className="flex items-center justify-between gap-4">
+            <div>
+              <p className="text-sm text-white font-medium">{label}</p>
+              <p className="text-xs text-gray-400">{note}</p>
+            </div>
+            <div className="flex gap-2 shrink-0 text-xs">
+              <button
+                data-testid={`export-download-${format}`}
+                onClick={() => {
+                  const file = build(format);
+                  download(file.filename, file.mimeType, file.content);
+                }}
+                className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800"
+              >
+                Download
+              </button>
+              <button
+                data-testid={`export-copy-${format}`}
+                onClick={() => copy(format)}
+                className="px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800"
+              >
+                {copied === format ? 'Copied ✓' : 'Copy'}
+              </button>
+            </div>
+          </li>
+        ))}
+        <li className="flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm text-white font-medium">Wallet bundle (.zip)</p>
+            <p className="text-xs text-gray-400">Unsigned pass.json, icons and manifest for this flight, ready for signing</p>
+          </div>
+          <button
+            data-testid="export-download-pkpass"
+            onClick={downloadWalletBundle}
+            className="shrink-0 text-xs px-3 py-1 rounded border border-gray-600 text-gray-300 hover:bg-gray-800"
+          >
+            Download
+          </button>
+        </li>
+      </ul>
+      {error && <p className="text-xs text-red-300 mt-3">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import FileScanner from './FileScanner';
+import { extractBarcodesFromFile } from '../lib/barcode_files';
+import { zipSync, strToU8 } from 'fflate';
+
+vi.mock('../lib/barcode_files', () => ({
+  SUPPORTED_FILE_TYPES: ['image/png', 'application/pdf'],
+  extractBarcodesFromFile: vi.fn(),
+}));
+
+const PASS_A = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const PASS_B = 'M1DOE/JANE            E1234567LHRJFKBA 00123107Y012B00002100';
+
+const pdf = new File(['%PDF'], 'passes.pdf', { type: 'application/pdf' });
+
+describe('FileScanner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('passes a single code straight through', async () => {
+    vi.mocked(extractBarcodesFromFile).mockResolvedValue([{ text: PASS_A, fileName: 'passes.pdf', page: 1 }]);
+    const onScan = vi.fn();
+    render(<FileScanner onScan={onScan} />);
+
+    fireEvent.change(screen.getByTestId('file-input'), { target: { files: [pdf] } });
+    await waitFor(() => expect(onScan).toHaveBeenCalledWith(PASS_A));
+  });
+
+  it('lets the user pick when a file holds several passes', async () => {
+    vi.mocked(extractBarcodesFromFile).mockResolvedValue([
+      { text: PASS_A, fileName: 'passes.pdf', page: 1, format: 'PDF_417' },
+      { text: PASS_B, fileName: 'passes.pdf', page: 2, format: 'PDF_417' },
+    ]);
+    const onScan = vi.fn();
+    render(<FileScanner onScan={onScan} />);
+
+    fireEvent.drop(screen.getByTestId('file-drop'), { dataTransfer: { files: [pdf] } });
+    await screen.findByTestId('file-candidates');
+    expect(onScan).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText(/DOE\/JANE/));
+    expect(onScan).toHaveBeenCalledWith(PASS_B);
+    expect(screen.getByText('Page 2 · PDF_417')).toBeDefined();
+  });
+
+  it('reports files without barcodes', async () => {
+    vi.mocked(extractBarcodesFromFile).mockResolvedValue([]);
+    render(<FileScanner onScan={vi.fn()} />);
+
+    fireEvent.change(screen.getByTestId('file-input'), { target: { files: [pdf] } });
+    expect(await screen.findByText(/No PDF417, Aztec or QR code found/)).toBeDefined();
+  });
+
+  it('reads the barcode message and fields out of a Wallet pass', async () => {
+    const passJson = {
+      organizationName: 'British Airways',
+      barcodes: [{ format: 'PKBarcodeFormatAztec', message: PASS_A, messageEncoding: 'iso-8859-1' }],
+      boardingPass: { transitType: 'PKTransitTypeAir', headerFields: [{ key: 'gate', label: 'GATE', value: 'B32' }] },
+    };
+    const bytes = zipSync({ 'pass.json': strToU8(JSON.stringify(passJson)) });
+    // jsdom's File has no arrayBuffer()
+    const pkpass = Object.assign(new File([bytes], 'BoardingPass.pkpass'), { arrayBuffer: async () => bytes.buffer });
+    const onScan = vi.fn();
+    const onWalletPass = vi.fn();
+    render(<FileScanner onScan={onScan} onWalletPass={onWalletPass} />);
+
+    fireEvent.change(screen.getByTestId('file-input'), { target: { files: [pkpass] } });
+    await waitFor(() => expect(onScan).toHaveBeenCalledWith(PASS_A));
+    expect(onWalletPass.mock.calls[0][0].fields).toEqual([{ key: 'gate', label: 'GATE', value: 'B32', back: false }]);
+    expect(extractBarcodesFromFile).not.toHaveBeenCalled();
+  });
+});
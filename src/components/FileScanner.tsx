@@ -0,0 +1,124 @@
+import { useRef, useState, DragEvent } from 'react';
+import { extractBarcodesFromFile, FileBarcode, SUPPORTED_FILE_TYPES } from '../lib/barcode_files';
+import { parseBCBP } from '../lib/bcbp';
+import { isPkpassFile, readPkpass, scannerFormat, WalletPass, PKPASS_MIME_TYPE } from '../lib/pkpass';
+
+interface FileScannerProps {
+  onScan: (decodedText: string) => void;
+  onWalletPass?: (pass: WalletPass) => void; // Called for .pkpass files, before the barcode is scanned
+}
+
+type Status = { kind: 'idle' } | { kind: 'reading'; fileName: string } | { kind: 'error'; message: string };
+
+// One line summary of a decoded code, so passes in the same file can be told apart
+function describeCandidate(barcode: FileBarcode): string {
+  const result = parseBCBP(barcode.text);
+  const leg = result.data?.legs[0];
+  if (!result.success || !leg) return `${barcode.text.substring(0, 24)}…`;
+  return `${result.data!.passengerName} · ${leg.operatingCarrier} ${leg.flightNumber} ${leg.departureAirport}→${leg.arrivalAirport}`;
+}
+
+// Wallet passes carry the barcode message as text, so there's no image to decode
+async function readWalletFile(file: File): Promise<{ pass: WalletPass; found: FileBarcode[] }> {
+  const pass = readPkpass(await file.arrayBuffer());
+  const found = pass.barcodes.map(b => ({ text: b.message, format: scannerFormat(b.format), fileName: file.name }));
+  return { pass, found };
+}
+
+export default function FileScanner({ onScan, onWalletPass }: FileScannerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<Status>({ kind: 'idle' });
+  const [candidates, setCandidates] = useState<FileBarcode[]>([]);
+  const [dragging, setDragging] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setCandidates([]);
+    setStatus({ kind: 'reading', fileName: file.name });
+    try {
+      let found: FileBarcode[];
+      if (isPkpassFile(file)) {
+        const wallet = await readWalletFile(file);
+        onWalletPass?.(wallet.pass);
+        found = wallet.found;
+      } else {
+        found = await extractBarcodesFromFile(file);
+      }
+      if (found.length === 0) {
+        setStatus({ kind: 'error', message: `No PDF417, Aztec or QR code found in ${file.name}.` });
+        return;
+      }
+      setStatus({ kind: 'idle' });
+      if (found.length === 1) {
+        onScan(found[0].text);
+      } else {
+        setCandidates(found);
+      }
+    } catch (e: any) {
+      setStatus({ kind: 'error', message: e.message || `Could not read ${file.name}.` });
+    }
+  };
+
+  const onDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-gray-900 p-4 rounded-xl border border-gray-700">
+      <div
+        data-testid="file-drop"
+        onDragOver={e => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={onDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`cursor-pointer border-2 border-dashed rounded-lg p-6 text-center transition-colors ${dragging ? 'border-brand-accent bg-brand-accent/10' : 'border-gray-600 hover:border-gray-400'}`}
+      >
+        <p className="text-3xl mb-2">📄</p>
+        <p className="text-sm text-gray-300">Drop a boarding pass PDF, screenshot or Wallet pass here, or click to choose a file.</p>
+        <p className="text-xs text-gray-500 mt-1">PNG, JPEG, WebP, PDF or .pkpass. Files are read on this device only.</p>
+        <input
+          ref={inputRef}
+          data-testid="file-input"
+          type="file"
+          accept={[...SUPPORTED_FILE_TYPES, PKPASS_MIME_TYPE, '.pkpass'].join(',')}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = ''; // Allow picking the same file again
+          }}
+        />
+      </div>
+
+      {status.kind === 'reading' && (
+        <p className="text-sm text-gray-400 mt-3 text-center animate-pulse">Searching {status.fileName} for barcodes…</p>
+      )}
+      {status.kind === 'error' && (
+        <p className="text-sm text-red-300 mt-3 text-center">{status.message}</p>
+      )}
+
+      {candidates.length > 1 && (
+        <div data-testid="file-candidates" className="mt-4">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">{candidates.length} barcodes found — pick one</p>
+          <ul className="space-y-2">
+            {candidates.map((c, idx) => (
+              <li key={`${c.page ?? 0}-${idx}`}>
+                <button
+                  onClick={() => onScan(c.text)}
+                  className="w-full text-left bg-gray-800 hover:bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-gray-200"
+                >
+                  <span className="block">{describeCandidate(c)}</span>
+                  <span className="block text-xs text-gray-500">
+                    {c.page ? `Page ${c.page}` : c.fileName}{c.format ? ` · ${c.format}` : ''}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import FlightLogPanel from './FlightLogPanel';
+import { FlightLog } from '../lib/flight_log';
+import { parseBCBP } from '../lib/bcbp';
+
+const RAW = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const parsed = parseBCBP(RAW).data!;
+
+// Deriving the key takes a moment
+const SLOW = { timeout: 10000 };
+
+function unlock(passphrase: string, confirm?: string) {
+  fireEvent.change(screen.getByLabelText('Passphrase'), { target: { value: passphrase } });
+  if (confirm !== undefined) fireEvent.change(screen.getByLabelText('Confirm passphrase'), { target: { value: confirm } });
+}
+
+describe('FlightLogPanel', () => {
+  afterEach(async () => {
+    cleanup();
+    await FlightLog.destroy();
+  });
+
+  it('stays off until opened, then creates a log and saves the pass on screen when asked', async () => {
+    render(<FlightLogPanel raw={RAW} parsed={parsed} />);
+    expect(screen.queryByTestId('flight-log')).toBeNull();
+
+    fireEvent.click(screen.getByTestId('flight-log-start'));
+    await screen.findByText('Create Flight Log');
+    unlock('secret', 'secret');
+    fireEvent.click(screen.getByText('Create'));
+
+    // Unlocking alone saves nothing
+    const save = await screen.findByText('Save this pass', {}, SLOW);
+    expect(await screen.findByText('No flights logged yet.')).toBeDefined();
+    fireEvent.click(save);
+    const entry = await screen.findByTestId('flight-log-entry', {}, SLOW);
+    expect(entry).toHaveTextContent('BA 123 · LHR → JFK');
+    expect(await screen.findByTestId('flight-log-message')).toHaveTextContent('Saved 1 flight to your log.');
+    expect(screen.getByTestId('flight-log-stats')).toHaveTextContent('Flights1');
+    expect(screen.getByTestId('flight-log-stats')).toHaveTextContent('JFK–LHR ×1');
+  }, 20000);
+
+  it('refuses a mismatched confirmation and a wrong passphrase', async () => {
+    render(<FlightLogPanel />);
+    fireEvent.click(screen.getByTestId('flight-log-start'));
+    await screen.findByText('Create Flight Log');
+    unlock('secret', 'other');
+    fireEvent.click(screen.getByText('Create'));
+    expect(screen.getByText('Passphrases do not match.')).toBeDefined();
+
+    (await FlightLog.open('secret')).close();
+    cleanup();
+    render(<FlightLogPanel />);
+    fireEvent.click(screen.getByTestId('flight-log-start'));
+    await screen.findByText('Unlock Flight Log');
+    unlock('wrong');
+    fireEvent.click(screen.getByText('Unlock'));
+    expect(await screen.findByText('Incorrect passphrase.', {}, SLOW)).toBeDefined();
+  }, 20000);
+
+  it('edits and deletes entries', async () => {
+    const log = await FlightLog.open('secret');
+    await log.addPass(RAW, parsed);
+    log.close();
+
+    render(<FlightLogPanel />);
+    fireEvent.click(screen.getByTestId('flight-log-start'));
+    await screen.findByText('Unlock Flight Log');
+    unlock('secret');
+    fireEvent.click(screen.getByText('Unlock'));
+    await screen.findByTestId('flight-log-entry', {}, SLOW);
+
+    fireEvent.click(screen.getByText('Edit'));
+    const notes = screen.getByTestId('flight-log-editor').querySelectorAll('input');
+    fireEvent.change(notes[notes.length - 1], { target: { value: 'Window seat, great view' } });
+    fireEvent.click(screen.getByText('Save'));
+    expect(await screen.findByText(/great view/)).toBeDefined();
+
+    fireEvent.click(screen.getByText('Delete'));
+    expect(await screen.findByText('No flights logged yet.')).toBeDefined();
+  }, 20000);
+});
@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useState, FormEvent } from 'react';
+import { ParsedBcbp } from '../lib/bcbp';
+import { FlightLog, FlightLogEntry, FlightLogEdit, computeStats, searchEntries } from '../lib/flight_log';
+
+interface FlightLogPanelProps {
+  raw?: string;        // The pass currently on screen
+  parsed?: ParsedBcbp;
+}
+
+type Phase = 'off' | 'locked' | 'open';
+
+export default function FlightLogPanel({ raw, parsed }: FlightLogPanelProps) {
+  const [phase, setPhase] = useState<Phase>('off');
+  const [log, setLog] = useState<FlightLog | null>(null);
+  const [entries, setEntries] = useState<FlightLogEntry[]>([]);
+  const [query, setQuery] = useState('');
+  // Off until asked for: unlocking the log shouldn't quietly save whatever pass is on screen
+  const [autoSave, setAutoSave] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+
+  // Close the database when the panel goes away
+  useEffect(() => () => log?.close(), [log]);
+
+  const refresh = useCallback(async (current: FlightLog) => setEntries(await current.list()), []);
+
+  const save = useCallback(async (current: FlightLog, rawPass: string, pass: ParsedBcbp) => {
+    const { added, duplicates } = await current.addPass(rawPass, pass);
+    setMessage(added.length > 0
+      ? `Saved ${added.length} flight${added.length === 1 ? '' : 's'} to your log.`
+      : `Already in your log${duplicates > 1 ? ` (${duplicates} flights)` : ''}.`);
+    await refresh(current);
+  }, [refresh]);
+
+  // Each new scan goes straight into the log while auto-save is on
+  useEffect(() => {
+    if (log && autoSave && raw && parsed) save(log, raw, parsed).catch(e => setMessage(e.message));
+  }, [log, autoSave, raw, parsed, save]);
+
+  if (phase === 'off') {
+    return (
+      <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6">
+        <h3 className="text-xl font-semibold mb-2 text-brand-accent">Flight Log</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Keep a personal log of the passes you scan. It's encrypted with a passphrase and stored in this browser only.
+        </p>
+        <button
+          data-testid="flight-log-start"
+          onClick={() => setPhase('locked')}
+          className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded border border-gray-600"
+        >
+          Open flight log
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'locked' || !log) {
+    return (
+      <UnlockForm
+        onUnlocked={async opened => {
+          setLog(opened);
+          setPhase('open');
+          await refresh(opened);
+        }}
+        onCancel={() => setPhase('off')}
+      />
+    );
+  }
+
+  const lock = () => {
+    log.close();
+    setLog(null);
+    setEntries([]);
+    setMessage(null);
+    setPhase('locked');
+  };
+
+  const destroy = async () => {
+    if (!window.confirm('Delete your whole flight log? This cannot be undone.')) return;
+    log.close();
+    await FlightLog.destroy();
+    setLog(null);
+    setEntries([]);
+    setPhase('off');
+  };
+
+  const update = async (id: string, edit: FlightLogEdit) => {
+    await log.update(id, edit);
+    setEditing(null);
+    await refresh(log);
+  };
+
+  const remove = async (id: string) => {
+    await log.remove(id);
+    await refresh(log);
+  };
+
+  const removeDuplicates = async () => {
+    const removed = await log.removeDuplicates();
+    setMessage(removed > 0 ? `Removed ${removed} duplicate${removed === 1 ? '' : 's'}.` : 'No duplicates found.');
+    await refresh(log);
+  };
+
+  const stats = computeStats(entries);
+  const visible = searchEntries(entries, query);
+
+  return (
+    <div data-testid="flight-log" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xl font-semibold text-brand-accent">Flight Log</h3>
+        <div className="flex gap-2 text-xs">
+          <button onClick={lock} className="text-gray-300 px-2 py-1 rounded border border-gray-600 hover:bg-gray-800">🔒 Lock</button>
+          <button onClick={destroy} className="text-red-300 px-2 py-1 rounded border border-red-800 hover:bg-red-900/40">Delete log</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-300">
+          <input type="checkbox" checked={autoSave} onChange={e => setAutoSave(e.target.checked)} />
+          Save every scan
+        </label>
+        {!autoSave && raw && parsed && (
+          <button
+            onClick={() => save(log, raw, parsed).catch(e => setMessage(e.message))}
+            className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1 rounded border border-gray-600"
+          >
+            Save this pass
+          </button>
+        )}
+        {message && <span data-testid="flight-log-message" className="text-gray-400">{message}</span>}
+      </div>
+
+      {/* Stats */}
+      <div data-testid="flight-log-stats" className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Flights" value={String(stats.flights)} />
+        <Stat label="Distance" value={`${stats.totalDistanceKm.toLocaleString('en-GB')} km`} note={stats.unmeasured > 0 ? `${stats.unmeasured} not measured` : undefined} />
+        <StatList label="Top Routes" items={stats.topRoutes.map(r => `${r.route} ×${r.count}`)} />
+        <StatList label="Airlines" items={stats.airlines.map(a => `${a.name} ×${a.count}`)} />
+        {stats.perYear.length > 0 && (
+          <StatList label="Per Year" items={stats.perYear.map(y => `${y.year}: ${y.count}`)} />
+        )}
+      </div>
+
+      {/* History */}
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            placeholder="Search name, PNR, flight, airport or notes"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            className="flex-1 bg-gray-800 border border-gray-600 rounded px-3 py-1.5 text-sm text-white"
+          />
+          <button onClick={removeDuplicates} className="text-xs text-gray-300 px-2 rounded border border-gray-600 hover:bg-gray-800">
+            Remove duplicates
+          </button>
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="text-sm text-gray-500 italic">{entries.length === 0 ? 'No flights logged yet.' : 'No flights match.'}</p>
+        ) : (
+          <ul className="divide-y divide-gray-800">
+            {visible.map(entry => editing === entry.id ? (
+              <EntryEditor key={entry.id} entry={entry} onSave={edit => update(entry.id, edit)} onCancel={() => setEditing(null)} />
+            ) : (
+              <li key={entry.id} data-testid="flight-log-entry" className="py-2 flex items-center justify-between gap-4 text-sm">
+                <div>
+                  <p className="text-white font-medium">{entry.carrier} {entry.flightNumber} · {entry.from} → {entry.to}</p>
+                  <p className="text-xs text-gray-500">
+                    {entry.flightDate || 'Date unknown'} · {entry.passengerName} · PNR {entry.pnrCode}{entry.seat ? ` · Seat ${entry.seat}` : ''}
+                    {entry.notes && <span className="text-gray-400"> · {entry.notes}</span>}
+                  </p>
+                </div>
+                <div className="flex gap-2 text-xs shrink-0">
+                  <button onClick={() => setEditing(entry.id)} className="text-gray-300 hover:text-white">Edit</button>
+                  <button onClick={() => remove(entry.id)} className="text-red-300 hover:text-red-200">Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function UnlockForm({ onUnlocked, onCancel }: { onUnlocked: (log: FlightLog) => void; onCancel: () => void }) {
+  const [exists, setExists] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    FlightLog.exists().then(setExists).catch(e => setError(e.message));
+  }, []);
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!exists && passphrase !== confirmation) {
+      setError('Passphrases do not match.');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      onUnlocked(await FlightLog.open(passphrase));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white';
+
+  return (
+    <form onSubmit={submit} className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 space-y-3">
+      <h3 className="text-xl font-semibold text-brand-accent">{exists === null ? 'Flight Log' : exists ? 'Unlock Flight Log' : 'Create Flight Log'}</h3>
+      <p className="text-sm text-gray-400">
+        {exists
+          ? 'Enter your passphrase to decrypt the log stored in this browser.'
+          : 'Choose a passphrase. It never leaves this device and cannot be recovered: forget it and the log is lost.'}
+      </p>
+      <input type="password" aria-label="Passphrase" placeholder="Passphrase" required value={passphrase} onChange={e => setPassphrase(e.target.value)} className={inputClass} />
+      {exists === false && (
+        <input type="password" aria-label="Confirm passphrase" placeholder="Confirm passphrase" required value={confirmation} onChange={e => setConfirmation(e.target.value)} className={inputClass} />
+      )}
+      {error && <p className="text-sm text-red-300">{error}</p>}
+      <div className="flex gap-2">
+        <button type="submit" disabled={busy || exists === null} className="bg-brand-accent/20 hover:bg-brand-accent/30 text-brand-accent border border-brand-accent rounded px-4 py-1.5 text-sm font-semibold disabled:opacity-50">
+          {busy ? 'Deriving key…' : exists ? 'Unlock' : 'Create'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-sm text-gray-400 hover:text-white px-3">Cancel</button>
+      </div>
+    </form>
+  );
+}
+
+function EntryEditor({ entry, onSave, onCancel }: { entry: FlightLogEntry; onSave: (edit: FlightLogEdit) => void; onCancel: () => void }) {
+  const [draft, setDraft] = useState<FlightLogEdit>({
+    flightDate: entry.flightDate, carrier: entry.carrier, flightNumber: entry.flightNumber,
+    from: entry.from, to: entry.to, seat: entry.seat, notes: entry.notes,
+  });
+  const field = (key: keyof FlightLogEdit, label: string, type: string = 'text') => (
+    <label className="flex flex-col gap-1">
+      <span className="text-xs text-gray-400 uppercase tracking-wider">{label}</span>
+      <input
+        type={type}
+        value={draft[key] ?? ''}
+        onChange={e => setDraft(d => ({ ...d, [key]: e.target.value || (key === 'flightDate' ? null : undefined) }))}
+        className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-white"
+      />
+    </label>
+  );
+
+  return (
+    <li data-testid="flight-log-editor" className="py-3 space-y-3 text-sm">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {field('flightDate', 'Date', 'date')}
+        {field('carrier', 'Carrier')}
+        {field('flightNumber', 'Flight')}
+        {field('from', 'From')}
+        {field('to', 'To')}
+        {field('seat', 'Seat')}
+      </div>
+      {field('notes', 'Notes')}
+      <div className="flex gap-2">
+        <button onClick={() => onSave(draft)} className="text-brand-accent border border-brand-accent rounded px-3 py-1">Save</button>
+        <button onClick={onCancel} className="text-gray-400 hover:text-white px-3">Cancel</button>
+      </div>
+    </li>
+  );
+}
+
+function Stat({ label, value, note }: { label: string; value: string; note?: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">{label}</p>
+      <p className="text-2xl font-bold text-white">{value}</p>
+      {note && <p className="text-xs text-gray-500">{note}</p>}
+    </div>
+  );
+}
+
+function StatList({ label, items }: { label: string; items: string[] }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">{label}</p>
+      {items.length === 0 ? <p className="text-sm text-gray-600">—</p> : (
+        <ul className="text-sm text-white space-y-0.5">
+          {items.map(item => <li key={item}>{item}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
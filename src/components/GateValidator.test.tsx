@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import GateValidator from './GateValidator';
+
+// The camera isn't available in tests; scans come in through the keyboard wedge, or this stand-in's onScan
+const camera = vi.hoisted(() => ({ onScan: null as ((text: string) => void) | null }));
+vi.mock('./Scanner', () => ({
+  default: ({ onScan }: { onScan: (text: string) => void }) => {
+    camera.onScan = onScan;
+    return null;
+  },
+}));
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+function scan(text: string) {
+  for (const key of text) fireEvent.keyDown(window, { key });
+  fireEvent.keyDown(window, { key: 'Enter' });
+}
+
+function startSession(date: string) {
+  fireEvent.change(screen.getByPlaceholderText('BA'), { target: { value: 'ba' } });
+  fireEvent.change(screen.getByPlaceholderText('123'), { target: { value: '123' } });
+  fireEvent.change(screen.getByDisplayValue(/^\d{4}-\d{2}-\d{2}$/), { target: { value: date } });
+  fireEvent.change(screen.getByPlaceholderText('LHR'), { target: { value: 'lhr' } });
+  fireEvent.click(screen.getByText('Start checking'));
+}
+
+describe('GateValidator', () => {
+  it('shows a full-screen verdict for each scan and tallies the session', () => {
+    render(<GateValidator />);
+    startSession('2025-04-17');
+    expect(screen.getByText(/BA 123 · LHR · 2025-04-17/)).toBeDefined();
+
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    scan(PASS);
+    expect(screen.getByTestId('gate-verdict')).toHaveAttribute('data-accepted', 'true');
+
+    fireEvent.click(screen.getByTestId('gate-verdict'));
+    expect(screen.queryByTestId('gate-verdict')).toBeNull();
+    expect(screen.getByTestId('gate-log')).toHaveTextContent('DOE/JOHN');
+    expect(screen.getByTestId('gate-counts')).toHaveTextContent('1Accepted0Rejected0Duplicates');
+  });
+
+  it('records every scan that arrives before the screen re-renders', () => {
+    render(<GateValidator />);
+    startSession('2025-04-17');
+    act(() => {
+      camera.onScan!(PASS);
+      camera.onScan!(PASS.replace('DOE/JOHN ', 'DOE/JANE ').replace('00001', '00002'));
+    });
+
+    expect(screen.getByTestId('gate-counts')).toHaveTextContent('2Accepted0Rejected0Duplicates');
+  });
+
+  it('rejects with the reason when the pass is for another day', () => {
+    render(<GateValidator />);
+    startSession('2025-04-18');
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    scan(PASS);
+
+    const verdict = screen.getByTestId('gate-verdict');
+    expect(verdict).toHaveAttribute('data-accepted', 'false');
+    expect(verdict).toHaveTextContent('not day 108');
+  });
+
+  it('asks for a manual check when an accepted pass looks implausible', () => {
+    render(<GateValidator />);
+    startSession('2025-04-17');
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    scan(PASS.replace('DOE/JOHN ', 'JOHN DOE ').replace('00001', '00000'));
+
+    expect(screen.getByTestId('gate-verdict')).toHaveAttribute('data-accepted', 'true');
+    const warning = screen.getByTestId('gate-plausibility');
+    expect(warning).toHaveAttribute('data-level', 'medium');
+    expect(warning).toHaveTextContent('no "/" between surname and given name');
+  });
+});
@@ -0,0 +1,240 @@
+import { useCallback, useEffect, useRef, useState, FormEvent } from 'react';
+import Scanner from './Scanner';
+import KeyboardWedge from './KeyboardWedge';
+import { BOARDING_PASS_FORMATS } from '../lib/scanner_config';
+import { useReferenceData } from '../lib/reference_data';
+import {
+  ExpectedFlight,
+  GateEntry,
+  GateSession,
+  Cabin,
+  CABIN_LABELS,
+  createGateSession,
+  recordScan,
+  sessionCounts,
+} from '../lib/gate_validation';
+
+// Cameras report the same code many times a second while it's in view
+const REPEAT_WINDOW_MS = 3000;
+const VERDICT_DISPLAY_MS = 4000;
+
+// Local calendar date as YYYY-MM-DD, for the date input's default
+const todayIso = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+export default function GateValidator() {
+  const [session, setSessionState] = useState<GateSession | null>(null);
+  // The latest session, ahead of the next render: a second scan before then must see the first one
+  const sessionRef = useRef<GateSession | null>(null);
+  const setSession = useCallback((next: GateSession | null) => {
+    sessionRef.current = next;
+    setSessionState(next);
+  }, []);
+  const [verdict, setVerdict] = useState<GateEntry | null>(null);
+  const lastScanRef = useRef<{ raw: string; at: number } | null>(null);
+  // Plausibility checks only look up airport and airline codes once the full lists are in
+  const referenceData = useReferenceData();
+
+  const handleScan = useCallback((raw: string) => {
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.raw === raw && now - last.at < REPEAT_WINDOW_MS) return;
+    lastScanRef.current = { raw, at: now };
+
+    if (!sessionRef.current) return;
+    const { session: next, entry } = recordScan(sessionRef.current, raw, new Date(now), referenceData);
+    setSession(next);
+    setVerdict(entry);
+  }, [setSession, referenceData]);
+
+  // Clear the verdict after a few seconds so the next passenger gets a fresh screen
+  useEffect(() => {
+    if (!verdict) return;
+    const timer = setTimeout(() => setVerdict(null), VERDICT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [verdict]);
+
+  if (!session) {
+    return <GateSetup onStart={expected => setSession(createGateSession(expected))} />;
+  }
+
+  const counts = sessionCounts(session);
+  const { expected } = session;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">Checking against</p>
+          <p className="text-xl font-bold text-white">
+            {expected.carrier} {expected.flightNumber} · {expected.departureAirport} · {expected.date}
+            {expected.cabin && <span className="text-brand-accent"> · {CABIN_LABELS[expected.cabin]}</span>}
+          </p>
+        </div>
+        <div data-testid="gate-counts" className="flex gap-6 text-center">
+          <Count label="Accepted" value={counts.accepted} className="text-brand-green" />
+          <Count label="Rejected" value={counts.rejected} className="text-red-400" />
+          <Count label="Duplicates" value={counts.duplicates} className="text-yellow-400" />
+        </div>
+        <button
+          onClick={() => { setSession(null); setVerdict(null); }}
+          className="text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded border border-gray-600"
+        >
+          End session
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-1 space-y-6">
+          <KeyboardWedge onScan={handleScan} />
+          <Scanner onScan={handleScan} formats={BOARDING_PASS_FORMATS} hint="Scan each passenger's boarding pass." />
+        </div>
+        <div className="lg:col-span-2">
+          <GateLog entries={session.entries} />
+        </div>
+      </div>
+
+      {verdict && <VerdictOverlay entry={verdict} onDismiss={() => setVerdict(null)} />}
+    </div>
+  );
+}
+
+function Count({ label, value, className }: { label: string; value: number; className: string }) {
+  return (
+    <div>
+      <p className={`text-2xl font-bold ${className}`}>{value}</p>
+      <p className="text-xs text-gray-400 uppercase tracking-wider">{label}</p>
+    </div>
+  );
+}
+
+function GateSetup({ onStart }: { onStart: (expected: ExpectedFlight) => void }) {
+  const [form, setForm] = useState({ carrier: '', flightNumber: '', date: todayIso(), departureAirport: '', cabin: '' });
+  const set = (key: keyof typeof form) => (e: { target: { value: string } }) => setForm(f => ({ ...f, [key]: e.target.value }));
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    onStart({
+      carrier: form.carrier.trim().toUpperCase(),
+      flightNumber: form.flightNumber.trim().toUpperCase(),
+      date: form.date,
+      departureAirport: form.departureAirport.trim().toUpperCase(),
+      cabin: (form.cabin || undefined) as Cabin | undefined,
+    });
+  };
+
+  const inputClass = 'bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white uppercase';
+
+  return (
+    <form onSubmit={submit} className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 max-w-xl space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-brand-accent">Gate Check</h3>
+        <p className="text-sm text-gray-400">Set the flight you're boarding. Every scan is checked against it; nothing leaves this browser.</p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Carrier</span>
+          <input required maxLength={3} placeholder="BA" value={form.carrier} onChange={set('carrier')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Flight Number</span>
+          <input required maxLength={5} placeholder="123" value={form.flightNumber} onChange={set('flightNumber')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Date</span>
+          <input required type="date" value={form.date} onChange={set('date')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Departure Airport</span>
+          <input required maxLength={3} placeholder="LHR" value={form.departureAirport} onChange={set('departureAirport')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm col-span-2">
+          <span className="text-xs text-gray-400 uppercase tracking-wider">Cabin (optional)</span>
+          <select value={form.cabin} onChange={set('cabin')} className="bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white">
+            <option value="">Any cabin</option>
+            {(Object.keys(CABIN_LABELS) as Cabin[]).map(c => <option key={c} value={c}>{CABIN_LABELS[c]}</option>)}
+          </select>
+        </label>
+      </div>
+      <button type="submit" className="w-full bg-brand-accent/20 hover:bg-brand-accent/30 text-brand-accent border border-brand-accent rounded px-4 py-2 font-semibold">
+        Start checking
+      </button>
+    </form>
+  );
+}
+
+function VerdictOverlay({ entry, onDismiss }: { entry: GateEntry; onDismiss: () => void }) {
+  const { verdict } = entry;
+  const { plausibility } = verdict;
+  return (
+    <div
+      data-testid="gate-verdict"
+      data-accepted={verdict.accepted}
+      onClick={onDismiss}
+      className={`fixed inset-0 z-50 flex flex-col items-center justify-center text-center p-8 cursor-pointer animate-in fade-in duration-150 ${verdict.accepted ? 'bg-green-700' : 'bg-red-700'}`}
+    >
+      <p className="text-9xl font-bold text-white">{verdict.accepted ? '✓' : '✗'}</p>
+      <p className="text-4xl font-bold text-white mt-4">{verdict.accepted ? 'Accepted' : 'Rejected'}</p>
+      {verdict.passengerName && <p className="text-2xl text-white/90 mt-4">{verdict.passengerName}</p>}
+      {verdict.seatNumber && <p className="text-xl text-white/80">Seat {verdict.seatNumber}</p>}
+      <ul className="mt-6 space-y-2">
+        {verdict.reasons.map(r => <li key={r.code} className="text-xl text-white">{r.message}</li>)}
+      </ul>
+      {plausibility && plausibility.level !== 'low' && (
+        <div data-testid="gate-plausibility" data-level={plausibility.level} className="mt-6 bg-black/30 text-yellow-200 rounded-lg px-6 py-4 max-w-xl">
+          <p className="text-lg font-bold">⚠ Check this pass by hand</p>
+          <ul className="text-sm mt-2 space-y-1">
+            {plausibility.findings.map(f => <li key={`${f.code}-${f.leg}`}>{f.message}</li>)}
+          </ul>
+        </div>
+      )}
+      {plausibility && plausibility.unchecked.length > 0 && (
+        <p data-testid="gate-plausibility-unchecked" className="text-sm text-white/70 mt-4">
+          Airport and airline codes weren't checked; the reference lists are still loading.
+        </p>
+      )}
+      <p className="text-sm text-white/60 mt-8">Tap to dismiss</p>
+    </div>
+  );
+}
+
+function GateLog({ entries }: { entries: GateEntry[] }) {
+  if (entries.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-12 border-2 border-dashed border-gray-700 rounded-xl text-gray-500 text-center">
+        <p className="text-lg">No passes scanned yet.</p>
+      </div>
+    );
+  }
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+      <table data-testid="gate-log" className="w-full text-sm">
+        <thead className="bg-gray-800 text-xs text-gray-400 uppercase tracking-wider">
+          <tr>
+            <th className="text-left px-4 py-2">Time</th>
+            <th className="text-left px-4 py-2">Passenger</th>
+            <th className="text-left px-4 py-2">Seat</th>
+            <th className="text-left px-4 py-2">Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(e => (
+            <tr key={e.id} className="border-t border-gray-800">
+              <td className="px-4 py-2 text-gray-400 font-mono">{e.scannedAt.toLocaleTimeString()}</td>
+              <td className="px-4 py-2 text-white">{e.verdict.passengerName || '—'}</td>
+              <td className="px-4 py-2 text-white">{e.verdict.seatNumber || '—'}</td>
+              <td className={`px-4 py-2 ${e.verdict.accepted ? 'text-brand-green' : 'text-red-400'}`}>
+                {e.verdict.accepted ? 'Accepted' : e.verdict.reasons.map(r => r.message).join(' ')}
+                {e.verdict.plausibility && e.verdict.plausibility.level !== 'low' && (
+                  <span className="text-yellow-300" title={e.verdict.plausibility.findings.map(f => f.message).join('\n')}> ⚠ risk {e.verdict.plausibility.score}</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Fragment } from 'react';
+import { Itinerary, Connection, describeGap } from '../lib/bcbp_itinerary';
+import { formatResolvedDate } from '../lib/bcbp_dates';
+
+interface ItineraryTimelineProps {
+  itinerary: Itinerary;
+  activeIndex: number;
+  onSelect: (legIndex: number) => void;
+}
+
+function ConnectionRow({ connection }: { connection: Connection }) {
+  const flagged = connection.issues.length > 0;
+  const gap = connection.gapDays !== null && connection.gapDays >= 0 ? describeGap(connection.gapDays) : null;
+  return (
+    <li data-testid="itinerary-connection" className={`ml-3 pl-6 border-l-2 border-dashed py-2 text-xs ${flagged ? 'border-yellow-500 text-yellow-300' : 'border-gray-600 text-gray-400'}`}>
+      {connection.airport ? `Connection at ${connection.airport}` : 'Change of airport'}
+      {gap && <span> · {gap}</span>}
+    </li>
+  );
+}
+
+export default function ItineraryTimeline({ itinerary, activeIndex, onSelect }: ItineraryTimelineProps) {
+  return (
+    <div data-testid="itinerary" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl">
+      <h3 className="text-xl font-semibold mb-4 text-brand-accent">Itinerary</h3>
+
+      {itinerary.issues.length > 0 && (
+        <ul className="mb-4 space-y-1 bg-yellow-900/40 border border-yellow-600 text-yellow-200 text-sm p-3 rounded-lg">
+          {itinerary.issues.map(issue => <li key={`${issue.code}-${issue.legs.join('-')}`} data-testid="itinerary-issue" data-code={issue.code}>⚠ {issue.message}</li>)}
+        </ul>
+      )}
+
+      <ol>
+        {itinerary.legs.map((leg, idx) => {
+          const connection = itinerary.connections[idx];
+          const isActive = leg.index === activeIndex;
+          return (
+            <Fragment key={leg.index}>
+              <li>
+                <button
+                  data-testid="itinerary-leg"
+                  aria-current={isActive ? 'step' : undefined}
+                  onClick={() => onSelect(leg.index)}
+                  className={`w-full text-left flex items-center gap-4 rounded-lg px-3 py-2 transition-colors ${isActive ? 'bg-brand-accent/10 ring-1 ring-brand-accent' : 'hover:bg-gray-800'}`}
+                >
+                  <span className={`w-6 h-6 shrink-0 rounded-full flex items-center justify-center text-xs font-bold ${isActive ? 'bg-brand-accent text-brand-dark' : 'bg-gray-700 text-gray-300'}`}>
+                    {leg.index + 1}
+                  </span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-white font-bold tracking-wider">{leg.from} → {leg.to}</span>
+                    <span className="block text-xs text-gray-400">
+                      {[leg.flight, leg.date ? formatResolvedDate(leg.date.date) : null, leg.pnr && `PNR ${leg.pnr}`].filter(Boolean).join(' · ')}
+                    </span>
+                  </span>
+                  <span className="text-right shrink-0">
+                    {leg.seat && <span className="block text-white font-bold">{leg.seat}</span>}
+                    {leg.cabin && <span className="block text-xs text-gray-400">{leg.cabin}</span>}
+                  </span>
+                </button>
+              </li>
+              {connection && <ConnectionRow connection={connection} />}
+            </Fragment>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import KeyboardWedge from './KeyboardWedge';
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+// Events fired back to back land well inside the scanner timing window
+function scan(text: string) {
+  for (const key of text) fireEvent.keyDown(window, { key });
+  fireEvent.keyDown(window, { key: 'Enter' });
+}
+
+describe('KeyboardWedge', () => {
+  it('only listens once armed', () => {
+    const onScan = vi.fn();
+    render(<KeyboardWedge onScan={onScan} />);
+    expect(screen.getByTestId('wedge-status')).toHaveAttribute('data-state', 'off');
+
+    scan(PASS);
+    expect(onScan).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    scan(PASS);
+    expect(onScan).toHaveBeenCalledWith(PASS);
+    expect(screen.getByText('1 scan captured this session.')).toBeDefined();
+  });
+
+  it('shows when the page has lost focus', () => {
+    render(<KeyboardWedge onScan={vi.fn()} />);
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+
+    fireEvent.blur(window);
+    expect(screen.getByTestId('wedge-status')).toHaveAttribute('data-state', 'unfocused');
+    fireEvent.focus(window);
+    expect(screen.getByTestId('wedge-status')).toHaveAttribute('data-state', 'armed');
+  });
+
+  it('keeps the keys of a burst from acting on the page', () => {
+    render(<KeyboardWedge onScan={vi.fn()} />);
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+
+    // fireEvent returns false when the default action was prevented
+    expect(fireEvent.keyDown(window, { key: ' ' })).toBe(false);
+    expect(fireEvent.keyDown(window, { key: 'M' })).toBe(false);
+    expect(fireEvent.keyDown(window, { key: 'Enter' })).toBe(false);
+    expect(fireEvent.keyDown(window, { key: 'c', ctrlKey: true })).toBe(true);
+    expect(fireEvent.keyDown(window, { key: 'ArrowDown' })).toBe(true);
+  });
+
+  it('ignores keys typed into form fields', () => {
+    const onScan = vi.fn();
+    render(<KeyboardWedge onScan={onScan} />);
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    fireEvent.click(screen.getByText(/Scanner settings/));
+
+    const prefix = screen.getByText('Prefix').parentElement!.querySelector('input')!;
+    for (const key of PASS) fireEvent.keyDown(prefix, { key });
+    fireEvent.keyDown(prefix, { key: 'Enter' });
+    expect(onScan).not.toHaveBeenCalled();
+  });
+});
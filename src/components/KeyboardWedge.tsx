@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState } from 'react';
+import { KeyboardWedgeDetector, WedgeOptions, WedgeTerminator, DEFAULT_WEDGE_OPTIONS } from '../lib/keyboard_wedge';
+
+interface KeyboardWedgeProps {
+  onScan: (decodedText: string) => void;
+}
+
+// Keys typed into form fields belong to the form, not the scanner
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+const hasFocus = () => typeof document !== 'undefined' && document.hasFocus();
+
+export default function KeyboardWedge({ onScan }: KeyboardWedgeProps) {
+  const [armed, setArmed] = useState(false);
+  const [focused, setFocused] = useState(hasFocus);
+  const [options, setOptions] = useState<WedgeOptions>(DEFAULT_WEDGE_OPTIONS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [captures, setCaptures] = useState(0);
+
+  // Same pattern as Scanner: keep the latest callback without re-binding listeners
+  const onScanRef = useRef(onScan);
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    const onFocus = () => setFocused(true);
+    const onBlur = () => setFocused(false);
+    window.addEventListener('focus', onFocus);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('focus', onFocus);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!armed) return;
+    const detector = new KeyboardWedgeDetector(options);
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const emit = (payload: string | null) => {
+      if (payload === null) return;
+      setCaptures(c => c + 1);
+      onScanRef.current(payload);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target)) return;
+      // Keys the burst is made of would also act on the page: Space scrolls it or presses the
+      // focused button, the terminator activates it. Shortcuts with a modifier are left alone
+      const consumed = e.key === options.terminator || (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey);
+      if (consumed) e.preventDefault();
+      emit(detector.handleKey(e.key, e.timeStamp));
+
+      if (options.terminator === 'none') {
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => emit(detector.flush(performance.now())), options.maxInterKeyMs + 10);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => {
+      clearTimeout(idleTimer);
+      window.removeEventListener('keydown', onKeyDown, true);
+    };
+  }, [armed, options]);
+
+  const update = <K extends keyof WedgeOptions>(key: K, value: WedgeOptions[K]) => setOptions(o => ({ ...o, [key]: value }));
+
+  const state = !armed ? 'off' : focused ? 'armed' : 'unfocused';
+
+  return (
+    <div className="w-full max-w-md mx-auto bg-gray-900 p-4 rounded-xl border border-gray-700">
+      <div className="flex items-center justify-between gap-3">
+        <div data-testid="wedge-status" data-state={state} className="flex items-center gap-2 text-sm">
+          <span className={`w-3 h-3 rounded-full ${state === 'armed' ? 'bg-brand-green animate-pulse' : state === 'unfocused' ? 'bg-yellow-400' : 'bg-gray-600'}`}></span>
+          <span className={state === 'armed' ? 'text-white' : 'text-gray-400'}>
+            {state === 'armed' && 'Hardware scanner ready — scan now'}
+            {state === 'unfocused' && 'Click this page so it receives scanner input'}
+            {state === 'off' && 'Hardware scanner (keyboard mode)'}
+          </span>
+        </div>
+        <button
+          data-testid="wedge-toggle"
+          onClick={e => { setArmed(a => !a); e.currentTarget.blur(); }}
+          aria-pressed={armed}
+          className={`shrink-0 text-sm px-3 py-1.5 rounded border transition-colors ${armed ? 'border-brand-green text-brand-green' : 'border-gray-600 text-gray-300 hover:bg-gray-800'}`}
+        >
+          {armed ? 'Disarm' : 'Arm'}
+        </button>
+      </div>
+
+      {armed && captures > 0 && (
+        <p className="text-xs text-gray-500 mt-2">{captures} scan{captures === 1 ? '' : 's'} captured this session.</p>
+      )}
+
+      <button onClick={() => setShowSettings(s => !s)} className="text-xs text-gray-500 hover:text-gray-300 mt-3">
+        {showSettings ? '▾' : '▸'} Scanner settings
+      </button>
+
+      {showSettings && (
+        <div className="grid grid-cols-2 gap-3 mt-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400 uppercase tracking-wider">Terminator</span>
+            <select
+              value={options.terminator}
+              onChange={e => update('terminator', e.target.value as WedgeTerminator)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+            >
+              <option value="Enter">Enter</option>
+              <option value="Tab">Tab</option>
+              <option value="none">None (pause)</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400 uppercase tracking-wider">Max key gap (ms)</span>
+            <input
+              type="number"
+              min={5}
+              max={500}
+              value={options.maxInterKeyMs}
+              onChange={e => update('maxInterKeyMs', Number(e.target.value) || DEFAULT_WEDGE_OPTIONS.maxInterKeyMs)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400 uppercase tracking-wider">Prefix</span>
+            <input
+              value={options.prefix}
+              onChange={e => update('prefix', e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200 font-mono"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-400 uppercase tracking-wider">Suffix</span>
+            <input
+              value={options.suffix}
+              onChange={e => update('suffix', e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200 font-mono"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, within, act } from '@testing-library/react';
+import PassCompare from './PassCompare';
+
+// The camera isn't available in tests; the stand-in hands out its onScan so frames can be fed in
+const camera = vi.hoisted(() => ({ onScan: null as ((text: string) => void) | null }));
+vi.mock('./Scanner', () => ({
+  default: ({ onScan }: { onScan: (text: string) => void }) => {
+    camera.onScan = onScan;
+    return null;
+  },
+}));
+
+const ORIGINAL = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const REISSUED = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y014C00001500';
+
+function paste(slot: 'a' | 'b', text: string) {
+  const box = within(screen.getByTestId(`compare-slot-${slot}`));
+  fireEvent.change(box.getByTestId('paste-box'), { target: { value: text } });
+  fireEvent.click(box.getByTestId('paste-decode'));
+}
+
+describe('PassCompare', () => {
+  it('diffs two pasted passes field by field and character by character', () => {
+    render(<PassCompare />);
+    paste('a', ORIGINAL);
+    paste('b', REISSUED);
+
+    const fields = screen.getAllByTestId('compare-field').map(row => row.getAttribute('data-path'));
+    expect(fields).toEqual(['seatNumber', 'passengerStatus.code', 'passengerStatus.description']);
+
+    const segments = screen.getAllByTestId('compare-segment');
+    expect(segments.map(row => row.textContent)).toEqual(['Seat Number012A014C', 'Passenger Status15']);
+    expect(within(segments[0]).getAllByRole('mark').map(mark => mark.textContent)).toEqual(['2A', '4C']);
+    expect(screen.getByTestId('compare-leg')).toHaveAttribute('data-status', 'matched');
+  });
+
+  it('sends wedge scans to A, then B', () => {
+    render(<PassCompare />);
+    fireEvent.click(screen.getByTestId('wedge-toggle'));
+    for (const text of [ORIGINAL, REISSUED]) {
+      for (const key of text) fireEvent.keyDown(window, { key });
+      fireEvent.keyDown(window, { key: 'Enter' });
+    }
+    expect(screen.getByTestId('compare-target-b')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getAllByTestId('compare-field').length).toBeGreaterThan(0);
+  });
+
+  it('ignores repeated camera frames of a pass that is already loaded', () => {
+    render(<PassCompare />);
+    act(() => camera.onScan!(ORIGINAL));
+    act(() => camera.onScan!(ORIGINAL));
+
+    expect(screen.getByTestId('compare-target-b')).toHaveAttribute('aria-pressed', 'true');
+    expect(within(screen.getByTestId('compare-slot-b')).getByTestId('paste-box')).toBeDefined();
+    expect(screen.queryByTestId('compare-identical')).toBeNull();
+  });
+});
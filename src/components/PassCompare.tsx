@@ -0,0 +1,248 @@
+import { useCallback, useMemo, useState } from 'react';
+import Scanner from './Scanner';
+import FileScanner from './FileScanner';
+import KeyboardWedge from './KeyboardWedge';
+import PasteBox from './PasteBox';
+import { BOARDING_PASS_FORMATS } from '../lib/scanner_config';
+import { parseBCBP, BcbpParseResult } from '../lib/bcbp';
+import { comparePasses, FieldChange, LegComparison, SegmentComparison } from '../lib/bcbp_compare';
+
+type Slot = 'a' | 'b';
+
+const SLOT_LABELS: Record<Slot, string> = { a: 'Pass A', b: 'Pass B' };
+
+// A parse with everything the comparison needs, or null while the slot is empty or undecodable
+function comparable(raw: string | null, result: BcbpParseResult | null) {
+  if (!raw || !result?.data || !result.segments) return null;
+  return { raw, parsed: result.data, segments: result.segments };
+}
+
+export default function PassCompare() {
+  const [raws, setRaws] = useState<Record<Slot, string | null>>({ a: null, b: null });
+  // Where the camera and the hardware scanner deliver; moves on to B once A is filled
+  const [target, setTarget] = useState<Slot>('a');
+
+  const load = useCallback((slot: Slot, raw: string) => {
+    setRaws(prev => ({ ...prev, [slot]: raw }));
+    if (slot === 'a') setTarget('b');
+  }, []);
+
+  const handleScan = useCallback((raw: string) => {
+    // Cameras report the same code many times a second while it's in view, so a
+    // pass already in either slot is a repeat, not the second pass
+    if (raw === raws.a || raw === raws.b) return;
+    load(target, raw);
+  }, [load, raws, target]);
+
+  const results = useMemo(() => ({
+    a: raws.a ? parseBCBP(raws.a) : null,
+    b: raws.b ? parseBCBP(raws.b) : null,
+  }), [raws]);
+
+  const comparison = useMemo(() => {
+    const a = comparable(raws.a, results.a);
+    const b = comparable(raws.b, results.b);
+    return a && b ? comparePasses(a, b) : null;
+  }, [raws, results]);
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-1 space-y-6">
+          <div className="bg-gray-900 border border-gray-700 p-4 rounded-xl">
+            <p className="text-sm text-gray-400 mb-2">Scans go into</p>
+            <div className="flex gap-2">
+              {(['a', 'b'] as const).map(slot => (
+                <button
+                  key={slot}
+                  data-testid={`compare-target-${slot}`}
+                  aria-pressed={target === slot}
+                  onClick={() => setTarget(slot)}
+                  className={`flex-1 text-sm px-3 py-1.5 rounded border transition-colors ${target === slot ? 'border-brand-accent text-brand-accent bg-brand-accent/10' : 'border-gray-600 text-gray-300 hover:bg-gray-800'}`}
+                >
+                  {SLOT_LABELS[slot]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <Scanner onScan={handleScan} formats={BOARDING_PASS_FORMATS} hint={`Scan the boarding pass for ${SLOT_LABELS[target]}.`} />
+          <KeyboardWedge onScan={handleScan} />
+        </div>
+
+        <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {(['a', 'b'] as const).map(slot => (
+            <PassSlot
+              key={slot}
+              slot={slot}
+              raw={raws[slot]}
+              result={results[slot]}
+              onLoad={raw => load(slot, raw)}
+              onClear={() => { setRaws(prev => ({ ...prev, [slot]: null })); setTarget(slot); }}
+            />
+          ))}
+        </div>
+      </div>
+
+      {comparison ? (
+        comparison.identical ? (
+          <div data-testid="compare-identical" className="bg-gray-900 border border-brand-green text-brand-green p-4 rounded-xl">
+            The two passes are identical.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <FieldTable title="Passenger & pass" changes={comparison.fields} />
+            {comparison.legs.map(leg => <LegChanges key={leg.key} leg={leg} />)}
+            <SegmentDiff segments={comparison.segments} />
+          </div>
+        )
+      ) : (
+        <div className="p-12 border-2 border-dashed border-gray-700 rounded-xl text-gray-500 text-center">
+          <p className="text-lg mb-2">Load two passes to compare them.</p>
+          <p className="text-sm text-gray-600">Scan, drop in or paste the original pass as A and the reissued one as B.</p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface PassSlotProps {
+  slot: Slot;
+  raw: string | null;
+  result: BcbpParseResult | null;
+  onLoad: (raw: string) => void;
+  onClear: () => void;
+}
+
+function PassSlot({ slot, raw, result, onLoad, onClear }: PassSlotProps) {
+  const data = result?.data;
+  return (
+    <div data-testid={`compare-slot-${slot}`} className="bg-gray-900 border border-gray-700 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-semibold text-brand-accent">{SLOT_LABELS[slot]}</h3>
+        {raw && (
+          <button onClick={onClear} className="text-xs text-gray-400 hover:text-white">Clear</button>
+        )}
+      </div>
+
+      {raw ? (
+        data ? (
+          <div className="text-sm">
+            <p className="text-white font-bold">{data.passengerName}</p>
+            {data.legs.map((leg, idx) => (
+              <p key={idx} className="text-gray-400">
+                {leg.operatingCarrier} {leg.flightNumber} · {leg.departureAirport} → {leg.arrivalAirport} · seat {leg.seatNumber || '—'}
+              </p>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-red-300">{result?.error || 'Could not decode boarding pass.'}</p>
+        )
+      ) : (
+        <>
+          <PasteBox onScan={onLoad} />
+          <FileScanner onScan={onLoad} />
+        </>
+      )}
+    </div>
+  );
+}
+
+const showValue = (value?: string) => (value === undefined ? <span className="text-gray-600">—</span> : value);
+
+function FieldTable({ title, changes }: { title: string; changes: FieldChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+      <h3 className="text-lg font-semibold text-brand-accent px-4 pt-4 pb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-800 text-xs text-gray-400 uppercase tracking-wider">
+          <tr>
+            <th className="text-left px-4 py-2">Field</th>
+            <th className="text-left px-4 py-2">{SLOT_LABELS.a}</th>
+            <th className="text-left px-4 py-2">{SLOT_LABELS.b}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map(change => (
+            <tr key={change.path} data-testid="compare-field" data-path={change.path} className="border-t border-gray-800">
+              <td className="px-4 py-2 text-gray-400">{change.label}</td>
+              <td className="px-4 py-2 font-mono text-red-300">{showValue(change.before)}</td>
+              <td className="px-4 py-2 font-mono text-brand-green">{showValue(change.after)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function LegChanges({ leg }: { leg: LegComparison }) {
+  const status = leg.before === undefined ? 'added' : leg.after === undefined ? 'removed' : 'matched';
+  const title = status === 'added'
+    ? `${leg.key} — only on ${SLOT_LABELS.b}`
+    : status === 'removed'
+      ? `${leg.key} — only on ${SLOT_LABELS.a}`
+      : `${leg.key} — leg ${leg.before! + 1} on A, leg ${leg.after! + 1} on B`;
+
+  return (
+    <div data-testid="compare-leg" data-status={status}>
+      {status === 'matched' && leg.changes.length === 0 ? (
+        <p className="text-sm text-gray-400 px-1">{title}: no changes.</p>
+      ) : (
+        <FieldTable title={title} changes={leg.changes} />
+      )}
+    </div>
+  );
+}
+
+// Changed characters in runs, so a moved seat reads as one highlight rather than three
+function Characters({ text, changed }: { text?: string; changed: boolean[] }) {
+  if (text === undefined) return <span className="text-gray-600">—</span>;
+  const runs: Array<{ text: string; changed: boolean }> = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.changed === changed[i]) last.text += text[i];
+    else runs.push({ text: text[i], changed: changed[i] });
+  }
+  return (
+    <>
+      {runs.map((run, idx) => run.changed
+        ? <mark key={idx} className="bg-yellow-500/40 text-white rounded-sm">{run.text}</mark>
+        : <span key={idx}>{run.text}</span>)}
+    </>
+  );
+}
+
+function SegmentDiff({ segments }: { segments: SegmentComparison[] }) {
+  const [onlyChanged, setOnlyChanged] = useState(true);
+  const rows = onlyChanged ? segments.filter(seg => seg.changed.some(Boolean)) : segments;
+  return (
+    <div data-testid="compare-segments" className="bg-gray-900 border border-gray-700 rounded-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <h3 className="text-lg font-semibold text-brand-accent">Raw data</h3>
+        <label className="text-xs text-gray-400 flex items-center gap-2">
+          <input type="checkbox" checked={onlyChanged} onChange={e => setOnlyChanged(e.target.checked)} />
+          Changed fields only
+        </label>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-800 text-xs text-gray-400 uppercase tracking-wider">
+          <tr>
+            <th className="text-left px-4 py-2">Field</th>
+            <th className="text-left px-4 py-2">{SLOT_LABELS.a}</th>
+            <th className="text-left px-4 py-2">{SLOT_LABELS.b}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(seg => (
+            <tr key={seg.key} data-testid="compare-segment" data-changed={seg.changed.some(Boolean)} className="border-t border-gray-800">
+              <td className="px-4 py-1 text-gray-400">{seg.label}</td>
+              <td className="px-4 py-1 font-mono whitespace-pre text-gray-300"><Characters text={seg.before} changed={seg.changed} /></td>
+              <td className="px-4 py-1 font-mono whitespace-pre text-gray-300"><Characters text={seg.after} changed={seg.changed} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PasteBox from './PasteBox';
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+describe('PasteBox', () => {
+  it('decodes pasted text without the trailing line break', () => {
+    const onScan = vi.fn();
+    render(<PasteBox onScan={onScan} />);
+    expect(screen.getByTestId('paste-decode')).toBeDisabled();
+
+    fireEvent.change(screen.getByTestId('paste-box'), { target: { value: `${PASS}\r\n` } });
+    fireEvent.click(screen.getByTestId('paste-decode'));
+    expect(onScan).toHaveBeenCalledWith(PASS);
+  });
+
+  it('decodes on Ctrl+Enter', () => {
+    const onScan = vi.fn();
+    render(<PasteBox onScan={onScan} />);
+
+    fireEvent.change(screen.getByTestId('paste-box'), { target: { value: PASS } });
+    fireEvent.keyDown(screen.getByTestId('paste-box'), { key: 'Enter', ctrlKey: true });
+    expect(onScan).toHaveBeenCalledWith(PASS);
+  });
+});
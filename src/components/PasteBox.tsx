@@ -0,0 +1,48 @@
+import { useId, useState, FormEvent, KeyboardEvent } from 'react';
+
+interface PasteBoxProps {
+  onScan: (decodedText: string) => void;
+}
+
+// A pasted or typed BCBP string, for when there is no camera or scanner at hand
+export default function PasteBox({ onScan }: PasteBoxProps) {
+  const id = useId();
+  const [text, setText] = useState('');
+
+  // Trailing line breaks come along with most copied text; spaces inside are significant
+  const value = text.replace(/[\r\n]+$/, '');
+
+  const submit = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (value) onScan(value);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+  };
+
+  return (
+    <form onSubmit={submit} className="w-full max-w-md mx-auto bg-gray-900 p-4 rounded-xl border border-gray-700 space-y-2">
+      <label htmlFor={id} className="text-sm text-gray-400">Paste barcode data</label>
+      <textarea
+        id={id}
+        data-testid="paste-box"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={onKeyDown}
+        rows={3}
+        spellCheck={false}
+        placeholder="M1DOE/JOHN            E1234567LHRJFK…"
+        className="w-full bg-gray-800 border border-gray-600 rounded px-3 py-2 text-white font-mono text-sm"
+      />
+      <button
+        type="submit"
+        data-testid="paste-decode"
+        disabled={!value}
+        className="text-sm px-3 py-1.5 rounded border border-gray-600 text-gray-300 hover:bg-gray-800 disabled:opacity-40"
+      >
+        Decode
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import RouteMap from './RouteMap';
+
+describe('RouteMap', () => {
+  it('draws the active leg with its distance and block time', () => {
+    render(<RouteMap legs={[{ from: 'LHR', to: 'JFK' }]} />);
+
+    expect(screen.getByRole('img')).toHaveAttribute('aria-label', 'Route map: LHR–JFK');
+    expect(screen.getAllByTestId('route-arc')[0]).toHaveAttribute('data-active', 'true');
+    expect(screen.getByTestId('route-distance')).toHaveTextContent('5,540 km · 3,442 mi · 2,991 nm · ≈ 7h 20m block');
+  });
+
+  it('draws the whole itinerary and highlights the chosen leg', () => {
+    render(<RouteMap legs={[{ from: 'LHR', to: 'DXB' }, { from: 'DXB', to: 'SYD' }]} activeIndex={1} />);
+
+    expect(screen.getAllByTestId('route-arc').map(arc => arc.getAttribute('data-active'))).toEqual(['false', 'true']);
+    expect(screen.getByTestId('itinerary-distance')).toHaveTextContent(/Itinerary [\d,]+ km/);
+  });
+
+  it('renders nothing without coordinates', () => {
+    const { container } = render(<RouteMap legs={[{ from: 'ZZZ', to: 'JFK' }]} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
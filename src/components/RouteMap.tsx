@@ -0,0 +1,129 @@
+import { useId } from 'react';
+import { WORLD_LAND_PATH } from '../data/world_land';
+import { LatLon, airportCoordinates, greatCirclePoints, greatCircleKm, toDistance, estimateBlockMinutes } from '../lib/geo';
+
+interface RouteMapProps {
+  legs: Array<{ from: string; to: string }>;
+  activeIndex?: number;
+}
+
+interface PlottedLeg {
+  index: number;
+  from: string;
+  to: string;
+  points: LatLon[]; // Longitudes continue past ±180 so arcs stay unbroken
+}
+
+// The map frame is equirectangular: x = longitude + 180, y = 90 - latitude
+const project = ({ lat, lon }: LatLon) => ({ x: lon + 180, y: 90 - lat });
+
+const MIN_VIEW_WIDTH = 40;
+
+// Arcs for every leg we have coordinates for, each shifted to start where the previous one ended
+function plotLegs(legs: RouteMapProps['legs']): PlottedLeg[] {
+  const plotted: PlottedLeg[] = [];
+  legs.forEach(({ from, to }, index) => {
+    const a = airportCoordinates(from);
+    const b = airportCoordinates(to);
+    if (!a || !b) return;
+    const points = greatCirclePoints(a, b);
+    const prev = plotted[plotted.length - 1]?.points.at(-1);
+    const shift = prev ? 360 * Math.round((prev.lon - points[0].lon) / 360) : 0;
+    plotted.push({ index, from, to, points: points.map(p => ({ lat: p.lat, lon: p.lon + shift })) });
+  });
+  return plotted;
+}
+
+// A 2:1 window around the route with some margin, kept inside the top and bottom of the map
+function viewBox(plotted: PlottedLeg[]): { x: number; y: number; width: number; height: number } {
+  const xy = plotted.flatMap(leg => leg.points.map(project));
+  const minX = Math.min(...xy.map(p => p.x)), maxX = Math.max(...xy.map(p => p.x));
+  const minY = Math.min(...xy.map(p => p.y)), maxY = Math.max(...xy.map(p => p.y));
+  const margin = Math.max(maxX - minX, maxY - minY) * 0.15 + 4;
+
+  let width = Math.max(maxX - minX + 2 * margin, (maxY - minY + 2 * margin) * 2, MIN_VIEW_WIDTH);
+  width = Math.min(width, 360);
+  const height = width / 2;
+  const x = (minX + maxX) / 2 - width / 2;
+  const y = Math.min(Math.max((minY + maxY) / 2 - height / 2, 0), 180 - height);
+  return { x, y, width, height };
+}
+
+const toPath = (points: LatLon[]) => points.map(project).map((p, i) => `${i ? 'L' : 'M'}${p.x.toFixed(2)} ${p.y.toFixed(2)}`).join('');
+
+const formatNumber = (n: number) => Math.round(n).toLocaleString('en-GB');
+const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+
+export default function RouteMap({ legs, activeIndex = 0 }: RouteMapProps) {
+  const landId = useId();
+  const plotted = plotLegs(legs);
+  if (plotted.length === 0) return null;
+
+  const view = viewBox(plotted);
+  const markerRadius = view.width / 150;
+  const fontSize = view.width / 40;
+  const active = plotted.find(leg => leg.index === activeIndex);
+  const activeKm = active ? greatCircleKm(active.points[0], active.points[active.points.length - 1]) : null;
+  const distance = activeKm !== null ? toDistance(activeKm) : null;
+  const totalKm = plotted.reduce((sum, leg) => sum + greatCircleKm(leg.points[0], leg.points[leg.points.length - 1]), 0);
+
+  // Each airport once, at the position its first leg put it
+  const stops = new Map<string, LatLon>();
+  for (const leg of plotted) {
+    if (!stops.has(leg.from)) stops.set(leg.from, leg.points[0]);
+    if (!stops.has(leg.to)) stops.set(leg.to, leg.points[leg.points.length - 1]);
+  }
+
+  return (
+    <div data-testid="route-map" className="mb-6">
+      <svg
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        role="img"
+        aria-label={`Route map: ${plotted.map(leg => `${leg.from}–${leg.to}`).join(', ')}`}
+        className="w-full h-auto rounded-lg bg-brand-dark/80 border border-white/10"
+      >
+        <defs>
+          <path id={landId} d={WORLD_LAND_PATH} />
+        </defs>
+        {/* The land repeats either side so routes across the antimeridian still have a map under them */}
+        {[-360, 0, 360].map(dx => (
+          <use key={dx} href={`#${landId}`} x={dx} className="fill-gray-700/70 stroke-gray-500/40" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+        ))}
+        {plotted.map(leg => (
+          <path
+            key={leg.index}
+            data-testid="route-arc"
+            data-active={leg === active}
+            d={toPath(leg.points)}
+            fill="none"
+            vectorEffect="non-scaling-stroke"
+            className={leg === active ? 'stroke-brand-accent' : 'stroke-white/40'}
+            strokeWidth={leg === active ? 2.5 : 1.5}
+            strokeDasharray={leg === active ? undefined : '4 3'}
+          />
+        ))}
+        {[...stops].map(([code, point]) => {
+          const { x, y } = project(point);
+          return (
+            <g key={code}>
+              <circle cx={x} cy={y} r={markerRadius} className="fill-white" />
+              <text x={x + markerRadius * 1.5} y={y - markerRadius * 1.5} fontSize={fontSize} className="fill-white font-mono">{code}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap justify-between gap-2 mt-2 text-xs text-gray-400">
+        {distance ? (
+          <span data-testid="route-distance">
+            {formatNumber(distance.km)} km · {formatNumber(distance.mi)} mi · {formatNumber(distance.nm)} nm
+            <span className="text-gray-500"> · ≈ {formatDuration(estimateBlockMinutes(distance.km))} block</span>
+          </span>
+        ) : (
+          <span>No coordinates for this leg's airports.</span>
+        )}
+        {plotted.length > 1 && <span data-testid="itinerary-distance">Itinerary {formatNumber(totalKm)} km</span>}
+      </div>
+    </div>
+  );
+}
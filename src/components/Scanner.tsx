@@ -1,13 +1,52 @@
-import { useEffect, useRef } from 'react';
-import { Html5QrcodeScanner } from 'html5-qrcode';
+import { useEffect, useId, useRef, useState } from 'react';
+import { Html5Qrcode, Html5QrcodeSupportedFormats, CameraDevice } from 'html5-qrcode';
+import {
+  ScannerFormat,
+  ScanRegion,
+  CameraChoice,
+  ALL_SCANNER_FORMATS,
+  SCANNER_FORMATS,
+  REAR_CAMERA,
+  FRONT_CAMERA,
+  defaultScanRegion,
+  isWideFormat,
+  scanBox,
+  cameraConstraint,
+  cameraKey,
+} from '../lib/scanner_config';
 
 interface ScannerProps {
   onScan: (decodedText: string) => void;
   onError?: (errorMessage: string) => void;
+  formats?: ScannerFormat[]; // Symbologies to look for; defaults to every supported one
+  region?: ScanRegion;       // Initial scan box; defaults to wide when a linear or stacked format is allowed
+  hint?: string;
 }
 
-export default function Scanner({ onScan, onError }: ScannerProps) {
-  const scannerRef = useRef<Html5QrcodeScanner | null>(null);
+interface ZoomState {
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+}
+
+type CameraCapabilities = ReturnType<Html5Qrcode['getRunningTrackCameraCapabilities']>;
+
+export default function Scanner({ onScan, onError, formats = ALL_SCANNER_FORMATS, region: initialRegion, hint = 'Point your camera at a barcode.' }: ScannerProps) {
+  // Each instance needs its own element so several scanners can live on one page
+  const elementId = `scanner-${useId().replace(/:/g, '')}`;
+  const capabilitiesRef = useRef<CameraCapabilities | null>(null);
+  // Settles once the last instance has stopped and cleared the element; the next one starts after it
+  const stoppedRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  // The camera stays off until asked for, so opening the page doesn't light it up
+  const [active, setActive] = useState(false);
+  const [camera, setCamera] = useState<CameraChoice>(REAR_CAMERA);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [region, setRegion] = useState<ScanRegion>(initialRegion || defaultScanRegion(formats));
+  const [zoom, setZoom] = useState<ZoomState | null>(null);
+  const [torchOn, setTorchOn] = useState<boolean | null>(null); // null when the camera has no torch
+  const [cameraError, setCameraError] = useState<string | null>(null);
 
   // Use refs to hold the latest callbacks.
   // This allows us to call the most recent version of the callback
@@ -20,59 +59,160 @@ export default function Scanner({ onScan, onError }: ScannerProps) {
     onErrorRef.current = onError;
   }, [onScan, onError]);
 
+  // Arrays from props change identity on every render; restart only when the contents do
+  const formatsKey = formats.join(',');
+  const currentCamera = cameraKey(camera);
+
   useEffect(() => {
-    // We only want to initialize this once
-    if (scannerRef.current) return;
-
-    // The element ID where the scanner will render
-    const elementId = "html5qr-code-full-region";
-
-    // Initialize only if element exists (it should)
-    const element = document.getElementById(elementId);
-    if (!element) return;
-
-    const scanner = new Html5QrcodeScanner(
-      elementId,
-      {
-        fps: 10,
-        qrbox: { width: 250, height: 250 },
-        aspectRatio: 1.0,
-        showTorchButtonIfSupported: true
-      },
-      /* verbose= */ false
-    );
-
-    scannerRef.current = scanner;
-
-    scanner.render(
-      (decodedText) => {
-        if (onScanRef.current) {
-          onScanRef.current(decodedText);
-        }
-      },
-      (errorMessage) => {
-        if (onErrorRef.current) {
-          onErrorRef.current(errorMessage);
-        }
+    let cancelled = false;
+    setCameraError(null);
+    setZoom(null);
+    setTorchOn(null);
+    if (!active) return;
+
+    let scanner: Html5Qrcode | null = null;
+    const started = stoppedRef.current.then(() => {
+      if (cancelled) return;
+      scanner = new Html5Qrcode(elementId, {
+        formatsToSupport: formatsKey.split(',').map(f => Html5QrcodeSupportedFormats[SCANNER_FORMATS[f as ScannerFormat]]),
+        verbose: false,
+      });
+      return scanner.start(
+        cameraConstraint(camera),
+        { fps: 10, qrbox: (width, height) => scanBox(region, width, height) },
+        (decodedText) => onScanRef.current?.(decodedText),
+        (errorMessage) => onErrorRef.current?.(errorMessage),
+      );
+    }).then(() => {
+      if (cancelled || !scanner) return;
+      const capabilities = scanner.getRunningTrackCameraCapabilities();
+      capabilitiesRef.current = capabilities;
+
+      const zoomFeature = capabilities.zoomFeature();
+      if (zoomFeature.isSupported()) {
+        setZoom({ min: zoomFeature.min(), max: zoomFeature.max(), step: zoomFeature.step(), value: zoomFeature.value() ?? zoomFeature.min() });
       }
-    );
+      if (capabilities.torchFeature().isSupported()) setTorchOn(false);
+
+      // Labels are only available once camera permission has been granted
+      Html5Qrcode.getCameras().then(list => { if (!cancelled) setCameras(list); }).catch(() => {});
+    }).catch((e) => {
+      if (!cancelled) setCameraError(String(e?.message || e));
+    });
 
     return () => {
-      if (scannerRef.current) {
-        scannerRef.current.clear().catch(error => {
-            console.error("Failed to clear html5-qrcode scanner. ", error);
+      cancelled = true;
+      capabilitiesRef.current = null;
+      stoppedRef.current = started
+        .then(() => (scanner?.isScanning ? scanner.stop() : undefined))
+        .then(() => scanner?.clear())
+        .catch(error => {
+          console.error("Failed to stop html5-qrcode scanner. ", error);
         });
-        scannerRef.current = null;
-      }
     };
-  }, []); // Empty dependency array ensures initialization happens only once
+    // `camera` is captured through `currentCamera`, `formats` through `formatsKey`
+  }, [active, elementId, formatsKey, currentCamera, region]);
+
+  const applyZoom = (value: number) => {
+    setZoom(z => (z ? { ...z, value } : z));
+    capabilitiesRef.current?.zoomFeature().apply(value).catch(() => {});
+  };
+
+  const toggleTorch = () => {
+    const next = !torchOn;
+    capabilitiesRef.current?.torchFeature().apply(next).then(() => setTorchOn(next)).catch(() => {});
+  };
+
+  const selectCamera = (key: string) => {
+    if (key === cameraKey(FRONT_CAMERA)) setCamera(FRONT_CAMERA);
+    else if (key === cameraKey(REAR_CAMERA)) setCamera(REAR_CAMERA);
+    else setCamera({ kind: 'device', deviceId: key.replace(/^device:/, '') });
+  };
+
+  // Only offer the region toggle when both shapes of barcode are allowed
+  const canSwitchRegion = formats.some(isWideFormat) && formats.some(f => !isWideFormat(f));
 
   return (
     <div className="w-full max-w-md mx-auto bg-gray-900 p-4 rounded-xl border border-gray-700">
-      <div id="html5qr-code-full-region" className="rounded-lg overflow-hidden"></div>
-      <p className="text-sm text-gray-400 mt-2 text-center">
-        Point your camera at a boarding pass barcode.
-      </p>
+      <div id={elementId} data-testid="scanner-region" className="rounded-lg overflow-hidden bg-black"></div>
+
+      <button
+        data-testid="scanner-toggle"
+        onClick={() => setActive(a => !a)}
+        aria-pressed={active}
+        className={`w-full mt-3 px-3 py-2 rounded border font-semibold ${active ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-brand-accent text-brand-accent bg-brand-accent/10 hover:bg-brand-accent/20'}`}
+      >
+        {active ? '■ Stop camera' : '▶ Start camera'}
+      </button>
+
+      {cameraError && (
+        <p className="text-sm text-red-300 mt-2 text-center">Camera unavailable: {cameraError}</p>
+      )}
+
+      <div className="mt-3 space-y-3 text-sm">
+        <div className="flex gap-2 items-center">
+          <label htmlFor={`${elementId}-camera`} className="text-xs text-gray-400 uppercase tracking-wider shrink-0">Camera</label>
+          <select
+            id={`${elementId}-camera`}
+            data-testid="camera-select"
+            value={currentCamera}
+            onChange={e => selectCamera(e.target.value)}
+            className="flex-1 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-gray-200"
+          >
+            <option value={cameraKey(REAR_CAMERA)}>Rear camera</option>
+            <option value={cameraKey(FRONT_CAMERA)}>Front camera</option>
+            {cameras.map(c => (
+              <option key={c.id} value={cameraKey({ kind: 'device', deviceId: c.id })}>{c.label || c.id}</option>
+            ))}
+          </select>
+          {torchOn !== null && (
+            <button
+              data-testid="torch-toggle"
+              onClick={toggleTorch}
+              aria-pressed={torchOn}
+              className={`px-2 py-1 rounded border ${torchOn ? 'border-yellow-400 text-yellow-300' : 'border-gray-600 text-gray-300'}`}
+            >
+              🔦 {torchOn ? 'On' : 'Off'}
+            </button>
+          )}
+        </div>
+
+        {zoom && (
+          <div className="flex gap-2 items-center">
+            <label htmlFor={`${elementId}-zoom`} className="text-xs text-gray-400 uppercase tracking-wider shrink-0">Zoom</label>
+            <input
+              id={`${elementId}-zoom`}
+              data-testid="zoom-slider"
+              type="range"
+              min={zoom.min}
+              max={zoom.max}
+              step={zoom.step}
+              value={zoom.value}
+              onChange={e => applyZoom(Number(e.target.value))}
+              className="flex-1 accent-brand-accent"
+            />
+            <span className="text-xs text-gray-400 w-10 text-right">{zoom.value.toFixed(1)}×</span>
+          </div>
+        )}
+
+        {canSwitchRegion && (
+          <div className="flex gap-2" role="group" aria-label="Scan region">
+            {(['wide', 'square'] as ScanRegion[]).map(r => (
+              <button
+                key={r}
+                onClick={() => setRegion(r)}
+                aria-pressed={region === r}
+                title={r === 'wide' ? 'For PDF417 and linear barcodes' : 'For Aztec, QR and Data Matrix'}
+                className={`flex-1 px-2 py-1 rounded border text-xs ${region === r ? 'border-brand-accent text-brand-accent' : 'border-gray-600 text-gray-400 hover:text-white'}`}
+              >
+                {r === 'wide' ? '▭ Wide' : '□ Square'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-400 mt-2 text-center">{hint}</p>
     </div>
   );
 }
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { ParsedBcbp, Segment } from '../lib/bcbp';
+import { verifyBcbpSignature, VerificationResult, VerificationStatus } from '../lib/bcbp_security';
+import { KeyringEntry } from '../data/bcbp_keyring';
+
+interface SecurityStatusProps {
+  raw: string;
+  parsed: ParsedBcbp;
+  segments?: Segment[];
+  keyring?: KeyringEntry[];
+}
+
+const STATUS_STYLES: Record<VerificationStatus, { label: string; icon: string; className: string }> = {
+  verified: { label: 'Verified', icon: '✔', className: 'border-green-500 text-green-300 bg-green-900/30' },
+  invalid: { label: 'Invalid Signature', icon: '✖', className: 'border-red-500 text-red-300 bg-red-900/30' },
+  unknown_key: { label: 'Unknown Key', icon: '?', className: 'border-yellow-500 text-yellow-200 bg-yellow-900/30' },
+  unsigned: { label: 'Unsigned', icon: '–', className: 'border-gray-600 text-gray-300 bg-gray-800/50' },
+};
+
+export default function SecurityStatus({ raw, parsed, segments, keyring }: SecurityStatusProps) {
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    verifyBcbpSignature(raw, parsed, segments, keyring)
+      .then(r => { if (!cancelled) setResult(r); })
+      .catch((e: Error) => { if (!cancelled) setResult({ status: 'invalid', message: e.message }); });
+    return () => { cancelled = true; };
+  }, [raw, parsed, segments, keyring]);
+
+  if (!result) {
+    return <div className="text-sm text-gray-500 italic">Checking signature...</div>;
+  }
+
+  const style = STATUS_STYLES[result.status];
+  return (
+    <div data-testid="security-status" data-status={result.status} className={`border rounded-lg px-4 py-3 flex items-start gap-3 ${style.className}`}>
+      <span className="text-lg font-bold leading-none mt-0.5">{style.icon}</span>
+      <div>
+        <p className="text-sm font-semibold uppercase tracking-wider">{style.label}</p>
+        <p className="text-xs opacity-80">{result.message}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { WalletPass } from '../lib/pkpass';
+
+// The fields Apple Wallet shows for an imported .pkpass, next to what the barcode decodes to
+export default function WalletPassCard({ pass }: { pass: WalletPass }) {
+  const front = pass.fields.filter(f => !f.back);
+  const back = pass.fields.filter(f => f.back);
+
+  return (
+    <div data-testid="wallet-pass" className="bg-gray-900 border border-gray-700 rounded-xl p-4 md:p-6 shadow-xl mb-6">
+      <div className="flex items-baseline justify-between gap-4 mb-4">
+        <h3 className="text-xl font-semibold text-brand-accent">Wallet Pass</h3>
+        {pass.organizationName && <p className="text-sm text-gray-400">{pass.organizationName}</p>}
+      </div>
+      {front.length === 0 && back.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">This pass shows no fields besides its barcode.</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {front.map(f => <WalletFieldView key={f.key} label={f.label} value={f.value} />)}
+        </div>
+      )}
+      {back.length > 0 && (
+        <details className="mt-4">
+          <summary className="text-xs text-gray-500 hover:text-gray-300 cursor-pointer">Back of pass ({back.length})</summary>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+            {back.map(f => <WalletFieldView key={f.key} label={f.label} value={f.value} />)}
+          </div>
+        </details>
+      )}
+      <p className="text-xs text-gray-500 mt-4">
+        These come from the pass file, not the barcode, and aren't covered by the barcode's signature.
+      </p>
+    </div>
+  );
+}
+
+function WalletFieldView({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-400 uppercase tracking-wider mb-1">{label}</p>
+      <p className="text-sm text-white whitespace-pre-line">{value}</p>
+    </div>
+  );
+}
@@ -0,0 +1,1193 @@
+// Generated by scripts/build_reference_data.mjs from OpenFlights (https://openflights.org/data),
+// available under the Open Database License. Do not edit by hand.
+
+// [IATA, ICAO, name, country, callsign]; blank when unknown
+export type AirlineRow = [string, string, string, string, string];
+
+export const AIRLINE_ROWS: AirlineRow[] = [
+  ["01","","Bobb Air Freight","Germany",""],
+  ["0B","JOR","Blue Air","Romania","BLUE TRANSPORT"],
+  ["0D","DWT","Darwin Airline","Switzerland","DARWIN"],
+  ["0G","","Global Airlines","Argentina",""],
+  ["0M","","All America MX","Mexico",""],
+  ["0P","PYB","All America BOPY","Paraguay","BOPY"],
+  ["0X","","Copenhagen Express","Denmark","Copex"],
+  ["0Y","","All America CO","Colombia",""],
+  ["11","","TUIfly (X3)","Germany",""],
+  ["12","","12 North","India","12N"],
+  ["13","EAV","Eastern Atlantic Virtual Airlines","United States","EAVA"],
+  ["1B","","Abacus International","Singapore",""],
+  ["1C","","OneChina","China",""],
+  ["1E","RGG","TransRussiaAirlines","Russia",""],
+  ["1F","CIF","CB Airways UK ( Interliging Flights )","United Kingdom",""],
+  ["1I","EJA","NetJets","United States","EXECJET"],
+  ["1K","","BudgetAir","Germany",""],
+  ["1R","","All America CL","Chile",""],
+  ["1T","RNX","1Time Airline","South Africa","NEXTIME"],
+  ["1X","","Island Express Air","Canada","Abby Air"],
+  ["1Y","","All America BR","Brazil",""],
+  ["20","RNE","Air Salone","Sierra Leone","AIR SALONE"],
+  ["24","","Euro Jet","Germany",""],
+  ["2A","","Deutsche Bahn","Germany",""],
+  ["2B","ARD","Aerocondor","Portugal","AEROCONDOR"],
+  ["2D","","Aero VIP (2D)","Portugal",""],
+  ["2F","FTA","Frontier Flying Service","United States","FRONTIER-AIR"],
+  ["2I","","Star Peru (2I)","Peru",""],
+  ["2J","VBW","Air Burkina","Burkina Faso","BURKINA"],
+  ["2K","GLG","Aerolineas Galapagos (Aerogal)","Ecuador","AEROGAL"],
+  ["2L","OAW","Helvetic Airways","Switzerland","HELVETIC"],
+  ["2M","MDV","Moldavian Airlines","Moldova","MOLDAVIAN"],
+  ["2N","NTJ","NextJet","Sweden","NEXTJET"],
+  ["2O","","Air Salone","Sierra Leone",""],
+  ["2P","GAP","Air Philippines","Philippines","ORIENT PACIFIC"],
+  ["2R","","All America AR","Argentina",""],
+  ["2S","","Air Carnival","India",""],
+  ["2T","HAM","Haiti Ambassador Airlines","Haiti",""],
+  ["2U","GIP","Air Guinee Express","Guinea","FUTURE EXPRESS"],
+  ["2W","WLC","Welcome Air","Austria","WELCOMEAIR"],
+  ["2X","","Regionalia Uruguay","Uruguay",""],
+  ["3B","","JobAir","Czech Republic",""],
+  ["3E","","Air Choice One","United States",""],
+  ["3F","","Fly Colombia ( Interliging Flights )","Colombia",""],
+  ["3I","","Air Comet Chile","Chile",""],
+  ["3K","JSA","Jetstar Asia Airways","Singapore","JETSTAR ASIA"],
+  ["3L","ISK","Intersky","Austria","INTERSKY"],
+  ["3M","","Silver Airways (3M)","United States","Silver Wings"],
+  ["3O","","Air Arabia Maroc","Morocco","Air Arabia"],
+  ["3P","TNM","Tiara Air","Aruba","TIARA"],
+  ["3Q","CYH","Yunnan Airlines","China","YUNNAN"],
+  ["3R","GAI","Moskovia Airlines","Russia","GROMOV AIRLINE"],
+  ["3S","","Air Antilles Express","Guadeloupe","GREEN BIRD"],
+  ["3T","URN","Turan Air","Azerbaijan","TURAN"],
+  ["3U","CSC","Sichuan Airlines","China","SI CHUAN"],
+  ["3W","","Malawian Airlines","Malawi",""],
+  ["47","VVN","88","Cyprus",""],
+  ["4A","AKL","Air Kiribati","Kiribati",""],
+  ["4B","BTQ","Boutique Air (Priv)","United States",""],
+  ["4C","ARE","LATAM Airlines Colombia","Colombia","LAN COLOMBIA"],
+  ["4D","ASD","Air Sinai","Egypt","AIR SINAI"],
+  ["4G","GZP","Gazpromavia","Russia","GAZPROMAVIA"],
+  ["4H","UBD","United Airways","Bangladesh","UNITED BANGLADESH"],
+  ["4K","AAS","Askari Aviation","Pakistan","AL-AAS"],
+  ["4L","MJX","Euroline","Georgia","GEO-LINE"],
+  ["4N","ANT","Air North Charter - Canada","Canada","AIR NORTH"],
+  ["4O","","Interjet (ABC Aerolineas)","Mexico","INTERJET"],
+  ["4P","","Business Aviation","Democratic Republic of the Congo","AFRICAN BUSINESS"],
+  ["4Q","","Safi Airlines","Afghanistan",""],
+  ["4R","HHI","Hamburg International","Germany","HAMBURG JET"],
+  ["4S","","Vuola Italia","Italy",""],
+  ["4T","BHP","Belair Airlines","Switzerland","BELAIR"],
+  ["4U","GWI","Germanwings","Germany","GERMAN WINGS"],
+  ["4X","","Red Jet Mexico","Mexico",""],
+  ["4Z","","Airlink (SAA)","South Africa",""],
+  ["5B","BSX","Bassaka airlines","Cambodia","5B"],
+  ["5D","SLI","Aerolitoral","Mexico","COSTERA"],
+  ["5E","","SGA Airlines","Thailand","SIAM"],
+  ["5G","SSV","Skyservice Airlines","Canada","SKYTOUR"],
+  ["5H","FFV","Fly540","Kenya","SWIFT TANGO"],
+  ["5J","CEB","Cebu Pacific","Philippines","CEBU AIR"],
+  ["5K","","Hi Fly (5K)","Portugal",""],
+  ["5L","RSU","Aerosur","Bolivia","AEROSUR"],
+  ["5M","SIB","Sibaviatrans","Russia","SIBAVIA"],
+  ["5N","AUL","Aeroflot-Nord","Russia","DVINA"],
+  ["5P","","Pal airlines","Chile",""],
+  ["5Q","","BQB Lineas Aereas","Uruguay",""],
+  ["5T","MPE","Canadian North","Canada","EMPRESS"],
+  ["5W","AEU","Astraeus","United Kingdom","FLYSTAR"],
+  ["5Y","GTI","Atlas Air","United States","GIANT"],
+  ["5Z","VVC","VivaColombia","Colombia",""],
+  ["69","","Royal European Airlines","United Kingdom",""],
+  ["6A","CHP","Consorcio Aviaxsa","Mexico","AVIACSA"],
+  ["6B","BLX","TUIfly Nordic","Sweden","BLUESCAN"],
+  ["6C","","Vuela Cuba","Cuba",""],
+  ["6D","","Pelita","Indonesia",""],
+  ["6E","IGO","IndiGo Airlines","India","IFLY"],
+  ["6F","MKD","MAT Airways","North Macedonia",""],
+  ["6G","AWW","Air Wales","United Kingdom","RED DRAGON"],
+  ["6H","ISR","Israir","Israel","ISRAIR"],
+  ["6I","","Fly 6ix","Sierra Leone",""],
+  ["6J","SNJ","Skynet Asia Airways","Japan","NEWSKY"],
+  ["6K","RIT","Asian Spirit","Philippines","ASIAN SPIRIT"],
+  ["6P","","Gryphon Airlines","United States",""],
+  ["6R","DRU","Alrosa Mirny Air Enterprise","Russia","MIRNY"],
+  ["6T","","Air Mandalay","Myanmar (Burma)","Six Tango"],
+  ["6V","CZV","Via Conectia Airlines","Uruguay",""],
+  ["6W","SOV","Saratov Aviation Division","Russia","SARATOV AIR"],
+  ["6Y","","SmartLynx Airlines","Latvia",""],
+  ["76","SJS","Southjet","United States",""],
+  ["77","ZCS","Southjet connect","United States",""],
+  ["7B","KJC","Krasnojarsky Airlines","Russia","KRASNOJARSKY AIR"],
+  ["7C","JJA","Jeju Air","South Korea","JEJU AIR"],
+  ["7E","AWU","Aeroline GmbH","Germany","SYLT-AIR"],
+  ["7F","FAB","First Air","Canada",""],
+  ["7G","SFJ","Star Flyer","Japan","STARFLYER"],
+  ["7H","ERR","Era Alaska","United States","ERAH"],
+  ["7I","","Insel Air (7I/INC) (Priv)","Netherlands Antilles",""],
+  ["7J","","Tajik Air","Tajikistan",""],
+  ["7K","KGL","Kogalymavia Air Company","Russia","KOGALYM"],
+  ["7L","ERO","Sun D'Or","Israel","ECHO ROMEO"],
+  ["7M","ZTF","Mongolian International Air Lines","Mongolia","Mongol_AIr"],
+  ["7O","","All Colombia","Colombia",""],
+  ["7P","BTV","Metro Batavia","Indonesia","BATAVIA"],
+  ["7Q","","Pan Am World Airways Dominicana","Dominican Republic","PAWA"],
+  ["7R","SJM","Svyaz Rossiya","Russia","RussianConnecty"],
+  ["7T","AGV","Air Glaciers","Switzerland","AIR GLACIERS"],
+  ["7W","","Wayraper","Peru","WAYRAPER"],
+  ["7Y","","Med Airways","Lebanon","FLYING CARPET"],
+  ["7Z","","Halcyonair","Cape Verde","CREOLE"],
+  ["88","","All Australia","Australia",""],
+  ["8A","BMM","Atlas Blue","Morocco","ATLAS BLUE"],
+  ["8B","BCC","BusinessAir","Thailand",""],
+  ["8D","","Astair","Russia",""],
+  ["8E","BRG","Bering Air","United States","BERING AIR"],
+  ["8F","STP","STP Airways","Sao Tome and Principe","SAOTOME AIRWAYS"],
+  ["8H","HFR","Heli France","France","HELIFRANCE"],
+  ["8I","","Myway Airlines","Italy",""],
+  ["8J","JFU","Jet4You","Morocco","ARGAN"],
+  ["8K","","Voestar","Brazil",""],
+  ["8N","NKF","Barents AirLink","Sweden","NORDFLIGHT"],
+  ["8O","","West Coast Air","Canada",""],
+  ["8P","PCO","Pacific Coastal Airline","Canada","PASCO"],
+  ["8R","TIB","TRIP Linhas A","Brazil","TRIP"],
+  ["8T","","Air Tindi","Canada",""],
+  ["8U","AAW","Afriqiyah Airways","Libya","AFRIQIYAH"],
+  ["8V","ACP","Astral Aviation","Kenya","ASTRAL CARGO"],
+  ["8Z","WVL","Wizz Air Hungary","Bulgaria","WIZZBUL"],
+  ["99","","Ciao Air","Italy",""],
+  ["9A","","All Africa","South Africa",""],
+  ["9C","","China SSS","China",""],
+  ["9E","FLG","Pinnacle Airlines","United States","FLAGSHIP"],
+  ["9H","","MDLR Airlines","India","MDLR"],
+  ["9I","INE","International Europe","Spain",""],
+  ["9J","","Regionalia Chile","Chile",""],
+  ["9K","KAP","Cape Air","United States","CAIR"],
+  ["9L","CJC","Colgan Air","United States","COLGAN"],
+  ["9N","","Regional Air Iceland","Iceland",""],
+  ["9Q","PBA","PB Air","Thailand","PEEBEE AIR"],
+  ["9R","NSE","SATENA","Colombia","SATENA"],
+  ["9S","CQH","Spring Airlines","China","AIR SPRING"],
+  ["9T","ABS","Transwest Air","Canada","ATHABASKA"],
+  ["9U","MLD","Air Moldova","Moldova","AIR MOLDOVA"],
+  ["9V","","Volotea Costa Rica","Costa Rica",""],
+  ["9W","JAI","Jet Airways","India","JET AIRWAYS"],
+  ["9X","","Regionalia Venezuela","Venezuela",""],
+  ["9Y","KZK","Air Kazakhstan","Kazakhstan","Kazakh"],
+  ["A1","","Atifly","United States","atifly"],
+  ["A2","","All America","United States",""],
+  ["A3","AEE","Aegean Airlines","Greece","AEGEAN"],
+  ["A4","SWD","Southern Winds Airlines","Argentina","SOUTHERN WINDS"],
+  ["A5","RLA","Airlinair","France","AIRLINAIR"],
+  ["A6","","Air Alps Aviation (A6)","Austria","ALPAV"],
+  ["A7","MPD","Air Plus Comet","Spain","RED COMET"],
+  ["A9","TGZ","Georgian Airways","Georgia","TAMAZI"],
+  ["AA","AAL","American Airlines","United States","AMERICAN"],
+  ["","AAQ","Copterline","Finland","COPTERLINE"],
+  ["AB","BER","Air Berlin","Germany","AIR BERLIN"],
+  ["AC","ACA","Air Canada","Canada","AIR CANADA"],
+  ["AD","AZU","Azul","Brazil",""],
+  ["AE","MDA","Mandarin Airlines","Taiwan","Mandarin"],
+  ["","AES","ACES Colombia","Colombia","ACES"],
+  ["AF","AFR","Air France","France","AIRFRANS"],
+  ["AG","SSA","All America US","United States",""],
+  ["","AGX","Aviogenex","Serbia","GENEX"],
+  ["AH","DAH","Air Algerie","Algeria","AIR ALGERIE"],
+  ["AI","AIC","Air India Limited","India","AIRINDIA"],
+  ["","AIO","United States Air Force","United States","AIR CHIEF"],
+  ["","AIR","Airlift International","United States","AIRLIFT"],
+  ["AJ","NIG","Aero Contractors","Nigeria","AEROLINE"],
+  ["AK","AXM","AirAsia","Malaysia","ASIAN EXPRESS"],
+  ["","AKA","Air Korea Co. Ltd.","South Korea",""],
+  ["AL","SYX","Skywalk Airlines","United States","SKYWAY-EX"],
+  ["","ALO","Allegheny Commuter Airlines","United States","ALLEGHENY"],
+  ["AM","AMX","AeroMéxico","Mexico","AEROMEXICO"],
+  ["","AMT","ATA Airlines","United States","AMTRAN"],
+  ["","AMV","AMC Airlines","Egypt",""],
+  ["AN","AAA","Ansett Australia","Australia","ANSETT"],
+  ["","ANU","Andalus Lineas Aereas","Spain","Andalus"],
+  ["AO","","Avianova (Russia)","Russia","Nova"],
+  ["AP","ADH","Air One","Italy","HERON"],
+  ["AQ","AAH","Aloha Airlines","United States","ALOHA"],
+  ["AR","ARG","Aerolineas Argentinas","Argentina","ARGENTINA"],
+  ["","ARU","Aruba Airlines","Aruba",""],
+  ["AS","ASA","Alaska Airlines","United States","Inc."],
+  ["AT","RAM","Royal Air Maroc","Morocco","ROYALAIR MAROC"],
+  ["AU","AUT","Austral Lineas Aereas","Argentina","AUSTRAL"],
+  ["AV","AVA","Avianca - Aerovias Nacionales de Colombia","AVIANCA","S.A."],
+  ["AW","AWM","Asian Wings Airways","Myanmar (Burma)","Asian Star"],
+  ["AX","LOF","Trans States Airlines","United States","WATERSKI"],
+  ["","AXC","Indochina Airlines","Vietnam","Airspup"],
+  ["","AXE","Air Explore","Slovakia",""],
+  ["AY","FIN","Finnair","Finland","FINNAIR"],
+  ["AZ","AZA","Alitalia","Italy","ALITALIA"],
+  ["B0","","Aws express","United States","aws"],
+  ["B1","","Baltic Air lines","Latvia","Baltic"],
+  ["B2","BRU","Belavia Belarusian Airlines","Belarus","BELARUS AVIA"],
+  ["B4","GSM","Flyglobespan","United Kingdom","GLOBESPAN"],
+  ["B5","FLT","Flightline","United Kingdom","FLIGHTLINE"],
+  ["B6","JBU","JetBlue Airways","United States","JETBLUE"],
+  ["B7","UIA","Uni Air","Taiwan","Glory"],
+  ["B8","ERT","Eritrean Airlines","Eritrea","ERITREAN"],
+  ["BA","BAW","British Airways","United Kingdom","SPEEDBIRD"],
+  ["BB","SBS","Seaborne Airlines","United States","SEABORNE"],
+  ["","BBG","Bluebird Airways (BZ)","Greece",""],
+  ["BC","SKY","Skymark Airlines","Japan","SKYMARK"],
+  ["","BCN","Ocean Air","Mauritania","BLUE OCEAN"],
+  ["BD","BMA","bmi","United Kingdom","MIDLAND"],
+  ["BE","BEE","Flybe","United Kingdom","JERSEY"],
+  ["","BEU","Bateleur Air","South Africa",""],
+  ["BF","RSR","Aero-Service","Republic of the Congo","CONGOSERV"],
+  ["BG","BBC","Biman Bangladesh Airlines","Bangladesh","BANGLADESH"],
+  ["","BGY","Bingo Airways","Poland",""],
+  ["BH","","Hawkair","Canada",""],
+  ["BI","RBA","Royal Brunei Airlines","Brunei","BRUNEI"],
+  ["BJ","LBT","Nouvel Air Tunisie","Tunisia","NOUVELAIR"],
+  ["BK","PDC","Potomac Air","United States","DISTRICT"],
+  ["","BKF","BF-Lento OY","Finland","BAKERFLIGHT"],
+  ["BL","PIC","Jetstar Pacific","Vietnam","PACIFIC AIRLINES"],
+  ["","BLL","Baltic Airlines","Russia","BALTIC AIRLINES"],
+  ["BM","","Air Sicilia","Italy",""],
+  ["","BMR","British Midland Regional","United Kingdom",""],
+  ["BN","HZA","Horizon Airlines","Australia",""],
+  ["","BOV","Boliviana de Aviacion (OB)","Bolivia","BOLIVIANA"],
+  ["BP","BOT","Air Botswana","Botswana","BOTSWANA"],
+  ["","BPS","Budapest Aircraft Services/Manx2","Hungary","BASE"],
+  ["BQ","BQB","Buquebus Líneas Aéreas","Uruguay",""],
+  ["BR","EVA","EVA Air","Taiwan","EVA"],
+  ["","BRS","Brazilian Air Force","Brazil","BRAZILIAN AIR FORCE"],
+  ["BT","BTI","Air Baltic","Latvia","AIRBALTIC"],
+  ["","BTM","Air Batumi","Georgia",""],
+  ["BU","BUU","Baikotovitchestrian Airlines","American Samoa",""],
+  ["","BUR","Air Bucharest","Romania",""],
+  ["BV","BPA","Blue Panorama Airlines","Italy","BLUE PANOROMA"],
+  ["BW","BWA","Caribbean Airlines","Trinidad and Tobago","CARIBBEAN AIRLINES"],
+  ["BX","ABL","Air Busan","South Korea","Air Busan"],
+  ["BY","TOM","Thomsonfly","United Kingdom","TOMSON"],
+  ["BZ","BSA","Black Stallion Airways","United States","Stallion"],
+  ["C0","CLW","Centralwings","Poland","CENTRALWINGS"],
+  ["C1","","CanXpress","Canada","CAX"],
+  ["C2","CAP","CanXplorer","Canada",""],
+  ["C4","LIX","LionXpress","Cameroon","LIX"],
+  ["C5","UCA","CommutAir","United States","COMMUTAIR"],
+  ["C7","","Sky Wing Pacific","South Korea",""],
+  ["C9","RUS","Cirrus Airlines","Germany","CIRRUS AIR"],
+  ["CA","CCA","Air China","China","AIR CHINA"],
+  ["","CAI","Corendon Airlines","Turkey","CORENDON"],
+  ["","CAN","Crest Aviation","United Kingdom","CREST"],
+  ["CB","CCC","CCML Airlines","Colombia",""],
+  ["","CBG","GX Airlines","China","SPRAY"],
+  ["CC","ABD","Air Atlanta Icelandic","Iceland","ATLANTA"],
+  ["","CCB","CARICOM AIRWAYS (BARBADOS) INC.","Barbados",""],
+  ["","CCG","Central Connect Airlines","Czech Republic",""],
+  ["CD","","Air India Regional","India","ALLIED"],
+  ["CE","NTW","Nationwide Airlines","South Africa","NATIONWIDE"],
+  ["","CEL","CEIBA Intercontinental","Equatorial Guinea","CEIBA LINE"],
+  ["","CEO","Comfort Express Virtual Charters","United States",""],
+  ["","CEY","Air Century","Dominican Republic",""],
+  ["CF","SDR","City Airline","Sweden","SWEDESTAR"],
+  ["CG","TOK","Airlines PNG","Papua New Guinea","BALUS"],
+  ["","CGK","Click Airways","Kyrgyzstan","CLICK AIR"],
+  ["CH","BMJ","Bemidji Airlines","United States","BEMIDJI"],
+  ["","CHW","Charter Air","Austria","CHARTER WIEN"],
+  ["CI","CAL","China Airlines","Taiwan","DYNASTY"],
+  ["CJ","CFE","BA CityFlyer","United Kingdom","FLYER"],
+  ["CL","CLH","Lufthansa CityLine","Germany","HANSALINE"],
+  ["","CLJ","Cello Aviation","United Kingdom","CELLOJET"],
+  ["CM","CMP","Copa Airlines","Panama","COPA"],
+  ["CN","YCP","Canadian National Airways","Canada","CaNational"],
+  ["","CNF","Canaryfly","Spain",""],
+  ["","CNO","SAS Braathens","Norway","SCANOR"],
+  ["","COE","Comtel Air","Austria",""],
+  ["CQ","KOL","SOCHI AIR","Russia","SLOW FROG"],
+  ["","CRO","Crown Airways","United States","CROWN AIRWAYS"],
+  ["CS","CMI","Continental Micronesia","United States","AIR MIKE"],
+  ["","CSX","Choice Airways","United States",""],
+  ["CT","","Alitalia Cityliner","Italy",""],
+  ["CU","CUB","Cubana de Aviación","Cuba","CUBANA"],
+  ["","CUD","Air Cudlua","United Kingdom","Cudlua"],
+  ["CV","CVA","Air Chathams","New Zealand","CHATHAM"],
+  ["CW","CWM","Air Marshall Islands","Marshall Islands","AIR MARSHALLS"],
+  ["CX","CPA","Cathay Pacific","Hong Kong","CATHAY"],
+  ["CY","CYP","Cyprus Airways","Cyprus","CYPRUS"],
+  ["CZ","CSN","China Southern Airlines","China","CHINA SOUTHERN"],
+  ["D1","MDO","Domenican Airlines","Dominican Republic","Domenican"],
+  ["D2","","Severstal Air Company","Russia",""],
+  ["D3","DAO","Daallo Airlines","Djibouti","DALO AIRLINES"],
+  ["D6","ILN","Interair South Africa","South Africa","INLINE"],
+  ["D7","XAX","AirAsia X","Malaysia","XANADU"],
+  ["D8","DJB","Djibouti Airlines","Djibouti","DJIBOUTI AIR"],
+  ["D9","DNV","Aeroflot-Don","Russia","DONAVIA"],
+  ["DA","","Dana Air","Nigeria","DANACO"],
+  ["","DAK","First Flying","Japan",""],
+  ["DB","BZH","Brit Air","France","BRITAIR"],
+  ["","DBK","Dubrovnik Air","Croatia","SEAGULL"],
+  ["DC","GAO","Golden Air","Sweden","GOLDEN"],
+  ["","DCD","Air 26","Angola","DUCARD"],
+  ["DD","NOK","Nok Air","Thailand","NOK AIR"],
+  ["DE","CFG","Condor Flugdienst","Germany","CONDOR"],
+  ["","DEA","Delta Aerotaxi","Italy","JET SERVICE"],
+  ["DF","MJG","Michael Airlines","Puerto Rico","MJG"],
+  ["DG","SRQ","South East Asian Airlines","Philippines","SEAIR"],
+  ["DH","DSY","Dennis Sky","Israel","DSY"],
+  ["DI","BAG","dba","Germany","SPEEDWAY"],
+  ["DK","ELA","Eastland Air","Australia",""],
+  ["DL","DAL","Delta Air Lines","United States","DELTA"],
+  ["DM","","Maersk","Denmark",""],
+  ["","DME","Royal Flight","Russia",""],
+  ["DN","SGG","Senegal Airlines","Senegal",""],
+  ["","DNL","Dutch Antilles Express","Netherlands Antilles","DUTCH ANTILLES"],
+  ["","DNM","Denim Air","Netherlands","DENIM"],
+  ["DO","DOA","Dominicana de Aviaci","Dominican Republic","DOMINICANA"],
+  ["DP","FCA","First Choice Airways","United Kingdom","JETSET"],
+  ["DQ","","Coastal Air","United States","U.S. Virgin Islands"],
+  ["DR","BIE","Air Mediterranee","France","MEDITERRANEE"],
+  ["DS","","EasyJet (DS)","Switzerland",""],
+  ["","DSV","Direct Aero Services","Romania",""],
+  ["DT","DTA","TAAG Angola Airlines","Angola","DTA"],
+  ["DU","NLH","Norwegian Long Haul AS","Norway","NORSTAR"],
+  ["DV","VSV","Scat Air","Kazakhstan","VLASTA"],
+  ["DX","DTR","DAT Danish Air Transport","Denmark","DANISH"],
+  ["DY","NAX","Norwegian Air Shuttle","Norway","NOR SHUTTLE"],
+  ["","DYA","Dynamic Airways","United States",""],
+  ["DZ","","Starline.kz","Kazakhstan","ALUNK"],
+  ["E2","","Eagle Atlantic Airlines","Ghana",""],
+  ["E3","DMO","Domodedovo Airlines","Russia","DOMODEDOVO"],
+  ["E4","GIE","Elysian Airlines","Cameroon",""],
+  ["E5","RBG","Air Arabia Egypt","Egypt",""],
+  ["E8","GTA","City Airways","Thailand","CITY AIR"],
+  ["E9","","Compagnie Africaine d\\\\'Aviation","Democratic Republic of the Congo","AFRICOMPANY"],
+  ["EA","EAL","European Air Express","Germany","STAR WING"],
+  ["","EAA","Eastok Avia","Kyrgyzstan",""],
+  ["EC","TWN","Avialeasing Aviation Company","Uzbekistan","TWINARROW"],
+  ["","ECU","Ecuavia","Ecuador","ECUAVIA"],
+  ["ED","ABQ","Airblue","Pakistan","PAKBLUE"],
+  ["EE","","Nordica","Estonia","REVAL"],
+  ["EF","EFA","Far Eastern Air Transport","Taiwan","Far Eastern"],
+  ["","EFY","EasyFly","Colombia","EASYFLY"],
+  ["EG","JAA","Japan Asia Airways","Japan","ASIA"],
+  ["","EGH","BBN-Airways","United Kingdom","BBN"],
+  ["","EGS","Eagles Airlines","Italy","EAGLES"],
+  ["","EHN","East Horizon","Afghanistan","EAST HORIZON"],
+  ["EI","EIN","Aer Lingus","Ireland","SHAMROCK"],
+  ["EJ","NEA","New England Airlines","United States","NEW ENGLAND"],
+  ["EK","UAE","Emirates","United Arab Emirates","EMIRATES"],
+  ["EL","ANK","Air Nippon","Japan","ANK AIR"],
+  ["","ELC","Small Planet Airlines","Lithuania",""],
+  ["","ELK","ELK Airways","Estonia",""],
+  ["EM","AEB","Aero Benin","Benin","AEROBEN"],
+  ["EN","DLA","Air Dolomiti","Italy","DOLOMOTI"],
+  ["","ENJ","Enerjet","Canada","ENERJET AIR"],
+  ["","ENY","Envoy Air","United States","Envoy"],
+  ["","ENZ","Jota Aviation","United Kingdom","ENZO"],
+  ["EO","LHN","Express One International","United States","LONGHORN"],
+  ["EP","IRC","Iran Aseman Airlines","Iran",""],
+  ["EQ","TAE","TAME","Ecuador","TAME"],
+  ["ER","RWW","Fly Europa","Spain",""],
+  ["ES","EUV","EuropeSky","Germany","EuropeSky"],
+  ["ET","ETH","Ethiopian Airlines","Ethiopia","ETHIOPIAN"],
+  ["EU","EEA","Empresa Ecuatoriana De Aviacion","Ecuador","ECUATORIANA"],
+  ["","EUD","Air Italy Egypt","Egypt",""],
+  ["EV","ASQ","Atlantic Southeast Airlines","United States","ACEY"],
+  ["","EVC","Comfort Express Virtual Charters Albany","United States","Comfort Express"],
+  ["EW","EWG","Eurowings","Germany","EUROWINGS"],
+  ["EX","","Europe Jet","France",""],
+  ["EY","ETD","Etihad Airways","United Arab Emirates","ETIHAD"],
+  ["EZ","EIA","Evergreen International Airlines","United States","EVERGREEN"],
+  ["","EZA","Eznis Airways","Mongolia","EZNIS"],
+  ["F1","FBL","Fly Brasil","Brazil","FBL"],
+  ["F5","","Fly One","Moldova",""],
+  ["F7","BBO","Flybaboo","Switzerland","BABOO"],
+  ["F8","","Air2there","New Zealand",""],
+  ["F9","FFT","Frontier Airlines","United States","FRONTIER FLIGHT"],
+  ["FA","","Epic Holiday","United States","Epic"],
+  ["FB","LZB","Bulgaria Air","Bulgaria","FLYING BULGARIA"],
+  ["FC","WBA","Finncomm Airlines","Finland","WESTBIRD"],
+  ["","FCB","COBALT","Cyprus","COBALT"],
+  ["","FCM","Flybe Finland Oy","Finland","FINNCOMM"],
+  ["FD","AIQ","Thai AirAsia","Thailand","THAI ASIA"],
+  ["","FDD","Feeder Airlines","Sudan",""],
+  ["","FEG","FlyEgypt","Egypt",""],
+  ["FF","FRF","Fly France","France",""],
+  ["FG","AFG","Ariana Afghan Airlines","Afghanistan","ARIANA"],
+  ["FH","FHI","FlyHigh Airlines Ireland (FH)","Ireland","FLYHIRELAND"],
+  ["FI","ICE","Icelandair","Iceland","ICEAIR"],
+  ["","FIX","Airfix Aviation","Finland","AIRFIX"],
+  ["FJ","FJI","Air Pacific","Fiji","PACIFIC"],
+  ["","FJM","Fly Jamaica Airways","Jamaica","Greenheart"],
+  ["FK","WTA","Africa West","Togo","WEST TOGO"],
+  ["","FKA","Flying kangaroo Airline","Australia","Skippy"],
+  ["FL","TRS","AirTran Airways","United States","CITRUS"],
+  ["","FLB","German Air Force - FLB","Germany","FLB"],
+  ["FM","CSH","Shanghai Airlines","China","SHANGHAI AIR"],
+  ["FN","","Regional Airlines","Morocco",""],
+  ["","FNA","Norlandair","Iceland","NORLAND"],
+  ["FO","ATM","Airlines Of Tasmania","Australia","AIRTAS"],
+  ["FP","FRE","Freedom Air","United States","FREEDOM"],
+  ["FQ","TCW","Thomas Cook Airlines","Belgium","THOMAS COOK"],
+  ["FR","RYR","Ryanair","Ireland","RYANAIR"],
+  ["","FRL","Freedom Airlines","United States","FREEDOM AIR"],
+  ["FS","STU","Servicios de Transportes A","Argentina","FUEGUINO"],
+  ["FT","SRH","Siem Reap Airways","Cambodia","SIEMREAP AIR"],
+  ["FU","FXX","Felix Airways","Yemen",""],
+  ["FV","SDM","Rossiya-Russian Airlines","Russia","PULKOVO"],
+  ["","FVM","Flugfelag Vestmannaeyja","Iceland","ELEGANT"],
+  ["FW","IBX","Ibex Airlines","Japan","IBEX"],
+  ["FX","FOX","FOX Linhas Aereas","Brazil",""],
+  ["FY","FFM","Firefly","Malaysia","FIREFLY"],
+  ["","FYJ","FLYJET","Poland","Fast Jet"],
+  ["FZ","FDB","Fly Dubai","United Arab Emirates",""],
+  ["","FZA","Fuzhou Airlines","China",""],
+  ["","FZW","Fly Africa Zimbabwe","Zimbabwe","Fresh Express"],
+  ["G0","GHB","Ghana International Airlines","Ghana","GHANA AIRLINES"],
+  ["G1","","Indya Airline Group","India","Indya1"],
+  ["G3","GLO","Gol Transportes Aéreos","Brazil","GOL TRANSPORTE"],
+  ["G4","AAY","Allegiant Air","United States","ALLEGIANT"],
+  ["G5","","Huaxia","China",""],
+  ["G6","","Air Volga","Russia","GOUMRAK"],
+  ["G7","GJS","GoJet Airlines","United States","GATEWAY"],
+  ["G8","GOW","Go Air","India","GOAIR"],
+  ["G9","ABY","Air Arabia","United Arab Emirates","ARABIA"],
+  ["GA","GIA","Garuda Indonesia","Indonesia","INDONESIA"],
+  ["GB","BZE","BRAZIL AIR","Brazil","BRAZIL AIR"],
+  ["","GCA","Grand Cru Airlines","Lithuania",""],
+  ["","GCR","Tianjin Airlines","China",""],
+  ["","GDC","Grand China Air","China","GRAND CHINA"],
+  ["GE","TNA","TransAsia Airways","Taiwan","TransAsia"],
+  ["GF","GBA","Gulf Air Bahrain","Bahrain","GULF BAHRAIN"],
+  ["","GFA","Gulf Air","Oman","GULF AIR"],
+  ["","GFT","Gulfstream International Airlines","United States","GULF FLIGHT"],
+  ["GG","GUY","Air Guyane","French Guiana","GREEN BIRD"],
+  ["GH","GLP","Globus","Russia",""],
+  ["GI","IKA","Itek Air","Kyrgyzstan","ITEK-AIR"],
+  ["GJ","EEU","Eurofly Service","Italy","EUROFLY"],
+  ["GK","","Genesis","Pakistan",""],
+  ["GL","GRL","Air Greenland","Denmark","GREENLAND"],
+  ["GM","GER","German International Air Lines","Germany",""],
+  ["","GMR","Golden Myanmar Airlines","Myanmar (Burma)","Golden Myanmar"],
+  ["GN","","GNB Linhas Aereas","Brazil",""],
+  ["","GNN","Georgian International Airlines","Georgia","GEO-LINE"],
+  ["GP","GDR","Gadair European Airlines","Spain","GADAIR"],
+  ["GQ","SEH","Sky Express","Greece","AIR CRETE"],
+  ["GR","AUR","Aurigny Air Services","United Kingdom","AYLINE"],
+  ["GS","UPA","Air Foyle","United Kingdom","FOYLE"],
+  ["GT","GBL","GB Airways","United Kingdom","GEEBEE AIRWAYS"],
+  ["GV","ARF","Aero Flight","Germany","Aero Fox"],
+  ["GW","KIL","Kuban Airlines","Russia","AIR KUBAN"],
+  ["GX","GXG","GermanXL","Germany",""],
+  ["GY","GBK","Gabon Airlines","Gabon","GABON AIRLINES"],
+  ["GZ","RAR","Air Rarotonga","Cook Islands",""],
+  ["H1","","Hankook Air US","United States",""],
+  ["H2","SKU","Sky Airline","Chile","AEROSKY"],
+  ["H3","","Harbour Air (Priv)","Canada",""],
+  ["H5","RSY","I-Fly","Russia","RUSSIAN SKY"],
+  ["H6","HAG","Hageland Aviation Services","United States","HAGELAND"],
+  ["H7","","Eagle Air","Uganda",""],
+  ["H8","KHB","Dalavia","Russia","DALAVIA"],
+  ["H9","","PEGASUS AIRLINES-","Turkey",""],
+  ["HA","HAL","Hawaiian Airlines","United States","HAWAIIAN"],
+  ["","HAY","Hamburg Airways","Germany",""],
+  ["","HBH","Hebei Airlines","China","Hebei Air"],
+  ["","HBR","Hebradran Air Services","United Kingdom","Hebradran"],
+  ["HC","HYM","Himalayan Airlines","Nepal","Himalayan"],
+  ["","HCC","Holidays Czech Airlines","Czech Republic",""],
+  ["HD","ADO","Hokkaido International Airlines","Japan","AIR DO"],
+  ["HE","LGW","Luftfahrtgesellschaft Walter","Germany","WALTER"],
+  ["HF","HLF","Hapagfly","Germany","HAPAG LLOYD"],
+  ["HG","NLY","Niki","Austria","FLYNIKI"],
+  ["HH","AHO","Air Hamburg (AHO)","Germany","Air Hamburg"],
+  ["HI","","Papillon Grand Canyon Helicopters","United States",""],
+  ["HK","","Yangon Airways","Myanmar (Burma)","Hotel Kilo"],
+  ["HM","SEY","Air Seychelles","Seychelles","SEYCHELLES"],
+  ["","HMR","North American Charters","Canada","HAMMER"],
+  ["HN","HNX","Hankook Airline","South Korea","HNX"],
+  ["HO","DKH","Juneyao Airlines","China","JUNEYAO AIRLINES"],
+  ["HP","AWE","America West Airlines","United States","CACTUS"],
+  ["","HPY","Happy Air","Thailand",""],
+  ["HR","CUA","China United Airlines","China","LIANHANG"],
+  ["","HRM","Hermes Airlines","Greece","HERMES"],
+  ["","HSK","Sky Europe Airlines","Slovakia","MATRA"],
+  ["HT","IMP","Hellenic Imperial Airways","Greece","IMPERIAL"],
+  ["","HTH","Helitt Líneas Aéreas","Spain",""],
+  ["HU","CHH","Hainan Airlines","China","HAINAN"],
+  ["HV","TRA","Transavia Holland","Netherlands","TRANSAVIA"],
+  ["","HVK","Turkish Air Force","Turkey","TURKISH AIRFORCE"],
+  ["HW","FHE","Hello","Switzerland","FLYHELLO"],
+  ["","HWY","Highland Airways","United Kingdom","HIWAY"],
+  ["HX","CRK","Hong Kong Airlines","Hong Kong","BAUHINIA"],
+  ["HY","UZB","Uzbekistan Airways","Uzbekistan","UZBEK"],
+  ["HZ","SOZ","Sat Airlines","Kazakhstan","SATCO"],
+  ["I2","IBS","Iberia Express","Spain",""],
+  ["I3","","ATA Airlines (Iran)","Iran","ATALAR"],
+  ["I4","","International AirLink","Jamaica",""],
+  ["I5","IDS","Indonesia Sky","Indonesia",""],
+  ["I6","MXI","MexicanaLink","Mexico","LINK"],
+  ["I7","PMW","Paramount Airways","India","PARAWAY"],
+  ["I8","","IzAvia","Russia",""],
+  ["IA","IAW","Iraqi Airways","Iraq","IRAQI"],
+  ["","IAM","Aeronautica Militare","Italy","Italian Airforce"],
+  ["IB","IBE","Iberia Airlines","Spain","IBERIA"],
+  ["","IBK","Norwegian Air International (D8)","Norway","NORTRANS"],
+  ["IC","IAC","Indian Airlines","India","INDAIR"],
+  ["ID","ITK","Interlink Airlines","South Africa","INTERLINK"],
+  ["","IDX","Indonesa Air Aisa X","Indonesia","Red Phoenix"],
+  ["IE","SOL","Solomon Airlines","Solomon Islands","SOLOMON"],
+  ["IF","ISW","Islas Airways","Spain","PINTADERA"],
+  ["IG","ISS","Meridiana","Italy","MERAIR"],
+  ["II","UWW","LSM International","Russia","moose"],
+  ["","IIA","AIR INDOCHINE","Vietnam",""],
+  ["IJ","SJO","Spring Airlines Japan","Japan",""],
+  ["IK","ITX","Imair Airlines","Azerbaijan","IMPROTEX"],
+  ["IN","MAK","MAT Macedonian Airlines","North Macedonia","MAKAVIO"],
+  ["IO","IAA","Indonesian Airlines","Indonesia","INDO LINES"],
+  ["IP","ISX","Island Spirit","Iceland",""],
+  ["IQ","AUB","Augsburg Airways","Germany","AUGSBURG-AIR"],
+  ["IR","IRA","Iran Air","Iran","IRANAIR"],
+  ["IS","","Island Airlines","United States",""],
+  ["IT","KFR","Kingfisher Airlines","India","KINGFISHER"],
+  ["IV","JET","Wind Jet","Italy","GHIBLI"],
+  ["IW","WON","Wings Air","Indonesia","WINGS ABADI"],
+  ["IX","AXB","Air India Express","India","EXPRESS INDIA"],
+  ["IY","IYE","Yemenia","Yemen","YEMENI"],
+  ["IZ","AIZ","Arkia Israel Airlines","Israel","ARKIA"],
+  ["J1","","OneJet","United States",""],
+  ["J2","AHY","Azerbaijan Airlines","Azerbaijan","AZAL"],
+  ["J3","PLR","Northwestern Air","Canada","POLARIS"],
+  ["J4","","ALAK","Russia",""],
+  ["J5","","Alaska Seaplane Service","United States",""],
+  ["J7","","Denim Air","Norway","DNM"],
+  ["J8","BVT","Berjaya Air","Malaysia","BERJAYA"],
+  ["J9","JZR","Jazeera Airways","Kuwait","JAZEERA"],
+  ["JA","BON","Air Bosna","Bosnia and Herzegovina","AIR BOSNA"],
+  ["JB","JBA","Helijet","Canada","HELIJET"],
+  ["JC","JEX","JAL Express","Japan","JANEX"],
+  ["JD","JAS","Japan Air System","Japan","Air System"],
+  ["JE","MNO","Mango","South Africa","TULCA"],
+  ["","JEF","Jetflite","Finland","JETFLITE"],
+  ["JF","JAF","Jetairfly","Belgium","BEAUTY"],
+  ["JG","","Jetgo Australia","Australia",""],
+  ["","JGN","Jagson Airlines","India","JAGSON"],
+  ["JH","","Fuji Dream Airlines","Japan","FUJI DREAM"],
+  ["JI","MDW","Midway Airlines","United States","MIDWAY"],
+  ["JJ","TAM","LATAM Airlines Brasil","Brazil","TAM"],
+  ["","JJP","Jetstar Japan","Japan","ORANGE LINER"],
+  ["JK","JKK","Spanair","Spain","SPANAIR"],
+  ["JL","JAL","Japan Airlines","Japan","JAPANAIR"],
+  ["JM","AJM","Air Jamaica","Jamaica","JAMAICA"],
+  ["JN","XLA","Excel Airways","United Kingdom","EXPO"],
+  ["JO","JAZ","JALways","Japan","JALWAYS"],
+  ["JP","ADR","Adria Airways","Slovenia","ADRIA"],
+  ["","JPU","Jupiter Airlines","United Arab Emirates","JUPITERAIR"],
+  ["JQ","JST","Jetstar Airways","Australia","JETSTAR"],
+  ["JR","JOY","Joy Air","China","JOY AIR"],
+  ["","JRB","Jc royal.britannica","United Kingdom",""],
+  ["JS","KOR","Air Koryo","North Korea","AIR KORYO"],
+  ["JT","LNI","Lion Mentari Airlines","Indonesia","LION INTER"],
+  ["JU","ASL","Air Serbia","Serbia","AIR SERBIA"],
+  ["JV","BLS","Bearskin Lake Air Service","Canada","BEARSKIN"],
+  ["JW","APW","Arrow Air","United States","BIG A"],
+  ["JX","JSR","Jusur airways","Egypt",""],
+  ["JY","AXZ","Aereonautica militare","Italy",""],
+  ["JZ","SKX","Skyways Express","Sweden","SKY EXPRESS"],
+  ["K1","KOQ","Kostromskie avialinii","Russia",""],
+  ["K2","ELO","Eurolot","Poland","EUROLOT"],
+  ["K5","SQH","SeaPort Airlines","United States","SASQUATCH"],
+  ["K6","","Cambodia Angkor Air (K6)","Cambodia",""],
+  ["K7","KBR","KoralBlue Airlines","Egypt","KORAL BLUE"],
+  ["K8","","Zambia Skyways","Zambia","ZAMBIA SKIES"],
+  ["KA","HDA","Dragonair","Hong Kong","Hong Kong Dragon Airlines"],
+  ["KB","DRK","Druk Air","Bhutan","ROYAL BHUTAN"],
+  ["","KBZ","Air KBZ","Myanmar (Burma)","Air KBZ"],
+  ["KC","KZR","Air Astana","Kazakhstan","ASTANALINE"],
+  ["","KCU","Skyline Ulasim Ticaret A.S.","Turkey","Kocoglu"],
+  ["KD","KNI","KD Avia","Russia","KALININGRAD AIR"],
+  ["","KDA","Kendell Airlines","Australia","KENDELL"],
+  ["KE","KAL","Korean Air","South Korea","KOREANAIR"],
+  ["","KEA","Korea Express Air","South Korea",""],
+  ["KF","BLF","Blue1","Finland","BLUEFIN"],
+  ["KG","RAW","Royal Airways","United States","RAW"],
+  ["KH","KHK","Kharkiv Airlines","Ukraine",""],
+  ["KI","DHI","Adam Air","Indonesia","ADAM SKY"],
+  ["","KIN","Kinloss Flying Training Unit","United Kingdom","KINLOSS"],
+  ["KJ","LAJ","British Mediterranean Airways","United Kingdom","BEE MED"],
+  ["KK","KKK","Atlasjet","Turkey","ATLASJET"],
+  ["KL","KLM","KLM Royal Dutch Airlines","Netherlands","KLM"],
+  ["","KLS","Kal Star Aviation","Indonesia",""],
+  ["KM","AMC","Air Malta","Malta","AIR MALTA"],
+  ["KN","","China United","China",""],
+  ["","KND","Kan Air","Thailand","Kan Air"],
+  ["KO","AER","Alaska Central Express","United States","ACE AIR"],
+  ["KP","DWA","Dense Airways","United States","DENSE"],
+  ["KQ","KQA","Kenya Airways","Kenya","KENYA"],
+  ["KR","CWK","Comores Airlines","Comoros","CONTICOM"],
+  ["","KRY","Russkie Krylya","Russia",""],
+  ["KS","PEN","Peninsula Airways","United States","PENINSULA"],
+  ["","KSM","Kosmos","Russia","KOSMOS"],
+  ["","KSZ","Sunrise Airways","Haiti",""],
+  ["KT","VKJ","VickJet","France","Vickjet"],
+  ["KU","KAC","Kuwait Airways","Kuwait","KUWAITI"],
+  ["","KUH","Kush Air","South Sudan",""],
+  ["KV","MVD","Kavminvodyavia","Russia","AIR MINVODY"],
+  ["KW","","Carnival Air Lines","United States","Carnival Air"],
+  ["KX","CAY","Cayman Airways","Cayman Islands","CAYMAN"],
+  ["KY","KSY","KSY","Greece","KSY"],
+  ["","KYA","Alghanim","United States",""],
+  ["KZ","","Dense Connection","United States","DC2"],
+  ["L1","","All Argentina","Argentina",""],
+  ["L3","LTO","LTU Austria","Austria","BILLA TRANSPORT"],
+  ["L4","LJJ","Luchsh Airlines","Russia","russian sky"],
+  ["L5","LTR","Lufttransport","Norway","LUFT TRANSPORT"],
+  ["L6","MAI","Mauritania Airlines International","Mauritania",""],
+  ["L7","","Lugansk Airlines","Ukraine","ENTERPRISE LUHANSK"],
+  ["L8","LBL","Line Blue","Germany","Bluebird"],
+  ["L9","","All Asia","China",""],
+  ["LA","LAN","LATAM Airlines","Chile","LAN"],
+  ["","LAV","AlbaStar","Spain",""],
+  ["LB","","Air Costa","India",""],
+  ["LC","VLO","Varig Log","Brazil","VELOG"],
+  ["LE","LTY","Liberty Airways","United States",""],
+  ["LF","NDC","FlyNordic","Sweden","NORDIC"],
+  ["","LFA","Air Alfa","Turkey",""],
+  ["LG","LGL","Luxair","Luxembourg","LUXAIR"],
+  ["LH","DLH","Lufthansa","Germany","LUFTHANSA"],
+  ["LI","LIA","Leeward Islands Air Transport","Antigua and Barbuda","LIAT"],
+  ["LJ","JNA","Jin Air","South Korea","Jin Air"],
+  ["LK","LXR","Air Luxor","Portugal","AIRLUXOR"],
+  ["","LLC","FlyLAL Charters","Lithuania",""],
+  ["LM","LAM","Linhas A","Mozambique","MOZAMBIQUE"],
+  ["LN","LAA","Libyan Arab Airlines","Libya","LIBAIR"],
+  ["LO","LOT","LOT Polish Airlines","Poland","POLLOT"],
+  ["LP","LPE","LATAM Airlines Peru","Peru","LANPERU"],
+  ["LQ","LMM","LCM AIRLINES","Russia",""],
+  ["LR","LRC","LACSA","Costa Rica","LACSA"],
+  ["LS","EXS","Jet2.com","United Kingdom","CHANNEX"],
+  ["LT","LTU","Air Lituanica","Lithuania","LITUANICA"],
+  ["","LTC","LatCharter","Latvia","LATCHARTER"],
+  ["","LTD","Southern Airways Express","United States","LIGHTSPEED"],
+  ["LU","LXP","LATAM Airlines Chile","Chile","LANEX"],
+  ["LV","LBC","Albanian Airlines","Albania","ALBANIAN"],
+  ["LW","NMI","Pacific Wings","United States","TSUNAMI"],
+  ["LX","SWR","Swiss International Air Lines","Switzerland","SWISS"],
+  ["LY","ELY","El Al Israel Airlines","Israel","ELAL"],
+  ["LZ","","Balkan Bulgarian Airlines","",""],
+  ["M1","","Maryland Air","United States","Maryland Flight"],
+  ["M2","","MHS Aviation GmbH","Germany",""],
+  ["M3","TUS","ABSA - Aerolinhas Brasileiras","Brazil","ABSA Cargo"],
+  ["M4","","Marysya Airlines","Russia","MARSHAK AIR"],
+  ["M5","KEN","Kenmore Air","United States","KENMORE"],
+  ["M7","MAA","MasAir","Mexico","MAS CARGA"],
+  ["M8","TNU","TransNusa Air","Indonesia","TRANSNUSA"],
+  ["M9","MSI","Motor Sich","Ukraine","MOTOR SICH"],
+  ["MA","MAH","Malév","Hungary","MALEV"],
+  ["","MAL","Morningstar Air Express","Canada","MORNINGSTAR"],
+  ["MB","MNB","MNG Airlines","Turkey","BLACK SEA"],
+  ["","MCA","MCA Airlines","Sweden","CALSON"],
+  ["MD","MDG","Air Madagascar","Madagascar","AIR MADAGASCAR"],
+  ["","MDP","Medallion Air","Romania","MEDALS"],
+  ["ME","MEA","Middle East Airlines","Lebanon","CEDAR JET"],
+  ["MF","CXA","Xiamen Airlines","China","XIAMEN AIR"],
+  ["MH","MAS","Malaysia Airlines","Malaysia","MALAYSIAN"],
+  ["MI","SLK","SilkAir","Singapore","SILKAIR"],
+  ["","MIC","Mint Airways","Spain",""],
+  ["MJ","LPR","L","Argentina","LAPA"],
+  ["","MJP","Air Majoro","Peru","Air Majoro"],
+  ["MK","MAU","Air Mauritius","Mauritius","AIRMAURITIUS"],
+  ["ML","MAV","Maldivo Airlines","Maldives","Maldivo"],
+  ["MM","","Peach Aviation","Japan","Air Peach"],
+  ["MN","CAW","Comair","South Africa","COMMERCIAL"],
+  ["MO","AUH","Abu Dhabi Amiri Flight","United Arab Emirates","SULTAN"],
+  ["MP","MPH","Martinair","Netherlands","MARTINAIR"],
+  ["MQ","EGF","American Eagle Airlines","United States","EAGLE FLIGHT"],
+  ["MR","OME","Homer Air","Germany",""],
+  ["MS","MSR","Egyptair","Egypt","EGYPTAIR"],
+  ["","MSE","EgyptAir Express","Egypt","EGYPTAIR EXPRESS"],
+  ["MT","TCX","Thomas Cook Airlines","United Kingdom","KESTREL"],
+  ["","MTW","Mauritania Airways","Mauritania","MAURITANIA AIRWAYS"],
+  ["MU","CES","China Eastern Airlines","China","CHINA EASTERN"],
+  ["MW","MYD","Maya Island Air","Belize","MYLAND"],
+  ["","MWI","Malaysia Wings","Malaysia","MWI"],
+  ["MX","MXA","Mexicana de Aviaci","Mexico","MEXICANA"],
+  ["MY","MWA","Midwest Airlines (Egypt)","Egypt",""],
+  ["","MYA","Myflug","Iceland","MYFLUG"],
+  ["","MYP","Mann Yadanarpon Airlines","Myanmar (Burma)","MANN ROYAL"],
+  ["MZ","MNA","Merpati Nusantara Airlines","Indonesia","MERPATI"],
+  ["N0","","Norte Lineas Aereas","Argentina",""],
+  ["N1","","N1","Peru",""],
+  ["N3","VOS","Volaris El Salvador","El Salvador","VOLSAL"],
+  ["N4","","Regionalia México","Mexico",""],
+  ["N5","SGY","Skagway Air Service","United States","SKAGWAY AIR"],
+  ["N7","","All Spain","Spain",""],
+  ["N9","","All Europe","United Kingdom",""],
+  ["NA","","Al-Naser Airlines","Iraq",""],
+  ["NB","SNB","Sterling Airlines","Denmark","STERLING"],
+  ["NC","NJS","National Jet Systems","Australia","NATIONAL JET"],
+  ["","NCF","Norfolk County Flight College","United Kingdom","COUNTY"],
+  ["","NDN","Transportes Aereos Cielos Andinos","Peru","ANDINOS"],
+  ["NE","ESK","SkyEurope","Slovakia","RELAX"],
+  ["NF","AVN","Air Vanuatu","Vanuatu","AIR VAN"],
+  ["NG","LDA","Lauda Air","Austria","LAUDA AIR"],
+  ["NH","ANA","All Nippon Airways","Japan","ALL NIPPON"],
+  ["NI","PGA","Portugalia","Portugal","PORTUGALIA"],
+  ["NJ","NGB","Nordic Global Airlines","Finland","Nordic Global"],
+  ["NK","NKS","Spirit Airlines","United States","SPIRIT WINGS"],
+  ["NL","SAI","Shaheen Air International","Pakistan","SHAHEEN AIR"],
+  ["NM","DRD","Air Madrid","Spain","ALADA AIR"],
+  ["","NMA","Nesma Airlines","Egypt","Nesma Airlines"],
+  ["NN","MOV","VIM Airlines","Russia","MOV AIR"],
+  ["NP","NIA","Nile Air","Egypt","NILEBIRD"],
+  ["NQ","AJX","Air Japan","Japan","AIR JAPAN"],
+  ["NR","JTO","Jettor Airlines","Hong Kong","JETHAPPY"],
+  ["NS","","Caucasus Airlines","Georgia",""],
+  ["NT","IBB","Binter Canarias","Spain",""],
+  ["","NTM","North American Airlines","Canada","NORTHAM"],
+  ["NU","JTA","Japan Transocean Air","Japan","JAI OCEAN"],
+  ["NW","NWA","Northwest Airlines","United States","NORTHWEST"],
+  ["NX","AMU","Air Macau","Macau","AIR MACAO"],
+  ["NY","FXI","Air Iceland","Iceland","FAXI"],
+  ["","NYT","Yeti Airlines","Nepal",""],
+  ["NZ","ANZ","Air New Zealand","New Zealand","NEW ZEALAND"],
+  ["O1","OAB","Orbit Airlines Azerbaijan","Azerbaijan","Orbitaz"],
+  ["O2","","Oceanic Airlines","Guinea",""],
+  ["O6","ONE","Oceanair","Brazil","OCEANAIR"],
+  ["O7","OZJ","Ozjet Airlines","Australia","AUSJET"],
+  ["O8","OHK","Oasis Hong Kong Airlines","Hong Kong","OASIS"],
+  ["OA","OAL","Olympic Airlines","Greece","OLYMPIC"],
+  ["","OAI","Orbit International Airlines","United States","OA"],
+  ["","OAN","Orbit Atlantic Airways","United States",""],
+  ["","OAR","Orbit Regional Airlines","United States","OA"],
+  ["OB","ASZ","Astrakhan Airlines","Russia","AIR ASTRAKHAN"],
+  ["","OBS","Orbest","Portugal","ORBEST"],
+  ["","OBT","Orbit Airlines","United States","Orbit"],
+  ["OC","","Catovair","Mauritius","CATOVAIR"],
+  ["OD","MXD","Malindo Air","Malaysia","Malindo"],
+  ["OF","FIF","Air Finland","Finland","AIR FINLAND"],
+  ["OG","","AirOnix","Ukraine",""],
+  ["OH","COM","Comair","United States","COMAIR"],
+  ["OI","ORC","Orchid Airlines","Australia",""],
+  ["OJ","OLA","Overland Airways","Nigeria","OVERLAND"],
+  ["OK","CSA","Czech Airlines","Czech Republic","CSA-LINES"],
+  ["OL","OLT","Ostfriesische Lufttransport","Germany","OLTRA"],
+  ["","OLS","Sol Lineas Aereas","Argentina","FLIGHT SOL"],
+  ["OM","MGL","MIAT Mongolian Airlines","Mongolia","MONGOL AIR"],
+  ["ON","RON","Nauru Air Corporation","Nauru","AIR NAURU"],
+  ["OO","SKW","SkyWest","United States","SKYWEST"],
+  ["OP","PPL","Air Pegasus","India",""],
+  ["OQ","CQN","Chongqing Airlines","China","CHONG QING"],
+  ["OR","TFL","Arkefly","Netherlands","ARKEFLY"],
+  ["","ORG","Orenburzhie","Russia",""],
+  ["OS","AUA","Austrian Airlines","Austria","AUSTRIAN"],
+  ["OT","PEL","Aeropelican Air Services","Australia","PELICAN"],
+  ["","OTG","One Two Go Airlines","Thailand","THAI EXPRESS"],
+  ["OU","CTN","Croatia Airlines","Croatia","CROATIA"],
+  ["OV","ELL","Estonian Air","Estonia","ESTONIAN"],
+  ["OX","OEA","Orient Thai Airlines","Thailand","ORIENT THAI"],
+  ["OY","OAE","Omni Air International","United States","OMNI-EXPRESS"],
+  ["OZ","AAR","Asiana Airlines","South Korea","ASIANA"],
+  ["","OZW","Skywest Airlines","Australia","OZWEST"],
+  ["P0","","Proflight Commuter Services","Zambia",""],
+  ["P4","","Patriot Airways","United States",""],
+  ["P5","RPB","AeroRep","Colombia","AEROREPUBLICA"],
+  ["P7","REP","Regional Paraguaya","Paraguay","REGIOPAR"],
+  ["P8","MKG","Air Mekong","Vietnam","Air Mekong"],
+  ["P9","","Peruvian Airlines","Peru",""],
+  ["PA","IPV","Parmiss Airlines (IPV)","Iran","IPV"],
+  ["","PBD","Pobeda","Russia","POBEDA"],
+  ["PC","PGT","Pegasus Airlines","Turkey","SUNTURK"],
+  ["PD","POE","Porter Airlines","Canada","PORTER AIR"],
+  ["PE","AEL","Air Europe","Italy","AIR EUROPE"],
+  ["PF","","Primera Air","Iceland","PRIMERA"],
+  ["","PFL","Pacific Flier","Palau","KOROR"],
+  ["PG","BKP","Bangkok Airways","Thailand","BANGKOK AIR"],
+  ["PH","PAO","Polynesian Airlines","Samoa","POLYNESIAN"],
+  ["PI","PDT","Piedmont Airlines (1948-1989)","United States","PIEDMONT"],
+  ["PJ","SPM","Air Saint Pierre","France",""],
+  ["PK","PIA","Pakistan International Airlines","Pakistan","PAKISTAN"],
+  ["","PKV","Псковавиа","Russia",""],
+  ["PL","PLI","Aeroper","Peru","Aeroperu"],
+  ["PM","TOS","Tropic Air","Belize","TROPISER"],
+  ["PN","CHB","West Air China","China","WEST CHINA"],
+  ["PO","FPT","FlyPortugal","Portugal","FlyPortugal"],
+  ["","POT","Polet","Russia","POLET"],
+  ["PP","","Air Indus","Pakistan","AIPL"],
+  ["","PPW","Royal Phnom Penh Airways","Cambodia","PHNOM-PENH AIR"],
+  ["PQ","LOO","LSM Airlines","Russia","slowbird"],
+  ["PR","PAL","Philippine Airlines","Philippines","PHILIPPINE"],
+  ["PS","AUI","Ukraine International Airlines","Ukraine","UKRAINE INTERNATIONAL"],
+  ["","PSA","Pacific Island Aviation","United States","PACIFIC ISLE"],
+  ["","PSB","Syrian Pearl Airlines","Syria",""],
+  ["PT","","Red Jet Andes","Peru",""],
+  ["","PTB","Passaredo Transportes Aereos","Brazil","PASSAREDO"],
+  ["","PTI","Privatair","Switzerland","PRIVATAIR"],
+  ["PU","PUA","PLUNA","Uruguay","PLUNA"],
+  ["PV","PNR","PAN Air","Spain","SKYJET"],
+  ["PW","PRF","Precision Air","Tanzania","PRECISION AIR"],
+  ["PX","ANG","Air Niugini","Papua New Guinea","NUIGINI"],
+  ["PY","SLM","Surinam Airways","Suriname","SURINAM"],
+  ["","PYA","Pouya Air","Iran",""],
+  ["PZ","LAP","LATAM Airlines Paraguay","Paraguay","PARAGUAYA"],
+  ["","PZY","Zapolyarie Airlines","Russia",""],
+  ["Q2","","Maldivian","Maldives","ISLAND AVIATION"],
+  ["Q3","QER","SOCHI AIR CHATER","Russia","russian doll"],
+  ["Q4","SAE","SOCHI AIR EXPRESS","Russia","ADLER EXPRESS"],
+  ["Q5","MLA","40-Mile Air","United States","MILE-AIR"],
+  ["Q6","CDP","Aero Condor Peru","Peru","CONDOR-PERU"],
+  ["Q7","","SkyBahamas Airlines","Bahamas","TROPICAL SKY"],
+  ["Q9","NAK","Arik Niger","Niger",""],
+  ["QA","","Click (Mexicana)","Mexico",""],
+  ["QB","GFG","Georgian National Airlines","Georgia","NATIONAL"],
+  ["QC","","Camair-co","Cameroon",""],
+  ["QD","DOB","Dobrolet","Russia","DOBROLET"],
+  ["QF","QFA","Qantas","Australia","QANTAS"],
+  ["","QFZ","Fars Air Qeshm","Iran","FARS AIR"],
+  ["QG","","Citilink Indonesia","Indonesia","SUPERGREEN"],
+  ["QH","FLZ","Air Florida","United States","AIR FLORIDA"],
+  ["QI","CIM","Cimber Air","Denmark","CIMBER"],
+  ["QJ","","Jet Airways","United States",""],
+  ["QK","JZA","Air Canada Jazz","Canada","JAZZ"],
+  ["QL","RLN","Aero Lanka","Sri Lanka","AERO LANKA"],
+  ["QM","AML","Air Malawi","Malawi","MALAWI"],
+  ["QO","OGN","Origin Pacific Airways","New Zealand","ORIGIN"],
+  ["QP","","Air Kenya (Priv)","Kenya",""],
+  ["QQ","UTY","Alliance Airlines","Australia","UNITY"],
+  ["","QQQ","ENTERair","Poland",""],
+  ["QR","QTR","Qatar Airways","Qatar","QATARI"],
+  ["QS","TVS","Travel Service","Czech Republic","SKYTRAVEL"],
+  ["QT","TPA","TAMPA","Colombia","TAMPA"],
+  ["QU","UGX","East African","Uganda","CRANE"],
+  ["QV","LAO","Lao Airlines","Lao Peoples Democratic Republic","LAO"],
+  ["QW","BWG","Blue Wings","Germany","BLUE WINGS"],
+  ["QX","QXE","Horizon Air","United States","HORIZON AIR"],
+  ["QY","","Red Jet Canada","Canada",""],
+  ["QZ","AWQ","Indonesia AirAsia","Indonesia","WAGON AIR"],
+  ["R2","ORB","Orenburg Airlines","Russia","ORENBURG"],
+  ["R3","SYL","Aircompany Yakutia","Russia","AIR YAKUTIA"],
+  ["R4","","Rossiya","Russia",""],
+  ["R5","MAC","Malta Air Charter","Malta","MALTA CHARTER"],
+  ["R6","","RACSA","Guatemala",""],
+  ["R7","OCA","Aserca Airlines","Venezuela","AROSCA"],
+  ["R8","RRJ","AirRussia","Russia","russiancloud"],
+  ["RA","RNA","Nepal Airlines","Nepal","ROYAL NEPAL"],
+  ["","RAC","Icar Air","Bosnia and Herzegovina","TUZLA AIR"],
+  ["RB","SYR","Syrian Arab Airlines","Syria","SYRIANAIR"],
+  ["RC","FLI","Atlantic Airways","Faroe Islands","FAROELINE"],
+  ["RD","RYN","Ryan International Airlines","United States","RYAN INTERNATIONAL"],
+  ["RE","REA","Aer Arann","Ireland","AER ARANN"],
+  ["RF","FWL","Florida West International Airways","United States","FLO WEST"],
+  ["RG","VRN","VRG Linhas Aereas","Brazil","VARIG"],
+  ["RI","MDL","Mandala Airlines","Indonesia","MANDALA"],
+  ["RJ","RJA","Royal Jordanian","Jordan","JORDANIAN"],
+  ["","RJD","Rotana Jet","United Arab Emirates","ROTANA"],
+  ["RK","RKA","Air Afrique","Ivory Coast","AIRAFRIC"],
+  ["RL","RFJ","Royal Falcon","Jordan",""],
+  ["","RLU","Rusline","Russia","RUSLINE AIR"],
+  ["","RLX","Go2Sky","Slovakia","RELAX"],
+  ["RM","RNY","Rainbow Air US","United States","Rainbow Air"],
+  ["","RMK","Simrik Airlines","Nepal",""],
+  ["RN","RAB","Rainbow Air (RAI)","United States","Rainbow"],
+  ["RO","ROT","Tarom","Romania","TAROM"],
+  ["RP","CHQ","Chautauqua Airlines","United States","CHAUTAUQUA"],
+  ["RQ","KMF","Kam Air","Afghanistan","KAMGAR"],
+  ["RR","RXR","REXAIR VIRTUEL","France","Rexair"],
+  ["RS","SKV","Sky Regional","Canada","Sky Regional"],
+  ["","RSD","Russia State Transport","Russia","STATE AERO"],
+  ["","RSI","Air Sunshine","United States","AIR SUNSHINE"],
+  ["","RSJ","RusJet","Russia",""],
+  ["","RSP","Jet Suite","United States","Red Stripe"],
+  ["RT","","Real Tonga","Tonga",""],
+  ["","RTE","Aeronorte","Portugal","LUZAVIA"],
+  ["RU","RUE","Rainbow Air Euro","United Kingdom","Rainbow Air"],
+  ["RV","CPN","Caspian Airlines","Iran","CASPIAN"],
+  ["RW","RPA","Republic Airlines","United States","BRICKYARD"],
+  ["RY","RAY","Rainbow Air Canada","Canada","Rainbow CAN"],
+  ["","RYA","Ryan Air Services","United States","RYAN AIR"],
+  ["RZ","","Euro Exec Express","Sweden",""],
+  ["S0","SAL","Spike Airlines","United States","Spike Air"],
+  ["S1","","Serbian Airlines","Serbia",""],
+  ["S2","RSH","Air Sahara","India","SAHARA"],
+  ["S3","BBR","Santa Barbara Airlines","Venezuela","SANTA BARBARA"],
+  ["S4","RZO","SATA International","Portugal","AIR AZORES"],
+  ["S5","TCF","Shuttle America","United States","MERCURY"],
+  ["S6","","Salmon Air","United States",""],
+  ["S7","SBI","S7 Airlines","Russia","SIBERIAN AIRLINES"],
+  ["S8","SBD","Snowbird Airlines","Finland",""],
+  ["S9","","Starbow Airlines","Ghana",""],
+  ["SA","SAA","South African Airways","South Africa","SPRINGBOK"],
+  ["","SAY","ScotAirways","United Kingdom","SUCKLING"],
+  ["SB","ACI","Air Caledonie International","France","AIRCALIN"],
+  ["SC","CDG","Shandong Airlines","China","SHANDONG"],
+  ["","SCE","Scenic Airlines","United States","SCENIC"],
+  ["SD","SUD","Sudan Airways","Sudan","SUDANAIR"],
+  ["","SDI","San Dima Air","United States","FAREFLIGHT"],
+  ["SE","SEU","XL Airways France","France","STARWAY"],
+  ["","SEA","Southeast Air","United States","SOUTHEAST AIR"],
+  ["","SEN","Sevenair","Tunisia","SEVENAIR"],
+  ["SG","SEJ","Spicejet","India","SPICEJET"],
+  ["SH","SHA","Sharp Airlines","Australia","SHARP"],
+  ["","SHD","Sahara Airlines","Algeria",""],
+  ["SI","SIH","Skynet Airlines","Ireland","BLUEJET"],
+  ["SJ","SJY","Sriwijaya Air","Indonesia","SRIWIJAYA"],
+  ["SK","SAS","Scandinavian Airlines System","Sweden","SCANDINAVIAN"],
+  ["","SKV","Sky Regional Airlines","Canada","Maple"],
+  ["SL","","Thai Lion Air","Thailand",""],
+  ["SM","MNP","Spirit of Manila Airlines","Philippines","MANILA SKY"],
+  ["","SMW","Carpatair Flight Training","Romania","Smartwings"],
+  ["SN","DAT","Brussels Airlines","Belgium","BEE-LINE"],
+  ["SO","SLC","Salsa d\\\\'Haiti","Haiti","SALSA"],
+  ["","SOA","Southern Air Charter","Bahamas",""],
+  ["","SOU","Southern Airways","United States","SOUTHERN EXPRESS"],
+  ["SP","SAT","SATA Air Acores","Portugal","SATA"],
+  ["","SPI","South Pacific Island Airways","United States","SOUTH PACIFIC"],
+  ["SQ","SIA","Singapore Airlines","Singapore","SINGAPORE"],
+  ["","SRB","Solar Air","Thailand","Solar Air"],
+  ["","SRN","Sprintair","Poland",""],
+  ["","SRY","ViaAir","United States","Stingray"],
+  ["SS","CRL","Corsairfly","France","CORSAIR"],
+  ["ST","GMI","Germania","Germany","GERMANIA"],
+  ["SU","AFL","Aeroflot Russian Airlines","Russia","AEROFLOT"],
+  ["SV","SVA","Saudi Arabian Airlines","Saudi Arabia","SAUDIA"],
+  ["","SVG","SVG Air","Saint Vincent and the Grenadines","Grenadines"],
+  ["SW","NMB","Air Namibia","Namibia","NAMIBIA"],
+  ["","SWM","Sky Angkor Airlines (ZA)","Cambodia","SKY ANGKOR"],
+  ["","SWU","Swiss European Air Lines","Switzerland","EUROSWISS"],
+  ["SX","","SkyWork Airlines","Switzerland","SKYFOX"],
+  ["SY","SCX","Sun Country Airlines","United States","SUN COUNTRY"],
+  ["SZ","","Salzburg arrows","Austria","SZA"],
+  ["","SZB","Aerolineas heredas santa maria","Dominican Republic",""],
+  ["","SZZ","SUR Lineas Aereas","Argentina",""],
+  ["T0","","TACA Peru","Peru","TACA PERU"],
+  ["T3","EZE","Eastern Airways","United Kingdom","EASTFLIGHT"],
+  ["T4","HEJ","Hellas Jet","Greece","HELLAS JET"],
+  ["T5","TUA","Turkmenistan Airlines","Turkmenistan","TURKMENISTAN"],
+  ["T6","","Trans Pas Air","United States",""],
+  ["T7","TJT","Twin Jet","France","TWINJET"],
+  ["TA","TAT","Grupo TACA","Costa Rica","TACA-COSTARICA"],
+  ["","TAH","Air Moorea","France","AIR MOOREA"],
+  ["","TAN","Zanair","Tanzania","ZANAIR"],
+  ["TB","TBZ","TrasBrasil","Brazil",""],
+  ["TC","ATC","Air Tanzania","Tanzania","TANZANIA"],
+  ["TD","LUR","Atlantis European Airways","Armenia",""],
+  ["","TDK","Transavia Denmark","Denmark",""],
+  ["TE","LIL","FlyLal","Lithuania","LITHUANIA AIR"],
+  ["","TEZ","Tez Jet Airlines","Kyrgyzstan",""],
+  ["","TFN","Norwegian Aviation College","Norway","SPRIT"],
+  ["TG","THA","Thai Airways International","Thailand","THAI"],
+  ["","TGN","Trigana Air Service","Indonesia","TRIGANA"],
+  ["TH","THS","TransBrasil Airlines","Brazil",""],
+  ["","THK","Turk Hava Kurumu Hava Taksi Isletmesi","Turkey","HUR KUS"],
+  ["TI","THI","TransHolding","Brazil",""],
+  ["","TIL","Tajikistan International Airlines","Tajikistan","TIL"],
+  ["TJ","TJA","T.J. Air","United States","T.J. Air"],
+  ["TK","THY","Turkish Airlines","Turkey","TURKAIR"],
+  ["","TKS","Tomsk-Avia","Russia",""],
+  ["TL","ANO","Airnorth","Australia","TOPEND"],
+  ["","TLA","Translift Airways","Ireland","TRANSLIFT"],
+  ["TM","","Air Mozambique","Mozambique",""],
+  ["TN","THT","Air Tahiti Nui","France","TAHITI AIRLINES"],
+  ["","TNS","Transilvania","Romania",""],
+  ["TO","TVF","Transavia France","France","FRENCH SUN"],
+  ["TP","TAP","TAP Portugal","Portugal","AIR PORTUGAL"],
+  ["TQ","TXW","Texas Wings","United States","TXW"],
+  ["","TRK","Turkuaz Airlines","Turkey","TURKU"],
+  ["TS","TSC","Air Transat","Canada","TRANSAT"],
+  ["TT","TGW","Tiger Airways Australia","Australia","GO CAT"],
+  ["","TTZ","Transair","Canada",""],
+  ["TU","TAR","Tunisair","Tunisia","TUNAIR"],
+  ["","TUR","ATUR","Ecuador",""],
+  ["TV","VEX","Virgin Express","Belgium","VIRGIN EXPRESS"],
+  ["","TVJ","Thai Vietjet Air","Thailand","THAIVIET JET"],
+  ["TW","TWB","Tway Airlines","South Korea","TWAY AIR"],
+  ["","TWD","Turkish Wings Domestic","Turkey","TWD"],
+  ["TX","FWI","Air Caraïbes","France","FRENCH WEST"],
+  ["TY","IWD","Iberworld","Spain",""],
+  ["","TYR","Tyrolean Airways","","TYROLEAN"],
+  ["TZ","SCO","Scoot","Singapore",""],
+  ["U1","ABI","Aviabus","Russia",""],
+  ["U2","EZY","easyJet","United Kingdom","EASY"],
+  ["U3","AIA","Avies","Estonia","AVIES"],
+  ["U4","PMT","PMTair","Cambodia","MULTITRADE"],
+  ["U5","GWY","USA3000 Airlines","United States","GETAWAY"],
+  ["U6","SVR","Ural Airlines","Russia","SVERDLOVSK AIR"],
+  ["U7","","Northern Dene Airways","Canada",""],
+  ["U8","RNV","Armavia","Armenia","ARMAVIA"],
+  ["U9","TAK","Tatarstan Airlines","Russia","TATARSTAN"],
+  ["UA","UAL","United Airlines","United States","UNITED"],
+  ["","UAC","United Air Charters","Zimbabwe","UNITAIR"],
+  ["","UAT","Ukraine Atlantic","Ukraine",""],
+  ["","UAY","University of Birmingham Air Squadron (RAF)","United Kingdom","UAY"],
+  ["UB","UBA","Myanma Airways","Myanmar (Burma)","UNIONAIR"],
+  ["","UBG","US-Bangla Airlines","Bangladesh",""],
+  ["UD","HER","Hex'Air","France","HEX AIRLINE"],
+  ["","UDN","Dniproavia","Ukraine","DNIEPRO"],
+  ["UE","NAS","Nasair","Eritrea","NASAIRWAYS"],
+  ["UF","UKM","UM Airlines","Ukraine","UKRAINE MEDITERRANEE"],
+  ["UG","TUI","Tuninter","Tunisia",""],
+  ["UH","","US Helicopter Corporation","United States",""],
+  ["UI","ECA","Eurocypria Airlines","Cyprus","EUROCYPRIA"],
+  ["UJ","LMU","AlMasria Universal Airlines","Egypt","ALMASRIA"],
+  ["","UJX","AtlasGlobal Ukraine","Ukraine","Atlas Ukraine"],
+  ["UK","VTI","Air Vistara","India",""],
+  ["UL","ALK","SriLankan Airlines","Sri Lanka","SRILANKAN"],
+  ["UM","AZW","Air Zimbabwe","Zimbabwe","AIR ZIMBABWE"],
+  ["","UMK","Yuzhmashavia","Ukraine","YUZMASH"],
+  ["UN","TSO","Transaero Airlines","Russia","TRANSOVIET"],
+  ["UO","HKE","Hong Kong Express Airways","Hong Kong","HONGKONG SHUTTLE"],
+  ["UP","BHS","Bahamasair","Bahamas","BAHAMAS"],
+  ["UR","","UTair-Express","Russia",""],
+  ["US","USA","US Airways","United States","U S AIR"],
+  ["","USH","US Helicopter","United States","US-HELI"],
+  ["UT","UTA","UTair Aviation","Russia","UTAIR"],
+  ["UU","REU","Air Austral","France","REUNION"],
+  ["UW","","UVT Aero","Russia",""],
+  ["UX","AEA","Air Europa","Spain","EUROPA"],
+  ["UZ","BRQ","El-Buraq Air Transport","Libya","BURAQAIR"],
+  ["V0","VCV","Conviasa","Venezuela","CONVIASA"],
+  ["V1","VIA","VIA Líneas Aéreas","Argentina",""],
+  ["V2","RBY","Vision Airlines (V2)","United States","RUBY"],
+  ["V3","KRP","Carpatair","Romania","CARPATAIR"],
+  ["V5","","Danube Wings (V5)","Slovakia",""],
+  ["V6","","VIP Ecuador","Ecuador",""],
+  ["V7","VOE","VOLOTEA Airways","Spain",""],
+  ["V9","HCW","Star1 Airlines","Lithuania",""],
+  ["VA","VOZ","Virgin Australia","Australia","VIRGIN"],
+  ["VC","","Strategic Airlines","Australia",""],
+  ["VD","","Air Libert","France",""],
+  ["VE","VLE","Volare Airlines","Italy","VOLA"],
+  ["VF","VLU","Valuair","Singapore","VALUAIR"],
+  ["","VFC","Vasco Air","Vietnam","VASCO AIR"],
+  ["VG","VLM","VLM Airlines","Belgium","RUBENS"],
+  ["VH","VNP","Virgin Pacific","Fiji",""],
+  ["VI","VDA","Volga-Dnepr Airlines","Russia","VOLGA-DNEPR"],
+  ["","VIS","Vision Air International","Pakistan",""],
+  ["VJ","RAC","Royal Air Cambodge","Cambodia",""],
+  ["","VJC","VietJet Air","Vietnam","VIETJETAIR"],
+  ["VK","VGN","Virgin Nigeria Airways","Nigeria","VIRGIN NIGERIA"],
+  ["VL","VIM","Air VIA","Bulgaria",""],
+  ["VN","HVN","Vietnam Airlines","Vietnam","VIET NAM AIRLINES"],
+  ["VO","TYR","Tyrolean Airways","Austria","TYROLEAN"],
+  ["","VOO","Volotea","Spain","Volotea"],
+  ["VP","VSP","VASP","Brazil","VASP"],
+  ["VQ","VKH","Viking Hellas","Greece","DELPHI"],
+  ["","VQI","Flyme (VP)","Maldives",""],
+  ["VR","TCV","TACV","Portugal","CABOVERDE"],
+  ["VS","VIR","Virgin Atlantic Airways","United Kingdom","VIRGIN"],
+  ["VT","VTA","Air Tahiti","French Polynesia","AIR TAHITI"],
+  ["VU","VUN","Air Ivoire","Ivory Coast","AIRIVOIRE"],
+  ["","VUE","AD Aviation","United Kingdom","FLIGHTVUE"],
+  ["VV","AEW","Aerosvit Airlines","Ukraine","AEROSVIT"],
+  ["VW","TAO","Aeromar","Mexico","TRANS-AEROMAR"],
+  ["VX","VRD","Virgin America","United States","REDWOOD"],
+  ["VY","VLG","Vueling Airlines","Spain","VUELING"],
+  ["VZ","MYT","MyTravel Airways","United Kingdom","KESTREL"],
+  ["W1","","World Experience Airline","Canada","WEA"],
+  ["W2","","Maastricht Airlines","Netherlands",""],
+  ["W3","WSS","World Scale Airlines","United States",""],
+  ["W4","WER","AeroWorld","Russia","sovet"],
+  ["W5","IRM","Mahan Air","Iran","MAHAN AIR"],
+  ["W6","WZZ","Wizz Air","Hungary","WIZZ AIR"],
+  ["W7","","Austral Brasil","Brazil",""],
+  ["W9","JAB","Air Bagan","Myanmar (Burma)","AIR BAGAN"],
+  ["WA","KLC","KLM Cityhopper","Netherlands","CITY"],
+  ["","WAJ","AirAsia Japan","Japan","WING ASIA"],
+  ["WB","RWD","Rwandair Express","Rwanda","RWANDAIR"],
+  ["WC","ISV","Islena De Inversiones","Honduras",""],
+  ["WD","AAN","Amsterdam Airlines","Netherlands","AMSTEL"],
+  ["WE","","Thai Smile Airways","Thailand","THAI SMILE"],
+  ["WF","WIF","Widerøe","Norway","WIDEROE"],
+  ["","WFX","Westfalia Express VA","Germany",""],
+  ["WG","","Sunwing","Canada","sunwing"],
+  ["WH","","China Northwest Airlines (WH)","China",""],
+  ["WJ","WEB","WebJet Linhas A","Brazil","WEB-BRASIL"],
+  ["WK","EDW","Edelweiss Air","Switzerland","EDELWEISS"],
+  ["WM","","Windward Islands Airways","Netherlands Antilles","Winair"],
+  ["WN","SWA","Southwest Airlines","United States","SOUTHWEST"],
+  ["WO","WOA","World Airways","United States","WORLD"],
+  ["","WOW","Air Southwest","United Kingdom","SWALLOW"],
+  ["WP","MKU","Island Air (WP)","United States",""],
+  ["WQ","PQW","PanAm World Airways","United States",""],
+  ["WR","WEN","WestJet Encore","Canada","Encore"],
+  ["","WRC","Wind Rose Aviation","Ukraine","WIND ROSE"],
+  ["WS","WJA","WestJet","Canada","WESTJET"],
+  ["","WTJ","Whitejets","Brazil","WHITEJET"],
+  ["WU","WAU","Wizz Air Ukraine","Ukraine","WIZZAIR UKRAINE"],
+  ["WV","SWV","Swe Fly","Sweden","FLYING SWEDE"],
+  ["WW","BMI","bmibaby","United Kingdom","BABY"],
+  ["WX","BCY","CityJet","Ireland","CITY-IRELAND"],
+  ["WY","OMA","Oman Air","Oman","OMAN AIR"],
+  ["WZ","RWZ","Red Wings","Russia","AIR RED"],
+  ["X3","HLX","TUIfly","Germany","YELLOW CAB"],
+  ["X5","OTJ","Fly Romania","Romania","TENDER AIR"],
+  ["XA","XAU","XAIR USA","United States","XAIR"],
+  ["XB","NXB","NEXT Brasil","Brazil","XB"],
+  ["","XBM","CBM America","United States","AIRMAX"],
+  ["XE","BTA","ExpressJet","United States","JET LINK"],
+  ["","XEL","Excel Charter","United Kingdom","HELI EXCEL"],
+  ["XF","VLK","Vladivostok Air","Russia","VLADAIR"],
+  ["XG","CLI","Calima Aviacion","Spain","CALIMA"],
+  ["XJ","MES","Mesaba Airlines","United States","MESABA"],
+  ["XK","CCM","Corse-Mediterranee","France","CORSICA"],
+  ["XL","LNE","LATAM Airlines Ecuador","Ecuador","LAN ECUADOR"],
+  ["XM","SMX","Alitalia Express","Italy","ALIEXPRESS"],
+  ["XN","","Xpressair","Indonesia",""],
+  ["XO","LTE","LTE International Airways","Spain","FUN JET"],
+  ["","XOJ","XOJET","United States",""],
+  ["XP","XPT","XPTO","Portugal","XPTO"],
+  ["XQ","SXS","SunExpress","Turkey","SUNEXPRESS"],
+  ["XR","","Skywest Australia","Australia",""],
+  ["","XSR","Executive AirShare","United States",""],
+  ["XV","","BVI Airways","British Virgin Islands",""],
+  ["XW","SXR","Sky Express","Russia","SKYSTORM"],
+  ["XX","GFY","Greenfly","Spain",""],
+  ["XY","KNE","Nas Air","Saudi Arabia","NAS EXPRESS"],
+  ["XZ","","Congo Express","Democratic Republic of the Congo","EXPRESSWAYS"],
+  ["Y1","","Yellowstone Club Private Shuttle","United States","YCS"],
+  ["Y4","VOI","Volaris","Mexico","VOLARIS"],
+  ["Y5","AWA","Asia Wings","Kazakhstan",""],
+  ["Y7","","NordStar Airlines","Russia",""],
+  ["Y8","MRS","Marusya Airways","Russia","snowball"],
+  ["Y9","IRK","Kish Air","Iran","KISHAIR"],
+  ["YC","YCC","Ciel Canadien","Canada","Ciel"],
+  ["YD","","Gomelavia","Belarus",""],
+  ["YE","YEL","Yellowtail","United States",""],
+  ["","YEP","YES Airways","Poland",""],
+  ["YH","","Yangon Airways Ltd.","Myanmar (Burma)",""],
+  ["YK","","Cyprus Turkish Airlines","Turkey",""],
+  ["YL","LLM","Yamal Airlines","Russia","YAMAL"],
+  ["YM","MGX","Montenegro Airlines","Montenegro","MONTAIR"],
+  ["YO","TYS","TransHolding System","Brazil",""],
+  ["YQ","","Polet Airlines (Priv)","Russia",""],
+  ["YR","","SENIC AIRLINES","United States",""],
+  ["YS","RAE","Régional","France","REGIONAL EUROPE"],
+  ["YT","","Yeti Airways","Nepal",""],
+  ["YV","ASH","Mesa Airlines","United States","AIR SHUTTLE"],
+  ["YW","ANE","Air Nostrum","Spain","AIR NOSTRUM"],
+  ["YX","MEP","Midwest Airlines","United States",""],
+  ["YY","VWA","Virginwings","Germany",""],
+  ["YZ","YZZ","LSM AIRLINES","Russia","Moscow frog"],
+  ["Z0","","All Argentina Express","Argentina",""],
+  ["Z2","","Zest Air","Philippines",""],
+  ["Z3","SMJ","Avient Aviation","Zimbabwe","AVAVIA"],
+  ["Z4","OOM","Zoom Airlines","Canada","ZOOM"],
+  ["Z5","IIR","INAVIA Internacional","Argentina",""],
+  ["Z6","ZTT","ZABAIKAL AIRLINES","Russia","BAIKAL"],
+  ["Z7","","REDjet","Barbados",""],
+  ["Z8","AZN","Amaszonas","Bolivia",""],
+  ["Z9","","Flightlink Tanzania","Tanzania",""],
+  ["ZC","KGO","Korongo Airlines","Democratic Republic of the Congo","KORONGO"],
+  ["ZE","ESR","Eastar Jet","South Korea","Eastar"],
+  ["ZF","","Athens Airways","Greece","ATHENSAIR"],
+  ["ZG","VVM","Viva Macau","Macau","JACKPOT"],
+  ["ZH","CSZ","Shenzhen Airlines","China","SHENZHEN AIR"],
+  ["ZI","AAF","Aigle Azur","France","AIGLE AZUR"],
+  ["ZJ","","Zambezi Airlines (ZMA)","Zambia",""],
+  ["ZK","GLA","Great Lakes Airlines","United States","LAKES AIR"],
+  ["ZL","RXA","Regional Express","Australia","REX"],
+  ["ZM","IWA","Apache Air","United States","APACHE"],
+  ["ZN","ZNA","Zenith International Airline","Thailand","ZENITH"],
+  ["ZP","ZZZ","Zabaykalskii Airlines","Russia","Lakeair"],
+  ["ZQ","LOC","Locair","United States","LOCAIR"],
+  ["ZS","SMY","Sama Airlines","Saudi Arabia","NAJIM"],
+  ["ZT","","Tomp Airlines","Chile",""],
+  ["ZV","VAX","V Air","Taiwan",""],
+  ["ZW","AWI","Air Wisconsin","United States","AIR WISCONSIN"],
+  ["ZX","ZXY","Japan Regio","Japan",""],
+  ["ZY","ADE","Ada Air","Albania","ADA AIR"],
+  ["ZZ","","Zz","Belgium",""],
+];
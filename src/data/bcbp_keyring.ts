@@ -0,0 +1,16 @@
+// Issuer public keys for verifying the BCBP security data block ('^' section).
+// Airlines distribute their keys to partners out of band; add them here as
+// base64 SPKI (the body of a "-----BEGIN PUBLIC KEY-----" PEM).
+// Entries are matched on the boarding pass issuer designator and the security data type.
+
+export type SecurityAlgorithm = 'ECDSA-P256-SHA256';
+
+export interface KeyringEntry {
+  issuer: string;        // 2-3 character airline designator of the boarding pass issuer
+  securityType: string;  // 1 character "Type of Security Data"
+  algorithm: SecurityAlgorithm;
+  publicKey: string;     // base64 SPKI
+  label?: string;        // e.g. key id or validity period, shown when a pass verifies
+}
+
+export const BCBP_KEYRING: KeyringEntry[] = [];
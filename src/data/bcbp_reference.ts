@@ -48,17 +48,108 @@ export const BCBP_REFERENCE = {
     'B': 'Boarding Pass',
     'I': 'Itinerary Receipt'
   } as Record<string, string>,
+
+  // Passenger Description (Field 15)
+  passengerDescription: {
+    '0': 'Adult',
+    '1': 'Male',
+    '2': 'Female',
+    '3': 'Child',
+    '4': 'Infant',
+    '5': 'No passenger (cabin baggage)',
+    '6': 'Adult travelling with infant',
+    '7': 'Unaccompanied minor'
+  } as Record<string, string>,
+
+  // Source of Check-in (Field 12)
+  checkInSource: {
+    'W': 'Web',
+    'K': 'Airport kiosk',
+    'R': 'Remote or off-site kiosk',
+    'M': 'Mobile device',
+    'O': 'Airport agent',
+    'T': 'Town agent',
+    'V': 'Third party vendor',
+    'A': 'Automated check-in'
+  } as Record<string, string>,
+
+  // Source of Boarding Pass Issuance (Field 14)
+  boardingPassIssuanceSource: {
+    'W': 'Web printed',
+    'K': 'Airport kiosk',
+    'X': 'Transfer kiosk',
+    'R': 'Remote or off-site kiosk',
+    'M': 'Mobile device',
+    'O': 'Airport agent',
+    'T': 'Town agent',
+    'V': 'Third party vendor'
+  } as Record<string, string>,
+
+  // Selectee Indicator (Field 18)
+  selecteeIndicator: {
+    '0': 'Not selectee',
+    '1': 'Selectee (SSSS)',
+    '3': 'Known passenger (TSA PreCheck)'
+  } as Record<string, string>,
+
+  // International Documentation Verification (Field 108)
+  internationalDocVerification: {
+    '0': 'Travel document verification not required',
+    '1': 'Travel document verification required',
+    '2': 'Travel document verification performed'
+  } as Record<string, string>,
+
+  // ID/AD Indicator (Field 253) - industry discount and staff travel codes
+  idIndicator: {
+    '0': 'IDN1 positive space',
+    '1': 'IDN2 space available',
+    '2': 'IDB1 positive space',
+    '3': 'IDB2 space available',
+    '4': 'AD (agent discount)',
+    '5': 'DG (government discount)',
+    '6': 'DM (diplomatic discount)',
+    '7': 'GE (group employee)',
+    '8': 'IG (interline group)',
+    '9': 'RG (rebate group)',
+    'A': 'UD (unspecified discount)',
+    'B': 'ID (industry discount, unclassified)',
+    'C': 'IDFS1 positive space',
+    'D': 'IDFS2 space available',
+    'E': 'IDR1 positive space',
+    'F': 'IDR2 space available'
+  } as Record<string, string>,
+
+  // Fast Track (Field 254, version 5+)
+  fastTrack: {
+    'Y': 'Yes',
+    'N': 'No'
+  } as Record<string, string>,
+
+  // Passenger Gender (version 8)
+  gender: {
+    'M': 'Male',
+    'F': 'Female',
+    'X': 'Unspecified',
+    'U': 'Undisclosed'
+  } as Record<string, string>,
+
+  // Free Baggage Allowance units (Field 118): the trailing letters of e.g. "20K" or "2PC"
+  baggageAllowanceUnit: {
+    'K': 'kg',
+    'L': 'lb',
+    'PC': 'piece'
+  } as Record<string, string>,
 };
 
+// Curated names by IATA designator. The full OpenFlights list in ./airlines is loaded on demand
+// (see lib/reference_data); these load with the page and take precedence over it.
 export const AIRLINE_NAMES: Record<string, string> = {
   // Common UK Airlines
   'BA': 'British Airways',
   'U2': 'easyJet',
-  'EZY': 'easyJet',
   'VS': 'Virgin Atlantic',
   'LS': 'Jet2.com',
   'FR': 'Ryanair',
-  'RYR': 'Ryanair',
   'BE': 'Flybe',
   'T3': 'Eastern Airways',
   'LM': 'Loganair',
@@ -119,77 +210,159 @@ export const AIRLINE_NAMES: Record<string, string> = {
   'AK': 'AirAsia',
 };
 
-// Common Airports (Top hubs + UK/EU specific)
-// This is a partial list to keep bundle size reasonable, but covers major hubs.
-// We can lazy load a larger one if needed.
-export const AIRPORT_NAMES: Record<string, {name: string, city: string, country: string}> = {
+// ICAO 3-letter designators of the airlines above. Some carriers put these in the
+// BCBP operating carrier field instead of their IATA code (e.g. "EZY" for easyJet).
+export const AIRLINE_ICAO_CODES: Record<string, string> = {
+  'BAW': 'BA', 'EZY': 'U2', 'VIR': 'VS', 'EXS': 'LS', 'RYR': 'FR', 'BEE': 'BE', 'EZE': 'T3', 'LOG': 'LM',
+  'DLH': 'LH', 'AFR': 'AF', 'KLM': 'KL', 'SAS': 'SK', 'SWR': 'LX', 'AUA': 'OS', 'IBE': 'IB', 'FIN': 'AY',
+  'ITY': 'AZ', 'TAP': 'TP', 'EIN': 'EI', 'LOT': 'LO', 'BEL': 'SN', 'AEE': 'A3', 'VLG': 'VY', 'WZZ': 'W6',
+  'NAX': 'DY', 'EWG': 'EW', 'TRA': 'HV', 'TVF': 'TO',
+  'UAE': 'EK', 'QTR': 'QR', 'ETD': 'EY', 'THY': 'TK', 'SVA': 'SV', 'RJA': 'RJ', 'GFA': 'GF', 'OMA': 'WY',
+  'KAC': 'KU', 'MEA': 'ME', 'FDB': 'FZ',
+  'AAL': 'AA', 'DAL': 'DL', 'UAL': 'UA', 'SWA': 'WN', 'QFA': 'QF', 'ANZ': 'NZ', 'SIA': 'SQ', 'CPA': 'CX',
+  'ANA': 'NH', 'JAL': 'JL', 'KAL': 'KE', 'CAL': 'CI', 'CCA': 'CA', 'ACA': 'AC', 'TAM': 'JJ', 'LAN': 'LA',
+  'AWQ': 'QZ', 'AXM': 'AK',
+};
+
+export type Alliance = 'Star Alliance' | 'oneworld' | 'SkyTeam';
+
+// Full members by IATA designator, as of 2025
+export const AIRLINE_ALLIANCES: Record<string, Alliance> = {
+  ...Object.fromEntries(['A3', 'AC', 'AI', 'AV', 'BR', 'CA', 'CM', 'ET', 'LH', 'LO', 'LX', 'MS', 'NH', 'NZ', 'OS', 'OU', 'OZ', 'SA', 'SN', 'SQ', 'TG', 'TK', 'TP', 'UA', 'ZH']
+    .map(code => [code, 'Star Alliance' as const])),
+  ...Object.fromEntries(['AA', 'AS', 'AT', 'AY', 'BA', 'CX', 'FJ', 'IB', 'JL', 'MH', 'QF', 'QR', 'RJ', 'UL', 'WY']
+    .map(code => [code, 'oneworld' as const])),
+  ...Object.fromEntries(['AF', 'AM', 'AR', 'CI', 'DL', 'GA', 'KE', 'KL', 'KQ', 'ME', 'MF', 'MU', 'RO', 'SK', 'SV', 'UX', 'VN', 'VS']
+    .map(code => [code, 'SkyTeam' as const])),
+};
+
+// Common Airports (Top hubs + UK/EU specific), with coordinates for distances
+// These load with the page and take precedence over the full list in ./airports,
+// which lib/reference_data loads on demand.
+export const AIRPORT_NAMES: Record<string, {name: string, city: string, country: string, lat: number, lon: number}> = {
   // UK
-  'LHR': { name: 'Heathrow Airport', city: 'London', country: 'United Kingdom' },
-  'LGW': { name: 'Gatwick Airport', city: 'London', country: 'United Kingdom' },
-  'STN': { name: 'Stansted Airport', city: 'London', country: 'United Kingdom' },
-  'LTN': { name: 'Luton Airport', city: 'London', country: 'United Kingdom' },
-  'LCY': { name: 'London City Airport', city: 'London', country: 'United Kingdom' },
-  'MAN': { name: 'Manchester Airport', city: 'Manchester', country: 'United Kingdom' },
-  'BHX': { name: 'Birmingham Airport', city: 'Birmingham', country: 'United Kingdom' },
-  'EDI': { name: 'Edinburgh Airport', city: 'Edinburgh', country: 'United Kingdom' },
-  'GLA': { name: 'Glasgow Airport', city: 'Glasgow', country: 'United Kingdom' },
-  'BRS': { name: 'Bristol Airport', city: 'Bristol', country: 'United Kingdom' },
-  'NCL': { name: 'Newcastle International Airport', city: 'Newcastle', country: 'United Kingdom' },
-  'LPL': { name: 'Liverpool John Lennon Airport', city: 'Liverpool', country: 'United Kingdom' },
-  'ABZ': { name: 'Aberdeen International Airport', city: 'Aberdeen', country: 'United Kingdom' },
-  'BHD': { name: 'George Best Belfast City Airport', city: 'Belfast', country: 'United Kingdom' },
-  'BFS': { name: 'Belfast International Airport', city: 'Belfast', country: 'United Kingdom' },
+  'LHR': { name: 'Heathrow Airport', city: 'London', country: 'United Kingdom', lat: 51.47, lon: -0.4543 },
+  'LGW': { name: 'Gatwick Airport', city: 'London', country: 'United Kingdom', lat: 51.1537, lon: -0.1821 },
+  'STN': { name: 'Stansted Airport', city: 'London', country: 'United Kingdom', lat: 51.886, lon: 0.2389 },
+  'LTN': { name: 'Luton Airport', city: 'London', country: 'United Kingdom', lat: 51.8747, lon: -0.3683 },
+  'LCY': { name: 'London City Airport', city: 'London', country: 'United Kingdom', lat: 51.5048, lon: 0.0495 },
+  'MAN': { name: 'Manchester Airport', city: 'Manchester', country: 'United Kingdom', lat: 53.3537, lon: -2.275 },
+  'BHX': { name: 'Birmingham Airport', city: 'Birmingham', country: 'United Kingdom', lat: 52.4539, lon: -1.748 },
+  'EDI': { name: 'Edinburgh Airport', city: 'Edinburgh', country: 'United Kingdom', lat: 55.95, lon: -3.3725 },
+  'GLA': { name: 'Glasgow Airport', city: 'Glasgow', country: 'United Kingdom', lat: 55.8719, lon: -4.4331 },
+  'BRS': { name: 'Bristol Airport', city: 'Bristol', country: 'United Kingdom', lat: 51.3827, lon: -2.7191 },
+  'NCL': { name: 'Newcastle International Airport', city: 'Newcastle', country: 'United Kingdom', lat: 55.0375, lon: -1.6917 },
+  'LPL': { name: 'Liverpool John Lennon Airport', city: 'Liverpool', country: 'United Kingdom', lat: 53.3336, lon: -2.8497 },
+  'ABZ': { name: 'Aberdeen International Airport', city: 'Aberdeen', country: 'United Kingdom', lat: 57.2019, lon: -2.1978 },
+  'BHD': { name: 'George Best Belfast City Airport', city: 'Belfast', country: 'United Kingdom', lat: 54.6181, lon: -5.8725 },
+  'BFS': { name: 'Belfast International Airport', city: 'Belfast', country: 'United Kingdom', lat: 54.6575, lon: -6.2158 },
 
   // Europe
-  'AMS': { name: 'Amsterdam Airport Schiphol', city: 'Amsterdam', country: 'Netherlands' },
-  'CDG': { name: 'Charles de Gaulle Airport', city: 'Paris', country: 'France' },
-  'ORY': { name: 'Orly Airport', city: 'Paris', country: 'France' },
-  'FRA': { name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany' },
-  'MUC': { name: 'Munich Airport', city: 'Munich', country: 'Germany' },
-  'MAD': { name: 'Adolfo Suárez Madrid–Barajas Airport', city: 'Madrid', country: 'Spain' },
-  'BCN': { name: 'Josep Tarradellas Barcelona-El Prat Airport', city: 'Barcelona', country: 'Spain' },
-  'FCO': { name: 'Leonardo da Vinci–Fiumicino Airport', city: 'Rome', country: 'Italy' },
-  'ZRH': { name: 'Zurich Airport', city: 'Zurich', country: 'Switzerland' },
-  'VIE': { name: 'Vienna International Airport', city: 'Vienna', country: 'Austria' },
-  'CPH': { name: 'Copenhagen Airport', city: 'Copenhagen', country: 'Denmark' },
-  'OSL': { name: 'Oslo Airport', city: 'Oslo', country: 'Norway' },
-  'ARN': { name: 'Stockholm Arlanda Airport', city: 'Stockholm', country: 'Sweden' },
-  'HEL': { name: 'Helsinki Airport', city: 'Helsinki', country: 'Finland' },
-  'DUB': { name: 'Dublin Airport', city: 'Dublin', country: 'Ireland' },
-  'LIS': { name: 'Humberto Delgado Airport', city: 'Lisbon', country: 'Portugal' },
-  'IST': { name: 'Istanbul Airport', city: 'Istanbul', country: 'Turkey' },
-  'ATH': { name: 'Athens International Airport', city: 'Athens', country: 'Greece' },
-  'WAW': { name: 'Warsaw Chopin Airport', city: 'Warsaw', country: 'Poland' },
-  'BUD': { name: 'Budapest Ferenc Liszt International Airport', city: 'Budapest', country: 'Hungary' },
-  'PRG': { name: 'Václav Havel Airport Prague', city: 'Prague', country: 'Czech Republic' },
-  'BRU': { name: 'Brussels Airport', city: 'Brussels', country: 'Belgium' },
+  'AMS': { name: 'Amsterdam Airport Schiphol', city: 'Amsterdam', country: 'Netherlands', lat: 52.3105, lon: 4.7683 },
+  'CDG': { name: 'Charles de Gaulle Airport', city: 'Paris', country: 'France', lat: 49.0097, lon: 2.5479 },
+  'ORY': { name: 'Orly Airport', city: 'Paris', country: 'France', lat: 48.7262, lon: 2.3652 },
+  'FRA': { name: 'Frankfurt Airport', city: 'Frankfurt', country: 'Germany', lat: 50.0379, lon: 8.5622 },
+  'MUC': { name: 'Munich Airport', city: 'Munich', country: 'Germany', lat: 48.3537, lon: 11.775 },
+  'MAD': { name: 'Adolfo Suárez Madrid–Barajas Airport', city: 'Madrid', country: 'Spain', lat: 40.4983, lon: -3.5676 },
+  'BCN': { name: 'Josep Tarradellas Barcelona-El Prat Airport', city: 'Barcelona', country: 'Spain', lat: 41.2974, lon: 2.0833 },
+  'FCO': { name: 'Leonardo da Vinci–Fiumicino Airport', city: 'Rome', country: 'Italy', lat: 41.8003, lon: 12.2389 },
+  'ZRH': { name: 'Zurich Airport', city: 'Zurich', country: 'Switzerland', lat: 47.4582, lon: 8.5555 },
+  'VIE': { name: 'Vienna International Airport', city: 'Vienna', country: 'Austria', lat: 48.1103, lon: 16.5697 },
+  'CPH': { name: 'Copenhagen Airport', city: 'Copenhagen', country: 'Denmark', lat: 55.618, lon: 12.6508 },
+  'OSL': { name: 'Oslo Airport', city: 'Oslo', country: 'Norway', lat: 60.1976, lon: 11.1004 },
+  'ARN': { name: 'Stockholm Arlanda Airport', city: 'Stockholm', country: 'Sweden', lat: 59.6519, lon: 17.9186 },
+  'HEL': { name: 'Helsinki Airport', city: 'Helsinki', country: 'Finland', lat: 60.3172, lon: 24.9633 },
+  'DUB': { name: 'Dublin Airport', city: 'Dublin', country: 'Ireland', lat: 53.4264, lon: -6.2499 },
+  'LIS': { name: 'Humberto Delgado Airport', city: 'Lisbon', country: 'Portugal', lat: 38.7742, lon: -9.1342 },
+  'IST': { name: 'Istanbul Airport', city: 'Istanbul', country: 'Turkey', lat: 41.2753, lon: 28.7519 },
+  'ATH': { name: 'Athens International Airport', city: 'Athens', country: 'Greece', lat: 37.9364, lon: 23.9445 },
+  'WAW': { name: 'Warsaw Chopin Airport', city: 'Warsaw', country: 'Poland', lat: 52.1657, lon: 20.9671 },
+  'BUD': { name: 'Budapest Ferenc Liszt International Airport', city: 'Budapest', country: 'Hungary', lat: 47.4369, lon: 19.2556 },
+  'PRG': { name: 'Václav Havel Airport Prague', city: 'Prague', country: 'Czech Republic', lat: 50.1008, lon: 14.26 },
+  'BRU': { name: 'Brussels Airport', city: 'Brussels', country: 'Belgium', lat: 50.9014, lon: 4.4844 },
 
   // Middle East
-  'DXB': { name: 'Dubai International Airport', city: 'Dubai', country: 'UAE' },
-  'AUH': { name: 'Zayed International Airport', city: 'Abu Dhabi', country: 'UAE' },
-  'DOH': { name: 'Hamad International Airport', city: 'Doha', country: 'Qatar' },
-  'RUH': { name: 'King Khalid International Airport', city: 'Riyadh', country: 'Saudi Arabia' },
-  'JED': { name: 'King Abdulaziz International Airport', city: 'Jeddah', country: 'Saudi Arabia' },
-  'AMM': { name: 'Queen Alia International Airport', city: 'Amman', country: 'Jordan' },
-  'MCT': { name: 'Muscat International Airport', city: 'Muscat', country: 'Oman' },
+  'DXB': { name: 'Dubai International Airport', city: 'Dubai', country: 'UAE', lat: 25.2532, lon: 55.3657 },
+  'AUH': { name: 'Zayed International Airport', city: 'Abu Dhabi', country: 'UAE', lat: 24.433, lon: 54.6511 },
+  'DOH': { name: 'Hamad International Airport', city: 'Doha', country: 'Qatar', lat: 25.2731, lon: 51.6081 },
+  'RUH': { name: 'King Khalid International Airport', city: 'Riyadh', country: 'Saudi Arabia', lat: 24.9576, lon: 46.6988 },
+  'JED': { name: 'King Abdulaziz International Airport', city: 'Jeddah', country: 'Saudi Arabia', lat: 21.6796, lon: 39.1565 },
+  'AMM': { name: 'Queen Alia International Airport', city: 'Amman', country: 'Jordan', lat: 31.7226, lon: 35.9932 },
+  'MCT': { name: 'Muscat International Airport', city: 'Muscat', country: 'Oman', lat: 23.5933, lon: 58.2844 },
 
   // US Major
-  'JFK': { name: 'John F. Kennedy International Airport', city: 'New York', country: 'USA' },
-  'LGA': { name: 'LaGuardia Airport', city: 'New York', country: 'USA' },
-  'EWR': { name: 'Newark Liberty International Airport', city: 'Newark', country: 'USA' },
-  'LAX': { name: 'Los Angeles International Airport', city: 'Los Angeles', country: 'USA' },
-  'SFO': { name: 'San Francisco International Airport', city: 'San Francisco', country: 'USA' },
-  'ORD': { name: "O'Hare International Airport", city: 'Chicago', country: 'USA' },
-  'ATL': { name: 'Hartsfield–Jackson Atlanta International Airport', city: 'Atlanta', country: 'USA' },
-  'DFW': { name: 'Dallas/Fort Worth International Airport', city: 'Dallas', country: 'USA' },
-  'MIA': { name: 'Miami International Airport', city: 'Miami', country: 'USA' },
+  'JFK': { name: 'John F. Kennedy International Airport', city: 'New York', country: 'USA', lat: 40.6413, lon: -73.7781 },
+  'LGA': { name: 'LaGuardia Airport', city: 'New York', country: 'USA', lat: 40.7769, lon: -73.874 },
+  'EWR': { name: 'Newark Liberty International Airport', city: 'Newark', country: 'USA', lat: 40.6895, lon: -74.1745 },
+  'LAX': { name: 'Los Angeles International Airport', city: 'Los Angeles', country: 'USA', lat: 33.9416, lon: -118.4085 },
+  'SFO': { name: 'San Francisco International Airport', city: 'San Francisco', country: 'USA', lat: 37.6213, lon: -122.379 },
+  'ORD': { name: "O'Hare International Airport", city: 'Chicago', country: 'USA', lat: 41.9742, lon: -87.9073 },
+  'ATL': { name: 'Hartsfield–Jackson Atlanta International Airport', city: 'Atlanta', country: 'USA', lat: 33.6407, lon: -84.4277 },
+  'DFW': { name: 'Dallas/Fort Worth International Airport', city: 'Dallas', country: 'USA', lat: 32.8998, lon: -97.0403 },
+  'MIA': { name: 'Miami International Airport', city: 'Miami', country: 'USA', lat: 25.7959, lon: -80.287 },
 
   // Asia Major
-  'SIN': { name: 'Singapore Changi Airport', city: 'Singapore', country: 'Singapore' },
-  'HKG': { name: 'Hong Kong International Airport', city: 'Hong Kong', country: 'Hong Kong' },
-  'HND': { name: 'Haneda Airport', city: 'Tokyo', country: 'Japan' },
-  'NRT': { name: 'Narita International Airport', city: 'Tokyo', country: 'Japan' },
-  'ICN': { name: 'Incheon International Airport', city: 'Seoul', country: 'South Korea' },
-  'BKK': { name: 'Suvarnabhumi Airport', city: 'Bangkok', country: 'Thailand' },
-  'SYD': { name: 'Sydney Kingsford Smith Airport', city: 'Sydney', country: 'Australia' },
+  'SIN': { name: 'Singapore Changi Airport', city: 'Singapore', country: 'Singapore', lat: 1.3644, lon: 103.9915 },
+  'HKG': { name: 'Hong Kong International Airport', city: 'Hong Kong', country: 'Hong Kong', lat: 22.308, lon: 113.9185 },
+  'HND': { name: 'Haneda Airport', city: 'Tokyo', country: 'Japan', lat: 35.5494, lon: 139.7798 },
+  'NRT': { name: 'Narita International Airport', city: 'Tokyo', country: 'Japan', lat: 35.772, lon: 140.3929 },
+  'ICN': { name: 'Incheon International Airport', city: 'Seoul', country: 'South Korea', lat: 37.4602, lon: 126.4407 },
+  'BKK': { name: 'Suvarnabhumi Airport', city: 'Bangkok', country: 'Thailand', lat: 13.69, lon: 100.7501 },
+  'SYD': { name: 'Sydney Kingsford Smith Airport', city: 'Sydney', country: 'Australia', lat: -33.9399, lon: 151.1753 },
+};
+
+// IATA Airline Numeric Codes (3-digit ticketing prefix) -> Airline Designator
+// Resolve the name through AIRLINE_NAMES
+export const AIRLINE_NUMERIC_CODES: Record<string, string> = {
+  // UK & Europe
+  '125': 'BA',
+  '932': 'VS',
+  '220': 'LH',
+  '057': 'AF',
+  '074': 'KL',
+  '117': 'SK',
+  '724': 'LX',
+  '257': 'OS',
+  '075': 'IB',
+  '105': 'AY',
+  '055': 'AZ',
+  '047': 'TP',
+  '053': 'EI',
+  '080': 'LO',
+  '082': 'SN',
+  '390': 'A3',
+  '328': 'DY',
+  '104': 'EW',
+
+  // Middle East
+  '176': 'EK',
+  '157': 'QR',
+  '607': 'EY',
+  '235': 'TK',
+  '065': 'SV',
+  '512': 'RJ',
+  '072': 'GF',
+  '910': 'WY',
+  '229': 'KU',
+  '076': 'ME',
+  '141': 'FZ',
+
+  // Major Global
+  '001': 'AA',
+  '006': 'DL',
+  '016': 'UA',
+  '526': 'WN',
+  '081': 'QF',
+  '086': 'NZ',
+  '618': 'SQ',
+  '160': 'CX',
+  '205': 'NH',
+  '131': 'JL',
+  '180': 'KE',
+  '297': 'CI',
+  '999': 'CA',
+  '014': 'AC',
+  '957': 'JJ',
+  '045': 'LA',
+  '807': 'AK',
 };
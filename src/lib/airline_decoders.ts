@@ -0,0 +1,48 @@
+import { AirlineDecoder, AirlineDecoderRegistry, fixedWidthDecoder } from './bcbp_airline';
+
+// Decoders for the "Individual Airline Use" data after Section B.
+// Carriers don't publish these layouts, so none is registered by default. The
+// examples below are made up: they show the shape a real decoder takes and are
+// only used with their own registry (tests, demos), never on scanned passes.
+
+const yesNo = (raw: string) => raw === 'Y';
+const describeYesNo = (value: string | number | boolean) => (value ? 'Yes' : 'No');
+
+const LOYALTY_TIERS: Record<string, string> = {
+  B: 'Blue',
+  S: 'Silver',
+  G: 'Gold',
+  P: 'Platinum',
+};
+
+// Example: boarding group, lounge access and loyalty tier
+export const EXAMPLE_BA_DECODER: AirlineDecoder = fixedWidthDecoder({
+  id: 'example-ba',
+  name: 'British Airways (example)',
+  carriers: ['BA'],
+  fields: [
+    { key: 'boardingGroup', label: 'Boarding Group', length: 1, pattern: /^[0-9 ]$/, parse: raw => (raw.trim() ? parseInt(raw, 10) : '') },
+    { key: 'loungeAccess', label: 'Lounge Access', length: 1, pattern: /^[YN ]$/, parse: yesNo, describe: describeYesNo },
+    { key: 'loyaltyTier', label: 'Loyalty Tier', length: 1, pattern: /^[BSGP ]$/, describe: v => LOYALTY_TIERS[String(v)] || 'None' },
+  ],
+});
+
+// Example: priority boarding flag and a 2-digit bag drop zone, for passes easyJet issues itself
+export const EXAMPLE_EASYJET_DECODER: AirlineDecoder = fixedWidthDecoder({
+  id: 'example-easyjet',
+  name: 'easyJet (example)',
+  carriers: ['U2', 'EZY', 'DS', 'EC'],
+  issuers: ['U2', 'EZY'],
+  fields: [
+    { key: 'priorityBoarding', label: 'Priority Boarding', length: 1, pattern: /^[YN]$/, parse: yesNo, describe: describeYesNo },
+    { key: 'bagDropZone', label: 'Bag Drop Zone', length: 2, pattern: /^[0-9 ]{2}$/ },
+  ],
+});
+
+export const EXAMPLE_AIRLINE_DECODERS: AirlineDecoder[] = [EXAMPLE_BA_DECODER, EXAMPLE_EASYJET_DECODER];
+
+// Decoders for confirmed layouts; empty until a carrier's layout is confirmed
+export const BUILTIN_AIRLINE_DECODERS: AirlineDecoder[] = [];
+
+// Registry the parser uses by default. Other modules can add decoders with `airlineDecoders.register()`.
+export const airlineDecoders = new AirlineDecoderRegistry(BUILTIN_AIRLINE_DECODERS);
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { tileRegions, tiledDecoder, dedupeBarcodes, isSupportedFile, extractBarcodesFromFile } from './barcode_files';
+
+describe('Barcode Files', () => {
+  it('accepts images and PDFs only', () => {
+    expect(isSupportedFile(new File([''], 'pass.pdf', { type: 'application/pdf' }))).toBe(true);
+    expect(isSupportedFile(new File([''], 'shot.webp', { type: 'image/webp' }))).toBe(true);
+    expect(isSupportedFile(new File([''], 'scan.JPG'))).toBe(true); // No MIME type, go by extension
+    expect(isSupportedFile(new File([''], 'pass.gif', { type: 'image/gif' }))).toBe(false);
+  });
+
+  it('tiles a page into overlapping regions inside its bounds', () => {
+    const regions = tileRegions(1000, 1400);
+    expect(regions[0]).toEqual({ x: 0, y: 0, width: 1000, height: 1400 });
+    expect(regions).toHaveLength(8);
+    for (const r of regions) {
+      expect(r.x + r.width).toBeLessThanOrEqual(1000);
+      expect(r.y + r.height).toBeLessThanOrEqual(1400);
+    }
+  });
+
+  it('collects every distinct code found across tiles', async () => {
+    // Pretend one pass sits at the top of the page and another at the bottom
+    const decodeRegion = vi.fn(async (_canvas: HTMLCanvasElement, region: { y: number; height: number }) => {
+      if (region.y === 0) return { text: 'M1TOP', format: 'PDF_417' };
+      if (region.y + region.height === 1400) return { text: 'M1BOTTOM', format: 'AZTEC' };
+      return null;
+    });
+    const decode = tiledDecoder(decodeRegion);
+    const found = await decode({ width: 1000, height: 1400 } as HTMLCanvasElement);
+    expect(found.map(b => b.text)).toEqual(['M1TOP', 'M1BOTTOM']);
+    expect(decodeRegion).toHaveBeenCalledTimes(8);
+  });
+
+  it('keeps the same code on different pages', () => {
+    const found = dedupeBarcodes([
+      { text: 'A', page: 1 }, { text: 'A', page: 1 }, { text: 'A', page: 2 },
+    ]);
+    expect(found).toHaveLength(2);
+  });
+
+  it('rejects unsupported files', async () => {
+    const decode = vi.fn();
+    await expect(extractBarcodesFromFile(new File([''], 'notes.txt', { type: 'text/plain' }), decode)).rejects.toThrow(/not a PNG/);
+    expect(decode).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import type { Html5Qrcode } from 'html5-qrcode';
+
+// --- Types ---
+
+export interface DecodedBarcode {
+  text: string;
+  format?: string; // e.g. "PDF_417", "AZTEC", "QR_CODE"
+}
+
+export interface FileBarcode extends DecodedBarcode {
+  fileName: string;
+  page?: number; // 1-based, PDFs only
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Finds every barcode on one rendered page or image
+export type CanvasDecoder = (canvas: HTMLCanvasElement) => Promise<DecodedBarcode[]>;
+
+// Finds at most one barcode within a region of a canvas
+export type RegionDecoder = (canvas: HTMLCanvasElement, region: Region) => Promise<DecodedBarcode | null>;
+
+export const SUPPORTED_FILE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'application/pdf'];
+const SUPPORTED_EXTENSIONS = /\.(png|jpe?g|webp|pdf)$/i;
+
+// PDF pages render at 72dpi by default; barcodes need roughly 3x that to decode reliably
+const PDF_RENDER_SCALE = 3;
+
+// --- Helpers ---
+
+export function isSupportedFile(file: File): boolean {
+  return SUPPORTED_FILE_TYPES.includes(file.type) || (!file.type && SUPPORTED_EXTENSIONS.test(file.name));
+}
+
+function isPdf(file: File): boolean {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+/**
+ * Regions to search on a page: the whole page, overlapping top/middle/bottom
+ * halves, then overlapping quadrants. ZXing stops at the first code it finds,
+ * so smaller regions are how a page with several passes yields all of them.
+ */
+export function tileRegions(width: number, height: number): Region[] {
+  const halfW = Math.round(width / 2);
+  const halfH = Math.round(height / 2);
+  const quarterH = Math.round(height / 4);
+  return [
+    { x: 0, y: 0, width, height },
+    { x: 0, y: 0, width, height: halfH },
+    { x: 0, y: quarterH, width, height: halfH },
+    { x: 0, y: height - halfH, width, height: halfH },
+    { x: 0, y: 0, width: halfW, height: halfH },
+    { x: width - halfW, y: 0, width: halfW, height: halfH },
+    { x: 0, y: height - halfH, width: halfW, height: halfH },
+    { x: width - halfW, y: height - halfH, width: halfW, height: halfH },
+  ];
+}
+
+// Same text on the same page is the same barcode, whichever region found it
+export function dedupeBarcodes<T extends DecodedBarcode & { page?: number }>(barcodes: T[]): T[] {
+  const seen = new Set<string>();
+  return barcodes.filter(b => {
+    const key = `${b.page ?? 0}:${b.text}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Runs a single-result decoder over every tile and collects the distinct codes
+export function tiledDecoder(decodeRegion: RegionDecoder): CanvasDecoder {
+  return async (canvas) => {
+    const found: DecodedBarcode[] = [];
+    for (const region of tileRegions(canvas.width, canvas.height)) {
+      const result = await decodeRegion(canvas, region);
+      if (result) found.push(result);
+    }
+    return dedupeBarcodes(found);
+  };
+}
+
+function cropCanvas(source: HTMLCanvasElement, region: Region): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = region.width;
+  canvas.height = region.height;
+  canvas.getContext('2d')!.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+  return canvas;
+}
+
+function canvasToFile(canvas: HTMLCanvasElement, name: string): Promise<File> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(new File([blob], name, { type: 'image/png' })) : reject(new Error('Could not encode page image'))), 'image/png');
+  });
+}
+
+// --- Rendering ---
+
+async function loadImageCanvas(file: File): Promise<HTMLCanvasElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Could not read image ${file.name}`));
+      img.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    canvas.getContext('2d')!.drawImage(image, 0, 0);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Renders every page locally; the PDF never leaves the browser
+async function renderPdfPages(file: File): Promise<HTMLCanvasElement[]> {
+  const pdfjs = await import('pdfjs-dist');
+  const worker = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: HTMLCanvasElement[] = [];
+  try {
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(canvas);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages;
+}
+
+// --- Decoders ---
+
+interface NativeBarcodeDetector {
+  detect(source: CanvasImageSource): Promise<Array<{ rawValue: string; format: string }>>;
+}
+
+type NativeBarcodeDetectorClass = new (options?: { formats: string[] }) => NativeBarcodeDetector;
+
+// The browser's own detector returns every code in one pass, so no tiling is needed
+function nativeDecoder(Detector: NativeBarcodeDetectorClass): CanvasDecoder {
+  const detector = new Detector({ formats: ['pdf417', 'aztec', 'qr_code'] });
+  return async (canvas) => {
+    const results = await detector.detect(canvas);
+    return dedupeBarcodes(results.map(r => ({ text: r.rawValue, format: r.format.toUpperCase() })));
+  };
+}
+
+// html5-qrcode's bundled ZXing, the same decoder the camera Scanner runs
+export async function createScannerRegionDecoder(): Promise<RegionDecoder> {
+  const { Html5Qrcode, Html5QrcodeSupportedFormats } = await import('html5-qrcode');
+  let host = document.getElementById('barcode-file-decoder');
+  if (!host) {
+    host = document.createElement('div');
+    host.id = 'barcode-file-decoder';
+    host.hidden = true;
+    document.body.appendChild(host);
+  }
+  const scanner: Html5Qrcode = new Html5Qrcode(host.id, {
+    formatsToSupport: [Html5QrcodeSupportedFormats.PDF_417, Html5QrcodeSupportedFormats.AZTEC, Html5QrcodeSupportedFormats.QR_CODE],
+    verbose: false,
+  });
+
+  return async (canvas, region) => {
+    try {
+      const file = await canvasToFile(cropCanvas(canvas, region), 'region.png');
+      const result = await scanner.scanFileV2(file, false);
+      return { text: result.decodedText, format: result.result.format?.formatName };
+    } catch {
+      return null; // Nothing found in this region
+    }
+  };
+}
+
+// Falls back to html5-qrcode one region at a time
+async function html5QrcodeDecoder(): Promise<CanvasDecoder> {
+  return tiledDecoder(await createScannerRegionDecoder());
+}
+
+export async function createDefaultDecoder(): Promise<CanvasDecoder> {
+  const Detector = (globalThis as { BarcodeDetector?: NativeBarcodeDetectorClass }).BarcodeDetector;
+  return Detector ? nativeDecoder(Detector) : html5QrcodeDecoder();
+}
+
+// --- Public API ---
+
+/**
+ * Finds every PDF417/Aztec/QR code in an image or PDF.
+ * PDF pages are searched in order; results keep their page number.
+ */
+export async function extractBarcodesFromFile(file: File, decoder?: CanvasDecoder): Promise<FileBarcode[]> {
+  if (!isSupportedFile(file)) {
+    throw new Error(`${file.name} is not a PNG, JPEG, WebP or PDF file.`);
+  }
+
+  const decode = decoder || await createDefaultDecoder();
+  if (!isPdf(file)) {
+    const found = await decode(await loadImageCanvas(file));
+    return found.map(b => ({ ...b, fileName: file.name }));
+  }
+
+  const pages = await renderPdfPages(file);
+  const results: FileBarcode[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const found = await decode(pages[i]);
+    results.push(...found.map(b => ({ ...b, fileName: file.name, page: i + 1 })));
+  }
+  return dedupeBarcodes(results);
+}
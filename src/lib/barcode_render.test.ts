@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { bwipOptions, defaultRenderSettings, renderSvg, verifyRender, RENDER_FORMATS } from './barcode_render';
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+const files = vi.hoisted(() => ({ createScannerRegionDecoder: vi.fn() }));
+vi.mock('./barcode_files', () => files);
+
+const canvas = () => Object.assign(document.createElement('canvas'), { width: 200, height: 80 });
+
+describe('bwipOptions', () => {
+  it('maps settings onto the bwip-js encoder', () => {
+    const options = bwipOptions(PASS, { format: 'aztec', ecLevel: '36', moduleSize: 4 });
+    expect(options).toMatchObject({ bcid: 'azteccode', text: PASS, scale: 4, padding: 2, eclevel: '36' });
+  });
+
+  it('clamps the module size', () => {
+    expect(bwipOptions(PASS, { ...defaultRenderSettings(), moduleSize: 40 }).scale).toBe(10);
+    expect(bwipOptions(PASS, { ...defaultRenderSettings(), moduleSize: 0 }).scale).toBe(1);
+  });
+
+  it('defaults each format to its own error correction scale', () => {
+    expect(defaultRenderSettings('qr_code').ecLevel).toBe('M');
+    expect(RENDER_FORMATS.pdf417.ecLevels.map(l => l.value)).toContain(defaultRenderSettings('pdf417').ecLevel);
+  });
+});
+
+describe('renderSvg', () => {
+  it.each(['pdf417', 'aztec', 'qr_code'] as const)('renders %s', async format => {
+    const svg = await renderSvg(PASS, defaultRenderSettings(format));
+    expect(svg).toMatch(/^<svg /);
+  });
+});
+
+describe('verifyRender', () => {
+  it('decodes the whole canvas and accepts an exact match', async () => {
+    const decoder = vi.fn().mockResolvedValue({ text: PASS });
+    const c = canvas();
+    expect(await verifyRender(c, PASS, decoder)).toMatchObject({ ok: true });
+    expect(decoder).toHaveBeenCalledWith(c, { x: 0, y: 0, width: 200, height: 80 });
+  });
+
+  it('reports text that reads back differently', async () => {
+    const check = await verifyRender(canvas(), PASS, vi.fn().mockResolvedValue({ text: 'M1DOE' }));
+    expect(check).toMatchObject({ ok: false, decoded: 'M1DOE' });
+  });
+
+  it('reports a barcode that does not read at all', async () => {
+    expect((await verifyRender(canvas(), PASS, vi.fn().mockResolvedValue(null))).ok).toBe(false);
+  });
+
+  it('creates the scanner decoder once and reuses it', async () => {
+    const decoder = vi.fn().mockResolvedValue({ text: PASS });
+    files.createScannerRegionDecoder.mockResolvedValue(decoder);
+
+    await verifyRender(canvas(), PASS);
+    await verifyRender(canvas(), PASS);
+    expect(files.createScannerRegionDecoder).toHaveBeenCalledOnce();
+    expect(decoder).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,130 @@
+import type { RenderOptions } from 'bwip-js/browser';
+import type { ScannerFormat } from './scanner_config';
+import type { RegionDecoder } from './barcode_files';
+
+// --- Types ---
+
+// The symbologies boarding passes are issued in
+export type RenderFormat = Extract<ScannerFormat, 'pdf417' | 'aztec' | 'qr_code'>;
+
+export interface RenderSettings {
+  format: RenderFormat;
+  ecLevel: string;    // In the symbology's own terms: PDF417 0-8, Aztec percent, QR L/M/Q/H
+  moduleSize: number; // Pixels per module (the narrowest bar or smallest square)
+}
+
+export interface RenderFormatSpec {
+  label: string;
+  bcid: string;      // bwip-js encoder name
+  ecLevels: Array<{ value: string; label: string }>;
+  defaultEcLevel: string;
+  quietZone: number; // Modules of blank margin the symbology needs around it
+}
+
+export interface RenderCheck {
+  ok: boolean;
+  decoded?: string; // What the decoder read, when it read anything
+  message: string;
+}
+
+// --- Constants ---
+
+export const RENDER_FORMATS: Record<RenderFormat, RenderFormatSpec> = {
+  pdf417: {
+    label: 'PDF417',
+    bcid: 'pdf417',
+    ecLevels: Array.from({ length: 9 }, (_, i) => ({ value: String(i), label: `Level ${i}` })),
+    defaultEcLevel: '5',
+    quietZone: 2,
+  },
+  aztec: {
+    label: 'Aztec',
+    bcid: 'azteccode',
+    ecLevels: [10, 23, 36, 50].map(p => ({ value: String(p), label: `${p}%` })),
+    defaultEcLevel: '23',
+    quietZone: 2,
+  },
+  qr_code: {
+    label: 'QR Code',
+    bcid: 'qrcode',
+    ecLevels: [
+      { value: 'L', label: 'L (7%)' },
+      { value: 'M', label: 'M (15%)' },
+      { value: 'Q', label: 'Q (25%)' },
+      { value: 'H', label: 'H (30%)' },
+    ],
+    defaultEcLevel: 'M',
+    quietZone: 4,
+  },
+};
+
+export const MIN_MODULE_SIZE = 1;
+export const MAX_MODULE_SIZE = 10;
+
+// --- Helpers ---
+
+export function defaultRenderSettings(format: RenderFormat = 'pdf417'): RenderSettings {
+  return { format, ecLevel: RENDER_FORMATS[format].defaultEcLevel, moduleSize: 3 };
+}
+
+/**
+ * bwip-js options for a render. Error correction is a BWIPP option bwip-js
+ * passes through untyped; Aztec takes it as a percentage.
+ */
+export function bwipOptions(text: string, settings: RenderSettings): RenderOptions {
+  const spec = RENDER_FORMATS[settings.format];
+  const moduleSize = Math.min(MAX_MODULE_SIZE, Math.max(MIN_MODULE_SIZE, Math.round(settings.moduleSize)));
+  return {
+    bcid: spec.bcid,
+    text,
+    scale: moduleSize,
+    padding: spec.quietZone,
+    backgroundcolor: 'FFFFFF',
+    eclevel: settings.ecLevel,
+  } as RenderOptions;
+}
+
+// bwip-js is large, so it only loads once something is rendered
+const loadBwip = () => import('bwip-js/browser');
+
+// --- Rendering ---
+
+export async function renderSvg(text: string, settings: RenderSettings): Promise<string> {
+  const bwip = await loadBwip();
+  return bwip.toSVG(bwipOptions(text, settings));
+}
+
+export async function renderCanvas(text: string, settings: RenderSettings, canvas: HTMLCanvasElement = document.createElement('canvas')): Promise<HTMLCanvasElement> {
+  const bwip = await loadBwip();
+  bwip.toCanvas(canvas, bwipOptions(text, settings));
+  return canvas;
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the barcode as PNG'))), 'image/png');
+  });
+}
+
+let scannerDecoder: Promise<RegionDecoder> | null = null;
+
+// One html5-qrcode instance for every check; each one claims the same hidden host element
+function sharedScannerDecoder(): Promise<RegionDecoder> {
+  scannerDecoder ??= import('./barcode_files').then(m => m.createScannerRegionDecoder()).catch(e => {
+    scannerDecoder = null; // Let the next check try again
+    throw e;
+  });
+  return scannerDecoder;
+}
+
+/**
+ * Decodes a rendered barcode with the camera Scanner's decoder and compares
+ * the result with the text it was rendered from.
+ */
+export async function verifyRender(canvas: HTMLCanvasElement, expected: string, decoder?: RegionDecoder): Promise<RenderCheck> {
+  const decode = decoder || await sharedScannerDecoder();
+  const result = await decode(canvas, { x: 0, y: 0, width: canvas.width, height: canvas.height });
+  if (!result) return { ok: false, message: 'The scanner could not read the rendered barcode.' };
+  if (result.text !== expected) return { ok: false, decoded: result.text, message: 'The scanner read different text back.' };
+  return { ok: true, decoded: result.text, message: 'Reads back exactly with the scanner.' };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseBCBP } from './bcbp';
+import { parseBCBP, encodeBCBP, completeSegments, Segment } from './bcbp';
 
 // Mock Strings
 const VALID_V7_STRING_FIXED = "M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100";
@@ -33,6 +33,26 @@ const CONDITIONAL_STRING =
 "1234567" + "LHR" + "JFK" + "BA " + "00123" + "107" + "Y" + "012A" + "00001" + "1" + "0A" +
 ">102PA00XX";
 
+// Spec-style pass with every Section A/B field, airline use data and a security block.
+// Section A: 24 chars (0x18), Section B: 42 chars (0x2A), Conditional: 4+24+2+42+5 = 77 (0x4D)
+const FULL_SPEC_STRING =
+"M1DESMARAIS/LUC       E" +
+"ABC123 " + "YUL" + "FRA" + "AC " + "0834 " + "326" + "J" + "001A" + "0025 " + "1" + "4D" +
+">6" + "18" + "1" + "W" + "W" + "6225" + "B" + "AC " + "0014123456003" +
+"2A" + "014" + "1234567890" + " " + "1" + "AC " + "AC " + "1234567890123   " + "1" + "20K" + "Y" +
+"LX58Z" +
+"^1" + "0A" + "ABCDEFGHIJ";
+
+// First leg: Section A 11 chars (0x0B) + empty Section B, Conditional: 4+11+2 = 17 (0x11)
+// Second leg carries Section B only: 13 chars (0x0D), Conditional: 2+13 = 15 (0x0F)
+const MULTI_LEG_SPEC_STRING =
+"M2DESMARAIS/LUC       E" +
+"ABC123 " + "YUL" + "FRA" + "AC " + "0834 " + "326" + "J" + "001A" + "0025 " + "1" + "11" +
+">6" + "0B" + "1" + "W" + "W" + "6225" + "B" + "AC " +
+"00" +
+"DEF456 " + "FRA" + "GVA" + "LH " + "3664A" + "327" + "C" + "012C" + "0026 " + "1" + "0F" +
+"0D" + "220" + "2512345678";
+
 describe('BCBP Parser', () => {
   it('parses a standard single leg boarding pass', () => {
     const result = parseBCBP(VALID_V7_STRING_FIXED);
@@ -72,13 +92,19 @@ describe('BCBP Parser', () => {
     const descSeg = result.segments?.find(s => s.label === 'Passenger Description');
     expect(descSeg?.value).toBe('P');
 
-    const srcSeg = result.segments?.find(s => s.label === 'Check-in Source');
+    const srcSeg = result.segments?.find(s => s.label === 'Source of Check-in');
     expect(srcSeg?.value).toBe('A');
 
     // Validate Data Object
     expect(result.data?.version).toBe(1);
     expect(result.data?.passengerDescription).toBe('P');
     expect(result.data?.checkInSource).toBe('A');
+
+    // Section A ends after 2 characters; nothing past it is read as Section A
+    expect(result.segments?.find(s => s.label === 'Source of Boarding Pass Issuance')).toBeUndefined();
+    expect(result.data?.boardingPassIssuanceSource).toBeUndefined();
+    expect(result.data?.legs[0].airlineUseData).toBe('XX');
+    expect(result.diagnostics).toEqual([]);
   });
 
   it('fails soft on invalid data', () => {
@@ -86,5 +112,253 @@ describe('BCBP Parser', () => {
     const result = parseBCBP(BAD_STRING);
     expect(result.success).toBe(false);
     expect(result.error).toContain('Input too short');
+    expect(result.diagnostics[0].code).toBe('INPUT_TOO_SHORT');
+  });
+});
+
+describe('BCBP Version-Aware Layouts', () => {
+  // Version 2 pass: no non-consecutive bag tags in Section A, no Fast Track in Section B
+  const V2_STRING =
+    "M1DOE/JOHN            E" +
+    "ABC123 " + "LHR" + "JFK" + "BA " + "0117 " + "107" + "Y" + "012A" + "0001 " + "1" + "30" +
+    ">2" + "18" + "1" + "W" + "W" + "1107" + "B" + "BA " + "0125123456001" +
+    "12" + "125" + "1234567890" + "0" + "0" + "BA ";
+
+  it('only reads the fields the declared version defines', () => {
+    const result = parseBCBP(V2_STRING);
+    expect(result.data?.version).toBe(2);
+    expect(result.data?.baggageTags).toHaveLength(1);
+    expect(result.data?.baggageTags?.[0].kind).toBe('baggageTag');
+    expect(result.segments?.find(s => s.label === 'Fast Track')).toBeUndefined();
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('labels segments with spec names', () => {
+    const labels = parseBCBP(FULL_SPEC_STRING).segments!.map(s => s.label);
+    expect(labels).toContain('Baggage Tag License Plate Number');
+    expect(labels).toContain('Document Form/Serial Number');
+    expect(labels).toContain('Marketing Carrier Designator');
+    expect(labels).not.toContain('Baggage Tag 1');
+  });
+
+  it('stops at the declared Section B size', () => {
+    // Section B declares 3 characters: only the airline numeric code
+    const raw = "M1DOE/JOHN            E1234567LHRJFKBA 0123 107Y012A0001 1" + "05" + "03" + "125";
+    const result = parseBCBP(raw);
+    expect(result.data?.legs[0].airlineNumericCode).toBe('125');
+    expect(result.data?.legs[0].serialNumber).toBeUndefined();
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('parses version 8 gender and non-consecutive bag tags', () => {
+    const raw =
+      "M1DOE/JANE            E" +
+      "ABC123 " + "LHR" + "JFK" + "BA " + "0117 " + "107" + "Y" + "012A" + "0001 " + "1" + "39" +
+      ">8" + "33" + "1" + "W" + "W" + "1107" + "B" + "BA " + "0125123456001" + "0125654321001" + "0125777777002" + "F" +
+      "00";
+    const result = parseBCBP(raw);
+    expect(result.data?.gender).toBe('F');
+    expect(result.data?.baggageTags?.map(t => t.kind)).toEqual([
+      'baggageTag', 'firstNonConsecutiveBaggageTag', 'secondNonConsecutiveBaggageTag',
+    ]);
+    expect(result.segments?.find(s => s.label === 'Passenger Gender')?.value).toBe('F');
+    expect(encodeBCBP(result.data!)).toBe(raw);
+  });
+
+  it('round-trips truncated sections', () => {
+    expect(encodeBCBP(parseBCBP(V2_STRING).data!)).toBe(V2_STRING);
+    expect(encodeBCBP(parseBCBP(CONDITIONAL_STRING).data!)).toBe(CONDITIONAL_STRING);
+  });
+});
+
+describe('BCBP Segment Coverage', () => {
+  const covers = (segments: Segment[], input: string) => {
+    let cursor = 0;
+    for (const seg of segments) {
+      expect(seg.start).toBe(cursor);
+      expect(seg.raw).toBe(input.substring(seg.start, seg.end));
+      cursor = seg.end;
+    }
+    expect(cursor).toBe(input.length);
+  };
+
+  it('covers every character of a well-formed pass without unparsed segments', () => {
+    const result = parseBCBP(FULL_SPEC_STRING);
+    covers(result.segments!, FULL_SPEC_STRING);
+    expect(result.segments!.some(s => s.section === 'unparsed')).toBe(false);
+  });
+
+  it('marks data after the security block as unparsed', () => {
+    const input = FULL_SPEC_STRING + 'TRAILING';
+    const result = parseBCBP(input);
+    covers(result.segments!, input);
+    expect(result.segments!.at(-1)).toMatchObject({ section: 'unparsed', raw: 'TRAILING', label: 'Unparsed Data' });
+    expect(result.diagnostics.map(d => d.code)).toContain('UNPARSED_DATA');
+  });
+
+  it('marks data after the last leg as unparsed when there is no security block', () => {
+    const input = VALID_V7_STRING_FIXED + 'EXTRA';
+    const result = parseBCBP(input);
+    covers(result.segments!, input);
+    expect(result.segments!.at(-1)).toMatchObject({ section: 'unparsed', raw: 'EXTRA' });
+  });
+
+  it('fills gaps and splits overlapping segments', () => {
+    const input = 'ABCDEFGHIJ';
+    const a: Segment = { label: 'A', value: 'ABCD', raw: 'ABCD', start: 0, end: 4, section: 'header' };
+    const b: Segment = { label: 'B', value: 'CDEF', raw: 'CDEF', start: 2, end: 6, section: 'header' };
+    const result = completeSegments([a, b], input);
+    covers(result, input);
+    expect(result.map(s => [s.section, s.raw])).toEqual([
+      ['header', 'AB'], ['overlap', 'CD'], ['header', 'EF'], ['unparsed', 'GHIJ'],
+    ]);
+    expect(result[1].label).toBe('Overlap: A / B');
+  });
+});
+
+describe('BCBP Diagnostics', () => {
+  it('reports nothing for a well-formed pass', () => {
+    expect(parseBCBP(FULL_SPEC_STRING).diagnostics).toEqual([]);
+  });
+
+  it('flags a format code other than M', () => {
+    const result = parseBCBP('X' + FULL_SPEC_STRING.substring(1));
+    expect(result.success).toBe(true);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'error', code: 'INVALID_FORMAT_CODE', start: 0, end: 1,
+    }));
+  });
+
+  it('flags an invalid hex size with its offsets', () => {
+    const broken = VALID_V7_STRING_FIXED.substring(0, 58) + 'ZZ';
+    const result = parseBCBP(broken);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      code: 'INVALID_HEX_SIZE', start: 58, end: 60,
+    }));
+  });
+
+  it('flags a conditional section that runs past the end of the input', () => {
+    const truncated = FULL_SPEC_STRING.substring(0, 80);
+    const result = parseBCBP(truncated);
+    const overrun = result.diagnostics.find(d => d.code === 'SECTION_OVERRUN');
+    expect(overrun).toBeDefined();
+    expect(overrun?.end).toBe(80);
+  });
+
+  it('flags a non-numeric flight date', () => {
+    const broken = VALID_V7_STRING_FIXED.replace('107Y', '1X7Y');
+    const result = parseBCBP(broken);
+    expect(result.diagnostics).toContainEqual(expect.objectContaining({
+      severity: 'warning', code: 'INVALID_FLIGHT_DATE', start: 44, end: 47,
+    }));
+  });
+
+  it('flags a leg count that does not match the data', () => {
+    const tooMany = parseBCBP('M3' + MULTI_LEG_STRING.substring(2));
+    expect(tooMany.diagnostics.map(d => d.code)).toContain('LEG_COUNT_MISMATCH');
+    expect(tooMany.data?.legs).toHaveLength(2);
+
+    const tooFew = parseBCBP('M1' + MULTI_LEG_STRING.substring(2));
+    expect(tooFew.diagnostics).toContainEqual(expect.objectContaining({
+      code: 'LEG_COUNT_MISMATCH', start: 60,
+    }));
+  });
+});
+
+describe('BCBP Encoder', () => {
+  it.each([
+    ['single leg', VALID_V7_STRING_FIXED],
+    ['multi-leg', MULTI_LEG_STRING],
+    ['conditional', CONDITIONAL_STRING],
+    ['full spec', FULL_SPEC_STRING],
+    ['multi-leg spec', MULTI_LEG_SPEC_STRING],
+  ])('round-trips the %s fixture exactly', (_, raw) => {
+    const result = parseBCBP(raw);
+    expect(result.diagnostics).toEqual([]);
+    expect(encodeBCBP(result.data!)).toBe(raw);
+  });
+
+  it('keeps the zero padding of numeric fields as read, and re-pads edited ones', () => {
+    const data = parseBCBP(VALID_V7_STRING_FIXED).data!;
+    expect(data.legs[0].flightNumber).toBe('123');
+    const edited = { ...data, legs: [{ ...data.legs[0], seatNumber: '14C', flightNumber: '456' }] };
+    expect(encodeBCBP(edited)).toBe("M1DOE/JOHN            E1234567LHRJFKBA 0456 107Y014C00001100");
+  });
+
+  it('round-trips a fully populated single leg pass', () => {
+    const result = parseBCBP(FULL_SPEC_STRING);
+    expect(result.success).toBe(true);
+    expect(result.data?.legs[0].airlineUseData).toBe('LX58Z');
+    expect(result.data?.securityDataType).toBe('1');
+    expect(encodeBCBP(result.data!)).toBe(FULL_SPEC_STRING);
+  });
+
+  it('round-trips a multi-leg pass', () => {
+    const result = parseBCBP(MULTI_LEG_SPEC_STRING);
+    expect(result.success).toBe(true);
+    expect(result.data?.legs[1].flightNumber).toBe('3664A');
+    expect(result.data?.legs[1].serialNumber).toBe('2512345678');
+    expect(encodeBCBP(result.data!)).toBe(MULTI_LEG_SPEC_STRING);
+  });
+
+  it('round-trips a pass without conditional data', () => {
+    const raw = "M1DOE/JOHN            E1234567LHRJFKBA 0123 107Y012A0001 100";
+    expect(encodeBCBP(parseBCBP(raw).data!)).toBe(raw);
+  });
+
+  it('round-trips a first leg whose conditional data ends after Section A', () => {
+    const raw = "M1DOE/JOHN            E1234567LHRJFKBA 0123 107Y012A0001 106>102PA";
+    const result = parseBCBP(raw);
+    expect(result.data?.legs[0].sectionBPresent).toBe(false);
+    expect(encodeBCBP(result.data!)).toBe(raw);
+  });
+
+  it('keeps reserved Section A and B characters from a newer layout', () => {
+    const raw =
+      "M1DOE/JANE            E" +
+      "ABC123 " + "LHR" + "JFK" + "BA " + "0117 " + "107" + "Y" + "012A" + "0001 " + "1" + "4B" +
+      ">2" + "1B" + "1" + "W" + "W" + "1107" + "B" + "BA " + "0125123456001" + "RES" +
+      "2A" + "125" + "1234567890" + "0" + "0" + "BA " + "BA " + "1234567890123456" + " " + "20K" + "Y";
+    const result = parseBCBP(raw);
+    expect(result.data?.reservedA).toBe('RES');
+    expect(result.data?.legs[0].reservedB).toBe('Y');
+    expect(encodeBCBP(result.data!)).toBe(raw);
+  });
+
+  it('computes hex sizes and pads fields when building from data', () => {
+    const encoded = encodeBCBP({
+      formatCode: 'M',
+      numberOfLegs: 1,
+      passengerName: 'DOE/TEST',
+      electronicTicket: 'E',
+      version: 7,
+      passengerDescription: '0',
+      legs: [{
+        pnrCode: 'XYZ9',
+        departureAirport: 'LHR',
+        arrivalAirport: 'JFK',
+        operatingCarrier: 'BA',
+        flightNumber: '12',
+        dateOfFlight: 7,
+        compartment: { code: 'Y', description: 'Economy Class' },
+        seatNumber: '3C',
+        sequenceNumber: '42',
+        passengerStatus: { code: '1', description: '' },
+        marketingCarrier: 'BA',
+      }],
+    });
+
+    expect(encoded).toBe(
+      "M1DOE/TEST            E" +
+      "XYZ9   LHRJFKBA 0012 007Y003C0042 1" + "19" +
+      ">701" + "0" +
+      "12" + "   " + "          " + " " + " " + "BA "
+    );
+  });
+
+  it('rejects sections that do not fit in a two digit hex size', () => {
+    const result = parseBCBP(FULL_SPEC_STRING);
+    const data = { ...result.data!, securityData: 'X'.repeat(300) };
+    expect(() => encodeBCBP(data)).toThrow(/Security data/);
   });
 });
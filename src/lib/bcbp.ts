@@ -1,5 +1,9 @@
 import { z } from 'zod';
 import { BCBP_REFERENCE } from '../data/bcbp_reference';
+import { describeSegment } from './bcbp_codes';
+import { normalizeBcbpInput, NormalizationResult } from './bcbp_normalize';
+import { AirlineDataParsed, AirlineDecoderRegistry } from './bcbp_airline';
+import { airlineDecoders } from './airline_decoders';
 
 // --- Types ---
 
@@ -7,9 +11,51 @@ export interface Segment {
   label: string;
   value: string; // The parsed/trimmed value
   raw: string;   // The raw string from the barcode
+  description?: string; // Meaning of a coded value, e.g. "Web" for a check-in source of "W"
   start: number;
   end: number;
-  section: 'header' | 'leg_mandatory' | 'conditional_unique' | 'conditional_leg' | 'security';
+  section: 'header' | 'leg_mandatory' | 'conditional_unique' | 'conditional_leg' | 'security' | 'wrapper' | 'unparsed' | 'overlap';
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+// Stable identifiers so callers can match on a problem without parsing the message
+export type DiagnosticCode =
+  | 'INPUT_NORMALIZED'
+  | 'INPUT_TOO_SHORT'
+  | 'INVALID_FORMAT_CODE'
+  | 'INVALID_LEG_COUNT'
+  | 'LEG_COUNT_MISMATCH'
+  | 'TRUNCATED_FIELD'
+  | 'INVALID_HEX_SIZE'
+  | 'SECTION_OVERRUN'
+  | 'INVALID_VERSION'
+  | 'INVALID_FLIGHT_DATE'
+  | 'INVALID_ISSUANCE_DATE'
+  | 'INVALID_LEG'
+  | 'UNPARSED_DATA'
+  | 'PARSE_EXCEPTION';
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface BcbpParseResult {
+  success: boolean;
+  data?: ParsedBcbp;
+  segments?: Segment[];
+  diagnostics: Diagnostic[];
+  normalization?: NormalizationResult; // Present unless normalization was turned off
+  error?: string;
+}
+
+export interface ParseOptions {
+  normalize?: boolean; // Strip scanner wrappers before parsing (default true)
+  airlineDecoders?: AirlineDecoderRegistry; // Decoders for "Individual Airline Use" data
 }
 
 // --- Zod Schemas ---
@@ -47,6 +93,8 @@ export const LegSchema = z.object({
   seatNumber: TrimmedString.transform(s => s.replace(/^0+/, '')),
   sequenceNumber: TrimmedString.transform(s => s.replace(/^0+/, '')),
   passengerStatus: PassengerStatus.optional(),
+  // The numeric fields above as read, leading zeros and padding included, so re-encoding keeps them
+  rawNumbers: z.object({ flightNumber: z.string(), seatNumber: z.string(), sequenceNumber: z.string() }).partial().optional(),
 
   // Conditional / Optional Fields
   airlineNumericCode: z.string().optional(),
@@ -59,10 +107,20 @@ export const LegSchema = z.object({
   idIndicator: z.string().optional(),
   freeBaggageAllowance: z.string().optional(),
   fastTrack: z.boolean().optional(),
+  reservedB: z.string().optional(), // Section B characters past the fields its version defines
+  sectionBPresent: z.boolean().optional(), // False when the conditional block ends before Section B
+  airlineUseData: z.string().optional(), // Opaque "Individual Airline Use" tail of the conditional block
+  airlineData: z.custom<AirlineDataParsed>().optional(), // Decoded airlineUseData, when a registered decoder matched
 });
 
+export type BaggageTagKind = 'baggageTag' | 'firstNonConsecutiveBaggageTag' | 'secondNonConsecutiveBaggageTag';
+
+// Section A order of the three baggage tag items
+export const BAGGAGE_TAG_KINDS: BaggageTagKind[] = ['baggageTag', 'firstNonConsecutiveBaggageTag', 'secondNonConsecutiveBaggageTag'];
+
 export interface BaggageTagParsed {
   raw: string;
+  kind?: BaggageTagKind;
   airlineCode?: string;
   serialNumber?: string;
   consecutiveNumber?: number;
@@ -77,16 +135,20 @@ export const BcbpDataSchema = z.object({
   legs: z.array(LegSchema),
 
   // Security
+  securityDataType: z.string().optional(),
   securityData: z.string().optional(),
 
   // Unique / Global Conditional Data
   version: z.number().optional(),
   passengerDescription: z.string().optional(),
   checkInSource: z.string().optional(),
+  boardingPassIssuanceSource: z.string().optional(),
   issuanceDate: FlexibleDate.optional(),
   documentType: z.string().optional(),
   issuer: z.string().optional(),
   baggageTags: z.array(z.custom<BaggageTagParsed>()).optional(),
+  gender: GenderSchema.optional(), // Added in version 8
+  reservedA: z.string().optional(), // Section A characters past the fields its version defines
 });
 
 export type ParsedBcbp = z.infer<typeof BcbpDataSchema>;
@@ -122,6 +184,7 @@ const L = {
   DOCUMENT_TYPE: 1,
   BOARDING_PASS_ISSUER_DESIGNATOR: 3,
   BAGGAGE_TAG_NUMBER: 13,
+  PASSENGER_GENDER: 1,
 
   // Conditional Section B (Leg)
   SECTION_B_SIZE: 2, // Hex
@@ -142,6 +205,76 @@ const L = {
   SECURITY_SIZE: 2, // Hex
 };
 
+// --- Version-Aware Field Layouts ---
+// Conditional items in the order Resolution 792 lays them out, tagged with the
+// version that introduced them. A pass only carries the items of its declared
+// version, and issuers may stop early: the section size says where to stop.
+
+export type SectionAKey =
+  | 'passengerDescription'
+  | 'checkInSource'
+  | 'boardingPassIssuanceSource'
+  | 'issuanceDate'
+  | 'documentType'
+  | 'issuer'
+  | 'baggageTag'
+  | 'firstNonConsecutiveBaggageTag'
+  | 'secondNonConsecutiveBaggageTag'
+  | 'gender';
+
+export type SectionBKey =
+  | 'airlineNumericCode'
+  | 'serialNumber'
+  | 'selecteeIndicator'
+  | 'internationalDocVerification'
+  | 'marketingCarrier'
+  | 'frequentFlyerAirline'
+  | 'frequentFlyerNumber'
+  | 'idIndicator'
+  | 'freeBaggageAllowance'
+  | 'fastTrack';
+
+export interface FieldDefinition<K extends string> {
+  key: K;
+  label: string;  // Spec name, used as the Segment label
+  length: number;
+  since: number;  // First version of the standard that includes the item
+}
+
+export const LATEST_BCBP_VERSION = 8;
+
+export const SECTION_A_FIELDS: FieldDefinition<SectionAKey>[] = [
+  { key: 'passengerDescription', label: 'Passenger Description', length: L.PASSENGER_DESCRIPTION, since: 1 },
+  { key: 'checkInSource', label: 'Source of Check-in', length: L.CHECK_IN_SOURCE, since: 1 },
+  { key: 'boardingPassIssuanceSource', label: 'Source of Boarding Pass Issuance', length: L.BOARDING_PASS_ISSUANCE_SOURCE, since: 1 },
+  { key: 'issuanceDate', label: 'Date of Issue of Boarding Pass', length: L.ISSUANCE_DATE, since: 1 },
+  { key: 'documentType', label: 'Document Type', length: L.DOCUMENT_TYPE, since: 1 },
+  { key: 'issuer', label: 'Airline Designator of Boarding Pass Issuer', length: L.BOARDING_PASS_ISSUER_DESIGNATOR, since: 1 },
+  { key: 'baggageTag', label: 'Baggage Tag License Plate Number', length: L.BAGGAGE_TAG_NUMBER, since: 1 },
+  { key: 'firstNonConsecutiveBaggageTag', label: 'First Non-Consecutive Baggage Tag', length: L.BAGGAGE_TAG_NUMBER, since: 3 },
+  { key: 'secondNonConsecutiveBaggageTag', label: 'Second Non-Consecutive Baggage Tag', length: L.BAGGAGE_TAG_NUMBER, since: 3 },
+  { key: 'gender', label: 'Passenger Gender', length: L.PASSENGER_GENDER, since: 8 },
+];
+
+export const SECTION_B_FIELDS: FieldDefinition<SectionBKey>[] = [
+  { key: 'airlineNumericCode', label: 'Airline Numeric Code', length: L.AIRLINE_NUMERIC_CODE, since: 1 },
+  { key: 'serialNumber', label: 'Document Form/Serial Number', length: L.SERIAL_NUMBER, since: 1 },
+  { key: 'selecteeIndicator', label: 'Selectee Indicator', length: L.SELECTEE_INDICATOR, since: 1 },
+  { key: 'internationalDocVerification', label: 'International Documentation Verification', length: L.INTERNATIONAL_DOC_VERIF, since: 1 },
+  { key: 'marketingCarrier', label: 'Marketing Carrier Designator', length: L.MARKETING_CARRIER, since: 1 },
+  { key: 'frequentFlyerAirline', label: 'Frequent Flyer Airline Designator', length: L.FREQ_FLYER_AIRLINE, since: 1 },
+  { key: 'frequentFlyerNumber', label: 'Frequent Flyer Number', length: L.FREQ_FLYER_NUMBER, since: 1 },
+  { key: 'idIndicator', label: 'ID/AD Indicator', length: L.ID_INDICATOR, since: 1 },
+  { key: 'freeBaggageAllowance', label: 'Free Baggage Allowance', length: L.FREE_BAGGAGE_ALLOWANCE, since: 1 },
+  { key: 'fastTrack', label: 'Fast Track', length: L.FAST_TRACK, since: 5 },
+];
+
+// Passes without a version (or from a newer one) are read with the latest layout we know
+export function fieldsForVersion<K extends string>(fields: FieldDefinition<K>[], version?: number): FieldDefinition<K>[] {
+  const effective = version === undefined || version < 1 ? LATEST_BCBP_VERSION : version;
+  return fields.filter(f => f.since <= effective);
+}
+
 // --- Helper Functions ---
 
 function hexToNumber(hex: string): number {
@@ -149,6 +282,18 @@ function hexToNumber(hex: string): number {
   return isNaN(val) ? 0 : val;
 }
 
+function isHexSize(hex: string): boolean {
+  return /^[0-9A-F]{2}$/i.test(hex);
+}
+
+// Flight dates are a zero-padded day of year; blank means "not specified"
+function isValidDayOfYear(raw: string): boolean {
+  if (!raw.trim()) return true;
+  if (!/^\d{3}$/.test(raw)) return false;
+  const day = parseInt(raw, 10);
+  return day >= 1 && day <= 366;
+}
+
 function parseBaggageTag(raw: string, version: number = 6): BaggageTagParsed {
     // Format: 0 (Leading) + AAA (Airline 3) + NNNNNN (Serial 6) + CCC (Count 3)
     // or just 13 chars.
@@ -191,17 +336,19 @@ class SegmentExtractor {
   raw: string;
   cursor: number = 0;
   segments: Segment[] = [];
+  diagnostics: Diagnostic[] = [];
 
   constructor(raw: string) {
     this.raw = raw;
   }
 
-  // Reads a fixed length field
-  read(length: number, label: string, section: Segment['section']): string | undefined {
-    if (this.cursor >= this.raw.length) return undefined;
+  // Reads a fixed length field, never past `limit` (a section end) or the end of input
+  read(length: number, label: string, section: Segment['section'], limit: number = this.raw.length): string | undefined {
+    const stop = Math.min(limit, this.raw.length);
+    if (this.cursor >= stop) return undefined;
 
     // "Fail soft": if remaining length < requested, read what's left
-    const actualLength = Math.min(length, this.raw.length - this.cursor);
+    const actualLength = Math.min(length, stop - this.cursor);
     if (actualLength <= 0) return undefined;
 
     const start = this.cursor;
@@ -209,19 +356,42 @@ class SegmentExtractor {
     const rawValue = this.raw.substring(start, end);
     const value = rawValue.trim();
 
-    this.segments.push({
+    if (actualLength < length) {
+      this.report('warning', 'TRUNCATED_FIELD', `${label} is truncated: expected ${length} characters, found ${actualLength}`, start, end);
+    }
+
+    const segment: Segment = {
       label,
       value,
       raw: rawValue,
       start,
       end,
       section
-    });
+    };
+    const description = describeSegment(label, value);
+    if (description) segment.description = description;
+    this.segments.push(segment);
 
     this.cursor += actualLength;
     return rawValue;
   }
 
+  // Reads a 2-character hex size field, flagging anything that isn't valid hex
+  readHexSize(label: string, section: Segment['section']): number {
+    const start = this.cursor;
+    const hex = this.read(2, label, section);
+    if (hex === undefined) return 0;
+    if (!isHexSize(hex)) {
+      this.report('error', 'INVALID_HEX_SIZE', `${label} "${hex}" is not a valid hexadecimal size`, start, this.cursor);
+      return 0;
+    }
+    return hexToNumber(hex);
+  }
+
+  report(severity: DiagnosticSeverity, code: DiagnosticCode, message: string, start: number, end: number) {
+    this.diagnostics.push({ severity, code, message, start, end });
+  }
+
   peek(length: number): string {
     return this.raw.substring(this.cursor, this.cursor + length);
   }
@@ -231,6 +401,40 @@ class SegmentExtractor {
   }
 }
 
+/**
+ * Turns parser output into a complete, non-overlapping cover of `input`:
+ * characters no segment claims become "Unparsed Data" segments, and characters
+ * claimed by more than one become "Overlap" segments. Segments are split where needed.
+ */
+export function completeSegments(segments: Segment[], input: string): Segment[] {
+  // Owners of every character, then consecutive runs with the same owners become one piece
+  const owners: Segment[][] = Array.from({ length: input.length }, () => []);
+  for (const seg of segments) {
+    for (let i = Math.max(0, seg.start); i < Math.min(seg.end, input.length); i++) owners[i].push(seg);
+  }
+
+  const pieces: Segment[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= input.length; i++) {
+    const prev = owners[i - 1];
+    const sameRun = i < input.length && owners[i].length === prev.length && owners[i].every((seg, idx) => seg === prev[idx]);
+    if (sameRun) continue;
+
+    const raw = input.substring(runStart, i);
+    if (prev.length === 0) {
+      pieces.push({ label: 'Unparsed Data', value: raw.trim(), raw, start: runStart, end: i, section: 'unparsed' });
+    } else if (prev.length > 1) {
+      pieces.push({ label: `Overlap: ${prev.map(s => s.label).join(' / ')}`, value: raw.trim(), raw, start: runStart, end: i, section: 'overlap' });
+    } else {
+      const seg = prev[0];
+      // Keep the original object when it wasn't split, so callers can compare by identity
+      pieces.push(seg.start === runStart && seg.end === i ? seg : { ...seg, raw, value: raw.trim(), start: runStart, end: i });
+    }
+    runStart = i;
+  }
+  return pieces;
+}
+
 // Intermediate type for building the result before final Zod validation
 interface IntermediateBcbp {
     formatCode?: string;
@@ -239,37 +443,76 @@ interface IntermediateBcbp {
     electronicTicket?: string;
     legs: any[];
     version?: number;
-    passengerDescription?: string;
-    checkInSource?: string;
-    boardingPassIssuanceSource?: string;
-    issuanceDate?: string;
-    documentType?: string;
-    issuer?: string;
-    baggageTags?: string[];
+    unique: Partial<Record<SectionAKey, string>>; // Section A values as read, keyed by field
+    reservedA?: string;
+    securityDataType?: string;
     securityData?: string;
 }
 
-export function parseBCBP(raw: string): { success: boolean; data?: ParsedBcbp; segments?: Segment[]; error?: string } {
+/**
+ * Parses a boarding pass as delivered by a scanner. The input is normalized
+ * first; segment and diagnostic offsets always refer to the original input.
+ */
+export function parseBCBP(input: string, options: ParseOptions = {}): BcbpParseResult {
+  const normalization = options.normalize === false ? undefined : normalizeBcbpInput(input || '');
+  const result = parseNormalized(normalization ? normalization.normalized : input, options.airlineDecoders || airlineDecoders);
+  let segments = result.segments;
+  let diagnostics = result.diagnostics;
+
+  if (normalization?.changed) {
+    const shift = <T extends { start: number; end: number }>(item: T): T =>
+      ({ ...item, start: item.start + normalization.offset, end: item.end + normalization.offset });
+
+    // One notice per wrapper, spanning only what was removed, so the payload's own fields stay unmarked
+    const notices = normalization.removed.map((seg): Diagnostic => ({
+      severity: 'info',
+      code: 'INPUT_NORMALIZED',
+      message: `Removed ${seg.label.toLowerCase()} before parsing`,
+      start: seg.start,
+      end: seg.end,
+    }));
+
+    segments = segments && [...normalization.removed, ...segments.map(shift)];
+    diagnostics = [...notices, ...diagnostics.map(shift)];
+  }
+
+  return {
+    ...result,
+    segments: segments && completeSegments(segments, input),
+    diagnostics,
+    normalization,
+  };
+}
+
+function parseNormalized(raw: string, decoders: AirlineDecoderRegistry): BcbpParseResult {
   try {
     if (!raw || raw.length < 30) { // Relaxed min length
-      return { success: false, error: 'Input too short' };
+      const diagnostics: Diagnostic[] = [{
+        severity: 'error',
+        code: 'INPUT_TOO_SHORT',
+        message: `Input too short: ${raw ? raw.length : 0} characters, a boarding pass needs at least 30`,
+        start: 0,
+        end: raw ? raw.length : 0,
+      }];
+      return { success: false, diagnostics, error: 'Input too short' };
     }
 
     const extractor = new SegmentExtractor(raw);
-    const result: IntermediateBcbp = { legs: [] };
+    const result: IntermediateBcbp = { legs: [], unique: {} };
 
     // --- Mandatory Header ---
     result.formatCode = extractor.read(L.FORMAT_CODE, "Format Code", "header") || "M";
-    // Relaxed check: Log warning if not 'M', but proceed if mostly looks like BCBP?
-    // But Format Code is critical.
+    // Keep going if the format code is wrong: the rest often still decodes
     if (result.formatCode !== 'M') {
-        // Checking if maybe there is leading garbage?
-        // For now, strict 'M' is standard.
+        extractor.report('error', 'INVALID_FORMAT_CODE', `Format code is "${result.formatCode}", expected "M"`, 0, 1);
     }
 
     const numLegsStr = extractor.read(L.NUMBER_OF_LEGS, "Number of Legs", "header");
     result.numberOfLegs = parseInt(numLegsStr || "1");
-    if (isNaN(result.numberOfLegs)) result.numberOfLegs = 1;
+    if (isNaN(result.numberOfLegs) || result.numberOfLegs < 1) {
+        extractor.report('error', 'INVALID_LEG_COUNT', `Number of legs "${numLegsStr}" is not a digit between 1 and 9; assuming 1`, 1, 2);
+        result.numberOfLegs = 1;
+    }
 
     result.passengerName = extractor.read(L.PASSENGER_NAME, "Passenger Name", "header");
     result.electronicTicket = extractor.read(L.ELECTRONIC_TICKET_INDICATOR, "E-Ticket Indicator", "header");
@@ -277,107 +520,144 @@ export function parseBCBP(raw: string): { success: boolean; data?: ParsedBcbp; s
     let uniqueDataParsed = false;
 
     // --- Legs ---
+    const legSpans: { start: number; end: number }[] = [];
     for (let i = 0; i < (result.numberOfLegs || 1); i++) {
+        if (extractor.current() >= raw.length) {
+            extractor.report('error', 'LEG_COUNT_MISMATCH', `Declared ${result.numberOfLegs} legs, but the data only contains ${i}`, 1, 2);
+            break;
+        }
+
         const leg: any = {};
         const s = "leg_mandatory";
+        const legStart = extractor.current();
 
         leg.pnrCode = extractor.read(L.OPERATING_CARRIER_PNR, "PNR Code", s);
         leg.departureAirport = extractor.read(L.DEPARTURE_AIRPORT, "Departure Airport", s);
         leg.arrivalAirport = extractor.read(L.ARRIVAL_AIRPORT, "Arrival Airport", s);
         leg.operatingCarrier = extractor.read(L.OPERATING_CARRIER_DESIGNATOR, "Operating Carrier", s);
         leg.flightNumber = extractor.read(L.FLIGHT_NUMBER, "Flight Number", s);
+        const dateStart = extractor.current();
         leg.dateOfFlight = extractor.read(L.FLIGHT_DATE, "Date of Flight", s);
+        if (leg.dateOfFlight !== undefined && !isValidDayOfYear(leg.dateOfFlight)) {
+            extractor.report('warning', 'INVALID_FLIGHT_DATE', `Leg ${i + 1} date of flight "${leg.dateOfFlight}" is not a day of the year (001-366)`, dateStart, extractor.current());
+        }
         leg.compartment = extractor.read(L.COMPARTMENT_CODE, "Compartment Code", s);
         leg.seatNumber = extractor.read(L.SEAT_NUMBER, "Seat Number", s);
         leg.sequenceNumber = extractor.read(L.CHECK_IN_SEQUENCE_NUMBER, "Sequence Number", s);
         leg.passengerStatus = extractor.read(L.PASSENGER_STATUS, "Passenger Status", s);
+        leg.rawNumbers = { flightNumber: leg.flightNumber, seatNumber: leg.seatNumber, sequenceNumber: leg.sequenceNumber };
 
         // Conditional Block Size
-        const conditionalSizeHex = extractor.read(L.CONDITIONAL_SIZE, "Conditional Data Size", s);
-        const conditionalSize = conditionalSizeHex ? hexToNumber(conditionalSizeHex) : 0;
+        const conditionalSize = extractor.readHexSize("Conditional Data Size", s);
 
         if (conditionalSize > 0) {
             const startOfConditional = extractor.current();
             const endOfConditional = startOfConditional + conditionalSize;
+            if (endOfConditional > raw.length) {
+                extractor.report('error', 'SECTION_OVERRUN', `Leg ${i + 1} conditional data declares ${conditionalSize} characters, but only ${raw.length - startOfConditional} remain`, startOfConditional - L.CONDITIONAL_SIZE, raw.length);
+            }
 
             // --- Section A (Unique) ---
             const nextChar = extractor.peek(1);
             if (!uniqueDataParsed && nextChar === '>') {
                 const sA = "conditional_unique";
                 extractor.read(L.VERSION_NUMBER_INDICATOR, "Version Indicator", sA); // >
+                const verStart = extractor.current();
                 const verStr = extractor.read(L.VERSION_NUMBER, "Version Number", sA);
                 result.version = verStr ? parseInt(verStr) : undefined;
+                if (verStr !== undefined && !/^\d$/.test(verStr)) {
+                    extractor.report('warning', 'INVALID_VERSION', `Version number "${verStr}" is not a digit`, verStart, extractor.current());
+                    result.version = undefined;
+                }
 
-                const sectionASizeHex = extractor.read(L.SECTION_A_SIZE, "Unique Data Size", sA);
-                const sectionASize = sectionASizeHex ? hexToNumber(sectionASizeHex) : 0;
+                const sectionASize = extractor.readHexSize("Unique Data Size", sA);
 
                 if (sectionASize > 0) {
                     const endOfSectionA = extractor.current() + sectionASize;
+                    if (endOfSectionA > endOfConditional) {
+                        extractor.report('error', 'SECTION_OVERRUN', `Section A declares ${sectionASize} characters, past the end of the conditional data`, extractor.current() - L.SECTION_A_SIZE, endOfSectionA);
+                    }
 
-                    result.passengerDescription = extractor.read(L.PASSENGER_DESCRIPTION, "Passenger Description", sA);
-                    result.checkInSource = extractor.read(L.CHECK_IN_SOURCE, "Check-in Source", sA);
-                    result.boardingPassIssuanceSource = extractor.read(L.BOARDING_PASS_ISSUANCE_SOURCE, "Issuance Source", sA);
-
-                    result.issuanceDate = extractor.read(L.ISSUANCE_DATE, "Date of Issue", sA);
-
-                    result.documentType = extractor.read(L.DOCUMENT_TYPE, "Document Type", sA);
-                    result.issuer = extractor.read(L.BOARDING_PASS_ISSUER_DESIGNATOR, "Issuer Designator", sA);
+                    for (const field of fieldsForVersion(SECTION_A_FIELDS, result.version)) {
+                        const fieldStart = extractor.current();
+                        const value = extractor.read(field.length, field.label, sA, endOfSectionA);
+                        if (value === undefined) break;
+                        result.unique[field.key] = value;
 
-                    const bags: string[] = [];
-                    // Try to read first bag tag
-                    if (extractor.current() < endOfSectionA) {
-                         const bag1 = extractor.read(L.BAGGAGE_TAG_NUMBER, "Baggage Tag 1", sA);
-                         if (bag1) bags.push(bag1);
-                    }
-                     // Try to read second bag tag
-                    if (extractor.current() < endOfSectionA) {
-                         const bag2 = extractor.read(L.BAGGAGE_TAG_NUMBER, "Baggage Tag 2", sA);
-                         if (bag2) bags.push(bag2);
+                        if (field.key === 'issuanceDate' && value.trim() && !/^\d{4}$/.test(value)) {
+                            extractor.report('warning', 'INVALID_ISSUANCE_DATE', `Date of issue "${value}" is not a 4-digit year and day of year`, fieldStart, extractor.current());
+                        }
                     }
-                    // Try to read third bag tag? (Standard usually says up to 2 or 3 in repeated fields?)
-                    // Actually standard has repeated fields for baggage.
-
-                    if (bags.length > 0) result.baggageTags = bags;
 
                     const remainingA = endOfSectionA - extractor.current();
-                    if (remainingA > 0) extractor.read(remainingA, "Reserved (Section A)", sA);
+                    if (remainingA > 0) result.reservedA = extractor.read(remainingA, "Reserved (Section A)", sA);
                 }
                 uniqueDataParsed = true;
             }
 
             // --- Section B (Leg Specific) ---
-            if (extractor.current() < endOfConditional) {
+            // The first leg's block may end with Section A; the encoder needs to know not to add one
+            leg.sectionBPresent = extractor.current() < endOfConditional;
+            if (leg.sectionBPresent) {
                  const sB = "conditional_leg";
-                 const sectionBSizeHex = extractor.read(L.SECTION_B_SIZE, "Leg Data Size", sB);
-                 const sectionBSize = sectionBSizeHex ? hexToNumber(sectionBSizeHex) : 0;
+                 const sectionBSize = extractor.readHexSize("Leg Data Size", sB);
 
                  if (sectionBSize > 0) {
                      const endOfSectionB = extractor.current() + sectionBSize;
-
-                     leg.airlineNumericCode = extractor.read(L.AIRLINE_NUMERIC_CODE, "Airline Numeric Code", sB);
-                     leg.serialNumber = extractor.read(L.SERIAL_NUMBER, "Document Serial Num", sB);
-                     leg.selecteeIndicator = extractor.read(L.SELECTEE_INDICATOR, "Selectee Indicator", sB);
-                     leg.internationalDocVerification = extractor.read(L.INTERNATIONAL_DOC_VERIF, "Intl Doc Verification", sB);
-                     leg.marketingCarrier = extractor.read(L.MARKETING_CARRIER, "Marketing Carrier", sB);
-                     leg.frequentFlyerAirline = extractor.read(L.FREQ_FLYER_AIRLINE, "Frequent Flyer Airline", sB);
-                     leg.frequentFlyerNumber = extractor.read(L.FREQ_FLYER_NUMBER, "Frequent Flyer Number", sB);
-                     leg.idIndicator = extractor.read(L.ID_INDICATOR, "ID Adherence", sB);
-                     leg.freeBaggageAllowance = extractor.read(L.FREE_BAGGAGE_ALLOWANCE, "Free Baggage Allowance", sB);
-                     const ft = extractor.read(L.FAST_TRACK, "Fast Track", sB);
-                     if (ft) leg.fastTrack = (ft === 'Y');
+                     if (endOfSectionB > endOfConditional) {
+                         extractor.report('error', 'SECTION_OVERRUN', `Leg ${i + 1} Section B declares ${sectionBSize} characters, past the end of the conditional data`, extractor.current() - L.SECTION_B_SIZE, endOfSectionB);
+                     }
+
+                     for (const field of fieldsForVersion(SECTION_B_FIELDS, result.version)) {
+                         const value = extractor.read(field.length, field.label, sB, endOfSectionB);
+                         if (value === undefined) break;
+                         if (field.key === 'fastTrack') {
+                             if (value.trim()) leg.fastTrack = (value === 'Y');
+                         } else {
+                             leg[field.key] = value;
+                         }
+                     }
 
                      const remainingB = endOfSectionB - extractor.current();
-                     if (remainingB > 0) extractor.read(remainingB, "Reserved (Section B)", sB);
+                     if (remainingB > 0) leg.reservedB = extractor.read(remainingB, "Reserved (Section B)", sB);
                  }
             }
 
             const remainingCond = endOfConditional - extractor.current();
             if (remainingCond > 0) {
-                extractor.read(remainingCond, "Airline Use / Reserved", "conditional_leg");
+                const airlineStart = extractor.current();
+                const airlineRaw = raw.substring(airlineStart, Math.min(endOfConditional, raw.length));
+                const decoded = decoders.decode(airlineRaw, {
+                    operatingCarrier: (leg.operatingCarrier || '').trim(),
+                    issuer: result.unique.issuer?.trim() || undefined,
+                });
+
+                if (decoded) {
+                    for (const field of decoded.fields) {
+                        extractor.read(field.raw.length, field.label, "conditional_leg", endOfConditional);
+                    }
+                    leg.airlineData = {
+                        decoder: decoded.decoder.id,
+                        fields: Object.fromEntries(decoded.fields.map(f => [f.key, f.value])),
+                    };
+                }
+
+                const leftover = endOfConditional - extractor.current();
+                if (leftover > 0) extractor.read(leftover, "Airline Use / Reserved", "conditional_leg");
+
+                // The raw string is kept either way so the encoder can reproduce it
+                leg.airlineUseData = raw.substring(airlineStart, extractor.current());
             }
         }
 
         result.legs.push(leg);
+        legSpans.push({ start: legStart, end: extractor.current() });
+    }
+
+    // Leftover data that isn't a security block usually means the leg count is wrong
+    const afterLegs = extractor.current();
+    if (afterLegs < raw.length && extractor.peek(1) !== '^') {
+        extractor.report('warning', 'LEG_COUNT_MISMATCH', `${raw.length - afterLegs} characters remain after the ${result.legs.length} declared leg(s)`, afterLegs, raw.length);
     }
 
     // --- Security Data ---
@@ -385,22 +665,29 @@ export function parseBCBP(raw: string): { success: boolean; data?: ParsedBcbp; s
     if (secInd === '^') {
         const sSec = "security";
         extractor.read(L.SECURITY_DATA_INDICATOR, "Security Indicator", sSec); // ^
-        extractor.read(L.SECURITY_DATA_TYPE, "Security Type", sSec);
+        result.securityDataType = extractor.read(L.SECURITY_DATA_TYPE, "Security Type", sSec);
 
-        const secSizeHex = extractor.read(L.SECURITY_SIZE, "Security Data Size", sSec);
-        const secSize = secSizeHex ? hexToNumber(secSizeHex) : 0;
+        const secSize = extractor.readHexSize("Security Data Size", sSec);
+        if (extractor.current() + secSize > raw.length) {
+            extractor.report('error', 'SECTION_OVERRUN', `Security data declares ${secSize} characters, but only ${raw.length - extractor.current()} remain`, extractor.current() - L.SECURITY_SIZE, raw.length);
+        }
 
         if (secSize > 0) {
             result.securityData = extractor.read(secSize, "Security Data", sSec);
         }
+
+        if (extractor.current() < raw.length) {
+            extractor.report('warning', 'UNPARSED_DATA', `${raw.length - extractor.current()} characters follow the security data`, extractor.current(), raw.length);
+        }
     }
 
     // --- Final Transformation & Validation ---
-    const parsedBaggageTags = result.baggageTags
-        ? result.baggageTags.map(t => parseBaggageTag(t, result.version))
-        : undefined;
+    const u = result.unique;
+    const parsedBaggageTags = BAGGAGE_TAG_KINDS
+        .filter(kind => u[kind] !== undefined)
+        .map(kind => ({ ...parseBaggageTag(u[kind]!, result.version), kind }));
 
-    const finalLegs = result.legs.map((legRaw: any) => {
+    const finalLegs = result.legs.map((legRaw: any, idx: number) => {
         // Prepare raw object for Zod
         const prepped = {
             ...legRaw,
@@ -418,6 +705,9 @@ export function parseBCBP(raw: string): { success: boolean; data?: ParsedBcbp; s
         const parsed = LegSchema.safeParse(prepped);
         if (parsed.success) return parsed.data;
 
+        const fields = parsed.error.issues.map(issue => issue.path.join('.')).join(', ');
+        extractor.report('warning', 'INVALID_LEG', `Leg ${idx + 1} has invalid fields (${fields}); showing raw values`, legSpans[idx].start, legSpans[idx].end);
+
         // Fallback for partial data
         return {
             ...prepped,
@@ -437,30 +727,173 @@ export function parseBCBP(raw: string): { success: boolean; data?: ParsedBcbp; s
         passengerName: result.passengerName?.trim() || "",
         electronicTicket: result.electronicTicket,
         legs: finalLegs as any, // Cast because fallback might miss some optional fields? No, LegSchema output matches.
+        securityDataType: result.securityDataType,
         securityData: result.securityData,
         version: result.version,
-        passengerDescription: result.passengerDescription,
-        checkInSource: result.checkInSource,
-        issuanceDate: result.issuanceDate ? parseInt(result.issuanceDate) : null, // Helper uses string, schema expects number/null
-        // Wait, schema for issuanceDate says "FlexibleDate.optional()". FlexibleDate transforms string to number|null.
-        // So we should pass the string to the schema validation if we were using Zod for the whole object.
-        // But here we are constructing the final object manually.
-        // FlexibleDate is a Zod schema. We can use it to parse the raw string.
-
-        documentType: result.documentType,
-        issuer: result.issuer,
-        baggageTags: parsedBaggageTags
+        passengerDescription: u.passengerDescription,
+        checkInSource: u.checkInSource,
+        boardingPassIssuanceSource: u.boardingPassIssuanceSource,
+        // Left undefined when the field is absent so the encoder can tell "missing" from "blank"
+        issuanceDate: undefined,
+        documentType: u.documentType,
+        issuer: u.issuer,
+        baggageTags: parsedBaggageTags.length > 0 ? parsedBaggageTags : undefined,
+        gender: u.gender?.trim() ? GenderSchema.parse(u.gender.trim()) : undefined,
+        reservedA: result.reservedA,
     };
 
-    // Fix Issuance Date manual parsing if not using Zod for the whole root object yet
-    if (result.issuanceDate) {
-        const parsedDate = FlexibleDate.safeParse(result.issuanceDate);
+    // Issuance Date goes through FlexibleDate like the leg dates (blank -> null)
+    if (u.issuanceDate !== undefined) {
+        const parsedDate = FlexibleDate.safeParse(u.issuanceDate);
         if (parsedDate.success) finalData.issuanceDate = parsedDate.data;
     }
 
-    return { success: true, data: finalData, segments: extractor.segments };
+    return { success: true, data: finalData, segments: extractor.segments, diagnostics: extractor.diagnostics };
 
   } catch (e: any) {
-    return { success: false, error: e.message };
+    const diagnostics: Diagnostic[] = [{ severity: 'error', code: 'PARSE_EXCEPTION', message: e.message, start: 0, end: raw.length }];
+    return { success: false, diagnostics, error: e.message };
+  }
+}
+
+// --- Encoder Logic ---
+
+// Left-aligned alphanumeric field, space padded (or truncated) to the exact width
+function padField(value: string | undefined | null, width: number): string {
+  return (value ?? '').padEnd(width, ' ').substring(0, width);
+}
+
+// Numeric field with an optional alpha suffix (e.g. Flight "NNNN[a]", Seat "NNNa").
+// The parser strips leading zeros, so they are restored here.
+function padNumericField(value: string | undefined, digits: number, width: number): string {
+  const clean = (value ?? '').trim();
+  const match = clean.match(/^(\d*)([A-Z]?)$/i);
+  if (!clean || !match) return padField(clean, width);
+  const [, num, suffix] = match;
+  return padField(num.padStart(digits, '0') + suffix, width);
+}
+
+// The text as read while it still holds the same value; issuers differ on zero padding ("00123" or "0123 ")
+function encodeNumericField(value: string | undefined, raw: string | undefined, digits: number, width: number): string {
+  const unchanged = raw !== undefined && raw.length === width && raw.trim().replace(/^0+/, '') === (value ?? '').trim();
+  return unchanged ? raw : padNumericField(value, digits, width);
+}
+
+function encodeDate(value: number | null | undefined, width: number): string {
+  if (value === null || value === undefined) return ' '.repeat(width);
+  return String(value).padStart(width, '0').substring(0, width);
+}
+
+function toHexSize(length: number, label: string): string {
+  if (length > 0xff) throw new Error(`${label} exceeds 255 characters (${length})`);
+  return length.toString(16).toUpperCase().padStart(2, '0');
+}
+
+// Concatenates fields in order, stopping after the last one that is present.
+// This mirrors how issuers truncate the conditional sections.
+function joinPresentFields(fields: Array<[unknown, () => string]>): string {
+  let lastPresent = -1;
+  fields.forEach(([value], idx) => {
+    if (value !== undefined) lastPresent = idx;
+  });
+  return fields.slice(0, lastPresent + 1).map(([, encode]) => encode()).join('');
+}
+
+type ParsedLeg = ParsedBcbp['legs'][number];
+
+// The tag filling each baggage item; tags built by hand without a kind go in Section A order
+function baggageTagFor(data: ParsedBcbp, kind: BaggageTagKind): BaggageTagParsed | undefined {
+  const tags = data.baggageTags || [];
+  return tags.find(t => t.kind === kind) || tags.filter(t => !t.kind)[BAGGAGE_TAG_KINDS.indexOf(kind)];
+}
+
+// Reserved characters go last, so everything before them is written out even when blank
+function encodeSectionA(data: ParsedBcbp): string | undefined {
+  const body = joinPresentFields(fieldsForVersion(SECTION_A_FIELDS, data.version).map((field): [unknown, () => string] => {
+    switch (field.key) {
+      case 'issuanceDate':
+        return [data.issuanceDate, () => encodeDate(data.issuanceDate, field.length)];
+      case 'baggageTag':
+      case 'firstNonConsecutiveBaggageTag':
+      case 'secondNonConsecutiveBaggageTag': {
+        const tag = baggageTagFor(data, field.key);
+        return [tag, () => padField(tag?.raw, field.length)];
+      }
+      default: {
+        const value = data[field.key];
+        return [value, () => padField(value, field.length)];
+      }
+    }
+  }).concat([[data.reservedA, () => data.reservedA!]]));
+
+  if (data.version === undefined && !body) return undefined;
+  const version = data.version === undefined ? ' ' : String(data.version);
+  return '>' + padField(version, L.VERSION_NUMBER) + toHexSize(body.length, 'Section A') + body;
+}
+
+function encodeSectionB(leg: ParsedLeg, version?: number): string {
+  const body = joinPresentFields(fieldsForVersion(SECTION_B_FIELDS, version).map((field): [unknown, () => string] => {
+    if (field.key === 'fastTrack') {
+      const fastTrack = leg.fastTrack === undefined ? undefined : (leg.fastTrack ? 'Y' : 'N');
+      return [fastTrack, () => padField(fastTrack, field.length)];
+    }
+    const value = leg[field.key];
+    return [value, () => padField(value, field.length)];
+  }).concat([[leg.reservedB, () => leg.reservedB!]]));
+  return toHexSize(body.length, 'Section B') + body;
+}
+
+function encodeLeg(leg: ParsedLeg, sectionA: string | undefined, version?: number): string {
+  const mandatory =
+    padField(leg.pnrCode, L.OPERATING_CARRIER_PNR) +
+    padField(leg.departureAirport, L.DEPARTURE_AIRPORT) +
+    padField(leg.arrivalAirport, L.ARRIVAL_AIRPORT) +
+    padField(leg.operatingCarrier, L.OPERATING_CARRIER_DESIGNATOR) +
+    encodeNumericField(leg.flightNumber, leg.rawNumbers?.flightNumber, 4, L.FLIGHT_NUMBER) +
+    encodeDate(leg.dateOfFlight, L.FLIGHT_DATE) +
+    padField(leg.compartment?.code, L.COMPARTMENT_CODE) +
+    encodeNumericField(leg.seatNumber, leg.rawNumbers?.seatNumber, 3, L.SEAT_NUMBER) +
+    encodeNumericField(leg.sequenceNumber, leg.rawNumbers?.sequenceNumber, 4, L.CHECK_IN_SEQUENCE_NUMBER) +
+    padField(leg.passengerStatus?.code, L.PASSENGER_STATUS);
+
+  const sectionB = encodeSectionB(leg, version);
+  const hasLegData = sectionB !== '00' || leg.airlineUseData !== undefined;
+  // Section B is left out only where the source had none and nothing has been added since
+  const writeSectionB = hasLegData || leg.sectionBPresent !== false;
+  const conditional = sectionA !== undefined || hasLegData
+    ? (sectionA || '') + (writeSectionB ? sectionB : '') + (leg.airlineUseData || '')
+    : '';
+
+  return mandatory + toHexSize(conditional.length, 'Conditional data') + conditional;
+}
+
+/**
+ * Builds a Resolution 792 BCBP string from parsed data.
+ * All size fields (conditional, Section A/B, security) are computed, and fields are
+ * padded to their fixed widths, so `encodeBCBP(parseBCBP(x).data)` reproduces `x`
+ * for any pass the parser fully understands. Reserved characters from a newer
+ * layout are written back as read, and Section B is left out where the source had none.
+ */
+export function encodeBCBP(data: ParsedBcbp): string {
+  let out =
+    padField(data.formatCode || 'M', L.FORMAT_CODE) +
+    padField(String(data.legs.length), L.NUMBER_OF_LEGS) +
+    padField(data.passengerName, L.PASSENGER_NAME) +
+    padField(data.electronicTicket, L.ELECTRONIC_TICKET_INDICATOR);
+
+  // Section A (unique data) travels in the first leg's conditional block only
+  const sectionA = encodeSectionA(data);
+  data.legs.forEach((leg, idx) => {
+    out += encodeLeg(leg, idx === 0 ? sectionA : undefined, data.version);
+  });
+
+  if (data.securityDataType !== undefined || data.securityData !== undefined) {
+    const secData = data.securityData || '';
+    out += '^' +
+      padField(data.securityDataType, L.SECURITY_DATA_TYPE) +
+      toHexSize(secData.length, 'Security data') +
+      secData;
   }
+
+  return out;
 }
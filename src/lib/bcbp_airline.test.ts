@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP, encodeBCBP } from './bcbp';
+import { AirlineDecoderRegistry, fixedWidthDecoder } from './bcbp_airline';
+import { EXAMPLE_AIRLINE_DECODERS, EXAMPLE_BA_DECODER, EXAMPLE_EASYJET_DECODER } from './airline_decoders';
+
+// Builds a pass whose only conditional content is an empty Section B plus airline use data
+function passWithAirlineData(carrier: string, airlineData: string, issuer?: string): string {
+  const sectionA = issuer ? '0B' + ' ' + ' ' + ' ' + '    ' + ' ' + issuer.padEnd(3) : '00';
+  const conditional = '>6' + sectionA + '00' + airlineData;
+  return "M1DOE/JOHN            E" +
+    "ABC123 " + "LHR" + "GVA" + carrier.padEnd(3) + "0117 " + "107" + "Y" + "012A" + "0001 " + "1" +
+    conditional.length.toString(16).toUpperCase().padStart(2, '0') + conditional;
+}
+
+// Fixtures for the example decoders, which only decode through their own registry
+const BA_PASS = passWithAirlineData('BA', '3YG');
+const EASYJET_PASS = passWithAirlineData('U2', 'Y07', 'U2');
+const examples = { airlineDecoders: new AirlineDecoderRegistry(EXAMPLE_AIRLINE_DECODERS) };
+
+describe('Airline data decoders', () => {
+  it('leaves airline use data undecoded by default', () => {
+    const result = parseBCBP(BA_PASS);
+    expect(result.data!.legs[0].airlineData).toBeUndefined();
+    expect(result.segments?.find(s => s.label === 'Airline Use / Reserved')?.raw).toBe('3YG');
+  });
+
+  it('splits BA airline use data into labelled segments and typed fields', () => {
+    const result = parseBCBP(BA_PASS, examples);
+    const leg = result.data!.legs[0];
+    expect(leg.airlineData).toEqual({
+      decoder: EXAMPLE_BA_DECODER.id,
+      fields: { boardingGroup: 3, loungeAccess: true, loyaltyTier: 'G' },
+    });
+    expect(result.segments?.find(s => s.label === 'Boarding Group')).toMatchObject({ raw: '3', section: 'conditional_leg' });
+    expect(result.segments?.find(s => s.label === 'Airline Use / Reserved')).toBeUndefined();
+  });
+
+  it('only applies an issuer-restricted decoder for that issuer', () => {
+    const result = parseBCBP(EASYJET_PASS, examples);
+    expect(result.data!.legs[0].airlineData?.decoder).toBe(EXAMPLE_EASYJET_DECODER.id);
+    expect(result.data!.legs[0].airlineData?.fields.bagDropZone).toBe('07');
+
+    const otherIssuer = parseBCBP(passWithAirlineData('U2', 'Y07', 'BA'), examples);
+    expect(otherIssuer.data!.legs[0].airlineData).toBeUndefined();
+  });
+
+  it('keeps trailing data the decoder does not cover as reserved', () => {
+    const result = parseBCBP(passWithAirlineData('BA', '3YGXYZ'), examples);
+    expect(result.data!.legs[0].airlineData?.fields.loyaltyTier).toBe('G');
+    expect(result.segments?.find(s => s.label === 'Airline Use / Reserved')?.raw).toBe('XYZ');
+  });
+
+  it('falls back to one opaque segment when no decoder matches', () => {
+    const unknownCarrier = parseBCBP(passWithAirlineData('LX', '3YG'), examples);
+    expect(unknownCarrier.data!.legs[0].airlineData).toBeUndefined();
+    expect(unknownCarrier.segments?.find(s => s.label === 'Airline Use / Reserved')?.raw).toBe('3YG');
+
+    // Data that fails a field pattern is rejected rather than mis-labelled
+    const badData = parseBCBP(passWithAirlineData('BA', 'XYZ'), examples);
+    expect(badData.data!.legs[0].airlineData).toBeUndefined();
+  });
+
+  it('still round-trips through the encoder', () => {
+    expect(encodeBCBP(parseBCBP(BA_PASS, examples).data!)).toBe(BA_PASS);
+    expect(encodeBCBP(parseBCBP(EASYJET_PASS, examples).data!)).toBe(EASYJET_PASS);
+  });
+
+  it('accepts a custom registry', () => {
+    const registry = new AirlineDecoderRegistry([
+      fixedWidthDecoder({ id: 'lx-test', name: 'Test', carriers: ['LX'], fields: [{ key: 'zone', label: 'Zone', length: 3 }] }),
+    ]);
+    const result = parseBCBP(passWithAirlineData('LX', '3YG'), { airlineDecoders: registry });
+    expect(result.data!.legs[0].airlineData).toEqual({ decoder: 'lx-test', fields: { zone: '3YG' } });
+    expect(() => registry.register(registry.get('lx-test')!)).toThrow(/already registered/);
+  });
+});
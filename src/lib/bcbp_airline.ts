@@ -0,0 +1,114 @@
+// --- Types ---
+
+export type AirlineFieldValue = string | number | boolean;
+
+export interface AirlineFieldDefinition {
+  key: string;
+  label: string;
+  length: number;
+  pattern?: RegExp;                            // Raw value must match, or the decoder declines the data
+  parse?: (raw: string) => AirlineFieldValue;  // Defaults to the trimmed string
+  describe?: (value: AirlineFieldValue) => string; // Human-readable value for the viewer
+}
+
+// One decoded field, in the order it appears in the "Individual Airline Use" data
+export interface AirlineField {
+  key: string;
+  label: string;
+  raw: string;
+  value: AirlineFieldValue;
+}
+
+export interface AirlineDecodeContext {
+  operatingCarrier: string;
+  issuer?: string;
+}
+
+export interface AirlineDecoder {
+  id: string;
+  name: string;
+  carriers: string[];  // Operating carrier designators this decoder handles
+  issuers?: string[];  // Only when the boarding pass was issued by one of these
+  fields: AirlineFieldDefinition[];
+  /**
+   * Splits the airline use data into fields, or returns null when the data
+   * doesn't look like this decoder's layout (the parser then keeps it opaque).
+   */
+  decode(data: string, context: AirlineDecodeContext): AirlineField[] | null;
+}
+
+// What the parser stores on a leg when a decoder matched
+export interface AirlineDataParsed {
+  decoder: string;
+  fields: Record<string, AirlineFieldValue>;
+}
+
+// --- Fixed-width decoders ---
+
+/**
+ * Builds a decoder for the common case: consecutive fixed-width fields.
+ * Data shorter than the layout decodes as far as it goes; data that fails a
+ * field's pattern is rejected so a format change falls back to the opaque segment.
+ */
+export function fixedWidthDecoder(config: Omit<AirlineDecoder, 'decode'>): AirlineDecoder {
+  return {
+    ...config,
+    decode(data: string) {
+      const fields: AirlineField[] = [];
+      let cursor = 0;
+      for (const def of config.fields) {
+        if (cursor >= data.length) break;
+        const raw = data.substring(cursor, cursor + def.length);
+        if (raw.length < def.length) break; // Partial field: leave it in the reserved remainder
+        if (def.pattern && !def.pattern.test(raw)) return null;
+        fields.push({ key: def.key, label: def.label, raw, value: def.parse ? def.parse(raw) : raw.trim() });
+        cursor += def.length;
+      }
+      return fields.length > 0 ? fields : null;
+    },
+  };
+}
+
+// --- Registry ---
+
+export class AirlineDecoderRegistry {
+  private byCarrier = new Map<string, AirlineDecoder[]>();
+  private byId = new Map<string, AirlineDecoder>();
+
+  constructor(decoders: AirlineDecoder[] = []) {
+    decoders.forEach(d => this.register(d));
+  }
+
+  register(decoder: AirlineDecoder) {
+    if (this.byId.has(decoder.id)) throw new Error(`Airline decoder "${decoder.id}" is already registered`);
+    this.byId.set(decoder.id, decoder);
+    for (const carrier of decoder.carriers) {
+      const list = this.byCarrier.get(carrier) || [];
+      list.push(decoder);
+      this.byCarrier.set(carrier, list);
+    }
+  }
+
+  get(id: string): AirlineDecoder | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Candidate decoders for a leg: ones restricted to this issuer first,
+   * then the carrier-wide ones.
+   */
+  find(context: AirlineDecodeContext): AirlineDecoder[] {
+    const candidates = this.byCarrier.get(context.operatingCarrier) || [];
+    const issuerSpecific = candidates.filter(d => d.issuers && context.issuer && d.issuers.includes(context.issuer));
+    const generic = candidates.filter(d => !d.issuers);
+    return [...issuerSpecific, ...generic];
+  }
+
+  decode(data: string, context: AirlineDecodeContext): { decoder: AirlineDecoder; fields: AirlineField[] } | null {
+    for (const decoder of this.find(context)) {
+      const fields = decoder.decode(data, context);
+      if (fields) return { decoder, fields };
+    }
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { describeCode, describeBaggageAllowance, describeSegment } from './bcbp_codes';
+
+describe('Code Tables', () => {
+  it('describes each coded field', () => {
+    expect(describeCode('passengerDescription', '6')).toBe('Adult travelling with infant');
+    expect(describeCode('checkInSource', 'M')).toBe('Mobile device');
+    expect(describeCode('boardingPassIssuanceSource', 'X')).toBe('Transfer kiosk');
+    expect(describeCode('selecteeIndicator', '1')).toBe('Selectee (SSSS)');
+    expect(describeCode('internationalDocVerification', '2')).toBe('Travel document verification performed');
+    expect(describeCode('idIndicator', 'C')).toBe('IDFS1 positive space');
+    expect(describeCode('documentType', 'I')).toBe('Itinerary Receipt');
+    expect(describeCode('gender', 'X')).toBe('Unspecified');
+    expect(describeCode('fastTrack', 'Y')).toBe('Yes');
+  });
+
+  it('leaves blanks undescribed and flags unknown codes', () => {
+    expect(describeCode('checkInSource', ' ')).toBeUndefined();
+    expect(describeCode('checkInSource', 'Q')).toBe('Unknown code (Q)');
+  });
+
+  it('describes baggage allowance units', () => {
+    expect(describeBaggageAllowance('20K')).toBe('20 kg');
+    expect(describeBaggageAllowance('2PC')).toBe('2 pieces');
+    expect(describeBaggageAllowance('1PC')).toBe('1 piece');
+    expect(describeBaggageAllowance('40L')).toBe('40 lb');
+    expect(describeBaggageAllowance('NIL')).toBe('NIL');
+    expect(describeBaggageAllowance('   ')).toBeUndefined();
+  });
+
+  it('only describes segments for coded fields', () => {
+    expect(describeSegment('Source of Check-in', 'W')).toBe('Web');
+    expect(describeSegment('Passenger Name', 'DOE/JOHN')).toBeUndefined();
+  });
+
+  it('attaches descriptions to parser segments', () => {
+    const pass = "M1DOE/JOHN            EABC123 LHRGVABA 0117 107Y012A0001 1" +
+      "1F" + ">6" + "0B" + "0" + "W" + "K" + "    " + "B" + "BA " + "0E" + "   " + "          " + "1";
+    const segments = parseBCBP(pass).segments!;
+    const byLabel = (label: string) => segments.find(s => s.label === label);
+    expect(byLabel('Compartment Code')?.description).toBe('Economy Class');
+    expect(byLabel('Source of Check-in')?.description).toBe('Web');
+    expect(byLabel('Source of Boarding Pass Issuance')?.description).toBe('Airport kiosk');
+    expect(byLabel('Selectee Indicator')?.description).toBe('Selectee (SSSS)');
+    expect(byLabel('Passenger Name')?.description).toBeUndefined();
+  });
+});
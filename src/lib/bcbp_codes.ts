@@ -0,0 +1,87 @@
+import { BCBP_REFERENCE } from '../data/bcbp_reference';
+
+// --- Types ---
+
+// Coded BCBP fields, named after their ParsedBcbp keys
+export type CodedField =
+  | 'compartment'
+  | 'passengerStatus'
+  | 'passengerDescription'
+  | 'checkInSource'
+  | 'boardingPassIssuanceSource'
+  | 'documentType'
+  | 'gender'
+  | 'selecteeIndicator'
+  | 'internationalDocVerification'
+  | 'idIndicator'
+  | 'fastTrack'
+  | 'freeBaggageAllowance';
+
+export type Cabin = 'first' | 'business' | 'premium_economy' | 'economy';
+
+// Segment labels the parser gives each coded field
+const FIELDS_BY_LABEL: Record<string, CodedField> = {
+  'Compartment Code': 'compartment',
+  'Passenger Status': 'passengerStatus',
+  'Passenger Description': 'passengerDescription',
+  'Source of Check-in': 'checkInSource',
+  'Source of Boarding Pass Issuance': 'boardingPassIssuanceSource',
+  'Document Type': 'documentType',
+  'Passenger Gender': 'gender',
+  'Selectee Indicator': 'selecteeIndicator',
+  'International Documentation Verification': 'internationalDocVerification',
+  'ID/AD Indicator': 'idIndicator',
+  'Fast Track': 'fastTrack',
+  'Free Baggage Allowance': 'freeBaggageAllowance',
+};
+
+export const CABIN_LABELS: Record<Cabin, string> = {
+  first: 'First',
+  business: 'Business',
+  premium_economy: 'Premium Economy',
+  economy: 'Economy',
+};
+
+// --- Helpers ---
+
+/**
+ * "20K" -> "20 kg", "2PC" -> "2 pieces", "40L" -> "40 lb".
+ * Anything else is returned unchanged; blank returns undefined.
+ */
+export function describeBaggageAllowance(raw?: string): string | undefined {
+  const value = raw?.trim().toUpperCase();
+  if (!value) return undefined;
+  const match = value.match(/^(\d+)\s*(K|L|PC)$/);
+  if (!match) return value;
+
+  const amount = parseInt(match[1], 10);
+  const unit = BCBP_REFERENCE.baggageAllowanceUnit[match[2]];
+  if (match[2] === 'PC') return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+  return `${amount} ${unit}`;
+}
+
+/**
+ * Human-readable meaning of a coded field's value, e.g. ('checkInSource', 'W') -> "Web".
+ * Blank values return undefined; codes missing from the table say so.
+ */
+export function describeCode(field: CodedField, code?: string): string | undefined {
+  if (field === 'freeBaggageAllowance') return describeBaggageAllowance(code);
+  const value = code?.trim();
+  if (!value) return undefined;
+  return BCBP_REFERENCE[field][value] || `Unknown code (${value})`;
+}
+
+// The description for a parser segment, when its label is a coded field
+export function describeSegment(label: string, value: string): string | undefined {
+  const field = FIELDS_BY_LABEL[label];
+  return field ? describeCode(field, value) : undefined;
+}
+
+// Groups compartment codes by the cabin their reference description names
+export function cabinForCompartment(code: string): Cabin {
+  const description = BCBP_REFERENCE.compartment[code] || '';
+  if (description.startsWith('First')) return 'first';
+  if (description.startsWith('Business')) return 'business';
+  if (description.startsWith('Premium')) return 'premium_economy';
+  return 'economy';
+}
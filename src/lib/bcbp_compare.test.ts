@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { comparePasses, diffFields, matchLegs } from './bcbp_compare';
+
+const HEADER = 'M2DOE/JOHN            E';
+const OUTBOUND = 'ABC123 LHRAMSKL 1000 107Y012A0001 100';
+const INBOUND = 'ABC123 AMSLHRKL 1001 110Y014C0002 100';
+
+const load = (raw: string) => {
+  const result = parseBCBP(raw);
+  return { raw, parsed: result.data!, segments: result.segments! };
+};
+
+describe('diffFields', () => {
+  it('lists changed leaves with readable labels, ignoring padding', () => {
+    expect(diffFields({ seatNumber: '12A', compartment: { code: 'Y' }, pnrCode: 'ABC123 ' }, { seatNumber: '14C', compartment: { code: 'J' }, pnrCode: 'ABC123' })).toEqual([
+      { path: 'seatNumber', label: 'Seat Number', before: '12A', after: '14C' },
+      { path: 'compartment.code', label: 'Compartment › Code', before: 'Y', after: 'J' },
+    ]);
+  });
+
+  it('reports fields present on one side only', () => {
+    expect(diffFields({}, { baggageTags: [{ raw: '0074123456001' }] })).toEqual([
+      { path: 'baggageTags.0.raw', label: 'Baggage Tags › #1 › Raw', before: undefined, after: '0074123456001' },
+    ]);
+  });
+});
+
+describe('matchLegs', () => {
+  it('pairs legs by flight and date, not position', () => {
+    const a = load(HEADER + OUTBOUND + INBOUND).parsed;
+    const b = load(HEADER + INBOUND + OUTBOUND).parsed;
+    expect(matchLegs(a, b)).toEqual([
+      { key: 'KL 1000 · day 107', before: 0, after: 1 },
+      { key: 'KL 1001 · day 110', before: 1, after: 0 },
+    ]);
+  });
+
+  it('leaves a rebooked leg unmatched on both sides', () => {
+    const a = load(HEADER + OUTBOUND + INBOUND).parsed;
+    const b = load(HEADER + OUTBOUND + INBOUND.replace('110Y', '111Y')).parsed;
+    expect(matchLegs(a, b)).toEqual([
+      { key: 'KL 1000 · day 107', before: 0, after: 0 },
+      { key: 'KL 1001 · day 110', before: 1 },
+      { key: 'KL 1001 · day 111', after: 1 },
+    ]);
+  });
+});
+
+describe('comparePasses', () => {
+  it('finds a seat change and a new passenger status on the matching leg', () => {
+    const reissued = OUTBOUND.replace('012A0001 1', '003C0001 5');
+    const comparison = comparePasses(load(HEADER + OUTBOUND + INBOUND), load(HEADER + INBOUND + reissued));
+
+    expect(comparison.identical).toBe(false);
+    expect(comparison.fields).toEqual([]);
+    expect(comparison.legs[0].changes.map(c => `${c.path}: ${c.before} -> ${c.after}`)).toEqual([
+      'seatNumber: 12A -> 3C',
+      'passengerStatus.code: 1 -> 5',
+      'passengerStatus.description: Ticketed and not confirmed -> Boarding Pass re-issued',
+    ]);
+    expect(comparison.legs[1].changes).toEqual([]);
+
+    // The legs swapped places in the string, but each segment lines up with its own flight
+    const changed = comparison.segments.filter(seg => seg.changed.some(Boolean));
+    expect(changed.map(seg => [seg.label, seg.before, seg.after, seg.changed])).toEqual([
+      ['Seat Number', '012A', '003C', [false, true, true, true]],
+      ['Passenger Status', '1', '5', [true]],
+    ]);
+  });
+
+  it('shows the segments of an added leg as changed throughout', () => {
+    const comparison = comparePasses(load('M1DOE/JOHN            E' + OUTBOUND), load(HEADER + OUTBOUND + INBOUND));
+    expect(comparison.fields.map(f => f.path)).toEqual(['numberOfLegs']);
+    expect(comparison.legs.map(leg => [leg.key, leg.before, leg.after])).toEqual([
+      ['KL 1000 · day 107', 0, 0],
+      ['KL 1001 · day 110', undefined, 1],
+    ]);
+
+    const flight = comparison.segments.find(seg => seg.label === 'Flight Number' && seg.before === undefined);
+    expect(flight).toMatchObject({ after: '1001 ', changed: [true, true, true, true, true] });
+  });
+
+  it('reports identical passes', () => {
+    const comparison = comparePasses(load(HEADER + OUTBOUND + INBOUND), load(HEADER + OUTBOUND + INBOUND));
+    expect(comparison.identical).toBe(true);
+    expect(comparison.segments.every(seg => seg.changed.every(c => !c))).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+import { ParsedBcbp, Segment, completeSegments } from './bcbp';
+
+// --- Types ---
+
+type Leg = ParsedBcbp['legs'][number];
+
+export interface FieldChange {
+  path: string;  // e.g. "seatNumber", "compartment.code", "baggageTags.0.raw"
+  label: string; // e.g. "Seat Number", "Compartment › Code"
+  before?: string;
+  after?: string;
+}
+
+export interface LegComparison {
+  key: string;     // Flight and date both passes agree on, e.g. "BA 123 · day 107"
+  before?: number; // Leg index in the first pass; missing for an added leg
+  after?: number;  // Leg index in the second pass; missing for a removed leg
+  changes: FieldChange[];
+}
+
+export interface SegmentComparison {
+  key: string;     // What the two segments were aligned on
+  label: string;
+  section: Segment['section'];
+  before?: string; // Raw characters; missing when the segment exists on one side only
+  after?: string;
+  changed: boolean[]; // Per character of the longer side: does it differ
+}
+
+export interface PassComparison {
+  fields: FieldChange[];        // Pass-wide fields (everything except legs)
+  legs: LegComparison[];
+  segments: SegmentComparison[];
+  identical: boolean;
+}
+
+// --- Field diff ---
+
+// "seatNumber" -> "Seat Number", "compartment.code" -> "Compartment › Code"
+const humanize = (path: string) =>
+  path
+    .split('.')
+    .map(part => (/^\d+$/.test(part) ? `#${Number(part) + 1}` : part.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase())))
+    .join(' › ');
+
+// Every leaf value as a string, keyed by its dotted path
+function flatten(value: unknown, prefix: string = '', out: Record<string, string> = {}): Record<string, string> {
+  if (value === null || value === undefined || value === '') return out;
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) flatten(child, prefix ? `${prefix}.${key}` : key, out);
+  } else {
+    out[prefix] = String(value);
+  }
+  return out;
+}
+
+export function diffFields(before: unknown, after: unknown): FieldChange[] {
+  const a = flatten(before);
+  const b = flatten(after);
+  const paths = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  return paths
+    .filter(path => a[path]?.trim() !== b[path]?.trim())
+    .map(path => ({ path, label: humanize(path), before: a[path], after: b[path] }));
+}
+
+// A leg's decoded fields; the padding kept for re-encoding shows up in the segment diff instead
+function legFields(leg: Leg) {
+  const { rawNumbers: _rawNumbers, ...fields } = leg;
+  return fields;
+}
+
+// --- Leg matching ---
+
+export const legKey = (leg: Leg) =>
+  `${leg.operatingCarrier.trim().toUpperCase()} ${leg.flightNumber.toUpperCase()} · ${leg.dateOfFlight != null ? `day ${leg.dateOfFlight}` : 'no date'}`;
+
+/**
+ * Pairs the legs of two passes by flight and date, so a reissue that drops,
+ * adds or reorders legs still compares each flight with itself. Legs with no
+ * partner come out as removed (before only) or added (after only).
+ */
+export function matchLegs(before: ParsedBcbp, after: ParsedBcbp): Array<{ key: string; before?: number; after?: number }> {
+  const unmatched = after.legs.map((leg, idx) => ({ key: legKey(leg), idx }));
+  const pairs: Array<{ key: string; before?: number; after?: number }> = before.legs.map((leg, idx) => {
+    const key = legKey(leg);
+    const partner = unmatched.findIndex(candidate => candidate.key === key);
+    if (partner < 0) return { key, before: idx };
+    return { key, before: idx, after: unmatched.splice(partner, 1)[0].idx };
+  });
+  return [...pairs, ...unmatched.map(({ key, idx }) => ({ key, after: idx }))];
+}
+
+// --- Segment diff ---
+
+const PASS_SECTIONS: Segment['section'][] = ['header', 'conditional_unique', 'security', 'wrapper', 'unparsed', 'overlap'];
+
+/**
+ * Keys each segment by its label and the leg it belongs to, so the same field
+ * lines up across passes whatever its offset. Leg sections are numbered from
+ * each "PNR Code", which opens every leg; `legIds` renames a pass's legs to
+ * the shared numbering from matchLegs.
+ */
+function keyedSegments(segments: Segment[], raw: string, legIds: (legIndex: number) => string): Array<{ key: string; seg: Segment }> {
+  const seen = new Map<string, number>();
+  let leg = -1;
+  return completeSegments(segments, raw).map(seg => {
+    if (seg.section === 'leg_mandatory' && seg.label === 'PNR Code') leg++;
+    const scope = PASS_SECTIONS.includes(seg.section) || leg < 0 ? 'pass' : legIds(leg);
+    const base = `${scope}:${seg.label}`;
+    const occurrence = seen.get(base) ?? 0;
+    seen.set(base, occurrence + 1);
+    return { key: `${base}#${occurrence}`, seg };
+  });
+}
+
+function charChanges(before: string = '', after: string = ''): boolean[] {
+  return Array.from({ length: Math.max(before.length, after.length) }, (_, i) => before[i] !== after[i]);
+}
+
+export function diffSegments(
+  before: { raw: string; segments: Segment[] },
+  after: { raw: string; segments: Segment[] },
+  legs: Array<{ before?: number; after?: number }> = [],
+): SegmentComparison[] {
+  const pairId = (side: 'before' | 'after') => (legIndex: number) => {
+    const pair = legs.findIndex(p => p[side] === legIndex);
+    return pair >= 0 ? `leg${pair}` : `${side}-leg${legIndex}`;
+  };
+  const a = keyedSegments(before.segments, before.raw, pairId('before'));
+  const b = new Map(keyedSegments(after.segments, after.raw, pairId('after')).map(({ key, seg }) => [key, seg]));
+
+  const rows: SegmentComparison[] = a.map(({ key, seg }) => {
+    const other = b.get(key);
+    b.delete(key);
+    return { key, label: seg.label, section: seg.section, before: seg.raw, after: other?.raw, changed: charChanges(seg.raw, other?.raw) };
+  });
+  for (const [key, seg] of b) {
+    rows.push({ key, label: seg.label, section: seg.section, after: seg.raw, changed: charChanges(undefined, seg.raw) });
+  }
+  return rows;
+}
+
+// --- Comparison ---
+
+export function comparePasses(
+  before: { raw: string; parsed: ParsedBcbp; segments: Segment[] },
+  after: { raw: string; parsed: ParsedBcbp; segments: Segment[] },
+): PassComparison {
+  const { legs: _beforeLegs, ...beforePass } = before.parsed;
+  const { legs: _afterLegs, ...afterPass } = after.parsed;
+  const fields = diffFields(beforePass, afterPass);
+
+  const pairs = matchLegs(before.parsed, after.parsed);
+  const legs = pairs.map(pair => ({
+    ...pair,
+    changes: diffFields(pair.before !== undefined ? legFields(before.parsed.legs[pair.before]) : undefined, pair.after !== undefined ? legFields(after.parsed.legs[pair.after]) : undefined),
+  }));
+
+  const segments = diffSegments(before, after, pairs);
+  const identical = before.raw === after.raw;
+  return { fields, legs, segments, identical };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { resolveFlightDate, resolveIssuanceDate, resolveBcbpDates, describeRelativeDays, formatResolvedDate } from './bcbp_dates';
+import { parseBCBP } from './bcbp';
+
+const utc = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d));
+const local = (y: number, m: number, d: number) => new Date(y, m - 1, d, 12);
+
+describe('Flight date resolution', () => {
+  it('resolves a day of year near today', () => {
+    const resolved = resolveFlightDate(107, local(2021, 4, 10));
+    expect(resolved?.date).toEqual(utc(2021, 4, 17));
+    expect(resolved?.confidence).toBe('high');
+    expect(resolved?.basis).toBe('reference');
+  });
+
+  it('picks last year for a pass scanned just after new year', () => {
+    const resolved = resolveFlightDate(365, local(2024, 1, 2));
+    expect(resolved?.date).toEqual(utc(2023, 12, 31));
+  });
+
+  it('picks next year for a December scan of a January flight', () => {
+    const resolved = resolveFlightDate(3, local(2023, 12, 30));
+    expect(resolved?.date).toEqual(utc(2024, 1, 3));
+  });
+
+  it('only places day 366 in leap years', () => {
+    const resolved = resolveFlightDate(366, local(2023, 6, 1));
+    expect(resolved?.date).toEqual(utc(2024, 12, 31));
+    expect(resolved?.confidence).toBe('low');
+    expect(resolved?.alternatives).toEqual([]);
+  });
+
+  it('lowers confidence the further the date is from the reference', () => {
+    expect(resolveFlightDate(1, local(2022, 3, 15))?.confidence).toBe('medium');
+    expect(resolveFlightDate(200, local(2022, 1, 15))?.confidence).toBe('low');
+  });
+
+  it('rejects days outside 1-366', () => {
+    expect(resolveFlightDate(0)).toBeNull();
+    expect(resolveFlightDate(367)).toBeNull();
+  });
+});
+
+describe('Issuance date resolution', () => {
+  it('uses the most recent year ending in the encoded digit', () => {
+    const resolved = resolveIssuanceDate(1100, local(2021, 4, 20));
+    expect(resolved?.date).toEqual(utc(2021, 4, 10));
+    expect(resolved?.confidence).toBe('high');
+  });
+
+  it('never resolves to a date after the reference', () => {
+    const resolved = resolveIssuanceDate(1200, local(2021, 4, 10));
+    expect(resolved?.year).toBe(2011);
+    expect(resolved?.confidence).toBe('medium');
+  });
+
+  it('skips decades where day 366 does not exist', () => {
+    // 2022 is not a leap year; the previous year ending in 2 that was is 2012
+    expect(resolveIssuanceDate(2366, local(2023, 3, 1))?.year).toBe(2012);
+  });
+});
+
+describe('resolveBcbpDates', () => {
+  const base = parseBCBP(
+    "M1DESMARAIS/LUC       EABC123 YULFRAAC 0834 326J001A0025 1" + "0F" + ">6" + "09" + "1WW6320BAC " + "00"
+  ).data!;
+
+  it('anchors flight dates on the issuance date', () => {
+    // Issued day 320 of 2026, flight on day 326: scanned well after travel
+    const result = resolveBcbpDates(base, local(2027, 2, 1));
+    expect(result.issuance?.date).toEqual(utc(2026, 11, 16));
+    expect(result.legs[0].flight?.date).toEqual(utc(2026, 11, 22));
+    expect(result.legs[0].flight?.basis).toBe('issuance');
+    expect(result.legs[0].beforeIssuance).toBe(false);
+  });
+
+  it('warns when the flight date comes before issuance', () => {
+    const result = resolveBcbpDates({ ...base, issuanceDate: 6330 }, local(2027, 2, 1));
+    expect(result.legs[0].beforeIssuance).toBe(true);
+  });
+});
+
+describe('Date formatting', () => {
+  it('describes relative days', () => {
+    const today = local(2021, 4, 17);
+    expect(describeRelativeDays(utc(2021, 4, 17), today)).toBe('today');
+    expect(describeRelativeDays(utc(2021, 4, 20), today)).toBe('in 3 days');
+    expect(describeRelativeDays(utc(2021, 4, 5), today)).toBe('12 days ago');
+  });
+
+  it('formats in UTC', () => {
+    expect(formatResolvedDate(utc(2021, 4, 17))).toBe('Sat, 17 Apr 2021');
+  });
+});
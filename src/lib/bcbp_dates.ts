@@ -0,0 +1,166 @@
+import type { ParsedBcbp } from './bcbp';
+
+// --- Types ---
+
+// How sure we are about the inferred year. BCBP dates carry no year (flight)
+// or only its last digit (issuance), so the year is always a guess.
+export type DateConfidence = 'high' | 'medium' | 'low';
+
+export interface ResolvedDate {
+  date: Date;          // UTC midnight of the resolved calendar day
+  year: number;
+  dayOfYear: number;
+  confidence: DateConfidence;
+  basis: 'issuance' | 'reference';
+  alternatives: Date[]; // Other calendar days the same code could mean, nearest first
+}
+
+export interface ResolvedLegDate {
+  flight: ResolvedDate | null;
+  beforeIssuance: boolean;
+}
+
+export interface ResolvedBcbpDates {
+  issuance: ResolvedDate | null;
+  legs: ResolvedLegDate[];
+}
+
+// --- Helpers ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+function daysInYear(year: number): number {
+  return isLeapYear(year) ? 366 : 365;
+}
+
+// Returns null when the day doesn't exist in that year (e.g. day 366 in 2023)
+function fromDayOfYear(year: number, dayOfYear: number): Date | null {
+  if (dayOfYear < 1 || dayOfYear > daysInYear(year)) return null;
+  return new Date(Date.UTC(year, 0, dayOfYear));
+}
+
+// Calendar day of a local Date, as UTC midnight, so day arithmetic ignores time zones
+export function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// --- Resolution ---
+
+/**
+ * Resolves a 4-digit "Date of Issue" (last digit of the year + day of year).
+ * Picks the most recent matching year that isn't after the reference date.
+ */
+export function resolveIssuanceDate(encoded: number, reference: Date = new Date()): ResolvedDate | null {
+  const yearDigit = Math.floor(encoded / 1000);
+  const dayOfYear = encoded % 1000;
+  if (yearDigit > 9 || dayOfYear < 1 || dayOfYear > 366) return null;
+
+  const ref = toUtcDay(reference);
+  const refYear = ref.getUTCFullYear();
+  const latestYear = refYear - ((refYear - yearDigit) % 10 + 10) % 10;
+
+  // Walk back a decade at a time; day 366 only exists in leap years
+  const candidates: Date[] = [];
+  for (let year = latestYear; year >= latestYear - 30; year -= 10) {
+    const date = fromDayOfYear(year, dayOfYear);
+    // A one day grace covers issuers in time zones ahead of the scanner
+    if (date && daysBetween(ref, date) <= 1) candidates.push(date);
+  }
+  if (candidates.length === 0) return null;
+
+  const [date, ...alternatives] = candidates;
+  const age = daysBetween(date, ref);
+  return {
+    date,
+    year: date.getUTCFullYear(),
+    dayOfYear,
+    confidence: age <= 366 ? 'high' : 'medium',
+    basis: 'reference',
+    alternatives,
+  };
+}
+
+/**
+ * Resolves a 3-digit "Date of Flight" (day of year) to the nearest matching
+ * calendar day around the anchor: the issuance date when known, else the reference date.
+ */
+export function resolveFlightDate(
+  dayOfYear: number,
+  reference: Date = new Date(),
+  issuance?: ResolvedDate | null,
+): ResolvedDate | null {
+  if (dayOfYear < 1 || dayOfYear > 366) return null;
+
+  const anchor = issuance ? issuance.date : toUtcDay(reference);
+  const anchorYear = anchor.getUTCFullYear();
+
+  const candidates = [anchorYear - 1, anchorYear, anchorYear + 1]
+    .map(year => fromDayOfYear(year, dayOfYear))
+    .filter((d): d is Date => d !== null)
+    .sort((a, b) => Math.abs(daysBetween(anchor, a)) - Math.abs(daysBetween(anchor, b)));
+  if (candidates.length === 0) return null;
+
+  const [date, ...alternatives] = candidates;
+  const distance = Math.abs(daysBetween(anchor, date));
+
+  // Passes are issued days before departure and scanned around travel time,
+  // so the further the nearest candidate is from the anchor, the less we trust it.
+  let confidence: DateConfidence = distance <= 30 ? 'high' : distance <= 120 ? 'medium' : 'low';
+  if (issuance && issuance.confidence !== 'high' && confidence === 'high') confidence = 'medium';
+
+  return {
+    date,
+    year: date.getUTCFullYear(),
+    dayOfYear,
+    confidence,
+    basis: issuance ? 'issuance' : 'reference',
+    alternatives,
+  };
+}
+
+/**
+ * Resolves the issuance date and every leg's flight date of a parsed pass.
+ * Flight dates are anchored on the issuance date when the pass carries one.
+ */
+export function resolveBcbpDates(parsed: ParsedBcbp, reference: Date = new Date()): ResolvedBcbpDates {
+  const issuance = parsed.issuanceDate != null ? resolveIssuanceDate(parsed.issuanceDate, reference) : null;
+
+  const legs = parsed.legs.map(leg => {
+    const flight = leg.dateOfFlight != null ? resolveFlightDate(leg.dateOfFlight, reference, issuance) : null;
+    const beforeIssuance = !!(flight && issuance && flight.date.getTime() < issuance.date.getTime());
+    return { flight, beforeIssuance };
+  });
+
+  return { issuance, legs };
+}
+
+// --- Formatting ---
+
+const DATE_FORMAT = new Intl.DateTimeFormat('en-GB', {
+  weekday: 'short',
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  timeZone: 'UTC',
+});
+
+export function formatResolvedDate(date: Date): string {
+  return DATE_FORMAT.format(date);
+}
+
+// "today", "in 3 days", "12 days ago"
+export function describeRelativeDays(date: Date, reference: Date = new Date()): string {
+  const diff = daysBetween(toUtcDay(reference), date);
+  if (diff === 0) return 'today';
+  if (diff === 1) return 'tomorrow';
+  if (diff === -1) return 'yesterday';
+  return diff > 0 ? `in ${diff} days` : `${-diff} days ago`;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { applyRawEdit, segmentAt } from './bcbp_edit';
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const segments = parseBCBP(PASS).segments!;
+
+// What a textarea holds after replacing [from, to) with `text`, and where its caret ends up
+const typed = (from: number, to: number, text: string, raw = PASS) =>
+  [raw.slice(0, from) + text + raw.slice(to), from + text.length] as const;
+
+describe('applyRawEdit', () => {
+  it('overwrites the character under the caret inside a field', () => {
+    const edit = applyRawEdit(PASS, ...typed(30, 30, 'C'), segments);
+    expect(edit.text).toBe(PASS.replace('LHRJFK', 'CHRJFK'));
+    expect(edit.text).toHaveLength(PASS.length);
+    expect(edit.cursor).toBe(31);
+  });
+
+  it('leaves a space where a character is deleted', () => {
+    const edit = applyRawEdit(PASS, ...typed(40, 41, ''), segments);
+    expect(edit.text.slice(36, 44)).toBe('BA 0 123');
+    expect(edit.cursor).toBe(40);
+  });
+
+  it('cuts a paste off at the end of the field', () => {
+    const edit = applyRawEdit(PASS, ...typed(2, 2, 'SMITH/ALEXANDRA/MARIA/MS'), segments);
+    expect(edit.text).toBe('M1SMITH/ALEXANDRA/MARI' + PASS.slice(22));
+    expect(edit.cursor).toBe(22);
+  });
+
+  it('pads a shorter replacement of a selection', () => {
+    const edit = applyRawEdit(PASS, ...typed(2, 10, 'LI/X'), segments);
+    expect(edit.text.slice(0, 23)).toBe('M1LI/X                E');
+    expect(parseBCBP(edit.text).data!.legs[0].departureAirport).toBe('LHR');
+  });
+
+  it('inserts freely after the parsed data', () => {
+    const edit = applyRawEdit(PASS, ...typed(PASS.length, PASS.length, 'XYZ'), segments);
+    expect(edit).toEqual({ text: PASS + 'XYZ', cursor: PASS.length + 3 });
+  });
+
+  it('keeps unparsed characters editable as typed', () => {
+    const raw = PASS + 'ABC';
+    const withTail = parseBCBP(raw).segments!;
+    const edit = applyRawEdit(raw, ...typed(PASS.length + 1, PASS.length + 2, '', raw), withTail);
+    expect(edit.text).toBe(PASS + 'AC');
+  });
+});
+
+describe('segmentAt', () => {
+  it('finds the field under the caret, and the last one at the end', () => {
+    expect(segmentAt(segments, 31)?.label).toBe('Departure Airport');
+    expect(segmentAt(segments, PASS.length)?.end).toBe(PASS.length);
+  });
+});
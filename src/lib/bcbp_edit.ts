@@ -0,0 +1,62 @@
+import { Segment, completeSegments } from './bcbp';
+
+// --- Types ---
+
+export interface RawEdit {
+  text: string;
+  cursor: number; // Where the caret belongs in `text` after the edit
+}
+
+// --- Helpers ---
+
+/**
+ * Every parsed field has a width fixed by the spec or by a size field before
+ * it, so changing its length would move everything after it. Only characters
+ * the parser did not claim can grow or shrink.
+ */
+export function isFixedWidth(seg: Segment): boolean {
+  return seg.section !== 'unparsed' && seg.section !== 'wrapper' && seg.section !== 'overlap';
+}
+
+/** The segment holding the character at `offset`, or the last one when the caret sits at the very end. */
+export function segmentAt(segments: Segment[], offset: number): Segment | undefined {
+  return segments.find(s => s.start <= offset && offset < s.end) || segments.find(s => s.end === offset && s.end > s.start);
+}
+
+/**
+ * Turns a textarea change into an overwrite inside fixed-width fields.
+ * `next` is the textarea's new value and `caret` its selection end, which
+ * marks where the inserted text stops. Inside a field, typing replaces the
+ * character under the caret, deleting leaves spaces and pastes are cut at
+ * the field's end; elsewhere the change is kept as typed.
+ */
+export function applyRawEdit(previous: string, next: string, caret: number, segments: Segment[]): RawEdit {
+  const suffix = next.length - caret;
+  const limit = Math.min(caret, previous.length - suffix);
+  if (limit < 0 || previous.slice(previous.length - suffix) !== next.slice(caret)) return { text: next, cursor: caret };
+
+  let start = 0;
+  while (start < limit && previous[start] === next[start]) start++;
+  const removed = previous.length - suffix - start;
+  const inserted = next.slice(start, caret);
+
+  // Same length already (e.g. an autocorrected character): nothing shifts
+  if (removed === inserted.length) return { text: next, cursor: caret };
+
+  const field = segments.find(s => isFixedWidth(s) && s.start <= start && start < s.end);
+  if (!field) return { text: next, cursor: caret };
+
+  // A selection is overwritten in place; a plain insert overwrites up to the field's end
+  const end = removed > 0 ? start + removed : Math.min(field.end, start + inserted.length);
+  const pieces = completeSegments(segments, previous).filter(p => p.start < end && p.end > start);
+  if (pieces.some(p => !isFixedWidth(p)) || (pieces.length ? pieces[pieces.length - 1].end : start) < end) {
+    return { text: next, cursor: caret };
+  }
+
+  const width = end - start;
+  const replacement = inserted.slice(0, width).padEnd(width, ' ');
+  return {
+    text: previous.slice(0, start) + replacement + previous.slice(end),
+    cursor: start + Math.min(inserted.length, width),
+  };
+}
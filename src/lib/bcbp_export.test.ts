@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { toJsonExport, toCsv, toIcs, buildExport, EXPORT_SCHEMA_VERSION, CSV_COLUMNS } from './bcbp_export';
+
+// Two legs on day 326 and 327, resolved against a reference date in the same year
+const MULTI_LEG_PASS =
+"M2DESMARAIS/LUC       E" +
+"ABC123 " + "YUL" + "FRA" + "AC " + "0834 " + "326" + "J" + "001A" + "0025 " + "1" + "11" +
+">6" + "0B" + "1" + "W" + "W" + "6225" + "B" + "AC " +
+"00" +
+"DEF456 " + "FRA" + "GVA" + "LH " + "3664A" + "327" + "C" + "012C" + "0026 " + "1" + "0F" +
+"0D" + "220" + "2512345678";
+
+const REFERENCE = new Date(2026, 10, 1);
+const parsed = parseBCBP(MULTI_LEG_PASS).data!;
+
+describe('Exports', () => {
+  it('wraps the pass and segments in a versioned JSON document', () => {
+    const result = parseBCBP(MULTI_LEG_PASS);
+    const doc = JSON.parse(toJsonExport(result.data!, result.segments, new Date('2026-11-01T10:00:00Z')));
+    expect(doc.format).toBe('bcbp-export');
+    expect(doc.version).toBe(EXPORT_SCHEMA_VERSION);
+    expect(doc.exportedAt).toBe('2026-11-01T10:00:00.000Z');
+    expect(doc.pass.legs).toHaveLength(2);
+    expect(doc.segments.find((s: { label: string }) => s.label === 'PNR Code').value).toBe('ABC123');
+  });
+
+  it('writes one CSV row per leg', () => {
+    const lines = toCsv(parsed, REFERENCE).trimEnd().split('\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(CSV_COLUMNS.join(','));
+    expect(lines[1]).toBe('DESMARAIS/LUC,ABC123,2026-11-22,Air Canada,AC834,YUL,FRA,Business Class,1A,25,,');
+    expect(lines[2]).toContain('DEF456,2026-11-23,Lufthansa,LH3664A,FRA,GVA');
+    expect(lines[2]).toContain('220 2512345678');
+  });
+
+  it('quotes CSV fields that contain separators', () => {
+    const quoted = { ...parsed, passengerName: 'DOE, "JJ"/JOHN' };
+    expect(toCsv(quoted, REFERENCE).split('\r\n')[1]).toMatch(/^"DOE, ""JJ""\/JOHN",/);
+  });
+
+  it('creates one all-day calendar event per leg', () => {
+    const ics = toIcs(parsed, REFERENCE, new Date('2026-11-01T10:00:00Z'));
+    const unfolded = ics.replace(/\r\n /g, '');
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(unfolded.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(unfolded).toContain('DTSTART;VALUE=DATE:20261122\r\nDTEND;VALUE=DATE:20261123');
+    expect(unfolded).toContain('SUMMARY:AC834 YUL → FRA · Seat 1A');
+    expect(unfolded).toContain('DTSTAMP:20261101T100000Z');
+    expect(unfolded).toContain('Booking reference: DEF456');
+    expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+
+  it('leaves undated legs out of the calendar', () => {
+    const undated = { ...parsed, legs: [{ ...parsed.legs[0], dateOfFlight: null }, parsed.legs[1]] };
+    expect(toIcs(undated, REFERENCE).match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it('names files after the first flight', () => {
+    const file = buildExport('ics', parsed, undefined, REFERENCE);
+    expect(file.filename).toBe('boarding-pass-AC834-2026-11-22.ics');
+    expect(file.mimeType).toBe('text/calendar');
+  });
+});
@@ -0,0 +1,188 @@
+import type { ParsedBcbp, Segment } from './bcbp';
+import { resolveBcbpDates } from './bcbp_dates';
+import { getLegTicket, formatTicketNumber } from './bcbp_ticket';
+import { airlineName, findAirport } from './reference_data';
+
+// --- Types ---
+
+export type ExportFormat = 'json' | 'csv' | 'ics';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+// Shape of the JSON export; bump EXPORT_SCHEMA_VERSION when it changes
+export interface BcbpJsonExport {
+  format: 'bcbp-export';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  pass: ParsedBcbp;
+  segments?: Segment[];
+}
+
+// --- Constants ---
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const CSV_COLUMNS = [
+  'Passenger', 'PNR', 'Date', 'Airline', 'Flight', 'From', 'To', 'Cabin', 'Seat', 'Sequence', 'Ticket Number', 'Frequent Flyer',
+] as const;
+
+const PRODID = '-//BCBP Decoder//Boarding Pass Export//EN';
+
+// --- Helpers ---
+
+type Leg = ParsedBcbp['legs'][number];
+
+const isoDate = (date: Date) => date.toISOString().substring(0, 10);
+
+// Resolved flight date per leg, as YYYY-MM-DD; null when the pass has no usable date
+function legDates(parsed: ParsedBcbp, reference: Date): Array<string | null> {
+  const { legs } = resolveBcbpDates(parsed, reference);
+  return parsed.legs.map((_, idx) => {
+    const flight = legs[idx]?.flight;
+    return flight ? isoDate(flight.date) : null;
+  });
+}
+
+const flightCode = (leg: Leg) => `${leg.operatingCarrier}${leg.flightNumber}`;
+
+// RFC 4180: quote fields holding separators, quotes or line breaks
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 5545 TEXT escaping
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 folds content lines longer than 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return isoDate(day);
+}
+
+const airportLabel = (code: string) => {
+  const airport = findAirport(code);
+  return airport ? `${airport.name}, ${airport.city}` : code;
+};
+
+// Base name shared by every export of one pass, e.g. "boarding-pass-BA123-2025-04-17"
+export function exportBaseName(parsed: ParsedBcbp, reference: Date = new Date()): string {
+  const leg = parsed.legs[0];
+  if (!leg) return 'boarding-pass';
+  const date = legDates(parsed, reference)[0];
+  return ['boarding-pass', flightCode(leg), date].filter(Boolean).join('-').replace(/[^A-Za-z0-9-]/g, '');
+}
+
+// --- Exports ---
+
+export function toJsonExport(parsed: ParsedBcbp, segments?: Segment[], exportedAt: Date = new Date()): string {
+  const exported: BcbpJsonExport = {
+    format: 'bcbp-export',
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    pass: parsed,
+    segments,
+  };
+  return JSON.stringify(exported, null, 2);
+}
+
+// One row per leg, with a header row; CRLF line endings as spreadsheets expect
+export function toCsv(parsed: ParsedBcbp, reference: Date = new Date()): string {
+  const dates = legDates(parsed, reference);
+  const rows = parsed.legs.map((leg, idx) => {
+    const ticket = getLegTicket(leg);
+    const frequentFlyer = leg.frequentFlyerNumber?.trim()
+      ? `${leg.frequentFlyerAirline?.trim() || ''} ${leg.frequentFlyerNumber.trim()}`.trim()
+      : '';
+    return [
+      parsed.passengerName,
+      leg.pnrCode,
+      dates[idx] || '',
+      airlineName(leg.operatingCarrier),
+      flightCode(leg),
+      leg.departureAirport,
+      leg.arrivalAirport,
+      leg.compartment?.description || leg.compartment?.code || '',
+      leg.seatNumber,
+      leg.sequenceNumber,
+      ticket ? formatTicketNumber(ticket) : '',
+      frequentFlyer,
+    ];
+  });
+  return [[...CSV_COLUMNS], ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * One all-day VEVENT per leg: BCBP carries the flight date but no times.
+ * Legs without a usable date are left out, since an event needs a start.
+ */
+export function toIcs(parsed: ParsedBcbp, reference: Date = new Date(), stamp: Date = new Date()): string {
+  const dates = legDates(parsed, reference);
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+  parsed.legs.forEach((leg, idx) => {
+    const date = dates[idx];
+    if (!date) return;
+    const description = [
+      `Flight ${leg.operatingCarrier} ${leg.flightNumber}`,
+      `${airportLabel(leg.departureAirport)} to ${airportLabel(leg.arrivalAirport)}`,
+      `Passenger: ${parsed.passengerName}`,
+      leg.seatNumber && `Seat: ${leg.seatNumber}`,
+      leg.pnrCode && `Booking reference: ${leg.pnrCode}`,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${[leg.pnrCode, flightCode(leg), date, idx].join('-').replace(/\s/g, '')}@bcbp-export`,
+      `DTSTAMP:${icsTimestamp(stamp)}`,
+      `DTSTART;VALUE=DATE:${icsDate(date)}`,
+      `DTEND;VALUE=DATE:${icsDate(nextDay(date))}`,
+      `SUMMARY:${icsText(`${flightCode(leg)} ${leg.departureAirport} → ${leg.arrivalAirport}${leg.seatNumber ? ` · Seat ${leg.seatNumber}` : ''}`)}`,
+      `LOCATION:${icsText(airportLabel(leg.departureAirport))}`,
+      `DESCRIPTION:${icsText(description)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function buildExport(format: ExportFormat, parsed: ParsedBcbp, segments?: Segment[], reference: Date = new Date()): ExportFile {
+  const base = exportBaseName(parsed, reference);
+  switch (format) {
+    case 'json': return { filename: `${base}.json`, mimeType: 'application/json', content: toJsonExport(parsed, segments) };
+    case 'csv': return { filename: `${base}.csv`, mimeType: 'text/csv', content: toCsv(parsed, reference) };
+    case 'ics': return { filename: `${base}.ics`, mimeType: 'text/calendar', content: toIcs(parsed, reference) };
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import type { ParsedBcbp } from './bcbp';
+import { buildItinerary, describeGap } from './bcbp_itinerary';
+
+const REFERENCE = new Date('2026-04-10T12:00:00Z');
+
+const leg = (from: string, to: string, day: number, pnr = 'ABC123', flightNumber = '123') => ({
+  pnrCode: pnr,
+  departureAirport: from,
+  arrivalAirport: to,
+  operatingCarrier: 'BA',
+  flightNumber,
+  dateOfFlight: day,
+  compartment: { code: 'J', description: 'Business Class' },
+  seatNumber: '01A',
+  sequenceNumber: '0001',
+});
+
+const pass = (...legs: ParsedBcbp['legs']): ParsedBcbp => ({
+  formatCode: 'M',
+  numberOfLegs: legs.length,
+  passengerName: 'DOE/JOHN',
+  electronicTicket: 'E',
+  legs,
+});
+
+describe('buildItinerary', () => {
+  it('lays out legs with their connections and day gaps', () => {
+    const itinerary = buildItinerary(pass(leg('EDI', 'LHR', 107, 'ABC123', '1453'), leg('LHR', 'SIN', 107), leg('SIN', 'SYD', 110)), REFERENCE);
+
+    expect(itinerary.legs.map(l => `${l.from}-${l.to} ${l.flight} ${l.seat} ${l.cabin}`)).toEqual([
+      'EDI-LHR BA 1453 01A Business Class',
+      'LHR-SIN BA 123 01A Business Class',
+      'SIN-SYD BA 123 01A Business Class',
+    ]);
+    expect(itinerary.connections).toEqual([
+      { afterLeg: 0, airport: 'LHR', gapDays: 0, issues: [] },
+      { afterLeg: 1, airport: 'SIN', gapDays: 3, issues: [] },
+    ]);
+    expect(itinerary.issues).toEqual([]);
+  });
+
+  it('flags airports that do not connect and dates that go backwards', () => {
+    const itinerary = buildItinerary(pass(leg('LHR', 'JFK', 110), leg('EWR', 'LHR', 108)), REFERENCE);
+
+    expect(itinerary.connections[0]).toMatchObject({ airport: undefined, gapDays: -2, issues: ['AIRPORT_MISMATCH', 'DATE_BACKWARDS'] });
+    expect(itinerary.issues.map(i => i.message)).toEqual([
+      'Leg 1 arrives at JFK but Leg 2 departs from EWR.',
+      'Leg 2 is dated 2 days before Leg 1.',
+    ]);
+  });
+
+  it('flags booking references that change between legs', () => {
+    const itinerary = buildItinerary(pass(leg('LHR', 'DXB', 107), leg('DXB', 'SYD', 108, 'XYZ789'), leg('SYD', 'AKL', 110)), REFERENCE);
+
+    expect(itinerary.issues).toEqual([
+      { code: 'PNR_MISMATCH', legs: [0, 1], message: 'Booking references differ: Leg 1 is ABC123, Leg 2 is XYZ789.' },
+    ]);
+  });
+
+  it('leaves the gap open when a date is missing', () => {
+    const undated = { ...leg('DXB', 'SYD', 0), dateOfFlight: null };
+    expect(buildItinerary(pass(leg('LHR', 'DXB', 107), undated), REFERENCE).connections[0].gapDays).toBeNull();
+  });
+});
+
+describe('describeGap', () => {
+  it('words short gaps', () => {
+    expect([0, 1, 4].map(describeGap)).toEqual(['Same day', 'Next day', '4 days']);
+  });
+});
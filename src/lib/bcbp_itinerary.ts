@@ -0,0 +1,118 @@
+import type { ParsedBcbp } from './bcbp';
+import { resolveBcbpDates, daysBetween, ResolvedDate } from './bcbp_dates';
+
+// --- Types ---
+
+type Leg = ParsedBcbp['legs'][number];
+
+export interface ItineraryLeg {
+  index: number;
+  from: string;
+  to: string;
+  flight: string; // Carrier and number, e.g. "BA 123"
+  seat?: string;
+  cabin?: string; // Compartment description, or the code when it has none
+  pnr?: string;
+  date: ResolvedDate | null;
+}
+
+export type ItineraryIssueCode = 'AIRPORT_MISMATCH' | 'DATE_BACKWARDS' | 'PNR_MISMATCH';
+
+export interface Connection {
+  afterLeg: number;        // Index of the leg arriving; the next one departs
+  airport?: string;        // Where the connection is made, when the airports match
+  gapDays: number | null;  // Days from one flight to the next, when both dates resolved
+  issues: ItineraryIssueCode[];
+}
+
+export interface ItineraryIssue {
+  code: ItineraryIssueCode;
+  legs: number[]; // Indexes of the legs involved
+  message: string;
+}
+
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  connections: Connection[]; // One between each pair of consecutive legs
+  issues: ItineraryIssue[];
+}
+
+// --- Helpers ---
+
+const clean = (value: string | undefined) => value?.trim() || undefined;
+
+const legLabel = (index: number) => `Leg ${index + 1}`;
+
+function toItineraryLeg(leg: Leg, index: number, date: ResolvedDate | null): ItineraryLeg {
+  return {
+    index,
+    from: leg.departureAirport,
+    to: leg.arrivalAirport,
+    flight: `${leg.operatingCarrier} ${leg.flightNumber}`.trim(),
+    seat: clean(leg.seatNumber),
+    cabin: leg.compartment?.description || clean(leg.compartment?.code),
+    pnr: clean(leg.pnrCode),
+    date,
+  };
+}
+
+// --- Itinerary ---
+
+/**
+ * Lays out the legs of a pass in order with the connections between them,
+ * and flags legs that don't fit together: a leg departing from somewhere other
+ * than where the previous one landed, a flight dated before the one it
+ * follows, or a booking reference that changes partway through.
+ */
+export function buildItinerary(parsed: ParsedBcbp, reference: Date = new Date()): Itinerary {
+  const dates = resolveBcbpDates(parsed, reference);
+  const legs = parsed.legs.map((leg, idx) => toItineraryLeg(leg, idx, dates.legs[idx]?.flight ?? null));
+  const connections: Connection[] = [];
+  const issues: ItineraryIssue[] = [];
+
+  for (let i = 1; i < legs.length; i++) {
+    const prev = legs[i - 1];
+    const next = legs[i];
+    const sameAirport = prev.to === next.from;
+    const gapDays = prev.date && next.date ? daysBetween(prev.date.date, next.date.date) : null;
+    const connection: Connection = { afterLeg: prev.index, airport: sameAirport ? prev.to : undefined, gapDays, issues: [] };
+    connections.push(connection);
+
+    if (!sameAirport) {
+      connection.issues.push('AIRPORT_MISMATCH');
+      issues.push({
+        code: 'AIRPORT_MISMATCH',
+        legs: [prev.index, next.index],
+        message: `${legLabel(prev.index)} arrives at ${prev.to} but ${legLabel(next.index)} departs from ${next.from}.`,
+      });
+    }
+    if (gapDays !== null && gapDays < 0) {
+      connection.issues.push('DATE_BACKWARDS');
+      issues.push({
+        code: 'DATE_BACKWARDS',
+        legs: [prev.index, next.index],
+        message: `${legLabel(next.index)} is dated ${-gapDays} day${gapDays === -1 ? '' : 's'} before ${legLabel(prev.index)}.`,
+      });
+    }
+  }
+
+  // Every leg is compared with the first, so one odd leg out is named once
+  const firstPnr = legs[0]?.pnr;
+  const otherPnrs = legs.filter(leg => leg.pnr && firstPnr && leg.pnr !== firstPnr);
+  if (otherPnrs.length > 0) {
+    issues.push({
+      code: 'PNR_MISMATCH',
+      legs: [0, ...otherPnrs.map(leg => leg.index)],
+      message: `Booking references differ: ${legLabel(0)} is ${firstPnr}, ${otherPnrs.map(leg => `${legLabel(leg.index)} is ${leg.pnr}`).join(', ')}.`,
+    });
+  }
+
+  return { legs, connections, issues };
+}
+
+// "Same day", "Next day", "3 days"
+export function describeGap(days: number): string {
+  if (days === 0) return 'Same day';
+  if (days === 1) return 'Next day';
+  return `${days} days`;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeBcbpInput } from './bcbp_normalize';
+import { parseBCBP } from './bcbp';
+
+const PASS = "M1DOE/JOHN            E1234567LHRJFKBA 0123 107Y012A0001 100";
+
+describe('BCBP Input Normalization', () => {
+  it('leaves clean input untouched', () => {
+    const result = normalizeBcbpInput(PASS);
+    expect(result.changed).toBe(false);
+    expect(result.normalized).toBe(PASS);
+    expect(result.removed).toEqual([]);
+  });
+
+  it('strips AIM symbology identifiers', () => {
+    for (const aim of [']L2', ']z0', ']Q1']) {
+      const result = normalizeBcbpInput(aim + PASS);
+      expect(result.normalized).toBe(PASS);
+      expect(result.offset).toBe(3);
+      expect(result.removed[0]).toMatchObject({ label: 'AIM Symbology Identifier', raw: aim, start: 0, end: 3, section: 'wrapper' });
+    }
+  });
+
+  it('strips stacked BOM, whitespace and a trailing CR/LF', () => {
+    const result = normalizeBcbpInput('\uFEFF  ]L2' + PASS + '\r\n');
+    expect(result.normalized).toBe(PASS);
+    expect(result.removed.map(s => s.label)).toEqual([
+      'Byte Order Mark', 'Whitespace', 'AIM Symbology Identifier', 'Whitespace',
+    ]);
+    expect(result.removed[3]).toMatchObject({ start: 6 + PASS.length, end: 8 + PASS.length });
+  });
+
+  it('keeps trailing spaces, which are valid field padding', () => {
+    const padded = PASS + '   ';
+    expect(normalizeBcbpInput(padded).normalized).toBe(padded);
+  });
+
+  it('strips stray characters before the format code', () => {
+    const result = normalizeBcbpInput('#@!' + PASS);
+    expect(result.normalized).toBe(PASS);
+    expect(result.removed[0]).toMatchObject({ label: 'Leading Garbage', raw: '#@!' });
+  });
+
+  it('does not search deep into the payload for a format code', () => {
+    const input = 'X'.repeat(20) + PASS;
+    expect(normalizeBcbpInput(input).changed).toBe(false);
+  });
+});
+
+describe('parseBCBP with normalization', () => {
+  it('reports offsets against the original input', () => {
+    const input = ']L2' + PASS + '\n';
+    const result = parseBCBP(input);
+    expect(result.success).toBe(true);
+    expect(result.data?.passengerName).toBe('DOE/JOHN');
+    expect(result.normalization?.changed).toBe(true);
+    // One notice per wrapper, covering just the wrapper's characters
+    expect(result.diagnostics.map(({ severity, code, start, end }) => ({ severity, code, start, end }))).toEqual([
+      { severity: 'info', code: 'INPUT_NORMALIZED', start: 0, end: 3 },
+      { severity: 'info', code: 'INPUT_NORMALIZED', start: input.length - 1, end: input.length },
+    ]);
+
+    const segments = result.segments!;
+    expect(segments[0]).toMatchObject({ section: 'wrapper', start: 0, end: 3 });
+    expect(segments.find(s => s.label === 'Format Code')).toMatchObject({ start: 3, end: 4 });
+    expect(segments[segments.length - 1]).toMatchObject({ section: 'wrapper', raw: '\n' });
+    // Every character is accounted for
+    expect(segments.map(s => s.raw).join('')).toBe(input);
+  });
+
+  it('can be turned off', () => {
+    const result = parseBCBP(']L2' + PASS, { normalize: false });
+    expect(result.normalization).toBeUndefined();
+    expect(result.diagnostics.map(d => d.code)).toContain('INVALID_FORMAT_CODE');
+  });
+});
@@ -0,0 +1,119 @@
+import type { Segment } from './bcbp';
+
+// --- Types ---
+
+export type WrapperKind = 'bom' | 'whitespace' | 'control' | 'aim_identifier' | 'leading_garbage';
+
+export interface NormalizationResult {
+  input: string;       // Exactly what the scanner delivered
+  normalized: string;  // What the parser should see
+  offset: number;      // Index in `input` where `normalized` starts
+  removed: Segment[];  // One 'wrapper' segment per stripped run, in `input` offsets
+  changed: boolean;
+}
+
+// --- Rules ---
+
+// Characters handheld readers and OS clipboards wrap around the payload.
+// Spaces are only stripped at the start: trailing spaces are valid BCBP padding.
+const BOM = '\uFEFF';
+const LEADING_SPACE = /^[ \t\r\n\u00A0]+/;
+const CONTROL_CHARS = /^[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]+/;
+const TRAILING_JUNK = /[\r\n\t\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]+$/;
+
+// ISO/IEC 15424 symbology identifier: "]" + code character + modifier, e.g. ]L2 (PDF417), ]z0 (Aztec), ]Q1 (QR)
+const AIM_IDENTIFIER = /^\][A-Za-z][0-9A-Za-z]/;
+
+// Where a real pass begins: format code 'M' and a leg count
+const BCBP_START = /M[1-9]/;
+
+// Readers prepend at most a few characters; don't go hunting through the payload
+const MAX_LEADING_GARBAGE = 16;
+const MIN_PAYLOAD_LENGTH = 30;
+
+const WRAPPER_LABELS: Record<WrapperKind, string> = {
+  bom: 'Byte Order Mark',
+  whitespace: 'Whitespace',
+  control: 'Control Characters',
+  aim_identifier: 'AIM Symbology Identifier',
+  leading_garbage: 'Leading Garbage',
+};
+
+function wrapperSegment(kind: WrapperKind, raw: string, start: number): Segment {
+  return {
+    label: WRAPPER_LABELS[kind],
+    value: kind === 'aim_identifier' ? raw : JSON.stringify(raw).slice(1, -1),
+    raw,
+    start,
+    end: start + raw.length,
+    section: 'wrapper',
+  };
+}
+
+// --- Pipeline ---
+
+/**
+ * Strips scanner wrappers around a BCBP payload: BOM, whitespace, control
+ * characters, AIM symbology identifiers and stray characters before the 'M'
+ * format code. Every removed run is returned as a segment so the raw inspector
+ * can still account for each input character.
+ */
+export function normalizeBcbpInput(input: string): NormalizationResult {
+  const removed: Segment[] = [];
+  let start = 0;
+  let end = input.length;
+
+  const strip = (kind: WrapperKind, length: number) => {
+    removed.push(wrapperSegment(kind, input.substring(start, start + length), start));
+    start += length;
+  };
+
+  // Leading wrappers can be stacked (e.g. BOM, then "]L2", then a newline), so loop until stable
+  let progressed = true;
+  while (progressed && start < end) {
+    progressed = false;
+    const rest = input.substring(start, end);
+
+    if (rest.startsWith(BOM)) {
+      strip('bom', BOM.length);
+      progressed = true;
+      continue;
+    }
+
+    for (const [kind, pattern] of [['whitespace', LEADING_SPACE], ['control', CONTROL_CHARS], ['aim_identifier', AIM_IDENTIFIER]] as const) {
+      const match = rest.match(pattern);
+      if (match) {
+        strip(kind, match[0].length);
+        progressed = true;
+        break;
+      }
+    }
+  }
+
+  const trailing = input.substring(start, end).match(TRAILING_JUNK);
+  let trailingSegment: Segment | undefined;
+  if (trailing) {
+    end -= trailing[0].length;
+    const kind: WrapperKind = /^[\r\n\t]+$/.test(trailing[0]) ? 'whitespace' : 'control';
+    trailingSegment = wrapperSegment(kind, trailing[0], end);
+  }
+
+  const body = input.substring(start, end);
+  if (!body.startsWith('M') || !BCBP_START.test(body.substring(0, 2))) {
+    const match = body.match(BCBP_START);
+    if (match && match.index !== undefined && match.index > 0 && match.index <= MAX_LEADING_GARBAGE
+        && body.length - match.index >= MIN_PAYLOAD_LENGTH) {
+      strip('leading_garbage', match.index);
+    }
+  }
+
+  if (trailingSegment) removed.push(trailingSegment);
+
+  return {
+    input,
+    normalized: input.substring(start, end),
+    offset: start,
+    removed,
+    changed: removed.length > 0,
+  };
+}
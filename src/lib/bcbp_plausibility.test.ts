@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { ParsedBcbp } from './bcbp';
+import { parseBCBP } from './bcbp';
+import { checkPlausibility, riskLevel, PlausibilityOptions } from './bcbp_plausibility';
+import { loadReferenceData, ReferenceData } from './reference_data';
+
+const REFERENCE = new Date('2026-04-10T12:00:00Z');
+
+const leg = (overrides: Partial<ParsedBcbp['legs'][number]> = {}): ParsedBcbp['legs'][number] => ({
+  pnrCode: 'ABC123',
+  departureAirport: 'LHR',
+  arrivalAirport: 'JFK',
+  operatingCarrier: 'BA',
+  flightNumber: '123',
+  dateOfFlight: 107,
+  compartment: { code: 'Y', description: 'Economy' },
+  seatNumber: '12A',
+  sequenceNumber: '1',
+  ...overrides,
+});
+
+const pass = (overrides: Partial<ParsedBcbp> = {}, ...legs: ParsedBcbp['legs']): ParsedBcbp => ({
+  formatCode: 'M',
+  numberOfLegs: legs.length || 1,
+  passengerName: 'DOE/JOHN',
+  electronicTicket: 'E',
+  legs: legs.length ? legs : [leg()],
+  ...overrides,
+});
+
+let referenceData: ReferenceData;
+const check = (parsed: ParsedBcbp, options: PlausibilityOptions = {}) => checkPlausibility(parsed, { reference: REFERENCE, referenceData, ...options });
+const codes = (parsed: ParsedBcbp, options: PlausibilityOptions = {}) => check(parsed, options).findings.map(f => f.code);
+
+describe('checkPlausibility', () => {
+  beforeAll(async () => {
+    referenceData = await loadReferenceData();
+  });
+
+  it('finds nothing odd on an ordinary pass', () => {
+    const parsed = parseBCBP('M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100').data!;
+    expect(check(parsed)).toEqual({ score: 0, level: 'low', findings: [], unchecked: [] });
+  });
+
+  it('flags unknown airports and airlines once each', () => {
+    const parsed = pass({ issuer: 'Q#' }, leg({ arrivalAirport: 'QQQ' }), leg({ departureAirport: 'QQQ', arrivalAirport: 'LHR', operatingCarrier: 'Q#' }));
+    const report = check(parsed);
+    expect(report.findings.map(f => [f.code, f.leg, f.message])).toEqual([
+      ['UNKNOWN_AIRPORT', 0, 'Leg 1: Airport code QQQ is not a known airport.'],
+      ['UNKNOWN_AIRLINE', 1, 'Leg 2: Operating carrier Q# is not a known airline.'],
+    ]);
+  });
+
+  it('says when airport and airline codes were not checked', () => {
+    const report = checkPlausibility(pass({}, leg({ arrivalAirport: 'QQQ' })), { reference: REFERENCE });
+    expect(report.findings).toEqual([]);
+    expect(report.unchecked).toEqual(['UNKNOWN_AIRPORT', 'UNKNOWN_AIRLINE']);
+  });
+
+  it('flags a flight that lands where it took off', () => {
+    expect(codes(pass({}, leg({ arrivalAirport: 'LHR' })))).toEqual(['SAME_AIRPORTS']);
+  });
+
+  it('flags seats no cabin could have', () => {
+    const message = (seatNumber: string, code = 'Y') =>
+      check(pass({}, leg({ seatNumber, compartment: { code, description: '' } }))).findings[0]?.message;
+
+    expect(message('12I')).toBe('Seat 12I uses letter I, which no cabin layout has.');
+    expect(message('12')).toBe('Seat 12 is not a row number followed by a letter.');
+    expect(message('45A', 'F')).toBe('Seat 45A is in row 45, further back than First seating (F) goes.');
+    expect(message('45A', 'J')).toBeUndefined();
+    expect(message('INF')).toBeUndefined();
+    expect(message('')).toBeUndefined();
+  });
+
+  it('flags a flight dated before the pass was issued', () => {
+    expect(codes(pass({ issuanceDate: 6100 }, leg({ dateOfFlight: 95 })))).toEqual(['FLIGHT_BEFORE_ISSUANCE']);
+    expect(codes(pass({ issuanceDate: 6100 }, leg({ dateOfFlight: 101 })))).toEqual([]);
+  });
+
+  it('flags codeshares across rival alliances', () => {
+    expect(codes(pass({}, leg({ marketingCarrier: 'AA' })))).toEqual([]);
+    expect(codes(pass({}, leg({ marketingCarrier: 'BAW' })))).toEqual([]);
+    const report = check(pass({}, leg({ marketingCarrier: 'LH' })));
+    expect(report.findings).toEqual([{
+      code: 'CARRIER_COMBINATION',
+      severity: 'low',
+      message: 'Flight operated by British Airways (oneworld) is marketed by Lufthansa (Star Alliance).',
+      leg: 0,
+    }]);
+  });
+
+  it('flags unsigned passes from issuers with a key on the keyring', () => {
+    const keyring = [{ issuer: 'BA', securityType: '1', algorithm: 'ECDSA-P256-SHA256' as const, publicKey: '' }];
+    expect(codes(pass(), { keyring })).toEqual(['MISSING_SECURITY']);
+    expect(codes(pass({ securityDataType: '1', securityData: 'c2lnbmF0dXJl' }), { keyring })).toEqual([]);
+    expect(codes(pass())).toEqual([]);
+  });
+
+  it('flags names without a slash and sequence numbers out of range', () => {
+    expect(codes(pass({ passengerName: 'JOHN DOE' }))).toEqual(['NAME_FORMAT']);
+    expect(check(pass({}, leg({ sequenceNumber: '' }))).findings[0].message).toBe('Check-in sequence is missing.');
+    expect(check(pass({}, leg({ sequenceNumber: '0' }))).findings[0].message).toBe('Check-in sequence is 0; check-in numbering starts at 1.');
+    expect(codes(pass({}, leg({ sequenceNumber: '12A' })))).toEqual([]);
+    expect(codes(pass({}, leg({ sequenceNumber: '4X1' })))).toEqual(['SEQUENCE_RANGE']);
+    expect(check(pass({}, leg({ sequenceNumber: '2500' }))).findings[0].severity).toBe('low');
+  });
+
+  it('scores findings by severity, most severe first', () => {
+    const report = check(pass({ passengerName: 'JOHN DOE' }, leg({ arrivalAirport: 'LHR', seatNumber: '12I' })));
+    expect(report.findings.map(f => f.code)).toEqual(['SAME_AIRPORTS', 'NAME_FORMAT', 'SEAT_IMPOSSIBLE']);
+    expect(report.score).toBe(80);
+    expect(report.level).toBe('high');
+  });
+});
+
+describe('riskLevel', () => {
+  it('bands the score', () => {
+    expect([0, 10, 20, 49, 50, 100].map(riskLevel)).toEqual(['low', 'low', 'medium', 'medium', 'high', 'high']);
+  });
+});
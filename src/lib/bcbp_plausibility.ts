@@ -0,0 +1,191 @@
+import type { ParsedBcbp } from './bcbp';
+import { resolveBcbpDates } from './bcbp_dates';
+import { Cabin, CABIN_LABELS, cabinForCompartment } from './bcbp_codes';
+import { getSigningIssuer } from './bcbp_security';
+import { findAirline, findAirport, ReferenceData } from './reference_data';
+import { BCBP_KEYRING, KeyringEntry } from '../data/bcbp_keyring';
+
+// --- Types ---
+
+type Leg = ParsedBcbp['legs'][number];
+
+export type PlausibilityCode =
+  | 'UNKNOWN_AIRPORT'
+  | 'UNKNOWN_AIRLINE'
+  | 'SAME_AIRPORTS'
+  | 'SEAT_IMPOSSIBLE'
+  | 'FLIGHT_BEFORE_ISSUANCE'
+  | 'CARRIER_COMBINATION'
+  | 'MISSING_SECURITY'
+  | 'NAME_FORMAT'
+  | 'SEQUENCE_RANGE';
+
+export type PlausibilitySeverity = 'low' | 'medium' | 'high';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface PlausibilityFinding {
+  code: PlausibilityCode;
+  severity: PlausibilitySeverity;
+  message: string;
+  leg?: number; // Index of the leg the finding is about; missing for pass-wide ones
+}
+
+export interface PlausibilityReport {
+  score: number; // 0 (nothing odd) to 100
+  level: RiskLevel;
+  findings: PlausibilityFinding[]; // Most severe first
+  unchecked: PlausibilityCode[];  // Rules that could not run, so a low score doesn't vouch for them
+}
+
+export interface PlausibilityOptions {
+  reference?: Date;        // "Today" for resolving dates; defaults to now
+  keyring?: KeyringEntry[]; // Issuers with a key here are expected to sign their passes
+  referenceData?: ReferenceData | null; // Full airport and airline lists; codes go unchecked without them
+}
+
+// --- Helpers ---
+
+const SEVERITY_POINTS: Record<PlausibilitySeverity, number> = { low: 10, medium: 20, high: 40 };
+const SEVERITY_ORDER: PlausibilitySeverity[] = ['high', 'medium', 'low'];
+
+// Furthest-back row each cabin plausibly reaches; no aircraft has 100 rows
+const MAX_ROW: Record<Cabin, number> = { first: 20, business: 70, premium_economy: 80, economy: 99 };
+
+// Seat letters run A-K at most, and I is skipped so it isn't read as 1
+const SEAT_LETTERS = /^[A-HJK]$/;
+
+// A seat as printed, after the parser drops leading zeros: "12A", "3C"
+const SEAT_PATTERN = /^(\d{1,3})([A-Z])$/;
+
+// Check-in sequence numbers are four digits with an optional letter, counting up from 1
+const SEQUENCE_PATTERN = /^(\d*)([A-Z]?)$/;
+const MAX_PLAUSIBLE_SEQUENCE = 999;
+
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 50) return 'high';
+  if (score >= 20) return 'medium';
+  return 'low';
+}
+
+function checkSeat(leg: Leg): string | null {
+  const seat = leg.seatNumber.trim().toUpperCase();
+  // Blank or spelled out ("INF", "GATE", "STBY") means no seat is assigned yet
+  if (!seat || /^[A-Z]+$/.test(seat)) return null;
+
+  const match = seat.match(SEAT_PATTERN);
+  if (!match) return `Seat ${seat} is not a row number followed by a letter.`;
+  const [, row, letter] = match;
+  if (!SEAT_LETTERS.test(letter)) return `Seat ${seat} uses letter ${letter}, which no cabin layout has.`;
+
+  if (!leg.compartment) return null;
+  const cabin = cabinForCompartment(leg.compartment.code);
+  if (Number(row) > MAX_ROW[cabin]) {
+    return `Seat ${seat} is in row ${row}, further back than ${CABIN_LABELS[cabin]} seating (${leg.compartment.code}) goes.`;
+  }
+  return null;
+}
+
+function checkSequence(leg: Leg): { severity: PlausibilitySeverity; message: string } | null {
+  const sequence = leg.sequenceNumber.trim().toUpperCase();
+  if (!sequence) return { severity: 'medium', message: 'Check-in sequence is missing.' };
+  const match = sequence.match(SEQUENCE_PATTERN);
+  if (!match) return { severity: 'medium', message: `Check-in sequence ${sequence} is not a number.` };
+  const number = Number(match[1] || 0);
+  if (number === 0) return { severity: 'medium', message: 'Check-in sequence is 0; check-in numbering starts at 1.' };
+  if (number > MAX_PLAUSIBLE_SEQUENCE) {
+    return { severity: 'low', message: `Check-in sequence ${sequence} is higher than any flight has passengers.` };
+  }
+  return null;
+}
+
+// A codeshare between airlines in rival alliances is rare enough to look twice at
+function checkCarriers(leg: Leg, data: ReferenceData | null): string | null {
+  const marketing = leg.marketingCarrier?.trim();
+  if (!marketing) return null;
+  const operating = findAirline(leg.operatingCarrier, data);
+  const marketer = findAirline(marketing, data);
+  if (!operating || !marketer || operating === marketer) return null;
+  if (operating.alliance && marketer.alliance && operating.alliance !== marketer.alliance) {
+    return `Flight operated by ${operating.name} (${operating.alliance}) is marketed by ${marketer.name} (${marketer.alliance}).`;
+  }
+  return null;
+}
+
+// --- Checker ---
+
+/**
+ * Runs cross-field rules over a parsed pass and scores how suspicious it
+ * looks. Each finding adds points by severity; the score is capped at 100.
+ * Airport and airline codes are only checked against the full reference
+ * lists passed in, since the curated fallback would flag most of them;
+ * without the lists those rules are listed as unchecked in the report.
+ */
+export function checkPlausibility(parsed: ParsedBcbp, options: PlausibilityOptions = {}): PlausibilityReport {
+  const { reference = new Date(), keyring = BCBP_KEYRING, referenceData = null } = options;
+  const findings: PlausibilityFinding[] = [];
+  const unchecked: PlausibilityCode[] = [];
+  const multiLeg = parsed.legs.length > 1;
+  const add = (code: PlausibilityCode, severity: PlausibilitySeverity, message: string, leg?: number) =>
+    findings.push({ code, severity, message: leg !== undefined && multiLeg ? `Leg ${leg + 1}: ${message}` : message, leg });
+
+  const name = parsed.passengerName.trim();
+  if (!name.includes('/')) {
+    // The name itself stays out of the message, so the report is safe to show on a redacted pass
+    add('NAME_FORMAT', 'medium', name ? 'Passenger name has no "/" between surname and given name.' : 'Passenger name is blank.');
+  }
+
+  if (referenceData) {
+    const reported = new Set<string>();
+    const checkAirport = (code: string, leg: number) => {
+      if (!code || reported.has(code) || findAirport(code, referenceData)) return;
+      reported.add(code);
+      add('UNKNOWN_AIRPORT', 'medium', `Airport code ${code} is not a known airport.`, leg);
+    };
+    const checkAirline = (code: string | undefined, role: string, leg?: number) => {
+      const designator = code?.trim();
+      if (!designator || reported.has(designator) || findAirline(designator, referenceData)) return;
+      reported.add(designator);
+      add('UNKNOWN_AIRLINE', 'medium', `${role} ${designator} is not a known airline.`, leg);
+    };
+
+    parsed.legs.forEach((leg, idx) => {
+      checkAirport(leg.departureAirport, idx);
+      checkAirport(leg.arrivalAirport, idx);
+      checkAirline(leg.operatingCarrier, 'Operating carrier', idx);
+      checkAirline(leg.marketingCarrier, 'Marketing carrier', idx);
+    });
+    checkAirline(parsed.issuer, 'Issuer');
+  } else {
+    unchecked.push('UNKNOWN_AIRPORT', 'UNKNOWN_AIRLINE');
+  }
+
+  const dates = resolveBcbpDates(parsed, reference);
+  parsed.legs.forEach((leg, idx) => {
+    if (leg.departureAirport && leg.departureAirport === leg.arrivalAirport) {
+      add('SAME_AIRPORTS', 'high', `Departs from and arrives at ${leg.departureAirport}.`, idx);
+    }
+
+    const seat = checkSeat(leg);
+    if (seat) add('SEAT_IMPOSSIBLE', 'medium', seat, idx);
+
+    if (dates.legs[idx]?.beforeIssuance) {
+      add('FLIGHT_BEFORE_ISSUANCE', 'high', 'Flight date is before the date the pass was issued.', idx);
+    }
+
+    const carriers = checkCarriers(leg, referenceData);
+    if (carriers) add('CARRIER_COMBINATION', 'low', carriers, idx);
+
+    const sequence = checkSequence(leg);
+    if (sequence) add('SEQUENCE_RANGE', sequence.severity, sequence.message, idx);
+  });
+
+  const issuer = getSigningIssuer(parsed);
+  if (issuer && !parsed.securityData?.trim() && keyring.some(k => k.issuer.trim() === issuer)) {
+    add('MISSING_SECURITY', 'high', `${issuer} signs its boarding passes, but this one has no security data.`);
+  }
+
+  findings.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+  const score = Math.min(100, findings.reduce((sum, f) => sum + SEVERITY_POINTS[f.severity], 0));
+  return { score, level: riskLevel(score), findings, unchecked };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { exposureReport, redactRaw, redactPass } from './bcbp_redact';
+
+const SIMPLE_PASS = "M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100";
+
+// Every Section A/B field, so every sensitive field is present
+const FULL_PASS =
+"M1DESMARAIS/LUC       E" +
+"ABC123 " + "YUL" + "FRA" + "AC " + "0834 " + "326" + "J" + "001A" + "0025 " + "1" + "4D" +
+">6" + "18" + "1" + "W" + "W" + "6225" + "B" + "AC " + "0014123456003" +
+"2A" + "014" + "1234567890" + " " + "1" + "AC " + "AC " + "1234567890123   " + "1" + "20K" + "Y" +
+"LX58Z" +
+"^1" + "0A" + "ABCDEFGHIJ";
+
+describe('Redaction', () => {
+  it('reports only the sensitive fields a pass carries', () => {
+    const full = exposureReport(parseBCBP(FULL_PASS).data!);
+    expect(full.map(e => e.field)).toEqual(['passengerName', 'pnrCode', 'frequentFlyerNumber', 'ticketSerial', 'baggageTag']);
+    expect(full.find(e => e.field === 'pnrCode')!.values).toEqual(['ABC123']);
+    expect(full.find(e => e.field === 'baggageTag')!.values).toEqual(['0014123456003']);
+
+    const simple = exposureReport(parseBCBP(SIMPLE_PASS).data!);
+    expect(simple.map(e => e.field)).toEqual(['passengerName', 'pnrCode']);
+  });
+
+  it('masks sensitive fields across their full width and nothing else', () => {
+    const redacted = redactRaw(FULL_PASS);
+    expect(redacted).toHaveLength(FULL_PASS.length);
+    expect(redacted.startsWith('M1' + 'X'.repeat(20) + 'E' + 'X'.repeat(7) + 'YULFRA')).toBe(true);
+    expect(redacted.endsWith('LX58Z^10AABCDEFGHIJ')).toBe(true);
+    expect(redacted).not.toContain('DESMARAIS');
+    expect(redacted).not.toContain('1234567890');
+    expect(redacted).not.toContain('0014123456003');
+  });
+
+  it('produces a string that still parses to the same flight', () => {
+    const original = parseBCBP(FULL_PASS).data!;
+    const { parsed, diagnostics } = redactPass(original, FULL_PASS);
+    const [leg] = parsed.legs;
+
+    expect(diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+    expect(parsed.passengerName).toBe('X'.repeat(20));
+    expect(leg.pnrCode).toBe('X'.repeat(7));
+    expect(leg.frequentFlyerNumber).toBe('X'.repeat(16));
+    expect(leg.serialNumber).toBe('X'.repeat(10));
+    expect(parsed.baggageTags![0].raw).toBe('X'.repeat(13));
+
+    // Everything else is untouched
+    expect(leg.flightNumber).toBe(original.legs[0].flightNumber);
+    expect(leg.seatNumber).toBe(original.legs[0].seatNumber);
+    expect(leg.airlineNumericCode).toBe('014');
+    expect(leg.frequentFlyerAirline).toBe('AC ');
+    expect(parsed.securityData).toBe(original.securityData);
+  });
+
+  it('leaves blank fields blank and can work from parsed data alone', () => {
+    const original = parseBCBP(SIMPLE_PASS).data!;
+    const fromParsed = redactPass(original);
+    expect(fromParsed.parsed).toEqual(redactPass(original, SIMPLE_PASS).parsed);
+    expect(fromParsed.parsed.passengerName).toBe('X'.repeat(20));
+    expect(fromParsed.parsed.legs[0].frequentFlyerNumber).toBeUndefined();
+  });
+
+  it('refuses input that does not parse', () => {
+    expect(() => redactRaw('M1')).toThrow(/parses/);
+  });
+});
@@ -0,0 +1,113 @@
+import { parseBCBP, encodeBCBP, ParsedBcbp, Segment, Diagnostic } from './bcbp';
+
+// --- Types ---
+
+export type SensitiveField = 'passengerName' | 'pnrCode' | 'frequentFlyerNumber' | 'ticketSerial' | 'baggageTag';
+
+export interface SensitiveFieldInfo {
+  label: string;
+  segmentLabels: string[]; // Parser segment labels holding this field
+  exposes: string;         // What someone who reads it off a photo can do with it
+}
+
+export interface Exposure {
+  field: SensitiveField;
+  label: string;
+  values: string[]; // Distinct values on the pass, e.g. one PNR per booking
+  exposes: string;
+}
+
+export interface RedactedPass {
+  raw: string;
+  parsed: ParsedBcbp;
+  segments?: Segment[];
+  diagnostics: Diagnostic[];
+}
+
+// --- Constants ---
+
+export const MASK_CHAR = 'X';
+
+export const SENSITIVE_FIELDS: Record<SensitiveField, SensitiveFieldInfo> = {
+  passengerName: {
+    label: 'Passenger Name',
+    segmentLabels: ['Passenger Name'],
+    exposes: 'Who you are. With the booking reference it is all most airlines ask for to open the booking online.',
+  },
+  pnrCode: {
+    label: 'Booking Reference (PNR)',
+    segmentLabels: ['PNR Code'],
+    exposes: 'Together with your surname it opens the booking: change or cancel flights, and see contact details, passport data and fellow travellers.',
+  },
+  frequentFlyerNumber: {
+    label: 'Frequent Flyer Number',
+    segmentLabels: ['Frequent Flyer Number'],
+    exposes: 'Your loyalty account. It is used to phish for the account login and to claim miles or status on it.',
+  },
+  ticketSerial: {
+    label: 'Ticket Serial Number',
+    segmentLabels: ['Document Form/Serial Number'],
+    exposes: 'Identifies the ticket itself; some airlines and agents accept it to look up, change or refund the trip.',
+  },
+  baggageTag: {
+    label: 'Baggage Tag Numbers',
+    segmentLabels: ['Baggage Tag License Plate Number', 'First Non-Consecutive Baggage Tag', 'Second Non-Consecutive Baggage Tag'],
+    exposes: 'Identify your checked bags; they are enough to track them or file a claim about them.',
+  },
+};
+
+const SENSITIVE_LABELS = new Set(Object.values(SENSITIVE_FIELDS).flatMap(info => info.segmentLabels));
+
+// --- Helpers ---
+
+const present = (values: Array<string | undefined>) =>
+  [...new Set(values.map(v => v?.trim()).filter((v): v is string => !!v))];
+
+function valuesOf(parsed: ParsedBcbp, field: SensitiveField): string[] {
+  switch (field) {
+    case 'passengerName': return present([parsed.passengerName]);
+    case 'pnrCode': return present(parsed.legs.map(l => l.pnrCode));
+    case 'frequentFlyerNumber': return present(parsed.legs.map(l => l.frequentFlyerNumber));
+    case 'ticketSerial': return present(parsed.legs.map(l => l.serialNumber));
+    case 'baggageTag': return present((parsed.baggageTags || []).map(t => t.raw));
+  }
+}
+
+// --- Public API ---
+
+// The sensitive fields this pass actually carries, in SENSITIVE_FIELDS order
+export function exposureReport(parsed: ParsedBcbp): Exposure[] {
+  return (Object.keys(SENSITIVE_FIELDS) as SensitiveField[])
+    .map(field => ({ field, label: SENSITIVE_FIELDS[field].label, exposes: SENSITIVE_FIELDS[field].exposes, values: valuesOf(parsed, field) }))
+    .filter(exposure => exposure.values.length > 0);
+}
+
+/**
+ * Masks every sensitive field of a scanned string in place. Each non-blank
+ * field is overwritten across its full width, so neither the value nor its
+ * length survives, while every other character (sizes, padding, security
+ * data) is left exactly as it was and the result still parses.
+ */
+export function redactRaw(raw: string): string {
+  const { segments } = parseBCBP(raw);
+  if (!segments) throw new Error('Only a boarding pass that parses can be redacted.');
+
+  const chars = raw.split('');
+  for (const seg of segments) {
+    if (!SENSITIVE_LABELS.has(seg.label) || !seg.value) continue;
+    for (let i = seg.start; i < seg.end; i++) chars[i] = MASK_CHAR;
+  }
+  return chars.join('');
+}
+
+/**
+ * Redacts a pass and parses the result again, so the viewer can show the
+ * redacted version like any other scan. Without the scanned string the
+ * pass is re-encoded first.
+ */
+export function redactPass(parsed: ParsedBcbp, raw?: string): RedactedPass {
+  const redacted = redactRaw(raw ?? encodeBCBP(parsed));
+  const result = parseBCBP(redacted);
+  if (!result.success || !result.data) throw new Error(result.error || 'The redacted pass did not parse.');
+  return { raw: redacted, parsed: result.data, segments: result.segments, diagnostics: result.diagnostics };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { generateTestKeyPair, signBCBP, verifyBcbpSignature, getSignedPortion, TestKeyPair } from './bcbp_security';
+
+const UNSIGNED =
+  "M1DESMARAIS/LUC       E" +
+  "ABC123 " + "YUL" + "FRA" + "AC " + "0834 " + "326" + "J" + "001A" + "0025 " + "1" + "11" +
+  ">6" + "0B" + "1" + "W" + "W" + "6225" + "B" + "AC " +
+  "00";
+
+describe('BCBP Security Verification', () => {
+  let keys: TestKeyPair;
+  let signed: string;
+
+  beforeAll(async () => {
+    keys = await generateTestKeyPair('AC');
+    signed = await signBCBP(UNSIGNED, keys.privateKey);
+  });
+
+  it('produces a security block the parser understands', () => {
+    const result = parseBCBP(signed);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.data?.securityDataType).toBe('1');
+    expect(getSignedPortion(signed, result.segments)).toBe(UNSIGNED);
+  });
+
+  it('verifies a pass signed with a key in the keyring', async () => {
+    const { data, segments } = parseBCBP(signed);
+    const result = await verifyBcbpSignature(signed, data!, segments, [keys.entry]);
+    expect(result.status).toBe('verified');
+    expect(result.key).toBe(keys.entry);
+  });
+
+  it('ignores scanner wrappers around a signed pass', async () => {
+    const scanned = ']L2' + signed + '\r\n';
+    const { data, segments } = parseBCBP(scanned);
+    const result = await verifyBcbpSignature(scanned, data!, segments, [keys.entry]);
+    expect(result.status).toBe('verified');
+  });
+
+  it('rejects a pass whose signed data was altered', async () => {
+    const tampered = signed.replace('001A', '002A');
+    const { data, segments } = parseBCBP(tampered);
+    const result = await verifyBcbpSignature(tampered, data!, segments, [keys.entry]);
+    expect(result.status).toBe('invalid');
+  });
+
+  it('rejects a signature from a different key for the same issuer', async () => {
+    const other = await generateTestKeyPair('AC');
+    const { data, segments } = parseBCBP(signed);
+    const result = await verifyBcbpSignature(signed, data!, segments, [other.entry]);
+    expect(result.status).toBe('invalid');
+  });
+
+  it('reports an unknown key when the issuer or security type has none', async () => {
+    const { data, segments } = parseBCBP(signed);
+    const wrongIssuer = { ...keys.entry, issuer: 'LH' };
+    const wrongType = { ...keys.entry, securityType: '2' };
+    expect((await verifyBcbpSignature(signed, data!, segments, [wrongIssuer])).status).toBe('unknown_key');
+    expect((await verifyBcbpSignature(signed, data!, segments, [wrongType])).status).toBe('unknown_key');
+  });
+
+  it('reports unsigned passes', async () => {
+    const { data, segments } = parseBCBP(UNSIGNED);
+    const result = await verifyBcbpSignature(UNSIGNED, data!, segments, [keys.entry]);
+    expect(result.status).toBe('unsigned');
+  });
+});
@@ -0,0 +1,157 @@
+import { ParsedBcbp, Segment } from './bcbp';
+import { BCBP_KEYRING, KeyringEntry, SecurityAlgorithm } from '../data/bcbp_keyring';
+
+// --- Types ---
+
+export type VerificationStatus = 'verified' | 'invalid' | 'unknown_key' | 'unsigned';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  message: string;
+  issuer?: string;
+  securityType?: string;
+  key?: KeyringEntry; // The key that verified the pass
+}
+
+export interface TestKeyPair {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  entry: KeyringEntry; // Ready to drop into a keyring
+}
+
+// --- Helpers ---
+
+const ALGORITHMS: Record<SecurityAlgorithm, { key: EcKeyImportParams; sign: EcdsaParams }> = {
+  'ECDSA-P256-SHA256': {
+    key: { name: 'ECDSA', namedCurve: 'P-256' },
+    sign: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(b64: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(b64.trim());
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The signed portion of a pass: everything before the '^' security indicator.
+ * Uses the parser's segments so a '^' inside e.g. airline data isn't mistaken for it.
+ * `raw` is the original scanner input the segments were produced from.
+ */
+export function getSignedPortion(raw: string, segments?: Segment[]): string {
+  const indicator = segments?.find(s => s.label === 'Security Indicator');
+  if (indicator) {
+    // Scanner wrappers stripped by normalization aren't part of what the issuer signed
+    const payloadStart = Math.min(...segments!.filter(s => s.section !== 'wrapper').map(s => s.start));
+    return raw.substring(payloadStart, indicator.start);
+  }
+  const caret = raw.lastIndexOf('^');
+  return caret >= 0 ? raw.substring(0, caret) : raw;
+}
+
+// The issuer designator in Section A, falling back to the first leg's operating carrier
+export function getSigningIssuer(data: ParsedBcbp): string | undefined {
+  const issuer = data.issuer?.trim() || data.legs[0]?.operatingCarrier?.trim();
+  return issuer || undefined;
+}
+
+export function findKeys(issuer: string, securityType: string, keyring: KeyringEntry[] = BCBP_KEYRING): KeyringEntry[] {
+  return keyring.filter(k => k.issuer.trim() === issuer && k.securityType === securityType);
+}
+
+async function importPublicKey(entry: KeyringEntry): Promise<CryptoKey | null> {
+  const spki = fromBase64(entry.publicKey);
+  if (!spki) return null;
+  try {
+    return await crypto.subtle.importKey('spki', spki, ALGORITHMS[entry.algorithm].key, false, ['verify']);
+  } catch {
+    return null;
+  }
+}
+
+// --- Verification ---
+
+/**
+ * Checks the security data block of a pass against the keyring.
+ * `raw` must be the exact input the segments were produced from.
+ */
+export async function verifyBcbpSignature(
+  raw: string,
+  data: ParsedBcbp,
+  segments?: Segment[],
+  keyring: KeyringEntry[] = BCBP_KEYRING,
+): Promise<VerificationResult> {
+  const securityType = data.securityDataType?.trim();
+  if (!securityType || !data.securityData) {
+    return { status: 'unsigned', message: 'The pass carries no security data.' };
+  }
+
+  const issuer = getSigningIssuer(data);
+  const keys = issuer ? findKeys(issuer, securityType, keyring) : [];
+  if (!issuer || keys.length === 0) {
+    return {
+      status: 'unknown_key',
+      message: `No public key for issuer ${issuer || '(unknown)'} and security type ${securityType}.`,
+      issuer,
+      securityType,
+    };
+  }
+
+  const signature = fromBase64(data.securityData);
+  if (!signature) {
+    return { status: 'invalid', message: 'Security data is not a base64 signature.', issuer, securityType };
+  }
+
+  const signed = new TextEncoder().encode(getSignedPortion(raw, segments));
+  for (const entry of keys) {
+    const publicKey = await importPublicKey(entry);
+    if (!publicKey) continue;
+    const ok = await crypto.subtle.verify(ALGORITHMS[entry.algorithm].sign, publicKey, signature, signed);
+    if (ok) {
+      return { status: 'verified', message: `Signature verified with ${entry.label || `${issuer} key`}.`, issuer, securityType, key: entry };
+    }
+  }
+
+  return { status: 'invalid', message: `Signature does not match any ${issuer} key.`, issuer, securityType };
+}
+
+// --- Signing (test keys) ---
+
+/**
+ * Generates a throwaway keypair so signing and verification can be exercised
+ * offline. The public half comes back as a keyring entry.
+ */
+export async function generateTestKeyPair(issuer: string, securityType: string = '1'): Promise<TestKeyPair> {
+  const algorithm: SecurityAlgorithm = 'ECDSA-P256-SHA256';
+  const pair = await crypto.subtle.generateKey(ALGORITHMS[algorithm].key, true, ['sign', 'verify']);
+  const spki = await crypto.subtle.exportKey('spki', pair.publicKey);
+  return {
+    privateKey: pair.privateKey,
+    publicKey: pair.publicKey,
+    entry: { issuer, securityType, algorithm, publicKey: toBase64(spki), label: `Test key (${issuer})` },
+  };
+}
+
+/**
+ * Appends a security data block signing everything in `unsigned`.
+ * `unsigned` must not already contain a security block.
+ */
+export async function signBCBP(unsigned: string, privateKey: CryptoKey, securityType: string = '1'): Promise<string> {
+  const algorithm = ALGORITHMS['ECDSA-P256-SHA256'];
+  const signature = await crypto.subtle.sign(algorithm.sign, privateKey, new TextEncoder().encode(unsigned));
+  const data = toBase64(signature);
+  const size = data.length.toString(16).toUpperCase().padStart(2, '0');
+  return `${unsigned}^${securityType.substring(0, 1)}${size}${data}`;
+}
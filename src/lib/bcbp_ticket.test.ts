@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { ticketCheckDigit, parseTicketNumber, getLegTicket, formatTicketNumber, resolveTicketingAirline } from './bcbp_ticket';
+
+// Section B only: numeric code 125 (BA), serial 2123456789, marketing carrier LH
+const SECTION_B = '125' + '2123456789' + ' ' + ' ' + 'LH ' + '   ' + '                ' + ' ' + '   ';
+const TICKETED_PASS = "M1DOE/JOHN            E" +
+  "ABC123 " + "LHR" + "GVA" + "BA " + "0117 " + "107" + "Y" + "012A" + "0001 " + "1" +
+  "2F" + ">6" + "00" + SECTION_B.length.toString(16).toUpperCase() + SECTION_B;
+
+describe('Ticket Numbers', () => {
+  it('computes the modulo-7 check digit from the serial', () => {
+    expect(ticketCheckDigit('2123456789')).toBe(6);
+    expect(ticketCheckDigit('21234567AB')).toBeNull();
+  });
+
+  it('resolves the numeric prefix to an airline', () => {
+    expect(resolveTicketingAirline('125')).toEqual({ designator: 'BA', name: 'British Airways' });
+    expect(resolveTicketingAirline('000')).toBeUndefined();
+  });
+
+  it('validates a provided check digit', () => {
+    const good = parseTicketNumber('125-2123456789 6')!;
+    expect(good.valid).toBe(true);
+    expect(good.checkDigitValid).toBe(true);
+
+    const bad = parseTicketNumber('12521234567895')!;
+    expect(bad.valid).toBe(false);
+    expect(bad.issues[0]).toMatch(/does not match/);
+
+    expect(parseTicketNumber('1252123')).toBeNull();
+  });
+
+  it('assembles the document number from a leg and flags carrier differences', () => {
+    const result = parseBCBP(TICKETED_PASS);
+    expect(result.success).toBe(true);
+    const ticket = getLegTicket(result.data!.legs[0])!;
+    expect(ticket.number).toBe('1252123456789');
+    expect(formatTicketNumber(ticket)).toBe('125 2123456789 6');
+    expect(ticket.ticketingAirline).toBe('BA');
+    expect(ticket.checkDigitValid).toBeUndefined(); // BCBP carries no check digit
+    expect(ticket.differsFrom).toEqual(['marketing']);
+  });
+
+  it('reports malformed fields and skips legs without them', () => {
+    const leg = parseBCBP(TICKETED_PASS).data!.legs[0];
+    const ticket = getLegTicket({ ...leg, serialNumber: 'ABC' })!;
+    expect(ticket.valid).toBe(false);
+    expect(ticket.checkDigit).toBeNull();
+    expect(getLegTicket({ ...leg, airlineNumericCode: undefined, serialNumber: '          ' })).toBeNull();
+  });
+});
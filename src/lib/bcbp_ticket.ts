@@ -0,0 +1,110 @@
+import type { ParsedBcbp } from './bcbp';
+import { AIRLINE_NUMERIC_CODES } from '../data/bcbp_reference';
+import { airlineName } from './reference_data';
+
+// --- Types ---
+
+type Leg = ParsedBcbp['legs'][number];
+
+export type CarrierRole = 'operating' | 'marketing';
+
+export interface TicketNumber {
+  airlineCode: string;      // 3-digit airline numeric code (ticketing prefix)
+  serial: string;           // 10-digit document form/serial number
+  number: string;           // The 13-digit document number, prefix + serial
+  checkDigit: number | null; // Computed coupon check digit; null when the serial isn't numeric
+  providedCheckDigit?: number; // Only when the input carried one (14-digit form)
+  checkDigitValid?: boolean;
+  ticketingAirline?: string; // Designator resolved from the numeric code
+  ticketingAirlineName?: string;
+  valid: boolean;
+  issues: string[];
+}
+
+export interface LegTicket extends TicketNumber {
+  differsFrom: CarrierRole[]; // Carriers on the leg that aren't the ticketing airline
+}
+
+// --- Helpers ---
+
+/**
+ * The IATA coupon check digit: the 10-digit document number (form code +
+ * serial, without the airline prefix) modulo 7. Returns null for non-numeric input.
+ */
+export function ticketCheckDigit(serial: string): number | null {
+  if (!/^\d{10}$/.test(serial)) return null;
+  return Number(serial) % 7;
+}
+
+export function resolveTicketingAirline(airlineCode: string): { designator: string; name: string } | undefined {
+  const designator = AIRLINE_NUMERIC_CODES[airlineCode];
+  if (!designator) return undefined;
+  return { designator, name: airlineName(designator) };
+}
+
+// "125 2123456789" with the check digit appended when known, e.g. "125 2123456789 4"
+export function formatTicketNumber(ticket: TicketNumber): string {
+  const base = `${ticket.airlineCode} ${ticket.serial}`;
+  return ticket.checkDigit === null ? base : `${base} ${ticket.checkDigit}`;
+}
+
+function buildTicket(airlineCode: string, serial: string, providedCheckDigit?: number): TicketNumber {
+  const issues: string[] = [];
+  if (!/^\d{3}$/.test(airlineCode)) issues.push(`Airline numeric code "${airlineCode}" is not 3 digits.`);
+  if (!/^\d{10}$/.test(serial)) issues.push(`Document serial number "${serial}" is not 10 digits.`);
+
+  const checkDigit = ticketCheckDigit(serial);
+  let checkDigitValid: boolean | undefined;
+  if (providedCheckDigit !== undefined && checkDigit !== null) {
+    checkDigitValid = providedCheckDigit === checkDigit;
+    if (!checkDigitValid) issues.push(`Check digit ${providedCheckDigit} does not match the computed ${checkDigit}.`);
+  }
+
+  const airline = resolveTicketingAirline(airlineCode);
+  return {
+    airlineCode,
+    serial,
+    number: airlineCode + serial,
+    checkDigit,
+    providedCheckDigit,
+    checkDigitValid,
+    ticketingAirline: airline?.designator,
+    ticketingAirlineName: airline?.name,
+    valid: issues.length === 0,
+    issues,
+  };
+}
+
+// --- Public API ---
+
+/**
+ * Parses a ticket number typed or printed elsewhere: 13 digits, or 14 with
+ * the check digit. Spaces and dashes are ignored. Returns null for anything else.
+ */
+export function parseTicketNumber(input: string): TicketNumber | null {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d{13,14}$/.test(digits)) return null;
+  const provided = digits.length === 14 ? Number(digits[13]) : undefined;
+  return buildTicket(digits.substring(0, 3), digits.substring(3, 13), provided);
+}
+
+/**
+ * Assembles the document number from a leg's Section B fields. BCBP carries
+ * no check digit, so it's computed rather than validated here.
+ * Returns null when the leg has neither field.
+ */
+export function getLegTicket(leg: Leg): LegTicket | null {
+  const airlineCode = leg.airlineNumericCode?.trim() || '';
+  const serial = leg.serialNumber?.trim() || '';
+  if (!airlineCode && !serial) return null;
+
+  const ticket = buildTicket(airlineCode, serial);
+  const differsFrom: CarrierRole[] = [];
+  if (ticket.ticketingAirline) {
+    const operating = leg.operatingCarrier?.trim();
+    const marketing = leg.marketingCarrier?.trim();
+    if (operating && operating !== ticket.ticketingAirline) differsFrom.push('operating');
+    if (marketing && marketing !== ticket.ticketingAirline) differsFrom.push('marketing');
+  }
+  return { ...ticket, differsFrom };
+}
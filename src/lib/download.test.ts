@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { downloadBlob } from './download';
+
+const { createObjectURL, revokeObjectURL } = URL;
+
+describe('downloadBlob', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+  });
+
+  it('clicks a link to the blob and revokes it once the click is handled', () => {
+    vi.useFakeTimers();
+    const revokeUrl = vi.fn();
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:file'), revokeObjectURL: revokeUrl });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      expect(this.download).toBe('pass.svg');
+      expect(this.href).toBe('blob:file');
+    });
+
+    downloadBlob('pass.svg', new Blob(['<svg/>'], { type: 'image/svg+xml' }));
+    expect(click).toHaveBeenCalledOnce();
+    expect(revokeUrl).not.toHaveBeenCalled();
+
+    vi.runAllTimers();
+    expect(revokeUrl).toHaveBeenCalledWith('blob:file');
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Saves a blob as a file through a temporary link. Some browsers only start
+ * the download after click() returns, so the object URL is revoked on the
+ * next tick rather than straight away.
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
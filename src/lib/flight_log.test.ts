@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { parseBCBP } from './bcbp';
+import { FlightLog, entriesFromPass, computeStats, searchEntries, dedupeKey, FlightLogEntry } from './flight_log';
+import { greatCircleKm, airportDistanceKm } from './geo';
+
+// BA 123 LHR-JFK on day 107, and a two-leg LHR-AMS-LHR pass on days 107 and 110
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const RETURN_PASS = 'M2DOE/JOHN            EABC123 LHRAMSKL 1000 107Y012A0001 100ABC123 AMSLHRKL 1001 110Y014C0002 100';
+
+const SAVED_AT = new Date(Date.UTC(2025, 3, 10));
+
+const entry = (overrides: Partial<FlightLogEntry>): FlightLogEntry => ({
+  id: overrides.id || 'x', raw: '', legIndex: 0, savedAt: SAVED_AT.toISOString(), flightDate: '2025-04-17',
+  passengerName: 'DOE/JOHN', pnrCode: 'ABC123', carrier: 'BA', flightNumber: '123', from: 'LHR', to: 'JFK',
+  ...overrides,
+});
+
+describe('Flight Log', () => {
+  beforeEach(async () => {
+    await FlightLog.destroy();
+  });
+
+  it('measures great-circle distances between known airports', () => {
+    expect(Math.round(greatCircleKm({ lat: 0, lon: 0 }, { lat: 0, lon: 180 }))).toBe(20015);
+    expect(Math.round(airportDistanceKm('LHR', 'JFK')!)).toBe(5540);
+    expect(airportDistanceKm('LHR', 'XXX')).toBeNull();
+  });
+
+  it('turns each leg of a pass into an entry with a resolved date', () => {
+    const entries = entriesFromPass(RETURN_PASS, parseBCBP(RETURN_PASS).data!, SAVED_AT);
+    expect(entries.map(e => [e.from, e.to, e.flightDate])).toEqual([
+      ['LHR', 'AMS', '2025-04-17'],
+      ['AMS', 'LHR', '2025-04-20'],
+    ]);
+    expect(dedupeKey(entries[0])).toBe('ABC123|KL1000|2025-04-17');
+  });
+
+  it('computes stats across entries', () => {
+    const stats = computeStats([
+      entry({ id: '1' }),
+      entry({ id: '2', from: 'JFK', to: 'LHR', flightDate: '2024-06-01' }),
+      entry({ id: '3', carrier: 'KL', from: 'LHR', to: 'AMS' }),
+      entry({ id: '4', from: 'LHR', to: 'XXX', flightDate: null }),
+    ]);
+    expect(stats.flights).toBe(4);
+    expect(stats.perYear).toEqual([{ year: 2025, count: 2 }, { year: 2024, count: 1 }]);
+    expect(stats.topRoutes[0]).toEqual({ route: 'JFK–LHR', count: 2 });
+    expect(stats.airlines[0]).toEqual({ carrier: 'BA', name: 'British Airways', count: 3 });
+    expect(stats.unmeasured).toBe(1);
+    expect(stats.totalDistanceKm).toBeGreaterThan(11000);
+  });
+
+  it('searches across names, flights, airports and notes', () => {
+    const entries = [entry({ id: '1', notes: 'Honeymoon' }), entry({ id: '2', carrier: 'KL', flightNumber: '1000', to: 'AMS' })];
+    expect(searchEntries(entries, 'kl1000').map(e => e.id)).toEqual(['2']);
+    expect(searchEntries(entries, 'honeymoon jfk').map(e => e.id)).toEqual(['1']);
+    expect(searchEntries(entries, 'british').map(e => e.id)).toEqual(['1']);
+    expect(searchEntries(entries, '  ')).toHaveLength(2);
+  });
+
+  it('stores entries encrypted and refuses the wrong passphrase', async () => {
+    expect(await FlightLog.exists()).toBe(false);
+    const log = await FlightLog.open('correct horse');
+    await log.addPass(PASS, parseBCBP(PASS).data!, SAVED_AT);
+    log.close();
+
+    expect(await FlightLog.exists()).toBe(true);
+    await expect(FlightLog.open('wrong horse')).rejects.toThrow('Incorrect passphrase.');
+
+    // What's at rest is ciphertext only
+    const db = await new Promise<IDBDatabase>(resolve => {
+      const req = indexedDB.open('bcbp-flight-log');
+      req.onsuccess = () => resolve(req.result);
+    });
+    const records = await new Promise<any[]>(resolve => {
+      const req = db.transaction('entries').objectStore('entries').getAll();
+      req.onsuccess = () => resolve(req.result);
+    });
+    db.close();
+    expect(records).toHaveLength(1);
+    expect(JSON.stringify(records[0])).not.toContain('DOE');
+
+    const reopened = await FlightLog.open('correct horse');
+    expect((await reopened.list())[0].passengerName).toBe('DOE/JOHN');
+    reopened.close();
+  });
+
+  it('skips flights already logged, and edits and deletes entries', async () => {
+    const log = await FlightLog.open('pw');
+    const first = await log.addPass(RETURN_PASS, parseBCBP(RETURN_PASS).data!, SAVED_AT);
+    expect(first.added).toHaveLength(2);
+    const again = await log.addPass(RETURN_PASS, parseBCBP(RETURN_PASS).data!, SAVED_AT);
+    expect(again).toEqual({ added: [], duplicates: 2 });
+
+    const [latest] = await log.list();
+    expect(latest.flightDate).toBe('2025-04-20');
+
+    // Editing one flight into a copy of the other leaves a duplicate to clean up
+    const edited = await log.update(latest.id, { from: 'LHR', to: 'AMS', flightNumber: '1000', flightDate: '2025-04-17', notes: 'typo' });
+    expect(edited.notes).toBe('typo');
+    expect(await log.removeDuplicates()).toBe(1);
+
+    const [remaining] = await log.list();
+    await log.remove(remaining.id);
+    expect(await log.list()).toHaveLength(0);
+    log.close();
+  });
+
+  it('saves a pass once when it is added twice at the same time', async () => {
+    const log = await FlightLog.open('pw');
+    const results = await Promise.all([
+      log.addPass(PASS, parseBCBP(PASS).data!, SAVED_AT),
+      log.addPass(PASS, parseBCBP(PASS).data!, SAVED_AT),
+    ]);
+    expect(results.map(r => r.added.length).sort()).toEqual([0, 1]);
+    expect(await log.list()).toHaveLength(1);
+    log.close();
+  });
+});
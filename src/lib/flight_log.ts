@@ -0,0 +1,347 @@
+import type { ParsedBcbp } from './bcbp';
+import { resolveBcbpDates } from './bcbp_dates';
+import { airportDistanceKm } from './geo';
+import { airlineName, findAirline } from './reference_data';
+
+// --- Types ---
+
+export interface FlightLogEntry {
+  id: string;
+  raw: string;             // The scanned string, so the pass can be decoded again later
+  legIndex: number;        // Which leg of a multi-leg pass this flight is
+  savedAt: string;         // ISO timestamp
+  flightDate: string | null; // YYYY-MM-DD as resolved when saved; null when the pass had no usable date
+  passengerName: string;
+  pnrCode: string;
+  carrier: string;
+  flightNumber: string;
+  from: string;
+  to: string;
+  cabin?: string;          // Compartment code
+  seat?: string;
+  notes?: string;
+}
+
+// Fields the history view lets people correct
+export type FlightLogEdit = Partial<Pick<FlightLogEntry, 'flightDate' | 'carrier' | 'flightNumber' | 'from' | 'to' | 'seat' | 'notes'>>;
+
+export interface FlightLogStats {
+  flights: number;
+  perYear: Array<{ year: number; count: number }>;     // Newest year first
+  topRoutes: Array<{ route: string; count: number }>;  // Direction-independent, e.g. "JFK–LHR"
+  airlines: Array<{ carrier: string; name: string; count: number }>;
+  totalDistanceKm: number;
+  unmeasured: number; // Flights whose airports have no coordinates
+}
+
+// What's kept in IndexedDB: only ciphertext, so nothing about the flights is readable at rest
+interface EncryptedRecord {
+  id: string;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+interface CryptoMeta {
+  key: 'crypto';
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  check: { iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer }; // Encrypts CHECK_TEXT, to tell a wrong passphrase apart
+}
+
+// --- Constants ---
+
+const DB_NAME = 'bcbp-flight-log';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const META = 'meta';
+const CHECK_TEXT = 'bcbp-flight-log';
+const PBKDF2_ITERATIONS = 310_000; // OWASP's recommendation for PBKDF2-HMAC-SHA256
+const MAX_SAVE_ATTEMPTS = 5;
+
+// --- IndexedDB helpers ---
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META)) db.createObjectStore(META, { keyPath: 'key' });
+  };
+  return request(req);
+}
+
+function store(db: IDBDatabase, name: string, mode: IDBTransactionMode): IDBObjectStore {
+  return db.transaction(name, mode).objectStore(name);
+}
+
+// --- Crypto helpers ---
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+async function encrypt(key: CryptoKey, plaintext: string): Promise<{ iv: Uint8Array<ArrayBuffer>; data: ArrayBuffer }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return { iv, data };
+}
+
+async function decrypt(key: CryptoKey, iv: Uint8Array<ArrayBuffer>, data: ArrayBuffer): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, data);
+  return new TextDecoder().decode(plaintext);
+}
+
+// --- Entries ---
+
+const isoDate = (date: Date) => date.toISOString().substring(0, 10);
+
+// One entry per leg, with the flight date resolved against when the pass was saved
+export function entriesFromPass(raw: string, parsed: ParsedBcbp, savedAt: Date = new Date()): FlightLogEntry[] {
+  const dates = resolveBcbpDates(parsed, savedAt);
+  return parsed.legs.map((leg, legIndex) => {
+    const flight = dates.legs[legIndex]?.flight;
+    return {
+      id: crypto.randomUUID(),
+      raw,
+      legIndex,
+      savedAt: savedAt.toISOString(),
+      flightDate: flight ? isoDate(flight.date) : null,
+      passengerName: parsed.passengerName,
+      pnrCode: leg.pnrCode,
+      carrier: leg.operatingCarrier,
+      flightNumber: leg.flightNumber,
+      from: leg.departureAirport,
+      to: leg.arrivalAirport,
+      cabin: leg.compartment?.code,
+      seat: leg.seatNumber || undefined,
+    };
+  });
+}
+
+// The same flight on the same booking, however many times it was scanned
+export function dedupeKey(entry: FlightLogEntry): string {
+  return [entry.pnrCode, `${entry.carrier}${entry.flightNumber}`, entry.flightDate ?? '?'].map(s => s.trim().toUpperCase()).join('|');
+}
+
+export function searchEntries(entries: FlightLogEntry[], query: string): FlightLogEntry[] {
+  const terms = query.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(e => {
+    const haystack = [
+      e.passengerName, e.pnrCode, e.carrier, `${e.carrier}${e.flightNumber}`, `${e.carrier} ${e.flightNumber}`,
+      e.from, e.to, e.flightDate ?? '', findAirline(e.carrier)?.name ?? '', e.notes ?? '',
+    ].join(' ').toUpperCase();
+    return terms.every(t => haystack.includes(t));
+  });
+}
+
+// Newest flight first; undated flights last
+export function sortEntries(entries: FlightLogEntry[]): FlightLogEntry[] {
+  return [...entries].sort((a, b) => (b.flightDate ?? '').localeCompare(a.flightDate ?? '') || b.savedAt.localeCompare(a.savedAt));
+}
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+export function computeStats(entries: FlightLogEntry[], top: number = 5): FlightLogStats {
+  let totalDistanceKm = 0;
+  let unmeasured = 0;
+  for (const e of entries) {
+    const km = airportDistanceKm(e.from, e.to);
+    if (km === null) unmeasured++;
+    else totalDistanceKm += km;
+  }
+
+  return {
+    flights: entries.length,
+    perYear: countBy(entries.filter(e => e.flightDate), e => e.flightDate!.substring(0, 4))
+      .map(([year, count]) => ({ year: Number(year), count }))
+      .sort((a, b) => b.year - a.year),
+    topRoutes: countBy(entries, e => [e.from, e.to].sort().join('–'))
+      .slice(0, top)
+      .map(([route, count]) => ({ route, count })),
+    airlines: countBy(entries, e => e.carrier)
+      .slice(0, top)
+      .map(([carrier, count]) => ({ carrier, name: airlineName(carrier), count })),
+    totalDistanceKm: Math.round(totalDistanceKm),
+    unmeasured,
+  };
+}
+
+// --- Log ---
+
+/**
+ * A passphrase-encrypted flight log in IndexedDB. Every entry is encrypted
+ * with AES-GCM under a key derived from the passphrase (PBKDF2), so the
+ * passphrase is needed to read anything back. Nothing leaves the browser.
+ */
+export class FlightLog {
+  private constructor(private db: IDBDatabase, private key: CryptoKey) {}
+
+  // Whether a log has been created in this browser
+  static async exists(): Promise<boolean> {
+    const db = await openDatabase();
+    try {
+      return (await request(store(db, META, 'readonly').get('crypto'))) !== undefined;
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Unlocks the log, creating it on first use. Throws when the passphrase
+   * doesn't match the one the log was created with.
+   */
+  static async open(passphrase: string): Promise<FlightLog> {
+    if (!passphrase) throw new Error('A passphrase is required.');
+    const db = await openDatabase();
+    try {
+      const meta = await request(store(db, META, 'readonly').get('crypto')) as CryptoMeta | undefined;
+      if (!meta) {
+        const salt = crypto.getRandomValues(new Uint8Array(16));
+        const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+        const check = await encrypt(key, CHECK_TEXT);
+        const created: CryptoMeta = { key: 'crypto', salt, iterations: PBKDF2_ITERATIONS, check };
+        await request(store(db, META, 'readwrite').put(created));
+        return new FlightLog(db, key);
+      }
+
+      const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+      try {
+        if (await decrypt(key, meta.check.iv, meta.check.data) !== CHECK_TEXT) throw new Error();
+      } catch {
+        throw new Error('Incorrect passphrase.');
+      }
+      return new FlightLog(db, key);
+    } catch (e) {
+      db.close();
+      throw e;
+    }
+  }
+
+  // Deletes the log and its key material; there's no way to recover it afterwards
+  static async destroy(): Promise<void> {
+    await request(indexedDB.deleteDatabase(DB_NAME));
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  async list(): Promise<FlightLogEntry[]> {
+    return sortEntries(await this.decryptAll(await this.records()));
+  }
+
+  private async records(): Promise<EncryptedRecord[]> {
+    return await request(store(this.db, ENTRIES, 'readonly').getAll()) as EncryptedRecord[];
+  }
+
+  private decryptAll(records: EncryptedRecord[]): Promise<FlightLogEntry[]> {
+    return Promise.all(records.map(async r => JSON.parse(await decrypt(this.key, r.iv, r.data)) as FlightLogEntry));
+  }
+
+  private async seal(entry: FlightLogEntry): Promise<EncryptedRecord> {
+    const { iv, data } = await encrypt(this.key, JSON.stringify(entry));
+    return { id: entry.id, iv, data };
+  }
+
+  private async put(entry: FlightLogEntry): Promise<void> {
+    const record = await this.seal(entry);
+    await request(store(this.db, ENTRIES, 'readwrite').put(record));
+  }
+
+  /**
+   * Writes `records` in one readwrite transaction, but only if the store
+   * still holds exactly `snapshot`. Each write gets a fresh IV, so any
+   * change since the snapshot was read shows up. Resolves whether it wrote.
+   */
+  private putIfUnchanged(snapshot: EncryptedRecord[], records: EncryptedRecord[]): Promise<boolean> {
+    const fingerprint = (list: EncryptedRecord[]) => list.map(r => `${r.id}:${Array.from(r.iv).join('.')}`).sort().join('|');
+    const expected = fingerprint(snapshot);
+    const tx = this.db.transaction(ENTRIES, 'readwrite');
+    const entries = tx.objectStore(ENTRIES);
+    let written = false;
+    return new Promise((resolve, reject) => {
+      const current = entries.getAll();
+      current.onsuccess = () => {
+        if (fingerprint(current.result as EncryptedRecord[]) !== expected) return;
+        records.forEach(r => entries.put(r));
+        written = true;
+      };
+      tx.oncomplete = () => resolve(written);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Saves each leg of a pass, skipping flights already in the log
+   * (same PNR, flight and date). Returns what was added. Entries can only be
+   * compared once decrypted, and a transaction doesn't survive the wait for
+   * that, so the check runs on a snapshot and the write only lands if the
+   * log hasn't changed since; otherwise it starts over.
+   */
+  async addPass(raw: string, parsed: ParsedBcbp, savedAt: Date = new Date()): Promise<{ added: FlightLogEntry[]; duplicates: number }> {
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      const snapshot = await this.records();
+      const existing = new Set((await this.decryptAll(snapshot)).map(dedupeKey));
+      const added: FlightLogEntry[] = [];
+      for (const entry of entriesFromPass(raw, parsed, savedAt)) {
+        const key = dedupeKey(entry);
+        if (existing.has(key)) continue;
+        existing.add(key);
+        added.push(entry);
+      }
+      if (await this.putIfUnchanged(snapshot, await Promise.all(added.map(e => this.seal(e))))) {
+        return { added, duplicates: parsed.legs.length - added.length };
+      }
+    }
+    throw new Error('The flight log kept changing while saving; try again.');
+  }
+
+  async update(id: string, edit: FlightLogEdit): Promise<FlightLogEntry> {
+    const current = (await this.list()).find(e => e.id === id);
+    if (!current) throw new Error(`No flight log entry ${id}.`);
+    const updated = { ...current, ...edit };
+    await this.put(updated);
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    await request(store(this.db, ENTRIES, 'readwrite').delete(id));
+  }
+
+  // Drops entries that repeat an earlier one, e.g. after edits made two flights identical
+  async removeDuplicates(): Promise<number> {
+    const seen = new Set<string>();
+    let removed = 0;
+    const oldestFirst = [...await this.list()].sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+    for (const entry of oldestFirst) {
+      const key = dedupeKey(entry);
+      if (seen.has(key)) {
+        await this.remove(entry.id);
+        removed++;
+      } else {
+        seen.add(key);
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { createGateSession, recordScan, sessionCounts, dayOfYear, cabinForCompartment, ExpectedFlight } from './gate_validation';
+import { loadReferenceData } from './reference_data';
+
+// BA 0123 LHR-JFK on day 107 (17 Apr in a non-leap year), compartment Y, seat 12A, sequence 1
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const OTHER_PASSENGER = 'M1DOE/JANE            E1234567LHRJFKBA 00123107J012B00002100';
+
+const EXPECTED: ExpectedFlight = { carrier: 'BA', flightNumber: '123', date: '2025-04-17', departureAirport: 'LHR' };
+
+describe('Gate Validation', () => {
+  it('converts dates to BCBP day of year', () => {
+    expect(dayOfYear('2025-04-17')).toBe(107);
+    expect(dayOfYear('2024-12-31')).toBe(366);
+    expect(dayOfYear('17/04/2025')).toBeNull();
+  });
+
+  it('groups compartments into cabins', () => {
+    expect(cabinForCompartment('F')).toBe('first');
+    expect(cabinForCompartment('J')).toBe('business');
+    expect(cabinForCompartment('W')).toBe('premium_economy');
+    expect(cabinForCompartment('Y')).toBe('economy');
+  });
+
+  it('accepts a pass for the expected flight', () => {
+    const { entry } = recordScan(createGateSession(EXPECTED), PASS);
+    expect(entry.verdict.accepted).toBe(true);
+    expect(entry.verdict.passengerName).toBe('DOE/JOHN');
+    expect(entry.verdict.boardingKey).toBe('1234567/1');
+  });
+
+  it('gives every reason a pass is for another flight', () => {
+    const expected = { carrier: 'LH', flightNumber: '0900', date: '2025-04-18', departureAirport: 'FRA' };
+    const { entry } = recordScan(createGateSession(expected), PASS);
+    expect(entry.verdict.accepted).toBe(false);
+    expect(entry.verdict.reasons.map(r => r.code)).toEqual(['WRONG_CARRIER', 'WRONG_FLIGHT', 'WRONG_DATE', 'WRONG_ORIGIN']);
+  });
+
+  it('checks the cabin only when one is set', () => {
+    const { entry } = recordScan(createGateSession({ ...EXPECTED, cabin: 'business' }), PASS);
+    expect(entry.verdict.reasons.map(r => r.code)).toEqual(['WRONG_CABIN']);
+    expect(recordScan(createGateSession({ ...EXPECTED, cabin: 'business' }), OTHER_PASSENGER).entry.verdict.accepted).toBe(true);
+  });
+
+  it('attaches plausibility findings without rejecting on them', () => {
+    const { entry } = recordScan(createGateSession(EXPECTED), PASS.replace('DOE/JOHN ', 'JOHN DOE '), new Date('2025-04-17T08:00:00Z'));
+    expect(entry.verdict.accepted).toBe(true);
+    expect(entry.verdict.plausibility?.findings.map(f => f.code)).toEqual(['NAME_FORMAT']);
+    expect(recordScan(createGateSession(EXPECTED), 'hello').entry.verdict.plausibility).toBeUndefined();
+  });
+
+  it('checks codes against the reference lists it is given, whatever has loaded', async () => {
+    const unknownTo = PASS.replace('LHRJFK', 'LHRQQQ');
+    const scannedAt = new Date('2025-04-17T08:00:00Z');
+    const referenceData = await loadReferenceData();
+
+    const without = recordScan(createGateSession(EXPECTED), unknownTo, scannedAt).entry.verdict.plausibility!;
+    expect(without.findings).toEqual([]);
+    expect(without.unchecked).toEqual(['UNKNOWN_AIRPORT', 'UNKNOWN_AIRLINE']);
+
+    const withLists = recordScan(createGateSession(EXPECTED), unknownTo, scannedAt, referenceData).entry.verdict.plausibility!;
+    expect(withLists.findings.map(f => f.code)).toEqual(['UNKNOWN_AIRPORT']);
+    expect(withLists.unchecked).toEqual([]);
+  });
+
+  it('rejects unreadable scans', () => {
+    const { entry } = recordScan(createGateSession(EXPECTED), 'hello');
+    expect(entry.verdict.reasons[0].code).toBe('UNREADABLE');
+  });
+
+  it('finds duplicates by PNR and sequence number and keeps counts', () => {
+    let session = createGateSession(EXPECTED);
+    session = recordScan(session, PASS).session;
+    session = recordScan(session, OTHER_PASSENGER).session;
+    const repeat = recordScan(session, PASS);
+    expect(repeat.entry.verdict.reasons.map(r => r.code)).toEqual(['DUPLICATE']);
+
+    session = recordScan(repeat.session, 'hello').session;
+    expect(sessionCounts(session)).toEqual({ total: 4, accepted: 2, rejected: 2, duplicates: 1 });
+    expect(session.entries[0].raw).toBe('hello'); // Newest first
+  });
+});
@@ -0,0 +1,176 @@
+import { parseBCBP, ParsedBcbp } from './bcbp';
+import { daysBetween } from './bcbp_dates';
+import { Cabin, CABIN_LABELS, cabinForCompartment } from './bcbp_codes';
+import { checkPlausibility, PlausibilityReport } from './bcbp_plausibility';
+import type { ReferenceData } from './reference_data';
+
+// Cabins are defined with the other BCBP codes; the gate screen takes them from here
+export type { Cabin } from './bcbp_codes';
+export { CABIN_LABELS, cabinForCompartment } from './bcbp_codes';
+
+// --- Types ---
+
+export interface ExpectedFlight {
+  carrier: string;      // Operating carrier designator, e.g. "BA"
+  flightNumber: string; // Leading zeros and an operational suffix are fine: "0123", "123A"
+  date: string;         // Local departure date as YYYY-MM-DD
+  departureAirport: string;
+  cabin?: Cabin;        // Only accept passes booked in this cabin
+}
+
+export type GateRejectCode =
+  | 'UNREADABLE'
+  | 'WRONG_CARRIER'
+  | 'WRONG_FLIGHT'
+  | 'WRONG_DATE'
+  | 'WRONG_ORIGIN'
+  | 'WRONG_CABIN'
+  | 'DUPLICATE';
+
+export interface GateReason {
+  code: GateRejectCode;
+  message: string;
+}
+
+export interface GateVerdict {
+  accepted: boolean;
+  reasons: GateReason[]; // Empty when accepted
+  passengerName?: string;
+  pnrCode?: string;
+  sequenceNumber?: string;
+  seatNumber?: string;
+  boardingKey?: string; // PNR + check-in sequence number; what duplicates are found by
+  plausibility?: PlausibilityReport; // Cross-field checks; advisory, never the reason for a rejection
+}
+
+export interface GateEntry {
+  id: number;
+  raw: string;
+  scannedAt: Date;
+  verdict: GateVerdict;
+}
+
+export interface GateSession {
+  expected: ExpectedFlight;
+  entries: GateEntry[]; // Newest first
+}
+
+export interface GateCounts {
+  total: number;
+  accepted: number;
+  rejected: number;
+  duplicates: number;
+}
+
+type Leg = ParsedBcbp['legs'][number];
+
+// --- Helpers ---
+
+const normalizeFlight = (flight: string) => flight.trim().toUpperCase().replace(/^0+/, '');
+
+// Day of year (1-366) for a YYYY-MM-DD date, the form BCBP flight dates take
+export function dayOfYear(date: string): number | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const year = Number(match[1]);
+  return daysBetween(new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3])))) + 1;
+}
+
+export function boardingKey(leg: Leg): string {
+  return `${leg.pnrCode.trim().toUpperCase()}/${leg.sequenceNumber.trim()}`;
+}
+
+// The leg for this flight on a multi-leg pass, or the first leg to report against
+function pickLeg(parsed: ParsedBcbp, expected: ExpectedFlight): Leg | undefined {
+  return parsed.legs.find(l =>
+    l.operatingCarrier.trim().toUpperCase() === expected.carrier.trim().toUpperCase() &&
+    normalizeFlight(l.flightNumber) === normalizeFlight(expected.flightNumber)
+  ) || parsed.legs[0];
+}
+
+// --- Validation ---
+
+/**
+ * Checks one pass against the expected flight. `boarded` holds the boarding
+ * keys already accepted this session; a repeat is rejected as a duplicate.
+ */
+export function checkPass(parsed: ParsedBcbp | undefined, expected: ExpectedFlight, boarded: Set<string>): GateVerdict {
+  const leg = parsed && pickLeg(parsed, expected);
+  if (!parsed || !leg) {
+    return { accepted: false, reasons: [{ code: 'UNREADABLE', message: 'Not a readable boarding pass.' }] };
+  }
+
+  const reasons: GateReason[] = [];
+  const carrier = expected.carrier.trim().toUpperCase();
+  const origin = expected.departureAirport.trim().toUpperCase();
+
+  if (leg.operatingCarrier.trim().toUpperCase() !== carrier) {
+    reasons.push({ code: 'WRONG_CARRIER', message: `Pass is for ${leg.operatingCarrier}, not ${carrier}.` });
+  }
+  if (normalizeFlight(leg.flightNumber) !== normalizeFlight(expected.flightNumber)) {
+    reasons.push({ code: 'WRONG_FLIGHT', message: `Pass is for flight ${leg.flightNumber}, not ${normalizeFlight(expected.flightNumber)}.` });
+  }
+  const expectedDay = dayOfYear(expected.date);
+  if (expectedDay !== null && leg.dateOfFlight !== expectedDay) {
+    reasons.push({ code: 'WRONG_DATE', message: `Pass is for day ${leg.dateOfFlight ?? '(blank)'} of the year, not day ${expectedDay}.` });
+  }
+  if (leg.departureAirport.trim().toUpperCase() !== origin) {
+    reasons.push({ code: 'WRONG_ORIGIN', message: `Pass departs ${leg.departureAirport}, not ${origin}.` });
+  }
+  if (expected.cabin && leg.compartment) {
+    const cabin = cabinForCompartment(leg.compartment.code);
+    if (cabin !== expected.cabin) {
+      reasons.push({ code: 'WRONG_CABIN', message: `Pass is ${CABIN_LABELS[cabin]} (${leg.compartment.code}), not ${CABIN_LABELS[expected.cabin]}.` });
+    }
+  }
+
+  const key = boardingKey(leg);
+  if (boarded.has(key)) {
+    reasons.push({ code: 'DUPLICATE', message: `Already accepted: PNR ${leg.pnrCode}, sequence ${leg.sequenceNumber}.` });
+  }
+
+  return {
+    accepted: reasons.length === 0,
+    reasons,
+    passengerName: parsed.passengerName,
+    pnrCode: leg.pnrCode,
+    sequenceNumber: leg.sequenceNumber,
+    seatNumber: leg.seatNumber,
+    boardingKey: key,
+  };
+}
+
+// --- Session ---
+
+export function createGateSession(expected: ExpectedFlight): GateSession {
+  return { expected, entries: [] };
+}
+
+export function boardedKeys(session: GateSession): Set<string> {
+  return new Set(session.entries.filter(e => e.verdict.accepted && e.verdict.boardingKey).map(e => e.verdict.boardingKey!));
+}
+
+// Parses and checks a scan, returning the session with the new entry first
+export function recordScan(
+  session: GateSession,
+  raw: string,
+  scannedAt: Date = new Date(),
+  referenceData: ReferenceData | null = null, // Without it the plausibility report leaves airport and airline codes unchecked
+): { session: GateSession; entry: GateEntry } {
+  const result = parseBCBP(raw);
+  const parsed = result.success ? result.data : undefined;
+  const verdict = checkPass(parsed, session.expected, boardedKeys(session));
+  if (parsed) verdict.plausibility = checkPlausibility(parsed, { reference: scannedAt, referenceData });
+  const entry: GateEntry = { id: session.entries.length + 1, raw, scannedAt, verdict };
+  return { session: { ...session, entries: [entry, ...session.entries] }, entry };
+}
+
+export function sessionCounts(session: GateSession): GateCounts {
+  const accepted = session.entries.filter(e => e.verdict.accepted).length;
+  return {
+    total: session.entries.length,
+    accepted,
+    rejected: session.entries.length - accepted,
+    duplicates: session.entries.filter(e => e.verdict.reasons.some(r => r.code === 'DUPLICATE')).length,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { greatCircleKm, greatCirclePoints, toDistance, estimateBlockMinutes, airportDistanceKm } from './geo';
+
+const LHR = { lat: 51.47, lon: -0.4543 };
+const JFK = { lat: 40.6413, lon: -73.7781 };
+const NRT = { lat: 35.772, lon: 140.3929 };
+const LAX = { lat: 33.9416, lon: -118.4085 };
+
+describe('greatCirclePoints', () => {
+  it('starts and ends at the airports and bends towards the pole', () => {
+    const points = greatCirclePoints(LHR, JFK, 32);
+    expect(points).toHaveLength(33);
+    expect(points[0].lat).toBeCloseTo(LHR.lat, 6);
+    expect(points[32].lon).toBeCloseTo(JFK.lon, 6);
+    expect(Math.max(...points.map(p => p.lat))).toBeGreaterThan(LHR.lat);
+  });
+
+  it('continues past 180° instead of wrapping across the map', () => {
+    const points = greatCirclePoints(NRT, LAX);
+    const steps = points.slice(1).map((p, i) => Math.abs(p.lon - points[i].lon));
+    expect(Math.max(...steps)).toBeLessThan(5);
+    expect(points[points.length - 1].lon).toBeCloseTo(LAX.lon + 360, 6);
+  });
+});
+
+describe('distances', () => {
+  it('converts to miles and nautical miles', () => {
+    const d = toDistance(greatCircleKm(LHR, JFK));
+    expect(d.km).toBeCloseTo(5540, 0);
+    expect(d.mi).toBeCloseTo(d.km / 1.609344, 6);
+    expect(d.nm).toBeCloseTo(d.km / 1.852, 6);
+  });
+
+  it('estimates block time from distance', () => {
+    expect(estimateBlockMinutes(0)).toBe(40);
+    expect(estimateBlockMinutes(5540)).toBe(440);
+  });
+
+  it('measures between airports in the reference data', () => {
+    expect(airportDistanceKm('LHR', 'jfk')).toBeCloseTo(5540, 0);
+    expect(airportDistanceKm('LHR', 'ZZZ')).toBeNull();
+  });
+});
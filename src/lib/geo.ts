@@ -0,0 +1,86 @@
+import { findAirport } from './reference_data';
+
+// --- Types ---
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface Distance {
+  km: number;
+  mi: number;
+  nm: number;
+}
+
+// Mean Earth radius, as used for great-circle route distances
+const EARTH_RADIUS_KM = 6371;
+
+export const KM_PER_MILE = 1.609344;
+export const KM_PER_NAUTICAL_MILE = 1.852;
+
+// Block time is roughly taxi, climb and descent plus the distance at a typical jet's average block speed
+const BLOCK_OVERHEAD_MINUTES = 40;
+const BLOCK_SPEED_KMH = 830;
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// --- Distances ---
+
+// Great-circle distance in km (haversine)
+export function greatCircleKm(a: LatLon, b: LatLon): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Points along the great circle from a to b, both ends included. Longitudes
+ * are unwrapped so the line never jumps at the antimeridian: a route from
+ * Tokyo to Los Angeles runs on past 180 instead of back across the map.
+ */
+export function greatCirclePoints(a: LatLon, b: LatLon, segments: number = 64): LatLon[] {
+  const lat1 = toRadians(a.lat), lon1 = toRadians(a.lon);
+  const lat2 = toRadians(b.lat), lon2 = toRadians(b.lon);
+  const angle = greatCircleKm(a, b) / EARTH_RADIUS_KM;
+  if (angle === 0) return [a, b];
+
+  const points: LatLon[] = [];
+  for (let i = 0; i <= segments; i++) {
+    // Spherical linear interpolation between the two unit vectors
+    const f = i / segments;
+    const p = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const q = Math.sin(f * angle) / Math.sin(angle);
+    const x = p * Math.cos(lat1) * Math.cos(lon1) + q * Math.cos(lat2) * Math.cos(lon2);
+    const y = p * Math.cos(lat1) * Math.sin(lon1) + q * Math.cos(lat2) * Math.sin(lon2);
+    const z = p * Math.sin(lat1) + q * Math.sin(lat2);
+    let lon = toDegrees(Math.atan2(y, x));
+    const prev = points[points.length - 1]?.lon ?? a.lon;
+    lon += 360 * Math.round((prev - lon) / 360);
+    points.push({ lat: toDegrees(Math.atan2(z, Math.hypot(x, y))), lon });
+  }
+  return points;
+}
+
+export function toDistance(km: number): Distance {
+  return { km, mi: km / KM_PER_MILE, nm: km / KM_PER_NAUTICAL_MILE };
+}
+
+// A rough gate-to-gate time in minutes; actual schedules vary with winds and routing
+export function estimateBlockMinutes(km: number): number {
+  return Math.round(BLOCK_OVERHEAD_MINUTES + (km / BLOCK_SPEED_KMH) * 60);
+}
+
+export function airportCoordinates(code: string): LatLon | undefined {
+  const airport = findAirport(code);
+  return airport ? { lat: airport.lat, lon: airport.lon } : undefined;
+}
+
+// Null when either airport isn't in the reference data
+export function airportDistanceKm(from: string, to: string): number | null {
+  const a = airportCoordinates(from);
+  const b = airportCoordinates(to);
+  return a && b ? greatCircleKm(a, b) : null;
+}
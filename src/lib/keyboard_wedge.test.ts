@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { KeyboardWedgeDetector, stripAffixes } from './keyboard_wedge';
+
+// Feeds `text` one key every `gap` ms from `start`, then the terminator
+function type(detector: KeyboardWedgeDetector, text: string, gap: number, start = 0, terminator = 'Enter'): string | null {
+  let t = start;
+  for (const ch of text) {
+    detector.handleKey(ch, t);
+    t += gap;
+  }
+  return detector.handleKey(terminator, t);
+}
+
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+
+describe('Keyboard Wedge', () => {
+  it('captures a fast burst ending in the terminator', () => {
+    expect(type(new KeyboardWedgeDetector(), PASS, 4)).toBe(PASS);
+  });
+
+  it('ignores human typing speed', () => {
+    expect(type(new KeyboardWedgeDetector(), 'hello world', 150)).toBeNull();
+  });
+
+  it('drops keys typed before a pause and keeps the burst after it', () => {
+    const detector = new KeyboardWedgeDetector();
+    detector.handleKey('x', 0);
+    detector.handleKey('y', 10);
+    expect(type(detector, PASS, 4, 2000)).toBe(PASS);
+  });
+
+  it('ignores short bursts and modifier keys', () => {
+    const detector = new KeyboardWedgeDetector();
+    expect(type(detector, 'ab', 2)).toBeNull();
+    expect(detector.handleKey('Shift', 0)).toBeNull();
+  });
+
+  it('strips the configured prefix and suffix', () => {
+    const detector = new KeyboardWedgeDetector({ prefix: ']z0', suffix: '#' });
+    expect(type(detector, `]z0${PASS}#`, 4)).toBe(PASS);
+    expect(stripAffixes('ABC', 'X', 'Y')).toBe('ABC');
+  });
+
+  it('supports Tab and pause-terminated scanners', () => {
+    expect(type(new KeyboardWedgeDetector({ terminator: 'Tab' }), PASS, 4, 0, 'Tab')).toBe(PASS);
+
+    const detector = new KeyboardWedgeDetector({ terminator: 'none' });
+    expect(type(detector, PASS, 4, 0, 'Enter')).toBeNull(); // Enter is just another ignored key here
+    expect(detector.flush(PASS.length * 4 + 20)).toBeNull(); // Still within the burst window
+    expect(detector.flush(PASS.length * 4 + 100)).toBe(PASS);
+  });
+});
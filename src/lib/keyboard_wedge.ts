@@ -0,0 +1,85 @@
+// --- Types ---
+
+// Key the scanner sends after the payload; 'none' relies on the burst going quiet instead
+export type WedgeTerminator = 'Enter' | 'Tab' | 'none';
+
+export interface WedgeOptions {
+  terminator: WedgeTerminator;
+  maxInterKeyMs: number; // Slower than this between keys and it's a person typing
+  minLength: number;     // Shorter bursts are ignored (stray key presses, shortcuts)
+  prefix: string;        // Configured on the scanner; stripped from the payload
+  suffix: string;
+}
+
+export const DEFAULT_WEDGE_OPTIONS: WedgeOptions = {
+  terminator: 'Enter',
+  // USB scanners send a key every few ms, Bluetooth ones every 10-30ms; people rarely go under 80ms
+  maxInterKeyMs: 50,
+  minLength: 8,
+  prefix: '',
+  suffix: '',
+};
+
+// --- Detector ---
+
+/**
+ * Tells scanner bursts apart from typing. Feed it every key with its timestamp;
+ * it returns the payload when a fast burst ends with the terminator, otherwise null.
+ */
+export class KeyboardWedgeDetector {
+  private buffer = '';
+  private lastKeyAt: number | null = null;
+  readonly options: WedgeOptions;
+
+  constructor(options: Partial<WedgeOptions> = {}) {
+    this.options = { ...DEFAULT_WEDGE_OPTIONS, ...options };
+  }
+
+  /**
+   * `key` is a KeyboardEvent.key value. Modifier and navigation keys are ignored.
+   */
+  handleKey(key: string, timestamp: number): string | null {
+    const isTerminator = this.options.terminator !== 'none' && key === this.options.terminator;
+    if (!isTerminator && key.length !== 1) return null;
+
+    // A long pause means whatever came before wasn't part of this burst
+    if (this.lastKeyAt !== null && timestamp - this.lastKeyAt > this.options.maxInterKeyMs) {
+      this.reset();
+    }
+
+    if (isTerminator) return this.take();
+
+    this.buffer += key;
+    this.lastKeyAt = timestamp;
+    return null;
+  }
+
+  /**
+   * For the 'none' terminator: call once keys have stopped arriving. Emits the
+   * burst if it's been quiet for longer than `maxInterKeyMs`.
+   */
+  flush(timestamp: number): string | null {
+    if (this.lastKeyAt === null || timestamp - this.lastKeyAt <= this.options.maxInterKeyMs) return null;
+    return this.take();
+  }
+
+  reset() {
+    this.buffer = '';
+    this.lastKeyAt = null;
+  }
+
+  private take(): string | null {
+    const burst = this.buffer;
+    this.reset();
+    if (burst.length < this.options.minLength) return null;
+    return stripAffixes(burst, this.options.prefix, this.options.suffix);
+  }
+}
+
+// Removes the scanner's configured prefix and suffix when present
+export function stripAffixes(payload: string, prefix: string, suffix: string): string {
+  let result = payload;
+  if (prefix && result.startsWith(prefix)) result = result.substring(prefix.length);
+  if (suffix && result.endsWith(suffix)) result = result.substring(0, result.length - suffix.length);
+  return result;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { parseBCBP } from './bcbp';
+import { readPkpass, buildPassJson, buildPassBundle, formatPassFieldValue, PassJson } from './pkpass';
+
+const RAW = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100';
+const parsed = parseBCBP(RAW).data!;
+
+const pkpass = (passJson: unknown) => zipSync({
+  'pass.json': strToU8(JSON.stringify(passJson)),
+  'icon.png': new Uint8Array([1, 2, 3]),
+});
+
+describe('Wallet passes', () => {
+  it('reads barcode messages and fields from pass.json', () => {
+    const pass = readPkpass(pkpass({
+      organizationName: 'British Airways',
+      barcodes: [
+        { format: 'PKBarcodeFormatAztec', message: RAW, messageEncoding: 'iso-8859-1' },
+        { format: 'PKBarcodeFormatPDF417', message: RAW, messageEncoding: 'iso-8859-1' },
+      ],
+      barcode: { format: 'PKBarcodeFormatPDF417', message: RAW, messageEncoding: 'iso-8859-1' },
+      boardingPass: {
+        transitType: 'PKTransitTypeAir',
+        headerFields: [{ key: 'gate', label: 'GATE', value: 'B32' }],
+        auxiliaryFields: [{ key: 'boarding', label: 'BOARDING', value: '2026-04-17T09:40:00Z', timeStyle: 'PKDateStyleShort', ignoresTimeZone: true }],
+        backFields: [{ key: 'terms', value: 'Gate closes 20 minutes before departure' }],
+      },
+    }));
+
+    expect(pass.organizationName).toBe('British Airways');
+    expect(pass.barcodes.map(b => b.message)).toEqual([RAW]);
+    expect(pass.fields.map(f => [f.label, f.back])).toEqual([['GATE', false], ['BOARDING', false], ['terms', true]]);
+    expect(pass.fields[1].value).toMatch(/9:40|09:40/);
+  });
+
+  it('rejects files that are not passes', () => {
+    expect(() => readPkpass(strToU8('not a zip'))).toThrow(/could not be unzipped/);
+    expect(() => readPkpass(zipSync({ 'other.json': strToU8('{}') }))).toThrow(/pass.json is missing/);
+    expect(() => readPkpass(zipSync({ 'pass.json': strToU8('{') }))).toThrow(/not valid JSON/);
+  });
+
+  it('formats plain values as they are', () => {
+    expect(formatPassFieldValue({ key: 'seat', value: '12A' })).toBe('12A');
+    expect(formatPassFieldValue({ key: 'count', value: 2 })).toBe('2');
+  });
+
+  it('builds a boardingPass pass.json around the scanned string', () => {
+    const pass = buildPassJson(parsed, RAW, 0, undefined, new Date(2026, 0, 1));
+    expect(pass.barcodes).toEqual([{ format: 'PKBarcodeFormatAztec', message: RAW, messageEncoding: 'iso-8859-1' }]);
+    expect(pass.boardingPass!.transitType).toBe('PKTransitTypeAir');
+    expect(pass.boardingPass!.primaryFields!.map(f => f.value)).toEqual(['LHR', 'JFK']);
+    expect(pass.boardingPass!.auxiliaryFields![0].value).toBe('2026-04-17T00:00:00Z');
+    expect(pass.serialNumber).toBe('1234567-BA123-2026-04-17-1');
+    expect(() => buildPassJson(parsed, RAW, 3)).toThrow(/no leg 4/);
+  });
+
+  it('bundles pass.json, icons and a manifest of their hashes', async () => {
+    const pass = buildPassJson(parsed, RAW);
+    const files = unzipSync(await buildPassBundle(pass));
+    expect(Object.keys(files).sort()).toEqual(['icon.png', 'icon@2x.png', 'manifest.json', 'pass.json']);
+    expect((JSON.parse(strFromU8(files['pass.json'])) as PassJson).barcodes![0].message).toBe(RAW);
+    expect(Array.from(files['icon.png'].subarray(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+
+    const manifest = JSON.parse(strFromU8(files['manifest.json']));
+    const digest = await crypto.subtle.digest('SHA-1', files['pass.json']);
+    expect(manifest['pass.json']).toBe(Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join(''));
+
+    // The bundle reads back like any other pass
+    expect(readPkpass(await buildPassBundle(pass)).barcodes[0].message).toBe(RAW);
+  });
+});
@@ -0,0 +1,310 @@
+import { unzipSync, zipSync, zlibSync, strFromU8, strToU8 } from 'fflate';
+import { encodeBCBP, ParsedBcbp } from './bcbp';
+import { resolveBcbpDates } from './bcbp_dates';
+import { getLegTicket, formatTicketNumber } from './bcbp_ticket';
+import { airlineName, findAirport } from './reference_data';
+
+// --- Types ---
+// The parts of Apple's PassKit pass.json format this tool reads and writes.
+
+export type PassBarcodeFormat = 'PKBarcodeFormatQR' | 'PKBarcodeFormatPDF417' | 'PKBarcodeFormatAztec' | 'PKBarcodeFormatCode128';
+
+export interface PassBarcode {
+  format: PassBarcodeFormat;
+  message: string;
+  messageEncoding: string;
+  altText?: string;
+}
+
+export type PassDateStyle = 'PKDateStyleNone' | 'PKDateStyleShort' | 'PKDateStyleMedium' | 'PKDateStyleLong' | 'PKDateStyleFull';
+
+export interface PassField {
+  key: string;
+  label?: string;
+  value: string | number;
+  dateStyle?: PassDateStyle;
+  timeStyle?: PassDateStyle;
+  ignoresTimeZone?: boolean;
+}
+
+export interface PassStructure {
+  transitType?: string;
+  headerFields?: PassField[];
+  primaryFields?: PassField[];
+  secondaryFields?: PassField[];
+  auxiliaryFields?: PassField[];
+  backFields?: PassField[];
+}
+
+export interface PassJson {
+  formatVersion: number;
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  serialNumber: string;
+  organizationName: string;
+  description: string;
+  logoText?: string;
+  foregroundColor?: string;
+  backgroundColor?: string;
+  labelColor?: string;
+  relevantDate?: string;
+  barcodes?: PassBarcode[];
+  barcode?: PassBarcode; // Deprecated single barcode, still found in older passes
+  boardingPass?: PassStructure;
+}
+
+export interface WalletField {
+  key: string;
+  label: string;
+  value: string;
+  back: boolean; // From the back of the pass rather than the front
+}
+
+// What an imported .pkpass contributes next to the decoded barcode
+export interface WalletPass {
+  organizationName?: string;
+  description?: string;
+  transitType?: string;
+  relevantDate?: string;
+  barcodes: PassBarcode[]; // Distinct messages, in pass.json order
+  fields: WalletField[];
+}
+
+// Identifiers Apple assigns to the signing certificate; the signing pipeline fills in the real ones
+export interface PassIdentity {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  organizationName: string;
+}
+
+// --- Constants ---
+
+export const PKPASS_MIME_TYPE = 'application/vnd.apple.pkpass';
+
+export const DEFAULT_PASS_IDENTITY: PassIdentity = {
+  passTypeIdentifier: 'pass.com.example.boarding-pass',
+  teamIdentifier: 'TEAMID0000',
+  organizationName: 'Boarding Pass Tools',
+};
+
+// Scanner format names used elsewhere in the app (see barcode_files)
+const SCANNER_FORMATS: Record<PassBarcodeFormat, string> = {
+  PKBarcodeFormatQR: 'QR_CODE',
+  PKBarcodeFormatPDF417: 'PDF_417',
+  PKBarcodeFormatAztec: 'AZTEC',
+  PKBarcodeFormatCode128: 'CODE_128',
+};
+
+const SECTIONS: Array<[keyof PassStructure, boolean]> = [
+  ['headerFields', false],
+  ['primaryFields', false],
+  ['secondaryFields', false],
+  ['auxiliaryFields', false],
+  ['backFields', true],
+];
+
+const DATE_STYLES: Record<PassDateStyle, Intl.DateTimeFormatOptions['dateStyle'] | undefined> = {
+  PKDateStyleNone: undefined,
+  PKDateStyleShort: 'short',
+  PKDateStyleMedium: 'medium',
+  PKDateStyleLong: 'long',
+  PKDateStyleFull: 'full',
+};
+
+// Brand colours from styles.css
+const COLORS = {
+  foreground: 'rgb(255, 255, 255)',
+  background: 'rgb(26, 26, 26)',
+  label: 'rgb(154, 205, 50)',
+};
+
+// --- Import ---
+
+export function isPkpassFile(file: File): boolean {
+  return file.type === PKPASS_MIME_TYPE || /\.pkpass$/i.test(file.name);
+}
+
+export function scannerFormat(format: string): string | undefined {
+  return SCANNER_FORMATS[format as PassBarcodeFormat];
+}
+
+// Field values are shown as Wallet would: dates through their date/time styles, the rest as-is
+export function formatPassFieldValue(field: PassField): string {
+  if ((field.dateStyle || field.timeStyle) && typeof field.value === 'string') {
+    const date = new Date(field.value);
+    if (!isNaN(date.getTime())) {
+      return date.toLocaleString(undefined, {
+        dateStyle: field.dateStyle ? DATE_STYLES[field.dateStyle] : undefined,
+        timeStyle: field.timeStyle ? DATE_STYLES[field.timeStyle] : undefined,
+        timeZone: field.ignoresTimeZone ? 'UTC' : undefined,
+      });
+    }
+  }
+  return String(field.value);
+}
+
+/**
+ * Reads a .pkpass (a zip archive) and returns its barcode messages and
+ * displayed fields. The signature isn't checked: this is for decoding, not
+ * for trusting the pass.
+ */
+export function readPkpass(data: ArrayBuffer | Uint8Array): WalletPass {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data instanceof Uint8Array ? data : new Uint8Array(data), { filter: f => f.name === 'pass.json' });
+  } catch {
+    throw new Error('Not a valid .pkpass file: it could not be unzipped.');
+  }
+  if (!files['pass.json']) throw new Error('Not a valid .pkpass file: pass.json is missing.');
+
+  let pass: Partial<PassJson>;
+  try {
+    pass = JSON.parse(strFromU8(files['pass.json']).replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('The pass.json in this .pkpass is not valid JSON.');
+  }
+
+  const barcodes: PassBarcode[] = [];
+  for (const barcode of [...(pass.barcodes || []), ...(pass.barcode ? [pass.barcode] : [])]) {
+    if (barcode?.message && !barcodes.some(b => b.message === barcode.message)) barcodes.push(barcode);
+  }
+
+  const structure = pass.boardingPass || {};
+  const fields = SECTIONS.flatMap(([section, back]) => (structure[section] as PassField[] | undefined || [])
+    .filter(f => f && f.value !== undefined && f.value !== '')
+    .map(f => ({ key: f.key, label: f.label || f.key, value: formatPassFieldValue(f), back })));
+
+  return {
+    organizationName: pass.organizationName,
+    description: pass.description,
+    transitType: structure.transitType,
+    relevantDate: pass.relevantDate,
+    barcodes,
+    fields,
+  };
+}
+
+// --- Export ---
+
+const isoDate = (date: Date) => date.toISOString().substring(0, 10);
+
+const cityOf = (code: string) => findAirport(code)?.city || code;
+
+/**
+ * A boardingPass-style pass.json for one leg. The barcode carries the whole
+ * BCBP string, as an airline-issued pass does; Aztec is what Wallet passes
+ * from airlines use.
+ */
+export function buildPassJson(parsed: ParsedBcbp, raw?: string, legIndex: number = 0, identity: PassIdentity = DEFAULT_PASS_IDENTITY, reference: Date = new Date()): PassJson {
+  const leg = parsed.legs[legIndex];
+  if (!leg) throw new Error(`The pass has no leg ${legIndex + 1}.`);
+  const flight = resolveBcbpDates(parsed, reference).legs[legIndex]?.flight;
+  const date = flight ? isoDate(flight.date) : undefined;
+  const ticket = getLegTicket(leg);
+  const carrier = airlineName(leg.operatingCarrier);
+
+  const field = (key: string, label: string, value: string | undefined): PassField[] =>
+    value ? [{ key, label, value }] : [];
+
+  return {
+    formatVersion: 1,
+    ...identity,
+    serialNumber: [leg.pnrCode, `${leg.operatingCarrier}${leg.flightNumber}`, date, leg.sequenceNumber].filter(Boolean).join('-'),
+    description: `Boarding pass ${leg.operatingCarrier}${leg.flightNumber} ${leg.departureAirport}–${leg.arrivalAirport}`,
+    logoText: carrier,
+    foregroundColor: COLORS.foreground,
+    backgroundColor: COLORS.background,
+    labelColor: COLORS.label,
+    barcodes: [{ format: 'PKBarcodeFormatAztec', message: raw ?? encodeBCBP(parsed), messageEncoding: 'iso-8859-1' }],
+    boardingPass: {
+      transitType: 'PKTransitTypeAir',
+      headerFields: field('seat', 'SEAT', leg.seatNumber),
+      primaryFields: [
+        { key: 'origin', label: cityOf(leg.departureAirport), value: leg.departureAirport },
+        { key: 'destination', label: cityOf(leg.arrivalAirport), value: leg.arrivalAirport },
+      ],
+      secondaryFields: [
+        ...field('passenger', 'PASSENGER', parsed.passengerName),
+        ...field('flight', 'FLIGHT', `${leg.operatingCarrier} ${leg.flightNumber}`),
+      ],
+      auxiliaryFields: [
+        ...(date ? [{ key: 'date', label: 'DATE', value: `${date}T00:00:00Z`, dateStyle: 'PKDateStyleMedium' as const, timeStyle: 'PKDateStyleNone' as const, ignoresTimeZone: true }] : []),
+        ...field('class', 'CLASS', leg.compartment?.description || leg.compartment?.code),
+        ...field('sequence', 'SEQ', leg.sequenceNumber),
+      ],
+      backFields: [
+        ...field('pnr', 'Booking reference', leg.pnrCode),
+        ...field('ticket', 'Ticket number', ticket ? formatTicketNumber(ticket) : undefined),
+        ...field('operator', 'Operated by', carrier),
+      ],
+    },
+  };
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = CRC_TABLE[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(strToU8(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// A square PNG of one colour: Wallet refuses passes without an icon, and this stands in until real artwork replaces it
+export function solidPng(size: number, [r, g, b]: [number, number, number]): Uint8Array<ArrayBuffer> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, size);
+  view.setUint32(4, size);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+
+  const row = [0, ...Array.from({ length: size }, () => [r, g, b]).flat()]; // Filter byte, then pixels
+  const pixels = new Uint8Array(Array.from({ length: size }, () => row).flat());
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibSync(pixels)),
+    pngChunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => (png.set(p, offset), offset + p.length), 0);
+  return png;
+}
+
+async function sha1Hex(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Zips pass.json, its images and a manifest.json of SHA-1 hashes: everything
+ * a .pkpass needs except the signature, which the signing pipeline adds.
+ * `assets` replaces or adds images, keyed by file name (e.g. "logo@2x.png").
+ */
+export async function buildPassBundle(pass: PassJson, assets: Record<string, Uint8Array<ArrayBuffer>> = {}): Promise<Uint8Array<ArrayBuffer>> {
+  const files: Record<string, Uint8Array<ArrayBuffer>> = {
+    'pass.json': strToU8(JSON.stringify(pass, null, 2)),
+    'icon.png': solidPng(29, [154, 205, 50]),
+    'icon@2x.png': solidPng(58, [154, 205, 50]),
+    ...assets,
+  };
+
+  const manifest: Record<string, string> = {};
+  for (const [name, bytes] of Object.entries(files)) manifest[name] = await sha1Hex(bytes);
+
+  return zipSync({ ...files, 'manifest.json': strToU8(JSON.stringify(manifest, null, 2)) });
+}
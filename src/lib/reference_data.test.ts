@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { findAirline, findAirport, airlineName, loadReferenceData } from './reference_data';
+
+// Lookups answer from the curated list until loadReferenceData() resolves, so order matters here
+describe('reference data', () => {
+  it('answers from the curated list before the full one loads', () => {
+    expect(findAirport('lhr ')).toMatchObject({ iata: 'LHR', city: 'London' });
+    expect(findAirport('GKA')).toBeUndefined();
+    expect(airlineName('6E')).toBe('6E');
+  });
+
+  it('resolves ICAO carrier codes to the same airline', () => {
+    expect(findAirline('EZY')).toMatchObject({ iata: 'U2', name: 'easyJet' });
+    expect(findAirline('RYR')?.name).toBe('Ryanair');
+    expect(findAirline('BA')).toMatchObject({ icao: 'BAW', alliance: 'oneworld' });
+  });
+
+  it('covers every airport and airline once loaded', async () => {
+    const data = await loadReferenceData();
+    expect(data.airports.size).toBeGreaterThan(5000);
+    expect(loadReferenceData()).toBe(loadReferenceData());
+
+    expect(findAirport('GKA')).toMatchObject({ city: 'Goroka', country: 'Papua New Guinea', timezone: 'Pacific/Port_Moresby' });
+    expect(findAirport('LHR')).toMatchObject({ name: 'Heathrow Airport', icao: 'EGLL', timezone: 'Europe/London' });
+    expect(airlineName('6E')).toBe('IndiGo Airlines');
+    expect(findAirline('EZY')?.iata).toBe('U2');
+  });
+
+  it('prefers curated names and codes over the generated list', async () => {
+    await loadReferenceData();
+    expect(findAirline('AZ')).toMatchObject({ name: 'ITA Airways', icao: 'ITY' });
+    expect(findAirline('ITY')?.iata).toBe('AZ');
+    expect(findAirline('LH')?.alliance).toBe('Star Alliance');
+  });
+});
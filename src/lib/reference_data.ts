@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { AIRLINE_NAMES, AIRLINE_ICAO_CODES, AIRLINE_ALLIANCES, AIRPORT_NAMES, Alliance } from '../data/bcbp_reference';
+import type { AirportRow } from '../data/airports';
+import type { AirlineRow } from '../data/airlines';
+
+export type { Alliance } from '../data/bcbp_reference';
+
+// --- Types ---
+
+export interface AirportInfo {
+  iata: string;
+  icao?: string;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+  timezone?: string; // IANA, e.g. "Europe/London"
+}
+
+export interface AirlineInfo {
+  iata?: string;
+  icao?: string;
+  name: string;
+  country?: string;
+  callsign?: string;
+  alliance?: Alliance;
+}
+
+export interface ReferenceData {
+  airports: Map<string, AirportInfo>;     // By IATA code
+  airlines: Map<string, AirlineInfo>;     // By IATA designator
+  icaoAirlines: Map<string, AirlineInfo>; // By ICAO designator
+}
+
+// --- Curated data ---
+
+// What lookups answer from until the full lists are loaded
+function curatedAirport(iata: string): AirportInfo | undefined {
+  const airport = AIRPORT_NAMES[iata];
+  return airport && { iata, ...airport };
+}
+
+const ICAO_BY_IATA = Object.fromEntries(Object.entries(AIRLINE_ICAO_CODES).map(([icao, iata]) => [iata, icao]));
+
+function curatedAirline(iata: string): AirlineInfo | undefined {
+  const name = AIRLINE_NAMES[iata];
+  return name ? { iata, icao: ICAO_BY_IATA[iata], name, alliance: AIRLINE_ALLIANCES[iata] } : undefined;
+}
+
+// --- Loading ---
+
+const blank = (value: string) => value || undefined;
+
+function buildAirports(rows: AirportRow[]): Map<string, AirportInfo> {
+  const airports = new Map<string, AirportInfo>();
+  for (const [iata, icao, name, city, country, lat, lon, timezone] of rows) {
+    // Curated names are kept current by hand; the generated list supplies ICAO codes and timezones
+    const generated: AirportInfo = { iata, icao: blank(icao), name, city, country, lat, lon, timezone: blank(timezone) };
+    airports.set(iata, { ...generated, ...curatedAirport(iata) });
+  }
+  for (const iata of Object.keys(AIRPORT_NAMES)) {
+    if (!airports.has(iata)) airports.set(iata, curatedAirport(iata)!);
+  }
+  return airports;
+}
+
+function buildAirlines(rows: AirlineRow[]): Pick<ReferenceData, 'airlines' | 'icaoAirlines'> {
+  const airlines = new Map<string, AirlineInfo>();
+  const icaoAirlines = new Map<string, AirlineInfo>();
+  for (const [iata, icao, name, country, callsign] of rows) {
+    const info: AirlineInfo = {
+      iata: blank(iata),
+      icao: (iata && ICAO_BY_IATA[iata]) || blank(icao),
+      name: (iata && AIRLINE_NAMES[iata]) || name,
+      country: blank(country),
+      callsign: blank(callsign),
+      alliance: iata ? AIRLINE_ALLIANCES[iata] : undefined,
+    };
+    // Rows are sorted with the airline in use first when a code was reused
+    if (iata && !airlines.has(iata)) airlines.set(iata, info);
+    if (info.icao && !icaoAirlines.has(info.icao)) icaoAirlines.set(info.icao, info);
+  }
+  for (const iata of Object.keys(AIRLINE_NAMES)) {
+    if (airlines.has(iata)) continue;
+    const info = curatedAirline(iata)!;
+    airlines.set(iata, info);
+    if (info.icao) icaoAirlines.set(info.icao, info);
+  }
+  return { airlines, icaoAirlines };
+}
+
+let loaded: ReferenceData | null = null;
+let loading: Promise<ReferenceData> | null = null;
+
+/**
+ * Loads the full airport and airline lists. They are separate chunks of
+ * several hundred kB, so nothing pulls them in until a lookup wants them;
+ * repeated calls share one load.
+ */
+export function loadReferenceData(): Promise<ReferenceData> {
+  loading ??= Promise.all([import('../data/airports'), import('../data/airlines')]).then(([airports, airlines]) => {
+    loaded = { airports: buildAirports(airports.AIRPORT_ROWS), ...buildAirlines(airlines.AIRLINE_ROWS) };
+    return loaded;
+  });
+  return loading;
+}
+
+/** Re-renders the caller once the full lists are in, starting the load if needed. */
+export function useReferenceData(): ReferenceData | null {
+  const [data, setData] = useState(loaded);
+  useEffect(() => {
+    if (data) return;
+    let cancelled = false;
+    loadReferenceData().then(d => { if (!cancelled) setData(d); }, e => console.warn('Reference data failed to load', e));
+    return () => { cancelled = true; };
+  }, [data]);
+  return data;
+}
+
+// --- Lookups ---
+
+const normalize = (code: string) => code.trim().toUpperCase();
+
+// From the full list once loaded (or the one given), otherwise from the curated hubs
+export function findAirport(code: string, data: ReferenceData | null = loaded): AirportInfo | undefined {
+  const iata = normalize(code);
+  return data ? data.airports.get(iata) : curatedAirport(iata);
+}
+
+/**
+ * Resolves an IATA (2-character) or ICAO (3-letter) airline designator.
+ * BCBP carrier fields hold either, e.g. "U2" or "EZY" for easyJet. Pass
+ * `data` to look up in given lists rather than whatever has loaded so far.
+ */
+export function findAirline(code: string, data: ReferenceData | null = loaded): AirlineInfo | undefined {
+  const designator = normalize(code);
+  if (designator.length === 3) {
+    if (data) return data.icaoAirlines.get(designator);
+    const iata = AIRLINE_ICAO_CODES[designator];
+    return iata ? curatedAirline(iata) : undefined;
+  }
+  return data ? data.airlines.get(designator) : curatedAirline(designator);
+}
+
+// The airline's name, or the code itself when it isn't known
+export const airlineName = (code: string) => findAirline(code)?.name || code;
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { scanBox, defaultScanRegion, cameraConstraint, BOARDING_PASS_FORMATS } from './scanner_config';
+
+describe('Scanner Config', () => {
+  it('picks a wide region when a stacked or linear format is allowed', () => {
+    expect(defaultScanRegion(BOARDING_PASS_FORMATS)).toBe('wide');
+    expect(defaultScanRegion(['aztec', 'qr_code'])).toBe('square');
+  });
+
+  it('sizes the scan box to the viewfinder', () => {
+    expect(scanBox('wide', 600, 400)).toEqual({ width: 540, height: 180 });
+    expect(scanBox('square', 600, 400)).toEqual({ width: 280, height: 280 });
+    // Never below html5-qrcode's 50px minimum
+    expect(scanBox('square', 40, 40)).toEqual({ width: 50, height: 50 });
+  });
+
+  it('maps camera choices to start() arguments', () => {
+    expect(cameraConstraint({ kind: 'facing', facingMode: 'user' })).toEqual({ facingMode: 'user' });
+    expect(cameraConstraint({ kind: 'device', deviceId: 'abc' })).toBe('abc');
+  });
+});
@@ -0,0 +1,94 @@
+import type { Html5QrcodeSupportedFormats } from 'html5-qrcode';
+
+// --- Types ---
+
+export type ScannerFormat =
+  | 'pdf417'
+  | 'aztec'
+  | 'qr_code'
+  | 'data_matrix'
+  | 'code_128'
+  | 'code_39'
+  | 'ean_13'
+  | 'ean_8'
+  | 'upc_a'
+  | 'upc_e'
+  | 'itf'
+  | 'codabar';
+
+// Shape of the scan box drawn over the camera preview
+export type ScanRegion = 'wide' | 'square';
+
+export interface ScanBox {
+  width: number;
+  height: number;
+}
+
+export type CameraChoice =
+  | { kind: 'facing'; facingMode: 'environment' | 'user' }
+  | { kind: 'device'; deviceId: string };
+
+// --- Constants ---
+
+// html5-qrcode enum member for each format
+export const SCANNER_FORMATS: Record<ScannerFormat, keyof typeof Html5QrcodeSupportedFormats> = {
+  pdf417: 'PDF_417',
+  aztec: 'AZTEC',
+  qr_code: 'QR_CODE',
+  data_matrix: 'DATA_MATRIX',
+  code_128: 'CODE_128',
+  code_39: 'CODE_39',
+  ean_13: 'EAN_13',
+  ean_8: 'EAN_8',
+  upc_a: 'UPC_A',
+  upc_e: 'UPC_E',
+  itf: 'ITF',
+  codabar: 'CODABAR',
+};
+
+export const ALL_SCANNER_FORMATS = Object.keys(SCANNER_FORMATS) as ScannerFormat[];
+
+// What boarding passes use: PDF417 on paper, Aztec or QR on phones
+export const BOARDING_PASS_FORMATS: ScannerFormat[] = ['pdf417', 'aztec', 'qr_code'];
+
+export const REAR_CAMERA: CameraChoice = { kind: 'facing', facingMode: 'environment' };
+export const FRONT_CAMERA: CameraChoice = { kind: 'facing', facingMode: 'user' };
+
+// html5-qrcode rejects scan boxes smaller than this
+const MIN_BOX = 50;
+
+// Linear and stacked formats are wide and short; everything else is roughly square
+const WIDE_FORMATS: ScannerFormat[] = ['pdf417', 'code_128', 'code_39', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'itf', 'codabar'];
+
+// --- Helpers ---
+
+export function isWideFormat(format: ScannerFormat): boolean {
+  return WIDE_FORMATS.includes(format);
+}
+
+export function defaultScanRegion(formats: ScannerFormat[]): ScanRegion {
+  return formats.some(isWideFormat) ? 'wide' : 'square';
+}
+
+/**
+ * Scan box for a viewfinder size. The wide box spans most of the preview at
+ * PDF417's roughly 3:1 aspect; the square one suits Aztec and QR.
+ */
+export function scanBox(region: ScanRegion, viewfinderWidth: number, viewfinderHeight: number): ScanBox {
+  if (region === 'wide') {
+    const width = Math.floor(viewfinderWidth * 0.9);
+    const height = Math.min(Math.floor(width / 3), Math.floor(viewfinderHeight * 0.8));
+    return { width: Math.max(width, MIN_BOX), height: Math.max(height, MIN_BOX) };
+  }
+  const side = Math.floor(Math.min(viewfinderWidth, viewfinderHeight) * 0.7);
+  return { width: Math.max(side, MIN_BOX), height: Math.max(side, MIN_BOX) };
+}
+
+// The `start()` argument for a camera choice
+export function cameraConstraint(choice: CameraChoice): string | MediaTrackConstraints {
+  return choice.kind === 'device' ? choice.deviceId : { facingMode: choice.facingMode };
+}
+
+export function cameraKey(choice: CameraChoice): string {
+  return choice.kind === 'device' ? `device:${choice.deviceId}` : `facing:${choice.facingMode}`;
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Route } from './boarding-pass';
+
+// Rendering a barcode needs a real canvas; it isn't what these tests are about
+vi.mock('../../components/BarcodeRenderer', () => ({ default: () => null }));
+
+const BoardingPassTool = Route.options.component!;
+
+// Trailing characters the parser doesn't place, so a select-all edit is kept as typed
+const PASS = 'M1DOE/JOHN            E1234567LHRJFKBA 00123107Y012A00001100' + 'ZZ';
+
+describe('Boarding pass tool', () => {
+  it('keeps the last good parse and the editor open while an edit does not decode', () => {
+    render(<BoardingPassTool />);
+    fireEvent.change(screen.getByTestId('paste-box'), { target: { value: PASS } });
+    fireEvent.click(screen.getByTestId('paste-decode'));
+    fireEvent.click(screen.getByText('Raw Data Inspector'));
+    fireEvent.click(screen.getByTestId('raw-edit-toggle'));
+
+    // Select-all and type: the editor now holds a single character
+    fireEvent.change(screen.getByTestId('raw-editor'), { target: { value: 'X', selectionStart: 1, selectionEnd: 1 } });
+    expect(screen.getByTestId('raw-editor')).toHaveValue('X');
+    expect(screen.getByText(/doesn't decode \(Input too short\)/)).toBeDefined();
+
+    fireEvent.click(screen.getByText('Parsed Data'));
+    expect(screen.getAllByText('DOE/JOHN').length).toBeGreaterThan(0);
+  });
+});
@@ -1,8 +1,18 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useState, useCallback } from 'react'
 import Scanner from '../../components/Scanner'
+import FileScanner from '../../components/FileScanner'
+import KeyboardWedge from '../../components/KeyboardWedge'
+import PasteBox from '../../components/PasteBox'
+import GateValidator from '../../components/GateValidator'
+import PassCompare from '../../components/PassCompare'
+import FlightLogPanel from '../../components/FlightLogPanel'
+import WalletPassCard from '../../components/WalletPassCard'
+import BarcodeRenderer from '../../components/BarcodeRenderer'
+import { BOARDING_PASS_FORMATS } from '../../lib/scanner_config'
 import BcbpViewer from '../../components/BcbpViewer'
-import { parseBCBP, ParsedBcbp, Segment } from '../../lib/bcbp'
+import { parseBCBP, completeSegments, ParsedBcbp, Segment, Diagnostic } from '../../lib/bcbp'
+import { WalletPass } from '../../lib/pkpass'
 
 export const Route = createFileRoute('/tools/boarding-pass')({
   component: BoardingPassTool,
@@ -12,14 +22,22 @@ function BoardingPassTool() {
   const [parsedData, setParsedData] = useState<ParsedBcbp | null>(null);
   const [segments, setSegments] = useState<Segment[] | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [rawScan, setRawScan] = useState<string | null>(null);
+  const [mode, setMode] = useState<'decode' | 'gate' | 'compare'>('decode');
+  // Fields from the last imported .pkpass; shown only while its barcode is the one on screen
+  const [walletPass, setWalletPass] = useState<WalletPass | null>(null);
+  const showWalletPass = walletPass && walletPass.barcodes.some(b => b.message === rawScan);
+  // Set while the pass on screen was changed in the raw inspector; edited passes stay out of the flight log
+  const [edited, setEdited] = useState(false);
 
-  const handleScan = useCallback((decodedText: string) => {
+  const decode = useCallback((decodedText: string) => {
     // Prevent infinite re-renders if same code is scanned repeatedly
     if (decodedText === rawScan) return;
 
     setRawScan(decodedText);
     const result = parseBCBP(decodedText);
+    setDiagnostics(result.diagnostics);
 
     if (result.success && result.data) {
       setParsedData(result.data);
@@ -41,6 +59,26 @@ function BoardingPassTool() {
     }
   }, [rawScan]);
 
+  const handleScan = useCallback((decodedText: string) => {
+    setEdited(false);
+    decode(decodedText);
+  }, [decode]);
+
+  const handleEdit = useCallback((editedText: string) => {
+    setEdited(true);
+    const result = parseBCBP(editedText);
+    if (result.data || !parsedData) {
+      decode(editedText);
+      return;
+    }
+    // Mid-edit text often doesn't decode (e.g. after select-all and typing). Keep the last good
+    // parse on screen so the viewer, and the editor inside it, stay open to finish the edit
+    setRawScan(editedText);
+    setSegments(completeSegments([], editedText));
+    setDiagnostics(result.diagnostics);
+    setError(`The edited pass doesn't decode (${result.error || 'unknown error'}); showing the last version that did.`);
+  }, [decode, parsedData]);
+
   const handleError = useCallback((errorMessage: string) => {
     // Scanner library errors
     console.debug("Scanner error:", errorMessage);
@@ -58,63 +96,119 @@ function BoardingPassTool() {
         <div>
            <h1 className="text-3xl font-bold text-white mb-2">Boarding Pass Scanner</h1>
            <p className="text-gray-400">
-             Scan a boarding pass barcode (PDF417 or Aztec) to decode its contents instantly.
+             Scan a boarding pass barcode (PDF417 or Aztec), or upload a PDF or screenshot, to decode its contents instantly.
            </p>
         </div>
-        <button
-          data-testid="load-sample-btn"
-          onClick={loadSample}
-          className="mt-4 md:mt-0 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded border border-gray-600 transition-colors"
-        >
-          Load Sample
-        </button>
+        {mode === 'decode' && (
+          <button
+            data-testid="load-sample-btn"
+            onClick={loadSample}
+            className="mt-4 md:mt-0 text-sm bg-gray-800 hover:bg-gray-700 text-gray-300 px-3 py-1.5 rounded border border-gray-600 transition-colors"
+          >
+            Load Sample
+          </button>
+        )}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Left Column: Scanner */}
-        <div className="lg:col-span-1 space-y-6">
-           <Scanner onScan={handleScan} onError={handleError} />
-
-           <div className="bg-gray-900 border border-gray-700 p-4 rounded-xl">
-             <h3 className="font-semibold text-brand-accent mb-2">Barcode Types</h3>
-             <ul className="space-y-3 text-sm text-gray-300">
-               <li className="flex items-start">
-                 <span className="mr-2 text-xl">🏁</span>
-                 <span>
-                   <strong>PDF417:</strong> A stacked linear barcode format used in most paper boarding passes.
-                 </span>
-               </li>
-               <li className="flex items-start">
-                 <span className="mr-2 text-xl">▣</span>
-                 <span>
-                   <strong>Aztec:</strong> A 2D matrix barcode (like a QR code) often used for mobile boarding passes.
-                 </span>
-               </li>
-             </ul>
-           </div>
-        </div>
+      <div className="flex space-x-4 border-b border-gray-700 pb-2 mb-8">
+        {(['decode', 'gate', 'compare'] as const).map(m => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`text-sm font-medium pb-2 px-4 transition-colors ${mode === m ? 'text-brand-accent border-b-2 border-brand-accent' : 'text-gray-400 hover:text-white'}`}
+          >
+            {m === 'decode' ? 'Decode' : m === 'gate' ? 'Gate Check' : 'Compare'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'gate' ? <GateValidator /> : mode === 'compare' ? <PassCompare /> : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Left Column: Scanner */}
+          <div className="lg:col-span-1 space-y-6">
+             <Scanner
+               onScan={handleScan}
+               onError={handleError}
+               formats={BOARDING_PASS_FORMATS}
+               hint="Point your camera at a boarding pass barcode."
+             />
+             <FileScanner onScan={handleScan} onWalletPass={setWalletPass} />
+             <KeyboardWedge onScan={handleScan} />
+             <PasteBox onScan={handleScan} />
 
-        {/* Right Column: Results */}
-        <div className="lg:col-span-2">
-           {error && (
-             <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded-xl mb-6">
-               <span className="font-bold">Error: </span> {error}
+             <div className="bg-gray-900 border border-gray-700 p-4 rounded-xl">
+               <h3 className="font-semibold text-brand-accent mb-2">Barcode Types</h3>
+               <ul className="space-y-3 text-sm text-gray-300">
+                 <li className="flex items-start">
+                   <span className="mr-2 text-xl">🏁</span>
+                   <span>
+                     <strong>PDF417:</strong> A stacked linear barcode format used in most paper boarding passes.
+                   </span>
+                 </li>
+                 <li className="flex items-start">
+                   <span className="mr-2 text-xl">▣</span>
+                   <span>
+                     <strong>Aztec:</strong> A 2D matrix barcode (like a QR code) often used for mobile boarding passes.
+                   </span>
+                 </li>
+               </ul>
              </div>
-           )}
+          </div>
+
+          {/* Right Column: Results */}
+          <div className="lg:col-span-2">
+             {error && (
+               <div className="bg-red-900/50 border border-red-500 text-red-200 p-4 rounded-xl mb-6">
+                 <span className="font-bold">Error: </span> {error}
+               </div>
+             )}
+
+             {diagnostics.length > 0 && <DiagnosticsList diagnostics={diagnostics} />}
+
+             {!parsedData && !error && (
+               <div className="h-full flex flex-col items-center justify-center p-12 border-2 border-dashed border-gray-700 rounded-xl text-gray-500 text-center">
+                 <p className="text-4xl mb-4">📷</p>
+                 <p className="text-lg mb-2">Waiting for scan...</p>
+                 <p className="text-sm text-gray-600">Point your camera at a boarding pass, drop in a PDF or screenshot, or use the "Load Sample" button.</p>
+               </div>
+             )}
 
-           {!parsedData && !error && (
-             <div className="h-full flex flex-col items-center justify-center p-12 border-2 border-dashed border-gray-700 rounded-xl text-gray-500 text-center">
-               <p className="text-4xl mb-4">📷</p>
-               <p className="text-lg mb-2">Waiting for scan...</p>
-               <p className="text-sm text-gray-600">Point your camera at a boarding pass or use the "Load Sample" button.</p>
+             {showWalletPass && <WalletPassCard pass={walletPass} />}
+
+             {parsedData && (
+               <BcbpViewer raw={rawScan ?? undefined} parsed={parsedData} segments={segments} diagnostics={diagnostics} onEdit={handleEdit} />
+             )}
+
+             <div className="mt-8">
+               <FlightLogPanel raw={edited ? undefined : rawScan || undefined} parsed={edited ? undefined : parsedData || undefined} />
              </div>
-           )}
 
-           {parsedData && (
-             <BcbpViewer parsed={parsedData} segments={segments} />
-           )}
+             <div className="mt-8">
+               <BarcodeRenderer text={rawScan || undefined} />
+             </div>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   )
 }
+
+const SEVERITY_STYLES: Record<Diagnostic['severity'], string> = {
+  error: 'border-red-500/60 text-red-200',
+  warning: 'border-yellow-500/60 text-yellow-200',
+  info: 'border-blue-500/60 text-blue-200',
+}
+
+function DiagnosticsList({ diagnostics }: { diagnostics: Diagnostic[] }) {
+  return (
+    <ul data-testid="diagnostics" className="mb-6 space-y-2">
+      {diagnostics.map((d, idx) => (
+        <li key={`${d.code}-${d.start}-${idx}`} className={`bg-gray-900 border-l-4 ${SEVERITY_STYLES[d.severity]} px-4 py-2 rounded text-sm`}>
+          <span className="font-mono text-xs uppercase mr-2 opacity-70">{d.code}</span>
+          {d.message}
+          <span className="font-mono text-xs text-gray-500 ml-2">[{d.start}-{d.end}]</span>
+        </li>
+      ))}
+    </ul>
+  )
+}